@@ -2,9 +2,12 @@
 
 import { useParams } from "next/navigation";
 import Link from "next/link";
-import { useAccount, useReadContract } from "wagmi";
-import { assetFactoryAbi, navOracleAbi, rwaTokenAbi, bondTokenAbi, realEstateTokenAbi, commodityTokenAbi } from "@/lib/abi";
-import { FACTORY_ADDRESS } from "@/lib/wagmi";
+import { useAccount } from "wagmi";
+import {
+  useAssetDetail,
+  type AssetMetadata as AssetMetadataData,
+  type AssetSummary,
+} from "@/lib/assets";
 import {
   formatNAV,
   formatTokens,
@@ -18,20 +21,25 @@ import {
 import { InvestRedeemPanel } from "@/components/invest-redeem-panel";
 import { CompliancePanel } from "@/components/compliance-panel";
 import { OraclePanel } from "@/components/oracle-panel";
+import { ActivityPanel } from "@/components/activity-panel";
+import { NavHistoryPanel } from "@/components/nav-history-panel";
+import { ComplianceRoster } from "@/components/compliance-roster";
+import { IssuerConsole } from "@/components/issuer-console";
+import { LiquidityPanel } from "@/components/liquidity-panel";
+import { BondPanel } from "@/components/bond-panel";
+import { RentDistribution } from "@/components/rent-distribution";
+import { ClaimableRent } from "@/components/claimable-rent";
+import { ValuationReconciliation } from "@/components/valuation-reconciliation";
+import { ProofOfReservePanel } from "@/components/proof-of-reserve-panel";
+import { AssetSetupWizard } from "@/components/asset-setup-wizard";
+import { formatBackingRatio } from "@/lib/proof-of-reserve";
 
 export default function AssetDetailPage() {
   const params = useParams();
   const index = Number(params.index);
   const { address } = useAccount();
 
-  // Fetch the deployed asset triplet from factory
-  const { data: assetData, isLoading } = useReadContract({
-    address: FACTORY_ADDRESS,
-    abi: assetFactoryAbi,
-    functionName: "deployedAssets",
-    args: [BigInt(index)],
-    query: { enabled: !isNaN(index) },
-  });
+  const { asset, summary, metadata, isLoading } = useAssetDetail(index, address);
 
   if (isLoading) {
     return (
@@ -41,7 +49,7 @@ export default function AssetDetailPage() {
     );
   }
 
-  if (!assetData) {
+  if (!asset) {
     return (
       <div className="py-20 text-center">
         <p className="text-lg text-slate-400">Asset not found.</p>
@@ -52,12 +60,7 @@ export default function AssetDetailPage() {
     );
   }
 
-  const [tokenAddress, registryAddress, oracleAddress, assetType] =
-    assetData as [string, string, string, string];
-
-  const token = tokenAddress as `0x${string}`;
-  const registry = registryAddress as `0x${string}`;
-  const oracle = oracleAddress as `0x${string}`;
+  const { token, complianceRegistry: registry, navOracle: oracle, assetType } = asset;
 
   return (
     <div>
@@ -70,21 +73,116 @@ export default function AssetDetailPage() {
       </Link>
 
       {/* Header */}
-      <AssetHeader token={token} oracle={oracle} assetType={assetType} userAddress={address} />
+      <AssetHeader token={token} assetType={assetType} summary={summary} userAddress={address} />
+
+      {/* Post-deploy setup (issuer, assets created from this browser) */}
+      {summary && (
+        <div className="mt-6 empty:hidden">
+          <AssetSetupWizard asset={asset} summary={summary} />
+        </div>
+      )}
 
       {/* Main content grid */}
       <div className="mt-8 grid grid-cols-1 gap-6 lg:grid-cols-2">
         {/* Left: Invest/Redeem */}
-        <InvestRedeemSection token={token} oracle={oracle} />
+        <InvestRedeemSection
+          token={token}
+          oracle={oracle}
+          paymentToken={summary?.paymentToken}
+          maturity={
+            metadata?.assetType === "BOND" && metadata.isMatured
+              ? { maturityDate: metadata.maturityDate }
+              : undefined
+          }
+        />
 
         {/* Right: Asset-specific metadata */}
-        <AssetMetadata token={token} assetType={assetType} />
+        <AssetMetadata assetType={assetType} metadata={metadata} />
+      </div>
+
+      {/* Bond coupons and yield */}
+      {metadata?.assetType === "BOND" && summary && (
+        <div className="mt-6">
+          <BondPanel
+            maturityDate={metadata.maturityDate}
+            couponRateBps={metadata.couponRateBps}
+            nav={summary.nav}
+            balance={summary.balance}
+          />
+        </div>
+      )}
+
+      {/* Valuation and rent (real estate only) */}
+      {metadata?.assetType === "REAL_ESTATE" && summary && (
+        <>
+          <div className="mt-6">
+            <ValuationReconciliation
+              tokenAddress={token}
+              oracleAddress={oracle}
+              paymentTokenAddress={summary.paymentToken}
+              totalValuation={metadata.totalValuation}
+              totalSupply={summary.totalSupply}
+              nav={summary.nav}
+            />
+          </div>
+          <div className="mt-6">
+            <ClaimableRent tokenAddress={token} paymentTokenAddress={summary.paymentToken} />
+          </div>
+          <div className="mt-6 empty:hidden">
+            <RentDistribution
+              tokenAddress={token}
+              registryAddress={registry}
+              paymentTokenAddress={summary.paymentToken}
+              totalValuation={metadata.totalValuation}
+              rentalYieldBps={metadata.rentalYieldBps}
+            />
+          </div>
+        </>
+      )}
+
+      {/* Proof of reserve (commodity only) */}
+      {metadata?.assetType === "COMMODITY" && summary && (
+        <div className="mt-6">
+          <ProofOfReservePanel
+            tokenAddress={token}
+            unit={metadata.unit}
+            backingRatio={metadata.backingRatio}
+            totalSupply={summary.totalSupply}
+          />
+        </div>
+      )}
+
+      {/* Reserve coverage */}
+      <div className="mt-6">
+        <LiquidityPanel summary={summary} />
       </div>
 
       {/* Bottom panels */}
       <div className="mt-6 grid grid-cols-1 gap-6 lg:grid-cols-2">
         <CompliancePanel registryAddress={registry} />
-        <OraclePanel oracleAddress={oracle} />
+        <OraclePanel oracleAddress={oracle} totalSupply={summary?.totalSupply} />
+      </div>
+
+      {/* Issuer console (token owner only) */}
+      {summary && (
+        <div className="mt-6 empty:hidden">
+          <IssuerConsole tokenAddress={token} paymentTokenAddress={summary.paymentToken} />
+        </div>
+      )}
+
+      {/* Compliance roster (officer only) */}
+      <div className="mt-6 empty:hidden">
+        <ComplianceRoster registryAddress={registry} tokenAddress={token} />
+      </div>
+
+      {/* NAV history */}
+      <div className="mt-6">
+        <NavHistoryPanel oracleAddress={oracle} />
+      </div>
+
+      {/* Activity history */}
+      <div className="mt-6">
+        <ActivityPanel tokenAddress={token} paymentTokenAddress={summary?.paymentToken} />
       </div>
     </div>
   );
@@ -94,35 +192,17 @@ export default function AssetDetailPage() {
 
 function AssetHeader({
   token,
-  oracle,
   assetType,
+  summary,
   userAddress,
 }: {
   token: `0x${string}`;
-  oracle: `0x${string}`;
   assetType: string;
+  summary?: AssetSummary;
   userAddress?: `0x${string}`;
 }) {
-  const { data: name } = useReadContract({ address: token, abi: rwaTokenAbi, functionName: "name" });
-  const { data: symbol } = useReadContract({ address: token, abi: rwaTokenAbi, functionName: "symbol" });
-  const { data: totalSupply } = useReadContract({ address: token, abi: rwaTokenAbi, functionName: "totalSupply" });
-  const { data: nav } = useReadContract({ address: oracle, abi: navOracleAbi, functionName: "navPerToken" });
-  const { data: owner } = useReadContract({ address: token, abi: rwaTokenAbi, functionName: "owner" });
-  const { data: paused } = useReadContract({ address: token, abi: rwaTokenAbi, functionName: "paused" });
-  const { data: balance } = useReadContract({
-    address: token,
-    abi: rwaTokenAbi,
-    functionName: "balanceOf",
-    args: userAddress ? [userAddress] : undefined,
-    query: { enabled: !!userAddress },
-  });
-  const { data: tokenValue } = useReadContract({
-    address: token,
-    abi: rwaTokenAbi,
-    functionName: "getTokenValue",
-    args: balance && balance > 0n ? [balance] : undefined,
-    query: { enabled: !!balance && balance > 0n },
-  });
+  const balance = summary?.balance;
+  const tokenValue = summary?.balanceValue;
 
   return (
     <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6">
@@ -130,15 +210,15 @@ function AssetHeader({
         <div>
           <div className="flex items-center gap-3">
             <h1 className="text-2xl font-bold text-white">
-              {name ?? "Loading..."}{" "}
-              <span className="text-slate-500">({symbol ?? "..."})</span>
+              {summary?.name ?? "Loading..."}{" "}
+              <span className="text-slate-500">({summary?.symbol ?? "..."})</span>
             </h1>
             <span
               className={`inline-flex rounded-full border px-2.5 py-0.5 text-xs font-medium ${assetTypeBadgeClasses(assetType)}`}
             >
               {assetTypeLabel(assetType)}
             </span>
-            {paused && (
+            {summary?.paused && (
               <span className="inline-flex rounded-full border border-red-500/30 bg-red-500/20 px-2.5 py-0.5 text-xs font-medium text-red-400">
                 Paused
               </span>
@@ -148,15 +228,15 @@ function AssetHeader({
             Token: <span className="font-mono text-slate-400">{token}</span>
           </p>
           <p className="mt-1 text-sm text-slate-500">
-            Owner: <span className="font-mono text-slate-400">{owner ? shortenAddress(owner) : "..."}</span>
+            Owner: <span className="font-mono text-slate-400">{summary ? shortenAddress(summary.owner) : "..."}</span>
           </p>
         </div>
       </div>
 
       {/* Stats Row */}
       <div className="mt-6 grid grid-cols-2 gap-3 sm:grid-cols-4">
-        <StatBox label="NAV / Token" value={nav !== undefined ? formatNAV(nav) : "..."} />
-        <StatBox label="Total Supply" value={totalSupply !== undefined ? formatTokens(totalSupply) : "..."} />
+        <StatBox label="NAV / Token" value={summary ? formatNAV(summary.nav) : "..."} />
+        <StatBox label="Total Supply" value={summary ? formatTokens(summary.totalSupply) : "..."} />
         <StatBox
           label="Your Balance"
           value={userAddress ? (balance !== undefined ? formatTokens(balance) : "...") : "--"}
@@ -186,16 +266,14 @@ function StatBox({ label, value }: { label: string; value: string }) {
 function InvestRedeemSection({
   token,
   oracle,
+  paymentToken,
+  maturity,
 }: {
   token: `0x${string}`;
   oracle: `0x${string}`;
+  paymentToken?: `0x${string}`;
+  maturity?: { maturityDate: bigint };
 }) {
-  const { data: paymentToken } = useReadContract({
-    address: token,
-    abi: rwaTokenAbi,
-    functionName: "paymentToken",
-  });
-
   if (!paymentToken) {
     return (
       <div className="flex items-center justify-center rounded-xl border border-slate-800 bg-slate-900/50 p-12">
@@ -207,91 +285,86 @@ function InvestRedeemSection({
   return (
     <InvestRedeemPanel
       tokenAddress={token}
-      paymentTokenAddress={paymentToken as `0x${string}`}
+      paymentTokenAddress={paymentToken}
       navOracleAddress={oracle}
+      maturity={maturity}
     />
   );
 }
 
 function AssetMetadata({
-  token,
   assetType,
+  metadata,
 }: {
-  token: `0x${string}`;
   assetType: string;
+  metadata?: AssetMetadataData;
 }) {
   return (
     <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6">
       <h3 className="mb-4 text-lg font-semibold text-white">
         {assetTypeLabel(assetType)} Details
       </h3>
-      {assetType === "BOND" && <BondMetadata token={token} />}
-      {assetType === "REAL_ESTATE" && <RealEstateMetadata token={token} />}
-      {assetType === "COMMODITY" && <CommodityMetadata token={token} />}
+      {metadata?.assetType === "BOND" && <BondMetadata metadata={metadata} />}
+      {metadata?.assetType === "REAL_ESTATE" && <RealEstateMetadata metadata={metadata} />}
+      {metadata?.assetType === "COMMODITY" && <CommodityMetadata metadata={metadata} />}
+      {!metadata && (
+        <div className="flex justify-center py-8">
+          <div className="h-6 w-6 animate-spin rounded-full border-2 border-blue-500 border-t-transparent" />
+        </div>
+      )}
     </div>
   );
 }
 
-function BondMetadata({ token }: { token: `0x${string}` }) {
-  const { data: maturityDate } = useReadContract({ address: token, abi: bondTokenAbi, functionName: "maturityDate" });
-  const { data: couponBps } = useReadContract({ address: token, abi: bondTokenAbi, functionName: "couponRateBps" });
-  const { data: faceValue } = useReadContract({ address: token, abi: bondTokenAbi, functionName: "faceValue" });
-  const { data: isMatured } = useReadContract({ address: token, abi: bondTokenAbi, functionName: "isMatured" });
+function BondMetadata({ metadata }: { metadata: Extract<AssetMetadataData, { assetType: "BOND" }> }) {
+  const { maturityDate, couponRateBps, faceValue, isMatured } = metadata;
 
   return (
     <div className="space-y-3">
-      <MetaRow label="Maturity Date" value={maturityDate !== undefined ? formatTimestamp(maturityDate) : "..."} />
+      <MetaRow label="Maturity Date" value={formatTimestamp(maturityDate)} />
       <MetaRow
         label="Status"
         value={
-          isMatured !== undefined ? (
-            <span className={isMatured ? "text-amber-400" : "text-emerald-400"}>
-              {isMatured ? "Matured" : "Active"}
-            </span>
-          ) : (
-            "..."
-          )
+          <span className={isMatured ? "text-amber-400" : "text-emerald-400"}>
+            {isMatured ? "Matured" : "Active"}
+          </span>
         }
       />
-      <MetaRow label="Coupon Rate" value={couponBps !== undefined ? formatBps(couponBps) : "..."} />
-      <MetaRow label="Face Value" value={faceValue !== undefined ? `$${formatUSDC(faceValue)}` : "..."} />
+      <MetaRow label="Coupon Rate" value={formatBps(couponRateBps)} />
+      <MetaRow label="Face Value" value={`$${formatUSDC(faceValue)}`} />
     </div>
   );
 }
 
-function RealEstateMetadata({ token }: { token: `0x${string}` }) {
-  const { data: propertyId } = useReadContract({ address: token, abi: realEstateTokenAbi, functionName: "propertyId" });
-  const { data: jurisdiction } = useReadContract({ address: token, abi: realEstateTokenAbi, functionName: "jurisdiction" });
-  const { data: totalValuation } = useReadContract({ address: token, abi: realEstateTokenAbi, functionName: "totalValuation" });
-  const { data: rentalYieldBps } = useReadContract({ address: token, abi: realEstateTokenAbi, functionName: "rentalYieldBps" });
+function RealEstateMetadata({
+  metadata,
+}: {
+  metadata: Extract<AssetMetadataData, { assetType: "REAL_ESTATE" }>;
+}) {
+  const { propertyId, jurisdiction, totalValuation, rentalYieldBps } = metadata;
 
   return (
     <div className="space-y-3">
-      <MetaRow label="Property ID" value={propertyId ?? "..."} />
-      <MetaRow label="Jurisdiction" value={jurisdiction ?? "..."} />
-      <MetaRow label="Total Valuation" value={totalValuation !== undefined ? `$${formatUSDC(totalValuation)}` : "..."} />
-      <MetaRow label="Rental Yield" value={rentalYieldBps !== undefined ? formatBps(rentalYieldBps) : "..."} />
+      <MetaRow label="Property ID" value={propertyId} />
+      <MetaRow label="Jurisdiction" value={jurisdiction} />
+      <MetaRow label="Total Valuation" value={`$${formatUSDC(totalValuation)}`} />
+      <MetaRow label="Rental Yield" value={formatBps(rentalYieldBps)} />
     </div>
   );
 }
 
-function CommodityMetadata({ token }: { token: `0x${string}` }) {
-  const { data: commodityType } = useReadContract({ address: token, abi: commodityTokenAbi, functionName: "commodityType" });
-  const { data: unit } = useReadContract({ address: token, abi: commodityTokenAbi, functionName: "unit" });
-  const { data: backingRatio } = useReadContract({ address: token, abi: commodityTokenAbi, functionName: "backingRatio" });
+function CommodityMetadata({
+  metadata,
+}: {
+  metadata: Extract<AssetMetadataData, { assetType: "COMMODITY" }>;
+}) {
+  const { commodityType, unit, backingRatio } = metadata;
 
   return (
     <div className="space-y-3">
-      <MetaRow label="Commodity" value={commodityType ?? "..."} />
-      <MetaRow label="Unit" value={unit ?? "..."} />
-      <MetaRow
-        label="Backing Ratio"
-        value={
-          backingRatio !== undefined
-            ? `${(Number(backingRatio) / 1e18).toFixed(4)}:1`
-            : "..."
-        }
-      />
+      <MetaRow label="Commodity" value={commodityType} />
+      <MetaRow label="Unit" value={unit} />
+      <MetaRow label="Backing Ratio" value={formatBackingRatio(backingRatio)} />
     </div>
   );
 }
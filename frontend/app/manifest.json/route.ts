@@ -0,0 +1,18 @@
+// Safe{Wallet} reads this before it will load the app as a custom Safe App,
+// from its own origin, so it needs CORS headers.
+export function GET() {
+  return Response.json(
+    {
+      name: "RWA Protocol",
+      description: "Tokenize real-world assets on-chain: bonds, real estate, and commodities.",
+      iconPath: "favicon.ico",
+    },
+    {
+      headers: {
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Methods": "GET",
+        "Access-Control-Allow-Headers": "X-Requested-With, content-type, Authorization",
+      },
+    }
+  );
+}
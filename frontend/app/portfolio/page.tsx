@@ -0,0 +1,7 @@
+"use client";
+
+import { PortfolioView } from "@/components/portfolio-view";
+
+export default function PortfolioPage() {
+  return <PortfolioView />;
+}
@@ -0,0 +1,42 @@
+import { parseUnits } from "viem";
+import { CliError } from "./context";
+
+/** Option values as parsed by `node:util` parseArgs */
+export type OptionValues = Record<string, string | boolean | string[] | undefined>;
+
+export interface CommandArgs {
+  positionals: string[];
+  values: OptionValues;
+}
+
+export function stringOption(values: OptionValues, name: string): string | undefined {
+  const v = values[name];
+  return typeof v === "string" ? v : undefined;
+}
+
+export function requireOption(values: OptionValues, name: string): string {
+  const v = stringOption(values, name);
+  if (v === undefined || v === "") throw new CliError(`Missing --${name}`);
+  return v;
+}
+
+export function requirePositional(args: CommandArgs, i: number, label: string): string {
+  const v = args.positionals[i];
+  if (v === undefined) throw new CliError(`Missing <${label}>`);
+  return v;
+}
+
+/** Parse a human decimal amount ("1000.5") into base units */
+export function parseAmount(value: string, decimals: number, label: string): bigint {
+  if (!/^\d+(\.\d+)?$/.test(value.trim())) {
+    throw new CliError(`${label}: "${value}" is not a positive decimal number`);
+  }
+  return parseUnits(value.trim(), decimals);
+}
+
+export function parseInteger(value: string, label: string): bigint {
+  if (!/^\d+$/.test(value.trim())) {
+    throw new CliError(`${label}: "${value}" is not a non-negative integer`);
+  }
+  return BigInt(value.trim());
+}
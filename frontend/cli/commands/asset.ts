@@ -0,0 +1,183 @@
+import {
+  ERC20Client,
+  getAssetClients,
+  BondTokenClient,
+  RealEstateTokenClient,
+  CommodityTokenClient,
+  type DeployedAsset,
+} from "../../lib/sdk";
+import {
+  parseAmount,
+  parseInteger,
+  requireOption,
+  requirePositional,
+  stringOption,
+  type CommandArgs,
+} from "../args";
+import { CliError, parseAddress, type CliContext } from "../context";
+
+export async function runAssetCommand(ctx: CliContext, sub: string | undefined, args: CommandArgs) {
+  switch (sub) {
+    case "list":
+      return listAssets(ctx);
+    case "show":
+      return showAsset(ctx, await ctx.asset(stringOption(args.values, "asset")));
+    case "create":
+      return createAsset(ctx, args);
+    default:
+      throw new CliError(`Unknown command: asset ${sub ?? ""}`);
+  }
+}
+
+async function listAssets(ctx: CliContext) {
+  const assets = await ctx.factory.getDeployedAssets();
+  return Promise.all(
+    assets.map(async (asset) => {
+      const { token } = getAssetClients(asset, ctx.clientOptions);
+      const [name, symbol] = await Promise.all([token.name(), token.symbol()]);
+      return { ...asset, name, symbol };
+    })
+  );
+}
+
+async function showAsset(ctx: CliContext, asset: DeployedAsset) {
+  const { token, registry, oracle } = getAssetClients(asset, ctx.clientOptions);
+
+  const [name, symbol, totalSupply, owner, paused, paymentToken, dailyInvestLimit, dailyRedeemLimit] =
+    await Promise.all([
+      token.name(),
+      token.symbol(),
+      token.totalSupply(),
+      token.owner(),
+      token.paused(),
+      token.paymentToken(),
+      token.dailyInvestLimit(),
+      token.dailyRedeemLimit(),
+    ]);
+  const [navPerToken, lastUpdated, maxStaleness, isStale, updater] = await Promise.all([
+    oracle.navPerToken(),
+    oracle.lastUpdated(),
+    oracle.maxStaleness(),
+    oracle.isStale(),
+    oracle.updater(),
+  ]);
+  const complianceOfficer = await registry.owner();
+
+  let details: Record<string, unknown> = {};
+  if (token instanceof BondTokenClient) {
+    const [maturityDate, couponRateBps, faceValue, isMatured] = await Promise.all([
+      token.maturityDate(),
+      token.couponRateBps(),
+      token.faceValue(),
+      token.isMatured(),
+    ]);
+    details = { maturityDate, couponRateBps, faceValue, isMatured };
+  } else if (token instanceof RealEstateTokenClient) {
+    const [propertyId, jurisdiction, totalValuation, rentalYieldBps] = await Promise.all([
+      token.propertyId(),
+      token.jurisdiction(),
+      token.totalValuation(),
+      token.rentalYieldBps(),
+    ]);
+    details = { propertyId, jurisdiction, totalValuation, rentalYieldBps };
+  } else if (token instanceof CommodityTokenClient) {
+    const [commodityType, unit, backingRatio] = await Promise.all([
+      token.commodityType(),
+      token.unit(),
+      token.backingRatio(),
+    ]);
+    details = { commodityType, unit, backingRatio };
+  }
+
+  return {
+    ...asset,
+    name,
+    symbol,
+    totalSupply,
+    owner,
+    paused,
+    paymentToken,
+    dailyInvestLimit,
+    dailyRedeemLimit,
+    oracle: { navPerToken, lastUpdated, maxStaleness, isStale, updater },
+    complianceOfficer,
+    details,
+  };
+}
+
+async function createAsset(ctx: CliContext, args: CommandArgs) {
+  const kind = requirePositional(args, 0, "bond|real-estate|commodity");
+  const { values } = args;
+
+  const paymentToken = parseAddress(
+    stringOption(values, "payment-token") ??
+      process.env.RWA_PAYMENT_TOKEN ??
+      ctx.deployment?.paymentTokens[0]?.address,
+    "--payment-token"
+  );
+  const base = {
+    name: requireOption(values, "name"),
+    symbol: requireOption(values, "symbol"),
+    paymentToken,
+    complianceOfficer: parseAddress(stringOption(values, "officer") ?? ctx.sender, "--officer"),
+    oracleUpdater: parseAddress(stringOption(values, "updater") ?? ctx.sender, "--updater"),
+  };
+  const paymentDecimals = await new ERC20Client(paymentToken, ctx.clientOptions).decimals();
+  const factory = ctx.factory;
+
+  let sent;
+  switch (kind) {
+    case "bond": {
+      const maturityDays = parseInteger(requireOption(values, "maturity-days"), "--maturity-days");
+      const params = {
+        ...base,
+        maturityDate: BigInt(Math.floor(Date.now() / 1000)) + maturityDays * 86400n,
+        couponRateBps: parseInteger(requireOption(values, "coupon-bps"), "--coupon-bps"),
+        faceValue: parseAmount(requireOption(values, "face-value"), paymentDecimals, "--face-value"),
+      };
+      sent = await ctx.executeWithReceipt(
+        "createBond",
+        () => factory.simulateCreateBond(params),
+        () => factory.createBond(params)
+      );
+      break;
+    }
+    case "real-estate": {
+      const params = {
+        ...base,
+        propertyId: requireOption(values, "property-id"),
+        jurisdiction: requireOption(values, "jurisdiction"),
+        totalValuation: parseAmount(requireOption(values, "valuation"), paymentDecimals, "--valuation"),
+        rentalYieldBps: parseInteger(requireOption(values, "yield-bps"), "--yield-bps"),
+      };
+      sent = await ctx.executeWithReceipt(
+        "createRealEstate",
+        () => factory.simulateCreateRealEstate(params),
+        () => factory.createRealEstate(params)
+      );
+      break;
+    }
+    case "commodity": {
+      const params = {
+        ...base,
+        commodityType: requireOption(values, "commodity"),
+        unit: requireOption(values, "unit"),
+        backingRatio: parseAmount(stringOption(values, "backing-ratio") ?? "1", 18, "--backing-ratio"),
+      };
+      sent = await ctx.executeWithReceipt(
+        "createCommodity",
+        () => factory.simulateCreateCommodity(params),
+        () => factory.createCommodity(params)
+      );
+      break;
+    }
+    default:
+      throw new CliError(`Unknown asset type "${kind}" (expected bond, real-estate or commodity)`);
+  }
+
+  const { output, receipt } = sent;
+  // Read from the receipt's AssetCreated log, not the end of the list, which
+  // another creation may already have moved
+  if (receipt?.status !== "success") return output;
+  return { ...output, asset: await factory.getCreatedAsset(receipt) };
+}
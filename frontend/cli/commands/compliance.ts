@@ -0,0 +1,73 @@
+import { readFile } from "node:fs/promises";
+import type { Address } from "viem";
+import { parseAddressList } from "../../lib/address-list";
+import { stringOption, type CommandArgs } from "../args";
+import { CliError, parseAddress, type CliContext } from "../context";
+
+export async function runComplianceCommand(ctx: CliContext, sub: string | undefined, args: CommandArgs) {
+  const { registry } = await ctx.assetClients(stringOption(args.values, "asset"));
+
+  switch (sub) {
+    case "status": {
+      const account = parseAddress(args.positionals[0], "<address>");
+      const [isWhitelisted, isFrozen, isEligible] = await Promise.all([
+        registry.isWhitelisted(account),
+        registry.isFrozen(account),
+        registry.isEligible(account),
+      ]);
+      return { registry: registry.address, account, isWhitelisted, isFrozen, isEligible };
+    }
+    case "whitelist": {
+      const accounts = await readAccounts(args);
+      return ctx.execute(
+        "addToWhitelist",
+        () => registry.simulateAddToWhitelist(accounts),
+        () => registry.addToWhitelist(accounts)
+      ).then((r) => ({ ...r, accounts }));
+    }
+    case "unwhitelist": {
+      const accounts = await readAccounts(args);
+      return ctx.execute(
+        "removeFromWhitelist",
+        () => registry.simulateRemoveFromWhitelist(accounts),
+        () => registry.removeFromWhitelist(accounts)
+      ).then((r) => ({ ...r, accounts }));
+    }
+    case "freeze": {
+      const accounts = await readAccounts(args);
+      return ctx.execute(
+        "freezeAddress",
+        () => registry.simulateFreezeAddress(accounts),
+        () => registry.freezeAddress(accounts)
+      ).then((r) => ({ ...r, accounts }));
+    }
+    case "unfreeze": {
+      const accounts = await readAccounts(args);
+      return ctx.execute(
+        "unfreezeAddress",
+        () => registry.simulateUnfreezeAddress(accounts),
+        () => registry.unfreezeAddress(accounts)
+      ).then((r) => ({ ...r, accounts }));
+    }
+    default:
+      throw new CliError(`Unknown command: compliance ${sub ?? ""}`);
+  }
+}
+
+/** Addresses from positionals and/or a `--file` CSV (first column) */
+async function readAccounts(args: CommandArgs): Promise<Address[]> {
+  const file = stringOption(args.values, "file");
+  const text = [
+    ...args.positionals,
+    ...(file ? [await readFile(file, "utf8")] : []),
+  ].join("\n");
+
+  const { addresses, invalid } = parseAddressList(text);
+  if (invalid.length > 0) {
+    throw new CliError(
+      `Invalid addresses: ${invalid.map((e) => `line ${e.line} "${e.value}"`).join(", ")}`
+    );
+  }
+  if (addresses.length === 0) throw new CliError("No addresses given (pass them as arguments or --file)");
+  return addresses;
+}
@@ -0,0 +1,73 @@
+import { readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import {
+  deploymentFromBroadcast,
+  parseDeployments,
+  type DeploymentEntry,
+  type DeploymentRegistry,
+} from "../../lib/deployments";
+import { requirePositional, stringOption, type CommandArgs } from "../args";
+import { CliError } from "../context";
+
+/** The registry the app reads, next to package.json */
+const REGISTRY_PATH = path.resolve(__dirname, "../../deployments.json");
+
+async function readRegistry(): Promise<DeploymentRegistry> {
+  try {
+    return JSON.parse(await readFile(REGISTRY_PATH, "utf8")) as DeploymentRegistry;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return {};
+    throw new CliError(`${REGISTRY_PATH}: ${(err as Error).message}`);
+  }
+}
+
+/** Registry commands work on the local deployments.json and need no RPC */
+export async function runDeploymentsCommand(sub: string | undefined, args: CommandArgs) {
+  switch (sub) {
+    case "list":
+      return parseDeployments(await readRegistry());
+    case "import": {
+      const file = requirePositional(args, 0, "run-latest.json");
+      let imported: ReturnType<typeof deploymentFromBroadcast>;
+      try {
+        imported = deploymentFromBroadcast(await readFile(file, "utf8"));
+      } catch (err) {
+        throw new CliError(`${file}: ${(err as Error).message}`);
+      }
+
+      const registry = await readRegistry();
+      const key = String(imported.chainId);
+      const existing = registry[key];
+      // A redeploy replaces the factory and mock USDC but keeps any other
+      // payment tokens, the trusted custodians and the RPC / explorer settings
+      const paymentTokens = [
+        ...imported.entry.paymentTokens,
+        ...(existing?.paymentTokens ?? []).filter(
+          (t) => !imported.entry.paymentTokens.some((p) => p.address.toLowerCase() === t.address.toLowerCase())
+        ),
+      ];
+      const entry: DeploymentEntry = JSON.parse(
+        JSON.stringify({
+          name: stringOption(args.values, "name") ?? existing?.name,
+          factory: imported.entry.factory,
+          paymentTokens,
+          deployBlock: imported.entry.deployBlock,
+          rpcUrl: stringOption(args.values, "rpc-url") ?? existing?.rpcUrl,
+          explorerUrl: stringOption(args.values, "explorer-url") ?? existing?.explorerUrl,
+          custodians: existing?.custodians,
+        })
+      );
+
+      const updated = { ...registry, [key]: entry };
+      try {
+        parseDeployments(updated);
+      } catch (err) {
+        throw new CliError((err as Error).message);
+      }
+      await writeFile(REGISTRY_PATH, JSON.stringify(updated, null, 2) + "\n");
+      return { chainId: imported.chainId, ...entry, registry: REGISTRY_PATH };
+    }
+    default:
+      throw new CliError(`Unknown command: deployments ${sub ?? ""}`);
+  }
+}
@@ -0,0 +1,46 @@
+import { parseAmount, parseInteger, requirePositional, stringOption, type CommandArgs } from "../args";
+import { CliError, parseAddress, type CliContext } from "../context";
+
+export async function runOracleCommand(ctx: CliContext, sub: string | undefined, args: CommandArgs) {
+  const { oracle } = await ctx.assetClients(stringOption(args.values, "asset"));
+
+  switch (sub) {
+    case "status": {
+      const [navPerToken, lastUpdated, maxStaleness, isStale, updater, owner] = await Promise.all([
+        oracle.navPerToken(),
+        oracle.lastUpdated(),
+        oracle.maxStaleness(),
+        oracle.isStale(),
+        oracle.updater(),
+        oracle.owner(),
+      ]);
+      return { oracle: oracle.address, navPerToken, lastUpdated, maxStaleness, isStale, updater, owner };
+    }
+    case "update-nav": {
+      const nav = parseAmount(requirePositional(args, 0, "nav"), 18, "<nav>");
+      return ctx.execute(
+        "updateNAV",
+        () => oracle.simulateUpdateNAV(nav),
+        () => oracle.updateNAV(nav)
+      ).then((r) => ({ ...r, navPerToken: nav }));
+    }
+    case "set-updater": {
+      const updater = parseAddress(args.positionals[0], "<address>");
+      return ctx.execute(
+        "setUpdater",
+        () => oracle.simulateSetUpdater(updater),
+        () => oracle.setUpdater(updater)
+      ).then((r) => ({ ...r, updater }));
+    }
+    case "set-max-staleness": {
+      const seconds = parseInteger(requirePositional(args, 0, "seconds"), "<seconds>");
+      return ctx.execute(
+        "setMaxStaleness",
+        () => oracle.simulateSetMaxStaleness(seconds),
+        () => oracle.setMaxStaleness(seconds)
+      ).then((r) => ({ ...r, maxStaleness: seconds }));
+    }
+    default:
+      throw new CliError(`Unknown command: oracle ${sub ?? ""}`);
+  }
+}
@@ -0,0 +1,89 @@
+import { ERC20Client } from "../../lib/sdk";
+import { parseAmount, requirePositional, stringOption, type CommandArgs } from "../args";
+import { CliError, parseAddress, type CliContext } from "../context";
+
+export async function runTokenCommand(ctx: CliContext, sub: string | undefined, args: CommandArgs) {
+  const { token } = await ctx.assetClients(stringOption(args.values, "asset"));
+
+  // Payment token decimals, for amounts denominated in e.g. USDC
+  const paymentDecimals = async () =>
+    new ERC20Client(await token.paymentToken(), ctx.clientOptions).decimals();
+
+  switch (sub) {
+    case "balance": {
+      const account = parseAddress(args.positionals[0] ?? ctx.sender, "<address>");
+      const balance = await token.balanceOf(account);
+      return { token: token.address, account, balance, value: await token.getTokenValue(balance) };
+    }
+    case "mint": {
+      const to = parseAddress(args.positionals[0], "<to>");
+      const amount = parseAmount(requirePositional(args, 1, "amount"), 18, "<amount>");
+      return ctx.execute("mint", () => token.simulateMint(to, amount), () => token.mint(to, amount))
+        .then((r) => ({ ...r, to, amount }));
+    }
+    case "burn": {
+      const from = parseAddress(args.positionals[0], "<from>");
+      const amount = parseAmount(requirePositional(args, 1, "amount"), 18, "<amount>");
+      return ctx.execute("burn", () => token.simulateBurn(from, amount), () => token.burn(from, amount))
+        .then((r) => ({ ...r, from, amount }));
+    }
+    case "pause":
+      return ctx.execute("pause", () => token.simulatePause(), () => token.pause());
+    case "unpause":
+      return ctx.execute("unpause", () => token.simulateUnpause(), () => token.unpause());
+    case "set-invest-limit": {
+      // Payment token units; 0 = unlimited
+      const limit = parseAmount(requirePositional(args, 0, "limit"), await paymentDecimals(), "<limit>");
+      return ctx.execute(
+        "setDailyInvestLimit",
+        () => token.simulateSetDailyInvestLimit(limit),
+        () => token.setDailyInvestLimit(limit)
+      ).then((r) => ({ ...r, limit }));
+    }
+    case "set-redeem-limit": {
+      // Token units; 0 = unlimited
+      const limit = parseAmount(requirePositional(args, 0, "limit"), 18, "<limit>");
+      return ctx.execute(
+        "setDailyRedeemLimit",
+        () => token.simulateSetDailyRedeemLimit(limit),
+        () => token.setDailyRedeemLimit(limit)
+      ).then((r) => ({ ...r, limit }));
+    }
+    case "withdraw": {
+      const to = parseAddress(args.positionals[0], "<to>");
+      const amount = parseAmount(requirePositional(args, 1, "amount"), await paymentDecimals(), "<amount>");
+      return ctx.execute(
+        "withdrawPaymentTokens",
+        () => token.simulateWithdrawPaymentTokens(to, amount),
+        () => token.withdrawPaymentTokens(to, amount)
+      ).then((r) => ({ ...r, to, amount }));
+    }
+    case "deposit": {
+      const payment = new ERC20Client(await token.paymentToken(), ctx.clientOptions);
+      const amount = parseAmount(requirePositional(args, 0, "amount"), await payment.decimals(), "<amount>");
+      // depositPaymentTokens pulls via transferFrom, so approve the shortfall first
+      const allowance = await payment.allowance(ctx.sender, token.address);
+      let approval;
+      if (allowance < amount) {
+        approval = await ctx.execute(
+          "approve",
+          () => payment.simulateApprove(token.address, amount),
+          () => payment.approve(token.address, amount)
+        );
+        // Simulating the deposit would revert without the allowance in place
+        if (ctx.dryRun) return { approval, action: "depositPaymentTokens", skipped: "needs approval first", amount };
+        if (approval.status !== "success") {
+          return { approval, action: "depositPaymentTokens", skipped: "approval reverted", amount };
+        }
+      }
+      const deposit = await ctx.execute(
+        "depositPaymentTokens",
+        () => token.simulateDepositPaymentTokens(amount),
+        () => token.depositPaymentTokens(amount)
+      );
+      return { ...deposit, amount, approval };
+    }
+    default:
+      throw new CliError(`Unknown command: token ${sub ?? ""}`);
+  }
+}
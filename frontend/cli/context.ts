@@ -0,0 +1,210 @@
+import {
+  createPublicClient,
+  createWalletClient,
+  defineChain,
+  getAddress,
+  http,
+  isAddress,
+  type Account,
+  type Address,
+  type Chain,
+  type Hash,
+  type PublicClient,
+  type WalletClient,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { foundry, mainnet, sepolia } from "viem/chains";
+import {
+  AssetFactoryClient,
+  getAssetClients,
+  type ClientOptions,
+  type DeployedAsset,
+} from "../lib/sdk";
+import { getDeployment, type Deployment } from "../lib/deployments";
+import { decryptKeystore } from "./keystore";
+
+export interface GlobalOptions {
+  rpcUrl: string;
+  factory?: string;
+  privateKey?: string;
+  keystore?: string;
+  password?: string;
+  from?: string;
+  dryRun: boolean;
+}
+
+/** A user-facing CLI error: printed as `{ "error": message }` without a stack */
+export class CliError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CliError";
+  }
+}
+
+const KNOWN_CHAINS: Chain[] = [foundry, sepolia, mainnet];
+
+async function resolveChain(rpcUrl: string): Promise<Chain> {
+  const probe = createPublicClient({ transport: http(rpcUrl) });
+  const chainId = await probe.getChainId();
+  return (
+    KNOWN_CHAINS.find((c) => c.id === chainId) ??
+    defineChain({
+      id: chainId,
+      name: `chain-${chainId}`,
+      nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+      rpcUrls: { default: { http: [rpcUrl] } },
+    })
+  );
+}
+
+async function resolveAccount(opts: GlobalOptions): Promise<Account | Address | undefined> {
+  if (opts.privateKey) {
+    return privateKeyToAccount(opts.privateKey as `0x${string}`);
+  }
+  if (opts.keystore) {
+    if (opts.password === undefined) {
+      throw new CliError("--keystore needs a password (--password or RWA_KEYSTORE_PASSWORD)");
+    }
+    return privateKeyToAccount(await decryptKeystore(opts.keystore, opts.password));
+  }
+  // An unsigned sender is enough to simulate
+  if (opts.from) return parseAddress(opts.from, "--from");
+  return undefined;
+}
+
+export class CliContext {
+  readonly publicClient: PublicClient;
+  readonly walletClient?: WalletClient;
+  readonly dryRun: boolean;
+  /** The registry entry for the RPC's chain, if there is one */
+  readonly deployment?: Deployment;
+  private readonly factoryAddress?: Address;
+
+  private constructor(
+    publicClient: PublicClient,
+    walletClient: WalletClient | undefined,
+    chain: Chain,
+    opts: GlobalOptions
+  ) {
+    this.publicClient = publicClient;
+    this.walletClient = walletClient;
+    this.dryRun = opts.dryRun;
+    this.deployment = getDeployment(chain.id);
+    this.factoryAddress = opts.factory
+      ? parseAddress(opts.factory, "--factory")
+      : this.deployment?.factory;
+  }
+
+  static async create(opts: GlobalOptions): Promise<CliContext> {
+    const chain = await resolveChain(opts.rpcUrl);
+    const transport = http(opts.rpcUrl);
+    const publicClient = createPublicClient({ chain, transport }) as PublicClient;
+    const account = await resolveAccount(opts);
+    const walletClient = account
+      ? createWalletClient({ chain, transport, account })
+      : undefined;
+    return new CliContext(publicClient, walletClient, chain, opts);
+  }
+
+  get clientOptions(): ClientOptions {
+    return { publicClient: this.publicClient, walletClient: this.walletClient };
+  }
+
+  /** Address that signs (or, with --from, simulates) transactions */
+  get sender(): Address {
+    const account = this.walletClient?.account;
+    if (!account) {
+      throw new CliError("No signer: pass --private-key, --keystore or (with --dry-run) --from");
+    }
+    return account.address;
+  }
+
+  get factory(): AssetFactoryClient {
+    if (!this.factoryAddress) {
+      throw new CliError(
+        "No factory address: pass --factory, set RWA_FACTORY_ADDRESS or import this chain with `deployments import`"
+      );
+    }
+    return new AssetFactoryClient(this.factoryAddress, this.clientOptions);
+  }
+
+  async asset(index: string | undefined): Promise<DeployedAsset> {
+    if (index === undefined) throw new CliError("Missing --asset <index>");
+    const i = Number(index);
+    const count = Number(await this.factory.getDeployedAssetsCount());
+    if (!Number.isInteger(i) || i < 0 || i >= count) {
+      throw new CliError(`Asset index ${index} out of range (factory has ${count} assets)`);
+    }
+    return this.factory.getDeployedAsset(i);
+  }
+
+  async assetClients(index: string | undefined) {
+    const asset = await this.asset(index);
+    return { asset, ...getAssetClients(asset, this.clientOptions) };
+  }
+
+  /**
+   * Run a contract write. In --dry-run mode only the simulation runs and its
+   * result is returned; otherwise the simulated request is signed and mined.
+   * A mined revert sets the exit code to 1.
+   */
+  async execute<TResult>(
+    action: string,
+    simulate: () => Promise<{ result: TResult }>,
+    send: () => Promise<Hash>
+  ) {
+    return (await this.executeWithReceipt(action, simulate, send)).output;
+  }
+
+  /** `execute`, plus the mined receipt (undefined in --dry-run mode) for commands that read its logs */
+  async executeWithReceipt<TResult>(
+    action: string,
+    simulate: () => Promise<{ result: TResult }>,
+    send: () => Promise<Hash>
+  ) {
+    if (!this.walletClient?.account) {
+      throw new CliError("No signer: pass --private-key, --keystore or (with --dry-run) --from");
+    }
+    if (this.dryRun) {
+      const { result } = await simulate();
+      return { output: { action, dryRun: true, from: this.sender, result }, receipt: undefined };
+    }
+    if (this.walletClient.account.type === "json-rpc") {
+      throw new CliError("--from can only be used with --dry-run");
+    }
+    const hash = await send();
+    const receipt = await this.publicClient.waitForTransactionReceipt({ hash });
+    // Still print the receipt, but let scripts see the revert
+    if (receipt.status === "reverted") process.exitCode = 1;
+    return {
+      output: {
+        action,
+        dryRun: false,
+        from: this.sender,
+        hash,
+        status: receipt.status,
+        blockNumber: receipt.blockNumber,
+        gasUsed: receipt.gasUsed,
+      },
+      receipt,
+    };
+  }
+}
+
+export function parseAddress(value: string | undefined, label: string): Address {
+  if (!value || !isAddress(value, { strict: false })) {
+    throw new CliError(`${label}: invalid address "${value ?? ""}"`);
+  }
+  return getAddress(value);
+}
+
+/** JSON.stringify that prints bigints as decimal strings */
+export function printJson(value: unknown) {
+  console.log(
+    JSON.stringify(
+      value,
+      (_, v) => (typeof v === "bigint" ? v.toString() : v),
+      2
+    )
+  );
+}
@@ -0,0 +1,131 @@
+// Headless issuer CLI. Run with `npm run rwa -- <command>`; every command
+// prints JSON to stdout so it can be piped into jq or other scripts.
+
+import { parseArgs } from "node:util";
+import { CliContext, CliError, printJson } from "./context";
+import type { CommandArgs } from "./args";
+import { runAssetCommand } from "./commands/asset";
+import { runComplianceCommand } from "./commands/compliance";
+import { runDeploymentsCommand } from "./commands/deployments";
+import { runOracleCommand } from "./commands/oracle";
+import { runTokenCommand } from "./commands/token";
+import { formatContractError } from "../lib/errors";
+
+const USAGE = `Usage: rwa <group> <command> [args] [options]
+
+Deployments (deployments.json, read by the app and as CLI defaults)
+  deployments list
+  deployments import <run-latest.json> [--name] [--rpc-url] [--explorer-url]
+      e.g. ../contracts/broadcast/Deploy.s.sol/31337/run-latest.json
+
+Assets
+  asset list
+  asset show --asset <i>
+  asset create bond        --name --symbol --maturity-days --coupon-bps --face-value
+  asset create real-estate --name --symbol --property-id --jurisdiction --valuation --yield-bps
+  asset create commodity   --name --symbol --commodity --unit [--backing-ratio 1]
+      [--payment-token <addr>] [--officer <addr>] [--updater <addr>]   (default: signer)
+
+Compliance (--asset <i>)
+  compliance status <address>
+  compliance whitelist|unwhitelist|freeze|unfreeze [address...] [--file investors.csv]
+
+Oracle (--asset <i>)
+  oracle status
+  oracle update-nav <nav>              e.g. 1.0523
+  oracle set-updater <address>
+  oracle set-max-staleness <seconds>
+
+Token (--asset <i>)
+  token balance [address]
+  token mint <to> <amount> | burn <from> <amount>
+  token pause | unpause
+  token set-invest-limit <usdc> | set-redeem-limit <tokens>   (0 = unlimited)
+  token withdraw <to> <usdc> | deposit <usdc>
+
+Options
+  --rpc-url <url>        RPC endpoint (RWA_RPC_URL, default http://127.0.0.1:8545)
+  --factory <addr>       AssetFactory proxy (RWA_FACTORY_ADDRESS, default: deployments.json)
+  --private-key <hex>    Signing key (RWA_PRIVATE_KEY)
+  --keystore <path>      Encrypted JSON keystore, e.g. from \`cast wallet import\`
+  --password <pw>        Keystore password (RWA_KEYSTORE_PASSWORD)
+  --from <addr>          Simulate as this address (with --dry-run, no key needed)
+  --dry-run              Simulate writes without sending transactions
+`;
+
+const OPTIONS = {
+  "rpc-url": { type: "string" },
+  factory: { type: "string" },
+  "private-key": { type: "string" },
+  keystore: { type: "string" },
+  password: { type: "string" },
+  from: { type: "string" },
+  "dry-run": { type: "boolean", default: false },
+  help: { type: "boolean", short: "h", default: false },
+  asset: { type: "string" },
+  file: { type: "string" },
+  // deployments import
+  "explorer-url": { type: "string" },
+  // asset create
+  name: { type: "string" },
+  symbol: { type: "string" },
+  "payment-token": { type: "string" },
+  officer: { type: "string" },
+  updater: { type: "string" },
+  "maturity-days": { type: "string" },
+  "coupon-bps": { type: "string" },
+  "face-value": { type: "string" },
+  "property-id": { type: "string" },
+  jurisdiction: { type: "string" },
+  valuation: { type: "string" },
+  "yield-bps": { type: "string" },
+  commodity: { type: "string" },
+  unit: { type: "string" },
+  "backing-ratio": { type: "string" },
+} as const;
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    args: process.argv.slice(2),
+    options: OPTIONS,
+    allowPositionals: true,
+  });
+
+  const [group, sub, ...rest] = positionals;
+  if (values.help || !group) {
+    process.stdout.write(USAGE);
+    return;
+  }
+  if (group === "deployments") {
+    return printJson(await runDeploymentsCommand(sub, { positionals: rest, values }));
+  }
+
+  const ctx = await CliContext.create({
+    rpcUrl: values["rpc-url"] ?? process.env.RWA_RPC_URL ?? "http://127.0.0.1:8545",
+    factory: values.factory ?? process.env.RWA_FACTORY_ADDRESS,
+    privateKey: values["private-key"] ?? process.env.RWA_PRIVATE_KEY,
+    keystore: values.keystore,
+    password: values.password ?? process.env.RWA_KEYSTORE_PASSWORD,
+    from: values.from,
+    dryRun: values["dry-run"],
+  });
+  const args: CommandArgs = { positionals: rest, values };
+
+  switch (group) {
+    case "asset":
+      return printJson(await runAssetCommand(ctx, sub, args));
+    case "compliance":
+      return printJson(await runComplianceCommand(ctx, sub, args));
+    case "oracle":
+      return printJson(await runOracleCommand(ctx, sub, args));
+    case "token":
+      return printJson(await runTokenCommand(ctx, sub, args));
+    default:
+      throw new CliError(`Unknown command group "${group}". Run with --help for usage.`);
+  }
+}
+
+main().catch((err: unknown) => {
+  printJson({ error: formatContractError(err) });
+  process.exitCode = 1;
+});
@@ -0,0 +1,66 @@
+import { readFile } from "node:fs/promises";
+import { createDecipheriv, pbkdf2Sync, scryptSync } from "node:crypto";
+import { keccak256, toHex, type Hex } from "viem";
+
+// Decrypts a Web3 Secret Storage (v3) keystore, the format written by
+// `cast wallet import` and geth.
+
+interface KeystoreV3 {
+  version: number;
+  crypto: {
+    cipher: string;
+    ciphertext: string;
+    cipherparams: { iv: string };
+    kdf: "scrypt" | "pbkdf2";
+    kdfparams: {
+      dklen: number;
+      salt: string;
+      n?: number;
+      r?: number;
+      p?: number;
+      c?: number;
+      prf?: string;
+    };
+    mac: string;
+  };
+}
+
+export async function decryptKeystore(path: string, password: string): Promise<Hex> {
+  const json = JSON.parse(await readFile(path, "utf8")) as KeystoreV3 & { Crypto?: KeystoreV3["crypto"] };
+  const crypto = json.crypto ?? json.Crypto;
+  if (json.version !== 3 || !crypto) throw new Error(`Unsupported keystore: ${path}`);
+  if (crypto.cipher !== "aes-128-ctr") throw new Error(`Unsupported keystore cipher: ${crypto.cipher}`);
+
+  const { kdfparams } = crypto;
+  const salt = Buffer.from(kdfparams.salt, "hex");
+  let derivedKey: Buffer;
+  if (crypto.kdf === "scrypt") {
+    const n = kdfparams.n!;
+    const r = kdfparams.r!;
+    derivedKey = scryptSync(password, salt, kdfparams.dklen, {
+      N: n,
+      r,
+      p: kdfparams.p!,
+      maxmem: 128 * n * r * 2,
+    });
+  } else if (crypto.kdf === "pbkdf2") {
+    if (kdfparams.prf !== "hmac-sha256") throw new Error(`Unsupported keystore prf: ${kdfparams.prf}`);
+    derivedKey = pbkdf2Sync(password, salt, kdfparams.c!, kdfparams.dklen, "sha256");
+  } else {
+    throw new Error(`Unsupported keystore kdf: ${crypto.kdf}`);
+  }
+
+  const ciphertext = Buffer.from(crypto.ciphertext, "hex");
+  const mac = keccak256(Buffer.concat([derivedKey.subarray(16, 32), ciphertext]));
+  if (mac.slice(2) !== crypto.mac.toLowerCase()) {
+    throw new Error("Keystore password is incorrect");
+  }
+
+  const decipher = createDecipheriv(
+    "aes-128-ctr",
+    derivedKey.subarray(0, 16),
+    Buffer.from(crypto.cipherparams.iv, "hex")
+  );
+  const privateKey = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  return toHex(privateKey);
+}
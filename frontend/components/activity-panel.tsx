@@ -0,0 +1,202 @@
+"use client";
+
+import { useState } from "react";
+import { useAccount, useReadContracts } from "wagmi";
+import { erc20Abi, rwaTokenAbi } from "@/lib/abi";
+import { useEventHistory } from "@/lib/event-logs";
+import {
+  ACTIVITY_CATEGORIES,
+  activityToCsv,
+  toActivityRows,
+  type ActivityCategory,
+} from "@/lib/activity";
+import { explorerTxUrl, useDeployment } from "@/lib/wagmi";
+import {
+  downloadTextFile,
+  formatTimestamp,
+  shortenAddress,
+} from "@/lib/utils";
+
+const PAGE_SIZE = 10;
+
+interface ActivityPanelProps {
+  tokenAddress: `0x${string}`;
+  /** Amounts are shown as USDC until it's known */
+  paymentTokenAddress?: `0x${string}`;
+}
+
+export function ActivityPanel({ tokenAddress, paymentTokenAddress }: ActivityPanelProps) {
+  const { chainId } = useDeployment();
+  const { address } = useAccount();
+  const [category, setCategory] = useState<ActivityCategory | "all">("all");
+  const [mineOnly, setMineOnly] = useState(false);
+  const [page, setPage] = useState(0);
+
+  const { data: events, isLoading, error } = useEventHistory({
+    address: tokenAddress,
+    abi: rwaTokenAbi,
+  });
+
+  const payment = { chainId, address: paymentTokenAddress, abi: erc20Abi } as const;
+  const { data: paymentToken } = useReadContracts({
+    allowFailure: false,
+    contracts: [
+      { ...payment, functionName: "symbol" },
+      { ...payment, functionName: "decimals" },
+    ],
+    query: { enabled: !!paymentTokenAddress },
+  });
+
+  const [paymentSymbol, paymentDecimals] = paymentToken ?? [];
+  const allRows = events ? toActivityRows(events, paymentSymbol, paymentDecimals) : [];
+  const me = address?.toLowerCase();
+  const rows = allRows.filter(
+    (r) =>
+      (category === "all" || r.category === category) &&
+      (!mineOnly || (!!me && r.accounts.some((a) => a.toLowerCase() === me)))
+  );
+
+  const pageCount = Math.max(1, Math.ceil(rows.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageRows = rows.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  function handleExport() {
+    downloadTextFile(
+      `activity-${shortenAddress(tokenAddress)}${mineOnly ? "-mine" : ""}.csv`,
+      activityToCsv(rows)
+    );
+  }
+
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-lg font-semibold text-white">Activity</h3>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={category}
+            onChange={(e) => {
+              setCategory(e.target.value as ActivityCategory | "all");
+              setPage(0);
+            }}
+            className="rounded-lg border border-slate-700 bg-slate-800 px-3 py-1.5 text-sm text-white outline-none focus:border-blue-500"
+          >
+            <option value="all">All types</option>
+            {ACTIVITY_CATEGORIES.map((c) => (
+              <option key={c.value} value={c.value}>
+                {c.label}
+              </option>
+            ))}
+          </select>
+          <label
+            className={`flex items-center gap-2 rounded-lg border border-slate-700 px-3 py-1.5 text-sm ${
+              address ? "text-slate-300" : "text-slate-600"
+            }`}
+          >
+            <input
+              type="checkbox"
+              checked={mineOnly}
+              disabled={!address}
+              onChange={(e) => {
+                setMineOnly(e.target.checked);
+                setPage(0);
+              }}
+              className="accent-blue-500"
+            />
+            Mine only
+          </label>
+          <button
+            onClick={handleExport}
+            disabled={rows.length === 0}
+            className="rounded-lg border border-slate-700 px-3 py-1.5 text-sm text-slate-300 transition-colors hover:bg-slate-800 disabled:opacity-50"
+          >
+            Export CSV
+          </button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <div className="h-6 w-6 animate-spin rounded-full border-2 border-blue-500 border-t-transparent" />
+        </div>
+      ) : error ? (
+        <p className="py-8 text-center text-sm text-red-400">
+          Failed to load activity: {error.message.slice(0, 100)}
+        </p>
+      ) : rows.length === 0 ? (
+        <p className="py-8 text-center text-sm text-slate-500">No activity yet.</p>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead>
+                <tr className="border-b border-slate-800 text-xs text-slate-500">
+                  <th className="py-2 pr-4 font-medium">Time</th>
+                  <th className="py-2 pr-4 font-medium">Type</th>
+                  <th className="py-2 pr-4 font-medium">Details</th>
+                  <th className="py-2 font-medium">Tx</th>
+                </tr>
+              </thead>
+              <tbody>
+                {pageRows.map((row) => {
+                  const url = explorerTxUrl(chainId, row.transactionHash);
+                  return (
+                    <tr key={row.key} className="border-b border-slate-800/50">
+                      <td className="py-2 pr-4 whitespace-nowrap text-slate-400">
+                        {formatTimestamp(BigInt(row.timestamp))}
+                      </td>
+                      <td className="py-2 pr-4 whitespace-nowrap font-medium text-white">
+                        {row.label}
+                      </td>
+                      <td className="py-2 pr-4 text-slate-300">{row.details}</td>
+                      <td className="py-2 font-mono text-xs">
+                        {url ? (
+                          <a
+                            href={url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-blue-400 hover:text-blue-300"
+                          >
+                            {shortenAddress(row.transactionHash)}
+                          </a>
+                        ) : (
+                          <span className="text-slate-400">
+                            {shortenAddress(row.transactionHash)}
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="mt-4 flex items-center justify-between text-xs text-slate-500">
+            <span>
+              {rows.length} {rows.length === 1 ? "event" : "events"}
+            </span>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setPage(currentPage - 1)}
+                disabled={currentPage === 0}
+                className="rounded-lg px-2 py-1 text-slate-300 hover:bg-slate-800 disabled:opacity-40"
+              >
+                &larr; Prev
+              </button>
+              <span>
+                Page {currentPage + 1} of {pageCount}
+              </span>
+              <button
+                onClick={() => setPage(currentPage + 1)}
+                disabled={currentPage >= pageCount - 1}
+                className="rounded-lg px-2 py-1 text-slate-300 hover:bg-slate-800 disabled:opacity-40"
+              >
+                Next &rarr;
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
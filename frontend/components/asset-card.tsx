@@ -1,8 +1,8 @@
 "use client";
 
 import Link from "next/link";
-import { useAccount, useReadContract } from "wagmi";
-import { rwaTokenAbi, navOracleAbi } from "@/lib/abi";
+import { useAccount } from "wagmi";
+import { useAssetSummary } from "@/lib/assets";
 import {
   formatNAV,
   formatTokens,
@@ -10,6 +10,10 @@ import {
   assetTypeLabel,
   assetTypeBadgeClasses,
 } from "@/lib/utils";
+import { useNavHistory } from "@/lib/nav-history";
+import { isCoverageLow, useAssetLiquidity } from "@/lib/liquidity";
+import { NavSparkline } from "@/components/nav-chart";
+import { LowCoverageBadge, formatCoverage } from "@/components/liquidity-panel";
 
 interface AssetCardProps {
   index: number;
@@ -26,43 +30,12 @@ export function AssetCard({
 }: AssetCardProps) {
   const { address } = useAccount();
 
-  const { data: name } = useReadContract({
-    address: token,
-    abi: rwaTokenAbi,
-    functionName: "name",
-  });
+  const { data: summary } = useAssetSummary(token, { account: address, navOracle });
+  const nav = summary?.nav;
+  const balance = summary?.balance;
 
-  const { data: symbol } = useReadContract({
-    address: token,
-    abi: rwaTokenAbi,
-    functionName: "symbol",
-  });
-
-  const { data: totalSupply } = useReadContract({
-    address: token,
-    abi: rwaTokenAbi,
-    functionName: "totalSupply",
-  });
-
-  const { data: nav } = useReadContract({
-    address: navOracle,
-    abi: navOracleAbi,
-    functionName: "navPerToken",
-  });
-
-  const { data: isStale } = useReadContract({
-    address: navOracle,
-    abi: navOracleAbi,
-    functionName: "isStale",
-  });
-
-  const { data: balance } = useReadContract({
-    address: token,
-    abi: rwaTokenAbi,
-    functionName: "balanceOf",
-    args: address ? [address] : undefined,
-    query: { enabled: !!address },
-  });
+  const { series: navSeries } = useNavHistory(navOracle);
+  const { liquidity } = useAssetLiquidity(summary);
 
   return (
     <Link href={`/asset/${index}`}>
@@ -71,15 +44,18 @@ export function AssetCard({
         <div className="mb-4 flex items-start justify-between">
           <div>
             <h3 className="text-lg font-semibold text-white group-hover:text-blue-400 transition-colors">
-              {name ?? "Loading..."}
+              {summary?.name ?? "Loading..."}
             </h3>
-            <p className="text-sm text-slate-500">{symbol ?? "..."}</p>
+            <p className="text-sm text-slate-500">{summary?.symbol ?? "..."}</p>
+          </div>
+          <div className="flex flex-col items-end gap-1.5">
+            <span
+              className={`inline-flex rounded-full border px-2.5 py-0.5 text-xs font-medium ${assetTypeBadgeClasses(assetType)}`}
+            >
+              {assetTypeLabel(assetType)}
+            </span>
+            {liquidity && <LowCoverageBadge coverageBps={liquidity.coverageBps} />}
           </div>
-          <span
-            className={`inline-flex rounded-full border px-2.5 py-0.5 text-xs font-medium ${assetTypeBadgeClasses(assetType)}`}
-          >
-            {assetTypeLabel(assetType)}
-          </span>
         </div>
 
         {/* Stats Grid */}
@@ -88,7 +64,7 @@ export function AssetCard({
             <p className="text-xs text-slate-500">NAV / Token</p>
             <p className="mt-1 flex items-center gap-1.5 text-sm font-medium text-white">
               {nav !== undefined ? formatNAV(nav) : "..."}
-              {isStale && (
+              {summary?.isStale && (
                 <span className="inline-block h-2 w-2 rounded-full bg-amber-400" title="Stale NAV" />
               )}
             </p>
@@ -96,7 +72,7 @@ export function AssetCard({
           <div className="rounded-lg bg-slate-800/50 p-3">
             <p className="text-xs text-slate-500">Total Supply</p>
             <p className="mt-1 text-sm font-medium text-white">
-              {totalSupply !== undefined ? formatTokens(totalSupply) : "..."}
+              {summary ? formatTokens(summary.totalSupply) : "..."}
             </p>
           </div>
           <div className="rounded-lg bg-slate-800/50 p-3">
@@ -117,6 +93,25 @@ export function AssetCard({
           </div>
         </div>
 
+        {/* Reserve coverage */}
+        <div className="mt-3 flex items-center justify-between text-xs">
+          <span className="text-slate-500">Reserve coverage</span>
+          <span
+            className={`font-medium ${
+              liquidity && isCoverageLow(liquidity.coverageBps) ? "text-amber-400" : "text-slate-300"
+            }`}
+          >
+            {liquidity ? formatCoverage(liquidity.coverageBps) : "..."}
+          </span>
+        </div>
+
+        {/* NAV trend */}
+        {navSeries.length > 1 && (
+          <div className="mt-3">
+            <NavSparkline series={navSeries} />
+          </div>
+        )}
+
         {/* Footer */}
         <div className="mt-4 flex items-center justify-end text-xs text-slate-500 group-hover:text-blue-400 transition-colors">
           View details &rarr;
@@ -0,0 +1,593 @@
+"use client";
+
+import { useState } from "react";
+import { useAccount, useReadContract, useReadContracts, useWriteContract } from "wagmi";
+import { formatUnits, parseUnits, zeroAddress } from "viem";
+import { complianceRegistryAbi, erc20Abi, navOracleAbi, rwaTokenAbi } from "@/lib/abi";
+import type { AssetSummary } from "@/lib/assets";
+import {
+  SETUP_STEPS,
+  nextSetupStep,
+  useAssetSetup,
+  type SetupStepId,
+  type SetupStepState,
+} from "@/lib/asset-setup";
+import { parseAddressList } from "@/lib/address-list";
+import { planBulkAction } from "@/lib/bulk-compliance";
+import { formatPayment, type ErrorContext } from "@/lib/errors";
+import { navConfirmationText, previewNavUpdate } from "@/lib/nav-guardrails";
+import type { DeployedAsset } from "@/lib/sdk";
+import { waitForTransaction, type SafeTxStatus } from "@/lib/transactions";
+import { config, useDeployment } from "@/lib/wagmi";
+import { formatNAV, formatTokens, shortenAddress } from "@/lib/utils";
+import { NavUpdateImpact } from "@/components/oracle-panel";
+import { SafeTxStatusNote } from "@/components/safe-tx-status";
+import { TxError } from "@/components/tx-error";
+
+const inputClasses =
+  "rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 text-sm text-white outline-none placeholder:text-slate-600 focus:border-blue-500";
+
+function parseAmount(value: string, decimals: number): bigint | undefined {
+  if (!value.trim() || isNaN(Number(value)) || Number(value) < 0) return undefined;
+  try {
+    return parseUnits(value.trim(), decimals);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Checklist shown to the issuer on an asset they just created from this
+ * browser, with a form for each step. Steps done from another wallet (the
+ * oracle updater or compliance officer) can be marked done by hand.
+ */
+export function AssetSetupWizard({ asset, summary }: { asset: DeployedAsset; summary: AssetSummary }) {
+  const { chainId } = useDeployment();
+  const { address } = useAccount();
+  const { setup, setStep, setDismissed } = useAssetSetup(chainId, asset.token);
+  const [openStep, setOpenStep] = useState<SetupStepId | null>(null);
+
+  const isOwner = !!address && address.toLowerCase() === summary.owner.toLowerCase();
+  if (!setup || setup.dismissed || !isOwner) return null;
+
+  const next = nextSetupStep(setup);
+  const active = openStep ?? next;
+  const finished = SETUP_STEPS.filter((step) => setup.steps[step.id]).length;
+
+  function complete(id: SetupStepId, state: SetupStepState) {
+    setStep(id, state);
+    setOpenStep(null);
+  }
+
+  return (
+    <div className="rounded-xl border border-blue-500/30 bg-slate-900/50 p-6">
+      <div className="mb-4 flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-white">
+            {next ? `Finish setting up ${summary.symbol}` : `${summary.symbol} is ready`}
+          </h3>
+          <p className="text-xs text-slate-500">
+            {finished} of {SETUP_STEPS.length} steps done
+          </p>
+        </div>
+        <button
+          onClick={() => setDismissed(true)}
+          className="rounded-lg bg-slate-800 px-3 py-1.5 text-xs font-medium text-slate-300 transition-colors hover:bg-slate-700"
+        >
+          {next ? "Hide" : "Done"}
+        </button>
+      </div>
+
+      <ol className="space-y-2">
+        {SETUP_STEPS.map((step, i) => {
+          const state = setup.steps[step.id];
+          const isOpen = step.id === active;
+          return (
+            <li key={step.id} className="rounded-lg bg-slate-800/30">
+              <button
+                onClick={() => setOpenStep(isOpen ? null : step.id)}
+                className="flex w-full items-center gap-3 px-3 py-2.5 text-left"
+              >
+                <span
+                  className={`flex h-5 w-5 shrink-0 items-center justify-center rounded-full text-xs font-bold ${
+                    state === "done"
+                      ? "bg-emerald-500/20 text-emerald-400"
+                      : state === "skipped"
+                        ? "bg-slate-700 text-slate-400"
+                        : "bg-blue-500/20 text-blue-400"
+                  }`}
+                >
+                  {state === "done" ? "✓" : state === "skipped" ? "–" : i + 1}
+                </span>
+                <span className={`flex-1 text-sm ${state ? "text-slate-400" : "text-white"}`}>{step.label}</span>
+                {state === "skipped" && <span className="text-xs text-slate-500">Skipped</span>}
+              </button>
+              {isOpen && (
+                <div className="border-t border-slate-800 px-3 py-3">
+                  <SetupStep
+                    id={step.id}
+                    asset={asset}
+                    summary={summary}
+                    onDone={() => complete(step.id, "done")}
+                  />
+                  <div className="mt-3 flex gap-3 text-xs">
+                    {state ? (
+                      <button onClick={() => setStep(step.id, undefined)} className="text-slate-400 hover:text-white">
+                        Reopen step
+                      </button>
+                    ) : (
+                      <>
+                        <button onClick={() => complete(step.id, "done")} className="text-slate-400 hover:text-white">
+                          Mark done
+                        </button>
+                        <button onClick={() => complete(step.id, "skipped")} className="text-slate-400 hover:text-white">
+                          Skip
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
+
+function SetupStep({
+  id,
+  asset,
+  summary,
+  onDone,
+}: {
+  id: SetupStepId;
+  asset: DeployedAsset;
+  summary: AssetSummary;
+  onDone: () => void;
+}) {
+  switch (id) {
+    case "nav":
+      return <NavStep oracleAddress={asset.navOracle} totalSupply={summary.totalSupply} onDone={onDone} />;
+    case "whitelist":
+      return <WhitelistStep registryAddress={asset.complianceRegistry} onDone={onDone} />;
+    case "limits":
+      return <LimitsStep tokenAddress={asset.token} paymentTokenAddress={summary.paymentToken} onDone={onDone} />;
+    case "reserve":
+      return <ReserveStep tokenAddress={asset.token} paymentTokenAddress={summary.paymentToken} onDone={onDone} />;
+  }
+}
+
+type Write = () => Promise<`0x${string}`>;
+
+/**
+ * Sends a step's transactions one after another, waiting for each (or its
+ * Safe proposal) to land before the next. `writes` can be built
+ * asynchronously when they depend on a fresh read. Resolves false if
+ * anything fails.
+ */
+function useStepTransactions() {
+  const { chainId } = useDeployment();
+  const { connector } = useAccount();
+  const [isRunning, setIsRunning] = useState(false);
+  const [safeStatus, setSafeStatus] = useState<SafeTxStatus>();
+  const [error, setError] = useState<unknown>(null);
+
+  async function run(writes: Write[] | (() => Promise<Write[]>)): Promise<boolean> {
+    setIsRunning(true);
+    setError(null);
+    try {
+      for (const write of typeof writes === "function" ? await writes() : writes) {
+        const hash = await write();
+        const receipt = await waitForTransaction(config, { chainId, hash, connector, onSafeStatus: setSafeStatus });
+        setSafeStatus(undefined);
+        if (receipt.status === "reverted") throw new Error("Transaction reverted");
+      }
+      return true;
+    } catch (err) {
+      setSafeStatus(undefined);
+      setError(err);
+      return false;
+    } finally {
+      setIsRunning(false);
+    }
+  }
+
+  return { run, isRunning, safeStatus, error };
+}
+
+function SubmitButton({
+  label,
+  disabled,
+  isRunning,
+  onClick,
+}: {
+  label: string;
+  disabled: boolean;
+  isRunning: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled || isRunning}
+      className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-blue-700 disabled:opacity-50"
+    >
+      {isRunning ? "Confirming..." : label}
+    </button>
+  );
+}
+
+/** Shown when the step belongs to a role the connected wallet doesn't hold */
+function OtherWalletNote({ role, holder }: { role: string; holder: `0x${string}` | undefined }) {
+  return (
+    <p className="text-xs text-amber-400">
+      Only the {role} ({holder ? shortenAddress(holder) : "..."}) can do this. Switch to that wallet, or mark the
+      step done once they have.
+    </p>
+  );
+}
+
+function NavStep({
+  oracleAddress,
+  totalSupply,
+  onDone,
+}: {
+  oracleAddress: `0x${string}`;
+  totalSupply: bigint;
+  onDone: () => void;
+}) {
+  const { chainId } = useDeployment();
+  const { address } = useAccount();
+  const [input, setInput] = useState("");
+  const [confirmText, setConfirmText] = useState("");
+  // Refreshed on every edit, like the oracle panel's NAV form
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+  const { writeContractAsync } = useWriteContract();
+  const { run, isRunning, safeStatus, error } = useStepTransactions();
+
+  const oracle = { chainId, address: oracleAddress, abi: navOracleAbi } as const;
+  const { data } = useReadContracts({
+    allowFailure: false,
+    contracts: [
+      { ...oracle, functionName: "navPerToken" },
+      { ...oracle, functionName: "lastUpdated" },
+      { ...oracle, functionName: "updater" },
+    ],
+  });
+  const [currentNav, lastUpdated, updater] = data ?? [];
+  const isUpdater = !!address && !!updater && address.toLowerCase() === updater.toLowerCase();
+
+  const nav = parseAmount(input, 18);
+  // The same guardrails as a manual update: the opening NAV is where a
+  // misplaced decimal point is most likely
+  function buildPreview(at: number) {
+    return nav !== undefined && currentNav !== undefined && lastUpdated !== undefined
+      ? previewNavUpdate({ currentNav, newNav: nav, lastUpdated, totalSupply, now: at })
+      : undefined;
+  }
+  const preview = buildPreview(now);
+  const confirmation = nav !== undefined ? navConfirmationText(nav) : "";
+  const isConfirmed = !preview?.needsConfirmation || confirmText.trim() === confirmation;
+
+  function changeInput(value: string) {
+    setInput(value);
+    setConfirmText("");
+    setNow(Math.floor(Date.now() / 1000));
+  }
+
+  async function handlePublish() {
+    const at = Math.floor(Date.now() / 1000);
+    const fresh = buildPreview(at);
+    setNow(at);
+    if (nav === undefined || !fresh || fresh.willRevert) return;
+    if (fresh.needsConfirmation && confirmText.trim() !== confirmation) return;
+    const ok = await run([
+      () => writeContractAsync({ ...oracle, functionName: "updateNAV", args: [nav] }),
+    ]);
+    if (ok) onDone();
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-slate-400">
+        The oracle starts at {currentNav !== undefined ? formatNAV(currentNav) : "$1.00"} and NAV can only go up,
+        so publish the fund&apos;s opening value per token before taking investments.
+      </p>
+      {!isUpdater ? (
+        <OtherWalletNote role="oracle updater" holder={updater} />
+      ) : (
+        <>
+          <div className="flex gap-2">
+            <input
+              type="number"
+              step="0.0001"
+              placeholder="1.00"
+              value={input}
+              onChange={(e) => changeInput(e.target.value)}
+              className={`flex-1 ${inputClasses}`}
+            />
+            <SubmitButton
+              label="Publish"
+              disabled={!preview || nav === 0n || preview.willRevert || !isConfirmed}
+              isRunning={isRunning}
+              onClick={handlePublish}
+            />
+          </div>
+          {preview && currentNav !== undefined && (
+            <NavUpdateImpact
+              preview={preview}
+              currentNav={currentNav}
+              hasSupply
+              onUseSuggestion={(suggestion) => changeInput(formatUnits(suggestion, 18))}
+            />
+          )}
+          {preview?.needsConfirmation && (
+            <div>
+              <label className="mb-1 block text-xs text-amber-400">
+                Type <span className="font-mono">{confirmation}</span> to publish this NAV
+              </label>
+              <input
+                type="text"
+                value={confirmText}
+                onChange={(e) => setConfirmText(e.target.value)}
+                className={`w-full font-mono ${inputClasses}`}
+              />
+            </div>
+          )}
+        </>
+      )}
+      <SafeTxStatusNote status={safeStatus} />
+      <TxError error={error} />
+    </div>
+  );
+}
+
+function WhitelistStep({ registryAddress, onDone }: { registryAddress: `0x${string}`; onDone: () => void }) {
+  const { chainId } = useDeployment();
+  const { address } = useAccount();
+  const [text, setText] = useState(() => (address ? `${address}\n` : ""));
+  const [skipped, setSkipped] = useState(0);
+  const { writeContractAsync } = useWriteContract();
+  const { run, isRunning, safeStatus, error } = useStepTransactions();
+
+  const registry = { chainId, address: registryAddress, abi: complianceRegistryAbi } as const;
+  const { data: officer } = useReadContract({ ...registry, functionName: "owner" });
+  const isOfficer = !!address && !!officer && address.toLowerCase() === officer.toLowerCase();
+
+  const parsed = parseAddressList(text);
+
+  async function handleWhitelist() {
+    if (!address) return;
+    const ok = await run(async () => {
+      // addToWhitelist reverts the whole call on one bad entry, so those are left out
+      const plan = await planBulkAction(chainId, registryAddress, "whitelist", parsed.addresses, address);
+      setSkipped(plan.skipped.length);
+      return plan.batches.map(
+        (batch) => () => writeContractAsync({ ...registry, functionName: "addToWhitelist", args: [batch] })
+      );
+    });
+    if (ok) onDone();
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-slate-400">
+        Only whitelisted addresses can invest, hold or receive the token. Add the issuer&apos;s own wallet and any
+        seed investors, one per line.
+      </p>
+      {!isOfficer ? (
+        <OtherWalletNote role="compliance officer" holder={officer} />
+      ) : (
+        <>
+          <textarea
+            rows={4}
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder="0x..."
+            className={`w-full font-mono ${inputClasses}`}
+          />
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs text-slate-500">
+              {parsed.addresses.length} address{parsed.addresses.length === 1 ? "" : "es"}
+              {parsed.invalid.length > 0 && (
+                <span className="text-red-400">
+                  {" "}
+                  &middot; invalid on line {parsed.invalid.map((entry) => entry.line).join(", ")}
+                </span>
+              )}
+            </p>
+            <SubmitButton
+              label="Whitelist"
+              disabled={parsed.addresses.length === 0 || parsed.invalid.length > 0}
+              isRunning={isRunning}
+              onClick={handleWhitelist}
+            />
+          </div>
+          {skipped > 0 && <p className="text-xs text-slate-500">{skipped} already whitelisted or the zero address, left out.</p>}
+        </>
+      )}
+      <SafeTxStatusNote status={safeStatus} />
+      <TxError error={error} />
+    </div>
+  );
+}
+
+/** Payment token decimals and symbol, for the limits and reserve steps */
+function usePaymentContext(paymentTokenAddress: `0x${string}`): ErrorContext {
+  const { chainId } = useDeployment();
+  const payment = { chainId, address: paymentTokenAddress, abi: erc20Abi } as const;
+  const { data } = useReadContracts({
+    allowFailure: false,
+    contracts: [
+      { ...payment, functionName: "decimals" },
+      { ...payment, functionName: "symbol" },
+    ],
+  });
+  return { paymentDecimals: data?.[0], paymentSymbol: data?.[1] };
+}
+
+function LimitsStep({
+  tokenAddress,
+  paymentTokenAddress,
+  onDone,
+}: {
+  tokenAddress: `0x${string}`;
+  paymentTokenAddress: `0x${string}`;
+  onDone: () => void;
+}) {
+  const { chainId } = useDeployment();
+  const [investLimit, setInvestLimit] = useState("");
+  const [redeemLimit, setRedeemLimit] = useState("");
+  const { writeContractAsync } = useWriteContract();
+  const { run, isRunning, safeStatus, error } = useStepTransactions();
+  const ctx = usePaymentContext(paymentTokenAddress);
+
+  const token = { chainId, address: tokenAddress, abi: rwaTokenAbi } as const;
+  const invest = ctx.paymentDecimals !== undefined ? parseAmount(investLimit, ctx.paymentDecimals) : undefined;
+  const redeem = parseAmount(redeemLimit, 18);
+  const hasInvalid =
+    (investLimit.trim() !== "" && invest === undefined) || (redeemLimit.trim() !== "" && redeem === undefined);
+
+  async function handleSave() {
+    const writes: Write[] = [];
+    if (invest !== undefined) {
+      writes.push(() => writeContractAsync({ ...token, functionName: "setDailyInvestLimit", args: [invest] }));
+    }
+    if (redeem !== undefined) {
+      writes.push(() => writeContractAsync({ ...token, functionName: "setDailyRedeemLimit", args: [redeem] }));
+    }
+    if (await run(writes)) onDone();
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-slate-400">
+        Caps on how much can be invested and redeemed across all investors each day. New tokens have no limits;
+        leave a field blank to keep it that way.
+      </p>
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="mb-1 block text-xs text-slate-400">Daily invest limit ({ctx.paymentSymbol ?? "..."})</label>
+          <input
+            type="number"
+            placeholder="Unlimited"
+            value={investLimit}
+            onChange={(e) => setInvestLimit(e.target.value)}
+            className={`w-full ${inputClasses}`}
+          />
+        </div>
+        <div>
+          <label className="mb-1 block text-xs text-slate-400">Daily redeem limit (tokens)</label>
+          <input
+            type="number"
+            placeholder="Unlimited"
+            value={redeemLimit}
+            onChange={(e) => setRedeemLimit(e.target.value)}
+            className={`w-full ${inputClasses}`}
+          />
+        </div>
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-slate-500">
+          {invest !== undefined || redeem !== undefined
+            ? [
+                invest !== undefined && `Invest ${invest === 0n ? "unlimited" : formatPayment(invest, ctx)}`,
+                redeem !== undefined && `Redeem ${redeem === 0n ? "unlimited" : `${formatTokens(redeem)} tokens`}`,
+              ]
+                .filter(Boolean)
+                .join(" · ")
+            : "Both unlimited"}
+        </p>
+        <SubmitButton
+          label={invest === undefined && redeem === undefined ? "Keep unlimited" : "Save limits"}
+          disabled={hasInvalid || ctx.paymentDecimals === undefined}
+          isRunning={isRunning}
+          onClick={handleSave}
+        />
+      </div>
+      <SafeTxStatusNote status={safeStatus} />
+      <TxError error={error} context={ctx} />
+    </div>
+  );
+}
+
+function ReserveStep({
+  tokenAddress,
+  paymentTokenAddress,
+  onDone,
+}: {
+  tokenAddress: `0x${string}`;
+  paymentTokenAddress: `0x${string}`;
+  onDone: () => void;
+}) {
+  const { chainId } = useDeployment();
+  const { address } = useAccount();
+  const [amount, setAmount] = useState("");
+  const { writeContractAsync } = useWriteContract();
+  const { run, isRunning, safeStatus, error } = useStepTransactions();
+  const ctx = usePaymentContext(paymentTokenAddress);
+
+  const payment = { chainId, address: paymentTokenAddress, abi: erc20Abi } as const;
+  const { data } = useReadContracts({
+    allowFailure: false,
+    contracts: [
+      { ...payment, functionName: "balanceOf", args: [address ?? zeroAddress] },
+      { ...payment, functionName: "allowance", args: [address ?? zeroAddress, tokenAddress] },
+    ],
+    query: { enabled: !!address },
+  });
+  const [balance, allowance] = data ?? [];
+
+  const value = ctx.paymentDecimals !== undefined ? parseAmount(amount, ctx.paymentDecimals) : undefined;
+  const exceedsBalance = value !== undefined && balance !== undefined && value > balance;
+
+  async function handleDeposit() {
+    if (value === undefined || allowance === undefined) return;
+    const writes: Write[] = [];
+    if (allowance < value) {
+      writes.push(() => writeContractAsync({ ...payment, functionName: "approve", args: [tokenAddress, value] }));
+    }
+    writes.push(() =>
+      writeContractAsync({
+        chainId,
+        address: tokenAddress,
+        abi: rwaTokenAbi,
+        functionName: "depositPaymentTokens",
+        args: [value],
+      })
+    );
+    if (await run(writes)) onDone();
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-slate-400">
+        Redemptions are paid out of the token&apos;s {ctx.paymentSymbol ?? "payment token"} balance. Until it holds
+        enough, redeem reverts with InsufficientPaymentBalance.
+      </p>
+      <div className="flex gap-2">
+        <input
+          type="number"
+          placeholder={`0.00 ${ctx.paymentSymbol ?? ""}`}
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          className={`flex-1 ${inputClasses}`}
+        />
+        <SubmitButton
+          label={value !== undefined && allowance !== undefined && allowance < value ? "Approve & deposit" : "Deposit"}
+          disabled={value === undefined || value === 0n || exceedsBalance || allowance === undefined}
+          isRunning={isRunning}
+          onClick={handleDeposit}
+        />
+      </div>
+      <p className={`text-xs ${exceedsBalance ? "text-red-400" : "text-slate-500"}`}>
+        {balance !== undefined ? `${formatPayment(balance, ctx)} in your wallet` : "..."}
+        {exceedsBalance && " — not enough for this deposit"}
+      </p>
+      <SafeTxStatusNote status={safeStatus} />
+      <TxError error={error} context={{ ...ctx, action: "deposit" }} />
+    </div>
+  );
+}
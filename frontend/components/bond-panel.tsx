@@ -0,0 +1,149 @@
+"use client";
+
+import { useState } from "react";
+import { formatUnits } from "viem";
+import {
+  COUPON_FREQUENCIES,
+  DAY_COUNT_CONVENTIONS,
+  bondAnalytics,
+  type CouponFrequency,
+  type DayCountConvention,
+} from "@/lib/bond";
+import { formatTimestamp } from "@/lib/utils";
+
+interface BondPanelProps {
+  maturityDate: bigint;
+  couponRateBps: bigint;
+  nav: bigint;
+  /** Connected account's token balance, for coupon amounts in dollars */
+  balance?: bigint;
+}
+
+function formatPrice(value: number, digits = 4): string {
+  return `$${value.toFixed(digits)}`;
+}
+
+function formatYield(value: number | null): string {
+  return value === null ? "--" : `${(value * 100).toFixed(2)}%`;
+}
+
+export function BondPanel({ maturityDate, couponRateBps, nav, balance }: BondPanelProps) {
+  const [frequency, setFrequency] = useState<CouponFrequency>(2);
+  const [convention, setConvention] = useState<DayCountConvention>("30/360");
+  const [now] = useState(() => Math.floor(Date.now() / 1000));
+
+  const terms = {
+    maturityDate: Number(maturityDate),
+    couponRateBps: Number(couponRateBps),
+    frequency,
+    convention,
+  };
+  const analytics = bondAnalytics(terms, nav, now);
+  // One token is $1 of par, so a holding's par is its token count
+  const par = balance !== undefined ? Number(formatUnits(balance, 18)) : 0;
+
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-lg font-semibold text-white">Coupons & Yield</h3>
+        <div className="flex flex-wrap gap-2 text-xs">
+          <select
+            value={frequency}
+            onChange={(e) => setFrequency(Number(e.target.value) as CouponFrequency)}
+            className="rounded-lg border border-slate-700 bg-slate-800 px-2 py-1 text-white outline-none focus:border-blue-500"
+          >
+            {COUPON_FREQUENCIES.map((f) => (
+              <option key={f.value} value={f.value}>
+                {f.label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={convention}
+            onChange={(e) => setConvention(e.target.value as DayCountConvention)}
+            className="rounded-lg border border-slate-700 bg-slate-800 px-2 py-1 text-white outline-none focus:border-blue-500"
+          >
+            {DAY_COUNT_CONVENTIONS.map((c) => (
+              <option key={c} value={c}>
+                {c}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {analytics.matured ? (
+        <p className="rounded-lg bg-slate-800/30 p-3 text-sm text-slate-400">
+          Matured on {formatTimestamp(maturityDate)}. No further coupons accrue; holders redeem at the current NAV.
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+            <Stat
+              label="Next Payment"
+              value={analytics.nextPayment ? formatTimestamp(BigInt(analytics.nextPayment.end)) : "--"}
+              sub={
+                analytics.nextPayment
+                  ? `${formatPrice(analytics.nextPayment.amount, 5)} per token`
+                  : undefined
+              }
+            />
+            <Stat
+              label="Accrued Interest"
+              value={`${formatPrice(analytics.accrued, 5)} per token`}
+              sub={par > 0 ? `${formatPrice(analytics.accrued * par, 2)} on your holding` : undefined}
+            />
+            <Stat
+              label="Clean / Dirty Price"
+              value={`${formatPrice(analytics.cleanPrice)} / ${formatPrice(analytics.dirtyPrice)}`}
+            />
+            <Stat label="Yield to Maturity" value={formatYield(analytics.ytm)} />
+          </div>
+
+          <div className="mt-4 max-h-64 overflow-y-auto">
+            <table className="w-full text-left text-sm">
+              <thead className="sticky top-0 bg-slate-900 text-xs text-slate-500">
+                <tr>
+                  <th className="py-2 font-medium">Payment Date</th>
+                  <th className="py-2 font-medium">Accrual Start</th>
+                  <th className="py-2 text-right font-medium">Per Token</th>
+                  {par > 0 && <th className="py-2 text-right font-medium">Your Coupon</th>}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-800">
+                {analytics.schedule.map((period, i) => (
+                  <tr key={period.end} className={i === 0 ? "text-white" : "text-slate-400"}>
+                    <td className="py-2">
+                      {formatTimestamp(BigInt(period.end))}
+                      {period.end === terms.maturityDate && (
+                        <span className="ml-2 text-xs text-slate-500">+ par</span>
+                      )}
+                    </td>
+                    <td className="py-2">{formatTimestamp(BigInt(period.start))}</td>
+                    <td className="py-2 text-right">{formatPrice(period.amount, 5)}</td>
+                    {par > 0 && <td className="py-2 text-right">{formatPrice(period.amount * par, 2)}</td>}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <p className="mt-3 text-xs text-slate-500">
+            Schedule is generated back from maturity. Coupons accrue into NAV rather than being paid
+            on-chain; yield treats NAV as the dirty price per $1 of par.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
+
+function Stat({ label, value, sub }: { label: string; value: string; sub?: string }) {
+  return (
+    <div className="rounded-lg bg-slate-800/50 p-3">
+      <p className="text-xs text-slate-500">{label}</p>
+      <p className="mt-1 text-sm font-semibold text-white">{value}</p>
+      {sub && <p className="text-xs text-slate-500">{sub}</p>}
+    </div>
+  );
+}
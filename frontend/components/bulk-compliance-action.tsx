@@ -0,0 +1,288 @@
+"use client";
+
+import { useState } from "react";
+import { useAccount, useWriteContract } from "wagmi";
+import { complianceRegistryAbi } from "@/lib/abi";
+import { parseAddressList } from "@/lib/address-list";
+import { formatContractError } from "@/lib/errors";
+import { describeSafeTxStatus, isSafeConnector, waitForTransaction } from "@/lib/transactions";
+import {
+  BULK_ACTIONS,
+  bulkReportToCsv,
+  planBulkAction,
+  type BatchResult,
+  type BulkAction,
+  type BulkPlan,
+} from "@/lib/bulk-compliance";
+import { config, explorerTxUrl, useDeployment } from "@/lib/wagmi";
+import { downloadTextFile, shortenAddress } from "@/lib/utils";
+
+const STATUS_CLASSES: Record<BatchResult["status"], string> = {
+  queued: "text-slate-500",
+  pending: "text-blue-400",
+  confirming: "text-blue-400",
+  success: "text-emerald-400",
+  failed: "text-red-400",
+};
+
+const STATUS_LABELS: Record<BatchResult["status"], string> = {
+  queued: "Queued",
+  pending: "Awaiting signature",
+  confirming: "Confirming",
+  success: "Confirmed",
+  failed: "Failed",
+};
+
+export function BulkComplianceAction({ registryAddress }: { registryAddress: `0x${string}` }) {
+  const { chainId } = useDeployment();
+  const { address: account, connector } = useAccount();
+  const [action, setAction] = useState<BulkAction>("whitelist");
+  const [text, setText] = useState("");
+  const [plan, setPlan] = useState<BulkPlan | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [checkError, setCheckError] = useState<string | null>(null);
+  const [results, setResults] = useState<BatchResult[] | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const { writeContractAsync } = useWriteContract();
+
+  const parsed = parseAddressList(text);
+
+  function resetPlan() {
+    setPlan(null);
+    setResults(null);
+    setCheckError(null);
+  }
+
+  async function handleFile(file: File | undefined) {
+    if (!file) return;
+    setText(await file.text());
+    resetPlan();
+  }
+
+  async function handleCheck() {
+    if (!account) return;
+    setIsChecking(true);
+    resetPlan();
+    try {
+      setPlan(await planBulkAction(chainId, registryAddress, action, parsed.addresses, account));
+    } catch (err) {
+      setCheckError(formatContractError(err));
+    } finally {
+      setIsChecking(false);
+    }
+  }
+
+  async function handleSubmit() {
+    if (!plan) return;
+    const batches: BatchResult[] = plan.batches.map((addresses) => ({
+      addresses,
+      status: "queued",
+    }));
+    const update = (i: number, patch: Partial<BatchResult>) => {
+      batches[i] = { ...batches[i], ...patch };
+      setResults([...batches]);
+    };
+
+    setIsRunning(true);
+    setResults([...batches]);
+    // Batches go out one at a time; a failure stops the run so the officer
+    // can re-check and resume with whatever is left.
+    for (let i = 0; i < batches.length; i++) {
+      try {
+        update(i, { status: "pending" });
+        const hash = await writeContractAsync({
+          chainId,
+          address: registryAddress,
+          abi: complianceRegistryAbi,
+          functionName: BULK_ACTIONS[action].functionName,
+          args: [batches[i].addresses],
+        });
+        // A Safe returns a proposal hash; the executed transaction's hash comes with the receipt
+        update(i, { status: "confirming", hash: isSafeConnector(connector) ? undefined : hash });
+        const receipt = await waitForTransaction(config, {
+          chainId,
+          hash,
+          connector,
+          onSafeStatus: (safeStatus) => update(i, { safeStatus }),
+        });
+        if (receipt.status === "reverted") {
+          update(i, { status: "failed", hash: receipt.transactionHash, error: "Transaction reverted" });
+          break;
+        }
+        update(i, { status: "success", hash: receipt.transactionHash, safeStatus: undefined });
+      } catch (err) {
+        update(i, { status: "failed", error: formatContractError(err) });
+        break;
+      }
+    }
+    setIsRunning(false);
+  }
+
+  function handleExport() {
+    if (!plan || !results) return;
+    downloadTextFile(
+      `${action}-${shortenAddress(registryAddress)}.csv`,
+      bulkReportToCsv(action, results, plan.skipped)
+    );
+  }
+
+  const toSend = plan ? plan.batches.reduce((n, b) => n + b.length, 0) : 0;
+  const succeeded = results?.filter((r) => r.status === "success").reduce((n, r) => n + r.addresses.length, 0) ?? 0;
+  const failed = results?.filter((r) => r.status === "failed").reduce((n, r) => n + r.addresses.length, 0) ?? 0;
+  const isDone = !!results && !isRunning;
+
+  return (
+    <div className="space-y-3 rounded-lg bg-slate-800/30 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm font-medium text-slate-300">Bulk Update</p>
+        <select
+          value={action}
+          disabled={isRunning}
+          onChange={(e) => {
+            setAction(e.target.value as BulkAction);
+            resetPlan();
+          }}
+          className="rounded-lg border border-slate-700 bg-slate-800 px-3 py-1.5 text-sm text-white outline-none focus:border-blue-500"
+        >
+          {(Object.keys(BULK_ACTIONS) as BulkAction[]).map((a) => (
+            <option key={a} value={a}>
+              {BULK_ACTIONS[a].label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <textarea
+        rows={5}
+        value={text}
+        disabled={isRunning}
+        placeholder={"One address per line, or a CSV with addresses in the first column\n0x...\n0x..."}
+        onChange={(e) => {
+          setText(e.target.value);
+          resetPlan();
+        }}
+        className="w-full rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 font-mono text-xs text-white outline-none placeholder:text-slate-600 focus:border-blue-500"
+      />
+
+      <div className="flex flex-wrap items-center justify-between gap-2 text-xs">
+        <label className="cursor-pointer text-blue-400 hover:text-blue-300">
+          Upload CSV
+          <input
+            type="file"
+            accept=".csv,.txt,text/csv,text/plain"
+            disabled={isRunning}
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            className="hidden"
+          />
+        </label>
+        <span className="text-slate-500">
+          {parsed.addresses.length} valid
+          {parsed.duplicates.length > 0 && ` · ${parsed.duplicates.length} duplicates removed`}
+          {parsed.invalid.length > 0 && (
+            <span className="text-red-400"> · {parsed.invalid.length} invalid</span>
+          )}
+        </span>
+      </div>
+
+      {parsed.invalid.length > 0 && (
+        <ul className="max-h-24 overflow-y-auto rounded-lg bg-red-500/10 p-2 font-mono text-xs text-red-400">
+          {parsed.invalid.map((e) => (
+            <li key={e.line}>
+              Line {e.line}: {e.value}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {!plan && (
+        <button
+          onClick={handleCheck}
+          disabled={!account || parsed.addresses.length === 0 || parsed.invalid.length > 0 || isChecking}
+          className="w-full rounded-lg bg-blue-600 py-2 text-sm font-medium text-white transition-colors hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isChecking ? "Checking on-chain status..." : `Check ${parsed.addresses.length} addresses`}
+        </button>
+      )}
+      {checkError && <p className="text-xs text-red-400">Check failed: {checkError.slice(0, 100)}</p>}
+
+      {plan && (
+        <div className="space-y-3">
+          <p className="text-xs text-slate-400">
+            {toSend} to {BULK_ACTIONS[action].label.toLowerCase()} in {plan.batches.length}{" "}
+            {plan.batches.length === 1 ? "transaction" : "transactions"} (up to {plan.batchSize} per batch, sized by gas)
+            {plan.skipped.length > 0 && ` · ${plan.skipped.length} skipped`}
+          </p>
+
+          {plan.skipped.length > 0 && (
+            <ul className="max-h-24 overflow-y-auto rounded-lg bg-slate-800/50 p-2 font-mono text-xs text-slate-500">
+              {plan.skipped.map((s) => (
+                <li key={s.address}>
+                  {shortenAddress(s.address)}: {s.reason}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {results && (
+            <ul className="space-y-1 text-xs">
+              {results.map((r, i) => {
+                const url = r.hash ? explorerTxUrl(chainId, r.hash) : undefined;
+                return (
+                  <li key={i} className="flex items-center justify-between rounded-lg bg-slate-800/50 px-3 py-2">
+                    <span className="text-slate-400">
+                      Batch {i + 1} · {r.addresses.length} addresses
+                    </span>
+                    <span className={STATUS_CLASSES[r.status]}>
+                      {r.error
+                        ? `${STATUS_LABELS[r.status]}: ${r.error.slice(0, 60)}`
+                        : r.status === "confirming" && r.safeStatus
+                          ? describeSafeTxStatus(r.safeStatus)
+                          : STATUS_LABELS[r.status]}
+                      {url && (
+                        <a href={url} target="_blank" rel="noopener noreferrer" className="ml-2 text-blue-400 hover:text-blue-300">
+                          &#8599;
+                        </a>
+                      )}
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {isDone ? (
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-slate-400">
+                <span className="text-emerald-400">{succeeded} updated</span>
+                {failed > 0 && <span className="text-red-400"> · {failed} failed</span>}
+                {toSend - succeeded - failed > 0 && ` · ${toSend - succeeded - failed} not sent`}
+                {plan.skipped.length > 0 && ` · ${plan.skipped.length} skipped`}
+              </span>
+              <span className="flex gap-3">
+                <button onClick={handleCheck} className="text-slate-300 hover:text-white">
+                  Re-check
+                </button>
+                <button onClick={handleExport} className="text-blue-400 hover:text-blue-300">
+                  Export report
+                </button>
+              </span>
+            </div>
+          ) : (
+            <button
+              onClick={handleSubmit}
+              disabled={toSend === 0 || isRunning}
+              className="w-full rounded-lg bg-emerald-600 py-2 text-sm font-medium text-white transition-colors hover:bg-emerald-700 disabled:opacity-50"
+            >
+              {isRunning
+                ? "Submitting..."
+                : toSend === 0
+                  ? "Nothing to submit"
+                  : `Submit ${plan.batches.length} ${plan.batches.length === 1 ? "batch" : "batches"}`}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+"use client";
+
+import { useState } from "react";
+import { useAccount, useReadContracts } from "wagmi";
+import { erc20Abi } from "@/lib/abi";
+import { findClaim, parseClaimFile, type RentClaimFile } from "@/lib/rent-distribution";
+import { formatPaymentAmount, shortenAddress } from "@/lib/utils";
+import { useDeployment } from "@/lib/wagmi";
+
+/**
+ * Holder view of a published rent claim file: how much of the distribution
+ * belongs to the connected wallet, and the Merkle proof to claim it with.
+ */
+export function ClaimableRent({
+  tokenAddress,
+  paymentTokenAddress,
+}: {
+  tokenAddress: `0x${string}`;
+  paymentTokenAddress: `0x${string}`;
+}) {
+  const { chainId } = useDeployment();
+  const { address } = useAccount();
+  const payment = { chainId, address: paymentTokenAddress, abi: erc20Abi } as const;
+  const { data: paymentToken } = useReadContracts({
+    allowFailure: false,
+    contracts: [
+      { ...payment, functionName: "decimals" },
+      { ...payment, functionName: "symbol" },
+    ],
+  });
+  const [decimals, symbol] = paymentToken ?? [];
+  const pay = (amount: bigint) =>
+    decimals !== undefined ? `${formatPaymentAmount(amount, decimals)} ${symbol}` : "...";
+  const [file, setFile] = useState<RentClaimFile | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  async function handleFile(upload: File | undefined) {
+    if (!upload) return;
+    setCopied(false);
+    try {
+      const parsed = parseClaimFile(await upload.text());
+      if (parsed.token.toLowerCase() !== tokenAddress.toLowerCase() || parsed.chainId !== chainId) {
+        throw new Error(`This claim file is for ${shortenAddress(parsed.token)}, not this asset`);
+      }
+      if (parsed.paymentToken.toLowerCase() !== paymentTokenAddress.toLowerCase()) {
+        throw new Error(`This claim file pays in ${shortenAddress(parsed.paymentToken)}, not this asset's payment token`);
+      }
+      setFile(parsed);
+      setLoadError(null);
+    } catch (err) {
+      setFile(null);
+      setLoadError(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  const claim = file && address ? findClaim(file, address) : undefined;
+
+  async function handleCopyProof() {
+    if (!claim) return;
+    await navigator.clipboard.writeText(JSON.stringify(claim.proof));
+    setCopied(true);
+  }
+
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+      <div className="mb-4 flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-white">Claimable Rent</h3>
+        <label className="cursor-pointer text-xs text-blue-400 hover:text-blue-300">
+          {file ? "Load another claim file" : "Load claim file"}
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            className="hidden"
+          />
+        </label>
+      </div>
+
+      {loadError && <p className="mb-3 text-xs text-red-400">{loadError}</p>}
+
+      {!file ? (
+        <p className="text-sm text-slate-500">
+          Load the rent claim file published by the issuer to see your share of a distribution.
+        </p>
+      ) : !address ? (
+        <p className="text-sm text-slate-500">Connect your wallet to see your share.</p>
+      ) : !claim ? (
+        <p className="text-sm text-slate-400">
+          Your address has no rent in this distribution (snapshot block {file.snapshotBlock}).
+        </p>
+      ) : (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="rounded-lg bg-slate-800/50 p-3">
+              <p className="text-xs text-slate-500">Your Rent</p>
+              <p className="mt-1 text-sm font-semibold text-emerald-400">{pay(claim.amount)}</p>
+            </div>
+            <div className="rounded-lg bg-slate-800/50 p-3">
+              <p className="text-xs text-slate-500">Distribution Total</p>
+              <p className="mt-1 text-sm font-semibold text-white">{pay(BigInt(file.total))}</p>
+            </div>
+          </div>
+          <p className="text-xs text-slate-500">
+            Snapshot block {file.snapshotBlock} · root{" "}
+            <span className="font-mono">{shortenAddress(file.merkleRoot)}</span> ·{" "}
+            {claim.verified ? (
+              <span className="text-emerald-400">proof verified</span>
+            ) : (
+              <span className="text-red-400">proof does not match the root</span>
+            )}
+          </p>
+          <button
+            onClick={handleCopyProof}
+            disabled={!claim.verified}
+            className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50"
+          >
+            {copied ? "Proof copied" : "Copy Merkle proof"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,12 +5,15 @@ import {
   useAccount,
   useReadContract,
   useWriteContract,
-  useWaitForTransactionReceipt,
 } from "wagmi";
 import { isAddress } from "viem";
 import { complianceRegistryAbi } from "@/lib/abi";
-import { CHAIN_ID } from "@/lib/wagmi";
+import { useTransactionReceipt, type SafeTxStatus } from "@/lib/transactions";
+import { useDeployment } from "@/lib/wagmi";
 import { shortenAddress } from "@/lib/utils";
+import { BulkComplianceAction } from "@/components/bulk-compliance-action";
+import { SafeTxStatusNote } from "@/components/safe-tx-status";
+import { TxError } from "@/components/tx-error";
 
 interface CompliancePanelProps {
   registryAddress: `0x${string}`;
@@ -64,6 +67,8 @@ function AdminAction({
   isPending,
   isConfirming,
   isSuccess,
+  safeStatus,
+  error,
   buttonColor,
 }: {
   label: string;
@@ -74,6 +79,8 @@ function AdminAction({
   isPending: boolean;
   isConfirming: boolean;
   isSuccess: boolean;
+  safeStatus: SafeTxStatus | undefined;
+  error: unknown;
   buttonColor: string;
 }) {
   const isLoading = isPending || isConfirming;
@@ -99,11 +106,14 @@ function AdminAction({
       {isSuccess && (
         <p className="mt-1 text-xs text-emerald-400">Success!</p>
       )}
+      <SafeTxStatusNote status={safeStatus} className="mt-2" />
+      <TxError error={error} className="mt-2" />
     </div>
   );
 }
 
 export function CompliancePanel({ registryAddress }: CompliancePanelProps) {
+  const { chainId } = useDeployment();
   const { address } = useAccount();
 
   const { data: registryOwner } = useReadContract({
@@ -147,10 +157,15 @@ export function CompliancePanel({ registryAddress }: CompliancePanelProps) {
     writeContract: writeWhitelist,
     data: whitelistHash,
     isPending: isWhitelistPending,
+    error: whitelistError,
     reset: resetWhitelist,
   } = useWriteContract();
-  const { isLoading: isWhitelistConfirming, isSuccess: isWhitelistSuccess } =
-    useWaitForTransactionReceipt({ hash: whitelistHash });
+  const {
+    isLoading: isWhitelistConfirming,
+    isSuccess: isWhitelistSuccess,
+    safeStatus: whitelistSafeStatus,
+    error: whitelistReceiptError,
+  } = useTransactionReceipt(whitelistHash);
 
   // Remove
   const [removeInput, setRemoveInput] = useState("");
@@ -158,10 +173,15 @@ export function CompliancePanel({ registryAddress }: CompliancePanelProps) {
     writeContract: writeRemove,
     data: removeHash,
     isPending: isRemovePending,
+    error: removeError,
     reset: resetRemove,
   } = useWriteContract();
-  const { isLoading: isRemoveConfirming, isSuccess: isRemoveSuccess } =
-    useWaitForTransactionReceipt({ hash: removeHash });
+  const {
+    isLoading: isRemoveConfirming,
+    isSuccess: isRemoveSuccess,
+    safeStatus: removeSafeStatus,
+    error: removeReceiptError,
+  } = useTransactionReceipt(removeHash);
 
   // Freeze
   const [freezeInput, setFreezeInput] = useState("");
@@ -169,10 +189,15 @@ export function CompliancePanel({ registryAddress }: CompliancePanelProps) {
     writeContract: writeFreeze,
     data: freezeHash,
     isPending: isFreezePending,
+    error: freezeError,
     reset: resetFreeze,
   } = useWriteContract();
-  const { isLoading: isFreezeConfirming, isSuccess: isFreezeSuccess } =
-    useWaitForTransactionReceipt({ hash: freezeHash });
+  const {
+    isLoading: isFreezeConfirming,
+    isSuccess: isFreezeSuccess,
+    safeStatus: freezeSafeStatus,
+    error: freezeReceiptError,
+  } = useTransactionReceipt(freezeHash);
 
   // Unfreeze
   const [unfreezeInput, setUnfreezeInput] = useState("");
@@ -180,10 +205,15 @@ export function CompliancePanel({ registryAddress }: CompliancePanelProps) {
     writeContract: writeUnfreeze,
     data: unfreezeHash,
     isPending: isUnfreezePending,
+    error: unfreezeError,
     reset: resetUnfreeze,
   } = useWriteContract();
-  const { isLoading: isUnfreezeConfirming, isSuccess: isUnfreezeSuccess } =
-    useWaitForTransactionReceipt({ hash: unfreezeHash });
+  const {
+    isLoading: isUnfreezeConfirming,
+    isSuccess: isUnfreezeSuccess,
+    safeStatus: unfreezeSafeStatus,
+    error: unfreezeReceiptError,
+  } = useTransactionReceipt(unfreezeHash);
 
   useEffect(() => {
     if (isWhitelistSuccess) { setWhitelistInput(""); resetWhitelist(); }
@@ -202,7 +232,7 @@ export function CompliancePanel({ registryAddress }: CompliancePanelProps) {
     const addr = whitelistInput.trim() as `0x${string}`;
     if (!isAddress(addr)) return;
     writeWhitelist({
-      chainId: CHAIN_ID,
+      chainId,
       address: registryAddress,
       abi: complianceRegistryAbi,
       functionName: "addToWhitelist",
@@ -214,7 +244,7 @@ export function CompliancePanel({ registryAddress }: CompliancePanelProps) {
     const addr = removeInput.trim() as `0x${string}`;
     if (!isAddress(addr)) return;
     writeRemove({
-      chainId: CHAIN_ID,
+      chainId,
       address: registryAddress,
       abi: complianceRegistryAbi,
       functionName: "removeFromWhitelist",
@@ -226,7 +256,7 @@ export function CompliancePanel({ registryAddress }: CompliancePanelProps) {
     const addr = freezeInput.trim() as `0x${string}`;
     if (!isAddress(addr)) return;
     writeFreeze({
-      chainId: CHAIN_ID,
+      chainId,
       address: registryAddress,
       abi: complianceRegistryAbi,
       functionName: "freezeAddress",
@@ -238,7 +268,7 @@ export function CompliancePanel({ registryAddress }: CompliancePanelProps) {
     const addr = unfreezeInput.trim() as `0x${string}`;
     if (!isAddress(addr)) return;
     writeUnfreeze({
-      chainId: CHAIN_ID,
+      chainId,
       address: registryAddress,
       abi: complianceRegistryAbi,
       functionName: "unfreezeAddress",
@@ -280,6 +310,8 @@ export function CompliancePanel({ registryAddress }: CompliancePanelProps) {
             isPending={isWhitelistPending}
             isConfirming={isWhitelistConfirming}
             isSuccess={isWhitelistSuccess}
+            safeStatus={whitelistSafeStatus}
+            error={whitelistError ?? whitelistReceiptError}
             buttonColor="bg-emerald-600 hover:bg-emerald-700"
           />
           <AdminAction
@@ -291,6 +323,8 @@ export function CompliancePanel({ registryAddress }: CompliancePanelProps) {
             isPending={isRemovePending}
             isConfirming={isRemoveConfirming}
             isSuccess={isRemoveSuccess}
+            safeStatus={removeSafeStatus}
+            error={removeError ?? removeReceiptError}
             buttonColor="bg-slate-600 hover:bg-slate-700"
           />
           <AdminAction
@@ -302,6 +336,8 @@ export function CompliancePanel({ registryAddress }: CompliancePanelProps) {
             isPending={isFreezePending}
             isConfirming={isFreezeConfirming}
             isSuccess={isFreezeSuccess}
+            safeStatus={freezeSafeStatus}
+            error={freezeError ?? freezeReceiptError}
             buttonColor="bg-red-600 hover:bg-red-700"
           />
           <AdminAction
@@ -313,8 +349,11 @@ export function CompliancePanel({ registryAddress }: CompliancePanelProps) {
             isPending={isUnfreezePending}
             isConfirming={isUnfreezeConfirming}
             isSuccess={isUnfreezeSuccess}
+            safeStatus={unfreezeSafeStatus}
+            error={unfreezeError ?? unfreezeReceiptError}
             buttonColor="bg-amber-600 hover:bg-amber-700"
           />
+          <BulkComplianceAction registryAddress={registryAddress} />
         </div>
       )}
     </div>
@@ -0,0 +1,237 @@
+"use client";
+
+import { useState } from "react";
+import { useAccount, useReadContract } from "wagmi";
+import { complianceRegistryAbi } from "@/lib/abi";
+import {
+  rosterStatus,
+  useComplianceRoster,
+  type RosterStatus,
+} from "@/lib/compliance-roster";
+import { explorerAddressUrl, useDeployment } from "@/lib/wagmi";
+import {
+  downloadTextFile,
+  formatTimestamp,
+  formatTokens,
+  shortenAddress,
+  toCsv,
+} from "@/lib/utils";
+
+const PAGE_SIZE = 15;
+
+const STATUS_FILTERS: { value: RosterStatus | "all"; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "eligible", label: "Eligible" },
+  { value: "frozen", label: "Frozen" },
+  { value: "removed", label: "Removed" },
+];
+
+const STATUS_CLASSES: Record<RosterStatus, string> = {
+  eligible: "bg-emerald-500/20 text-emerald-400 border-emerald-500/30",
+  frozen: "bg-red-500/20 text-red-400 border-red-500/30",
+  removed: "bg-slate-800 text-slate-500 border-slate-700",
+};
+
+interface ComplianceRosterProps {
+  registryAddress: `0x${string}`;
+  tokenAddress: `0x${string}`;
+}
+
+/** Whitelist / freeze list for the compliance officer, rebuilt from registry logs */
+export function ComplianceRoster({ registryAddress, tokenAddress }: ComplianceRosterProps) {
+  const { chainId } = useDeployment();
+  const { address } = useAccount();
+  const [search, setSearch] = useState("");
+  const [status, setStatus] = useState<RosterStatus | "all">("all");
+  const [page, setPage] = useState(0);
+
+  const { data: registryOwner } = useReadContract({
+    address: registryAddress,
+    abi: complianceRegistryAbi,
+    functionName: "owner",
+  });
+  const isOwner =
+    address && registryOwner
+      ? address.toLowerCase() === registryOwner.toLowerCase()
+      : false;
+
+  const { entries, sampled, mismatches, isLoading, error } = useComplianceRoster(
+    registryAddress,
+    tokenAddress,
+    { enabled: isOwner }
+  );
+
+  if (!isOwner) return null;
+
+  const query = search.trim().toLowerCase();
+  const rows = entries.filter(
+    (e) =>
+      (status === "all" || rosterStatus(e) === status) &&
+      (!query || e.account.toLowerCase().includes(query))
+  );
+  const pageCount = Math.max(1, Math.ceil(rows.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageRows = rows.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  function handleExport() {
+    downloadTextFile(
+      `roster-${shortenAddress(registryAddress)}.csv`,
+      toCsv([
+        ["address", "status", "whitelisted_at", "frozen_at", "balance"],
+        ...rows.map((e) => [
+          e.account,
+          rosterStatus(e),
+          e.whitelistedAt ? new Date(e.whitelistedAt * 1000).toISOString() : "",
+          e.frozenAt ? new Date(e.frozenAt * 1000).toISOString() : "",
+          e.balance !== undefined ? formatTokens(e.balance) : "",
+        ]),
+      ])
+    );
+  }
+
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Compliance Roster</h3>
+          {sampled > 0 && (
+            <p className={`mt-1 text-xs ${mismatches > 0 ? "text-amber-400" : "text-slate-500"}`}>
+              {mismatches > 0
+                ? `${mismatches} of ${sampled} sampled entries disagree with isEligible; the log scan may be incomplete`
+                : `${sampled} most recent entries verified against isEligible`}
+            </p>
+          )}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            placeholder="Search address..."
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setPage(0);
+            }}
+            className="w-44 rounded-lg border border-slate-700 bg-slate-800 px-3 py-1.5 text-sm text-white outline-none placeholder:text-slate-600 focus:border-blue-500"
+          />
+          <select
+            value={status}
+            onChange={(e) => {
+              setStatus(e.target.value as RosterStatus | "all");
+              setPage(0);
+            }}
+            className="rounded-lg border border-slate-700 bg-slate-800 px-3 py-1.5 text-sm text-white outline-none focus:border-blue-500"
+          >
+            {STATUS_FILTERS.map((f) => (
+              <option key={f.value} value={f.value}>
+                {f.label}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleExport}
+            disabled={rows.length === 0}
+            className="rounded-lg border border-slate-700 px-3 py-1.5 text-sm text-slate-300 transition-colors hover:bg-slate-800 disabled:opacity-50"
+          >
+            Export CSV
+          </button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <div className="h-6 w-6 animate-spin rounded-full border-2 border-blue-500 border-t-transparent" />
+        </div>
+      ) : error ? (
+        <p className="py-8 text-center text-sm text-red-400">
+          Failed to load roster: {error.message.slice(0, 100)}
+        </p>
+      ) : rows.length === 0 ? (
+        <p className="py-8 text-center text-sm text-slate-500">
+          {entries.length === 0 ? "No addresses have been whitelisted yet." : "No matching addresses."}
+        </p>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead>
+                <tr className="border-b border-slate-800 text-xs text-slate-500">
+                  <th className="py-2 pr-4 font-medium">Address</th>
+                  <th className="py-2 pr-4 font-medium">Status</th>
+                  <th className="py-2 pr-4 font-medium">Whitelisted</th>
+                  <th className="py-2 text-right font-medium">Holdings</th>
+                </tr>
+              </thead>
+              <tbody>
+                {pageRows.map((e) => {
+                  const s = rosterStatus(e);
+                  const url = explorerAddressUrl(chainId, e.account);
+                  return (
+                    <tr key={e.account} className="border-b border-slate-800/50">
+                      <td className="py-2 pr-4 font-mono text-xs">
+                        {url ? (
+                          <a
+                            href={url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-blue-400 hover:text-blue-300"
+                          >
+                            {shortenAddress(e.account)}
+                          </a>
+                        ) : (
+                          <span className="text-slate-300">{shortenAddress(e.account)}</span>
+                        )}
+                        {e.verified === false && (
+                          <span className="ml-2 text-amber-400" title="On-chain isEligible disagrees">
+                            !
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4">
+                        <span
+                          className={`inline-flex rounded-full border px-2 py-0.5 text-xs font-medium capitalize ${STATUS_CLASSES[s]}`}
+                        >
+                          {s}
+                        </span>
+                      </td>
+                      <td className="py-2 pr-4 whitespace-nowrap text-slate-400">
+                        {e.whitelistedAt ? formatTimestamp(BigInt(e.whitelistedAt)) : "--"}
+                      </td>
+                      <td className="py-2 text-right text-white">
+                        {e.balance !== undefined ? formatTokens(e.balance) : "..."}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="mt-4 flex items-center justify-between text-xs text-slate-500">
+            <span>
+              {rows.length} {rows.length === 1 ? "address" : "addresses"}
+            </span>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setPage(currentPage - 1)}
+                disabled={currentPage === 0}
+                className="rounded-lg px-2 py-1 text-slate-300 hover:bg-slate-800 disabled:opacity-40"
+              >
+                &larr; Prev
+              </button>
+              <span>
+                Page {currentPage + 1} of {pageCount}
+              </span>
+              <button
+                onClick={() => setPage(currentPage + 1)}
+                disabled={currentPage >= pageCount - 1}
+                className="rounded-lg px-2 py-1 text-slate-300 hover:bg-slate-800 disabled:opacity-40"
+              >
+                Next &rarr;
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,17 +1,30 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { useQuery, type UseQueryResult } from "@tanstack/react-query";
 import {
   useAccount,
+  usePublicClient,
   useWriteContract,
-  useWaitForTransactionReceipt,
 } from "wagmi";
-import { parseUnits } from "viem";
+import type { PublicClient } from "viem";
 import { assetFactoryAbi } from "@/lib/abi";
-import { FACTORY_ADDRESS, USDC_ADDRESS, CHAIN_ID } from "@/lib/wagmi";
+import {
+  simulateCreateAsset,
+  validateAssetForm,
+  type AssetFormField,
+  type AssetFormValues,
+  type CreateAssetCall,
+  type ReviewRow,
+} from "@/lib/asset-form";
+import { startAssetSetup } from "@/lib/asset-setup";
+import { useTransactionReceipt } from "@/lib/transactions";
+import { useDeployment } from "@/lib/wagmi";
 import { shortenAddress } from "@/lib/utils";
-
-type AssetType = "BOND" | "REAL_ESTATE" | "COMMODITY";
+import { AssetFactoryClient, type AssetType } from "@/lib/sdk";
+import { SafeTxStatusNote } from "@/components/safe-tx-status";
+import { TxError } from "@/components/tx-error";
 
 const ASSET_PLACEHOLDERS: Record<AssetType, { name: string; symbol: string }> = {
   BOND: { name: "US Treasury 6M", symbol: "UST6M" },
@@ -19,32 +32,66 @@ const ASSET_PLACEHOLDERS: Record<AssetType, { name: string; symbol: string }> =
   COMMODITY: { name: "Tokenized Gold", symbol: "tGOLD" },
 };
 
+const INITIAL_VALUES: AssetFormValues = {
+  name: "",
+  symbol: "",
+  complianceOfficer: "",
+  oracleUpdater: "",
+  maturityDays: "180",
+  couponBps: "500",
+  faceValue: "1000",
+  propertyId: "",
+  jurisdiction: "",
+  totalValuation: "",
+  rentalYieldBps: "800",
+  commodityType: "",
+  unit: "",
+  backingRatio: "1",
+};
+
+/** A validated factory call waiting for review. Bond maturity counts from when it was built */
+interface PendingCreate {
+  call: CreateAssetCall;
+  review: ReviewRow[];
+}
+
 export function CreateAssetForm() {
   const { address } = useAccount();
+  const { chainId, chain, deployment } = useDeployment();
+  const publicClient = usePublicClient({ chainId });
+  const router = useRouter();
   const [assetType, setAssetType] = useState<AssetType>("BOND");
+  const [values, setValues] = useState<AssetFormValues>(INITIAL_VALUES);
+  const [paymentIndex, setPaymentIndex] = useState(0);
+  // Errors show once the issuer first asks for a review
+  const [showErrors, setShowErrors] = useState(false);
+  const [pending, setPending] = useState<PendingCreate | null>(null);
 
-  // Common fields
-  const [name, setName] = useState("");
-  const [symbol, setSymbol] = useState("");
-  const [complianceOfficer, setComplianceOfficer] = useState<string>("");
-  const [oracleUpdater, setOracleUpdater] = useState<string>("");
-
-  // Bond fields
-  const [maturityDays, setMaturityDays] = useState("180");
-  const [couponBps, setCouponBps] = useState("500");
-  const [faceValue, setFaceValue] = useState("1000");
+  // The index can outlive a switch to a chain with fewer payment tokens
+  const paymentTokens = deployment?.paymentTokens ?? [];
+  const paymentToken = paymentTokens[paymentIndex] ?? paymentTokens[0];
+  const paymentSymbol = paymentToken?.symbol ?? "USDC";
 
-  // Real Estate fields
-  const [propertyId, setPropertyId] = useState("");
-  const [jurisdiction, setJurisdiction] = useState("");
-  const [totalValuation, setTotalValuation] = useState("");
-  const [rentalYieldBps, setRentalYieldBps] = useState("800");
+  const setField = (field: AssetFormField) => (value: string) =>
+    setValues((current) => ({ ...current, [field]: value }));
 
-  // Commodity fields
-  const [commodityType, setCommodityType] = useState("");
-  const [unit, setUnit] = useState("");
-  const [backingRatio, setBackingRatio] = useState("1");
+  function validate(now: number) {
+    if (!paymentToken) return undefined;
+    return validateAssetForm(assetType, values, { now, paymentToken, defaultAddress: address });
+  }
+  // Maturity is only previewed here; the review pins it to the time it was opened
+  const [now] = useState(() => Math.floor(Date.now() / 1000));
+  const result = validate(now);
+  const errors = showErrors && result && !result.ok ? result.errors : {};
 
+  // ─── Simulate ─────────────────────────────────────────────────────────────
+  const simulation = useQuery({
+    // The raw review values pin down the args exactly, without bigints in the key
+    queryKey: ["simulate-create", chainId, address, pending?.call.functionName, pending?.review.map((r) => r.raw)],
+    queryFn: () => simulateCreateAsset(publicClient as PublicClient, deployment!.factory, pending!.call, address!),
+    enabled: !!pending && !!deployment && !!address && !!publicClient,
+    retry: false,
+  });
 
   // ─── Write ────────────────────────────────────────────────────────────────
   const {
@@ -55,91 +102,58 @@ export function CreateAssetForm() {
     reset,
   } = useWriteContract();
 
-  const { isLoading: isConfirming, isSuccess } =
-    useWaitForTransactionReceipt({ hash: txHash });
+  const {
+    data: receipt,
+    isLoading: isConfirming,
+    isSuccess,
+    safeStatus,
+    transactionHash,
+    error: receiptError,
+  } = useTransactionReceipt(txHash);
+
+  // The new token, registry and oracle, and the factory index the asset page is keyed by
+  const created = useQuery({
+    queryKey: ["created-asset", chainId, transactionHash],
+    queryFn: async () =>
+      (await new AssetFactoryClient(deployment!.factory, {
+        publicClient: publicClient as PublicClient,
+      }).getCreatedAsset(receipt!)) ?? null,
+    enabled: !!receipt && receipt.status === "success" && !!deployment && !!publicClient,
+    staleTime: Infinity,
+  });
+  const createdAsset = created.data ?? undefined;
 
   useEffect(() => {
-    if (isSuccess) {
-      // Reset form
-      setName("");
-      setSymbol("");
-      setPropertyId("");
-      setJurisdiction("");
-      setTotalValuation("");
-      setCommodityType("");
-      setUnit("");
-    }
-  }, [isSuccess]);
+    if (!createdAsset) return;
+    startAssetSetup(chainId, createdAsset.token);
+    router.push(`/asset/${createdAsset.index}`);
+  }, [createdAsset, chainId, router]);
 
-  function handleCreate() {
-    if (!FACTORY_ADDRESS || !address) return;
+  function handleReview() {
+    setShowErrors(true);
+    const fresh = validate(Math.floor(Date.now() / 1000));
+    if (fresh?.ok) setPending({ call: fresh.call, review: fresh.review });
+  }
 
-    const payAddr = USDC_ADDRESS as `0x${string}`;
-    const compAddr = complianceOfficer as `0x${string}`;
-    const oracleAddr = oracleUpdater as `0x${string}`;
+  function handleEdit() {
+    setPending(null);
+    reset();
+  }
 
-    switch (assetType) {
-      case "BOND": {
-        const maturityTimestamp =
-          BigInt(Math.floor(Date.now() / 1000)) +
-          BigInt(Number(maturityDays) * 86400);
-        writeContract({
-          chainId: CHAIN_ID,
-          address: FACTORY_ADDRESS,
-          abi: assetFactoryAbi,
-          functionName: "createBond",
-          args: [
-            name,
-            symbol,
-            maturityTimestamp,
-            BigInt(couponBps),
-            parseUnits(faceValue, 6),
-            payAddr,
-            compAddr,
-            oracleAddr,
-          ],
-        });
+  function handleCreate() {
+    if (!deployment || !pending || !simulation.isSuccess) return;
+    const base = { chainId, address: deployment.factory, abi: assetFactoryAbi } as const;
+    const { call } = pending;
+    switch (call.functionName) {
+      case "createBond":
+        writeContract({ ...base, functionName: call.functionName, args: call.args });
         break;
-      }
-      case "REAL_ESTATE": {
-        writeContract({
-          chainId: CHAIN_ID,
-          address: FACTORY_ADDRESS,
-          abi: assetFactoryAbi,
-          functionName: "createRealEstate",
-          args: [
-            name,
-            symbol,
-            propertyId,
-            jurisdiction,
-            parseUnits(totalValuation, 6),
-            BigInt(rentalYieldBps),
-            payAddr,
-            compAddr,
-            oracleAddr,
-          ],
-        });
+      case "createRealEstate":
+        writeContract({ ...base, functionName: call.functionName, args: call.args });
         break;
-      }
-      case "COMMODITY": {
-        writeContract({
-          chainId: CHAIN_ID,
-          address: FACTORY_ADDRESS,
-          abi: assetFactoryAbi,
-          functionName: "createCommodity",
-          args: [
-            name,
-            symbol,
-            commodityType,
-            unit,
-            parseUnits(backingRatio, 18),
-            payAddr,
-            compAddr,
-            oracleAddr,
-          ],
-        });
+      case "createCommodity":
+        writeContract({ ...base, functionName: call.functionName, args: call.args });
         break;
-      }
     }
   }
 
@@ -148,6 +162,10 @@ export function CreateAssetForm() {
     { type: "REAL_ESTATE", label: "Real Estate" },
     { type: "COMMODITY", label: "Commodity" },
   ];
+  const typeLabel = tabs.find((t) => t.type === assetType)?.label;
+  const defaultPlaceholder = address ? `${shortenAddress(address)} (you)` : "0x...";
+  const maturityPreview =
+    assetType === "BOND" && result?.ok ? result.review.find((r) => r.param === "maturityDate")?.display : undefined;
 
   return (
     <div className="mx-auto max-w-2xl">
@@ -160,9 +178,12 @@ export function CreateAssetForm() {
             key={tab.type}
             onClick={() => {
               setAssetType(tab.type);
+              setPending(null);
+              setShowErrors(false);
               reset();
             }}
-            className={`flex-1 rounded-md py-2.5 text-sm font-medium transition-colors ${
+            disabled={isPending || isConfirming}
+            className={`flex-1 rounded-md py-2.5 text-sm font-medium transition-colors disabled:opacity-50 ${
               assetType === tab.type
                 ? "bg-blue-600 text-white"
                 : "text-slate-400 hover:text-white"
@@ -174,124 +195,165 @@ export function CreateAssetForm() {
       </div>
 
       <div className="space-y-6 rounded-xl border border-slate-800 bg-slate-900/50 p-6">
-        {/* Common Fields */}
-        <div className="grid grid-cols-2 gap-4">
-          <FormField label="Token Name" value={name} onChange={setName} placeholder={ASSET_PLACEHOLDERS[assetType].name} />
-          <FormField label="Token Symbol" value={symbol} onChange={setSymbol} placeholder={ASSET_PLACEHOLDERS[assetType].symbol} />
-        </div>
-
-        <div className="grid grid-cols-2 gap-4">
-          <FormField
-            label="Compliance Officer"
-            value={complianceOfficer}
-            onChange={setComplianceOfficer}
-            placeholder="0x..."
-            mono
-          />
-          <FormField
-            label="Oracle Updater"
-            value={oracleUpdater}
-            onChange={setOracleUpdater}
-            placeholder="0x..."
-            mono
+        {pending ? (
+          <ReviewStep
+            rows={pending.review}
+            functionName={pending.call.functionName}
+            simulation={simulation}
           />
-        </div>
-
-        {/* Bond-specific fields */}
-        {assetType === "BOND" && (
-          <div className="space-y-4 border-t border-slate-800 pt-4">
-            <p className="text-sm font-medium text-slate-300">Bond Parameters</p>
-            <div className="grid grid-cols-3 gap-4">
-              <FormField
-                label="Maturity (days)"
-                value={maturityDays}
-                onChange={setMaturityDays}
-                placeholder="180"
-                type="number"
-              />
-              <FormField
-                label="Coupon Rate (bps)"
-                value={couponBps}
-                onChange={setCouponBps}
-                placeholder="500 = 5%"
-                type="number"
-              />
-              <FormField
-                label="Face Value (USDC)"
-                value={faceValue}
-                onChange={setFaceValue}
-                placeholder="1000"
-                type="number"
-              />
+        ) : (
+          <>
+            {/* Common Fields */}
+            <div className="grid grid-cols-2 gap-4">
+              <FormField label="Token Name" value={values.name} onChange={setField("name")} placeholder={ASSET_PLACEHOLDERS[assetType].name} error={errors.name} />
+              <FormField label="Token Symbol" value={values.symbol} onChange={setField("symbol")} placeholder={ASSET_PLACEHOLDERS[assetType].symbol} error={errors.symbol} />
             </div>
-          </div>
-        )}
 
-        {/* Real Estate-specific fields */}
-        {assetType === "REAL_ESTATE" && (
-          <div className="space-y-4 border-t border-slate-800 pt-4">
-            <p className="text-sm font-medium text-slate-300">
-              Real Estate Parameters
-            </p>
             <div className="grid grid-cols-2 gap-4">
               <FormField
-                label="Property ID"
-                value={propertyId}
-                onChange={setPropertyId}
-                placeholder="property-001"
-              />
-              <FormField
-                label="Jurisdiction"
-                value={jurisdiction}
-                onChange={setJurisdiction}
-                placeholder="US"
-              />
-              <FormField
-                label="Total Valuation (USDC)"
-                value={totalValuation}
-                onChange={setTotalValuation}
-                placeholder="10000000"
-                type="number"
+                label="Compliance Officer"
+                value={values.complianceOfficer}
+                onChange={setField("complianceOfficer")}
+                placeholder={defaultPlaceholder}
+                error={errors.complianceOfficer}
+                mono
               />
               <FormField
-                label="Rental Yield (bps)"
-                value={rentalYieldBps}
-                onChange={setRentalYieldBps}
-                placeholder="800 = 8%"
-                type="number"
+                label="Oracle Updater"
+                value={values.oracleUpdater}
+                onChange={setField("oracleUpdater")}
+                placeholder={defaultPlaceholder}
+                error={errors.oracleUpdater}
+                mono
               />
             </div>
-          </div>
-        )}
+            <p className="-mt-4 text-xs text-slate-500">Leave blank to use your connected wallet.</p>
 
-        {/* Commodity-specific fields */}
-        {assetType === "COMMODITY" && (
-          <div className="space-y-4 border-t border-slate-800 pt-4">
-            <p className="text-sm font-medium text-slate-300">
-              Commodity Parameters
-            </p>
-            <div className="grid grid-cols-3 gap-4">
-              <FormField
-                label="Commodity Type"
-                value={commodityType}
-                onChange={setCommodityType}
-                placeholder="GOLD"
-              />
-              <FormField
-                label="Unit"
-                value={unit}
-                onChange={setUnit}
-                placeholder="troy_oz"
-              />
-              <FormField
-                label="Backing Ratio"
-                value={backingRatio}
-                onChange={setBackingRatio}
-                placeholder="1 = 1:1"
-                type="number"
-              />
-            </div>
-          </div>
+            {paymentTokens.length > 1 && (
+              <div>
+                <label className="mb-1 block text-xs text-slate-400">Payment Token</label>
+                <select
+                  value={paymentIndex}
+                  onChange={(e) => setPaymentIndex(Number(e.target.value))}
+                  className="w-full rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 text-sm text-white outline-none focus:border-blue-500"
+                >
+                  {paymentTokens.map((t, i) => (
+                    <option key={t.address} value={i}>
+                      {t.symbol} ({shortenAddress(t.address)})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {/* Bond-specific fields */}
+            {assetType === "BOND" && (
+              <div className="space-y-4 border-t border-slate-800 pt-4">
+                <p className="text-sm font-medium text-slate-300">Bond Parameters</p>
+                <div className="grid grid-cols-3 gap-4">
+                  <FormField
+                    label="Maturity (days)"
+                    value={values.maturityDays}
+                    onChange={setField("maturityDays")}
+                    placeholder="180"
+                    type="number"
+                    error={errors.maturityDays}
+                  />
+                  <FormField
+                    label="Coupon Rate (bps)"
+                    value={values.couponBps}
+                    onChange={setField("couponBps")}
+                    placeholder="500 = 5%"
+                    type="number"
+                    error={errors.couponBps}
+                  />
+                  <FormField
+                    label={`Face Value (${paymentSymbol})`}
+                    value={values.faceValue}
+                    onChange={setField("faceValue")}
+                    placeholder="1000"
+                    type="number"
+                    error={errors.faceValue}
+                  />
+                </div>
+                {maturityPreview && <p className="text-xs text-slate-500">Matures {maturityPreview}</p>}
+              </div>
+            )}
+
+            {/* Real Estate-specific fields */}
+            {assetType === "REAL_ESTATE" && (
+              <div className="space-y-4 border-t border-slate-800 pt-4">
+                <p className="text-sm font-medium text-slate-300">
+                  Real Estate Parameters
+                </p>
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    label="Property ID"
+                    value={values.propertyId}
+                    onChange={setField("propertyId")}
+                    placeholder="property-001"
+                    error={errors.propertyId}
+                  />
+                  <FormField
+                    label="Jurisdiction"
+                    value={values.jurisdiction}
+                    onChange={setField("jurisdiction")}
+                    placeholder="US"
+                    error={errors.jurisdiction}
+                  />
+                  <FormField
+                    label={`Total Valuation (${paymentSymbol})`}
+                    value={values.totalValuation}
+                    onChange={setField("totalValuation")}
+                    placeholder="10000000"
+                    type="number"
+                    error={errors.totalValuation}
+                  />
+                  <FormField
+                    label="Rental Yield (bps)"
+                    value={values.rentalYieldBps}
+                    onChange={setField("rentalYieldBps")}
+                    placeholder="800 = 8%"
+                    type="number"
+                    error={errors.rentalYieldBps}
+                  />
+                </div>
+              </div>
+            )}
+
+            {/* Commodity-specific fields */}
+            {assetType === "COMMODITY" && (
+              <div className="space-y-4 border-t border-slate-800 pt-4">
+                <p className="text-sm font-medium text-slate-300">
+                  Commodity Parameters
+                </p>
+                <div className="grid grid-cols-3 gap-4">
+                  <FormField
+                    label="Commodity Type"
+                    value={values.commodityType}
+                    onChange={setField("commodityType")}
+                    placeholder="GOLD"
+                    error={errors.commodityType}
+                  />
+                  <FormField
+                    label="Unit"
+                    value={values.unit}
+                    onChange={setField("unit")}
+                    placeholder="troy_oz"
+                    error={errors.unit}
+                  />
+                  <FormField
+                    label="Backing Ratio"
+                    value={values.backingRatio}
+                    onChange={setField("backingRatio")}
+                    placeholder="1 = 1:1"
+                    type="number"
+                    error={errors.backingRatio}
+                  />
+                </div>
+              </div>
+            )}
+          </>
         )}
 
         {/* Submit */}
@@ -299,38 +361,71 @@ export function CreateAssetForm() {
           <p className="text-center text-sm text-slate-500">
             Connect your wallet to create assets
           </p>
-        ) : !FACTORY_ADDRESS ? (
+        ) : !deployment ? (
+          <p className="text-center text-sm text-red-400">
+            The protocol isn&apos;t deployed on {chain.name}. Switch networks or add it to deployments.json.
+          </p>
+        ) : !paymentToken ? (
           <p className="text-center text-sm text-red-400">
-            Factory address not configured. Set NEXT_PUBLIC_FACTORY_ADDRESS in .env.local
+            No payment token is registered for {chain.name} in deployments.json.
           </p>
+        ) : pending ? (
+          <div className="flex gap-3">
+            <button
+              onClick={handleEdit}
+              disabled={isPending || isConfirming}
+              className="rounded-lg bg-slate-800 px-6 py-3 text-sm font-medium text-slate-300 transition-colors hover:bg-slate-700 disabled:opacity-50"
+            >
+              Edit
+            </button>
+            <button
+              onClick={handleCreate}
+              disabled={!simulation.isSuccess || isPending || isConfirming || isSuccess}
+              className="flex-1 rounded-lg bg-blue-600 py-3 text-sm font-medium text-white transition-colors hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isPending
+                ? "Confirm in wallet..."
+                : isConfirming
+                  ? "Creating asset..."
+                  : simulation.isFetching
+                    ? "Simulating..."
+                    : `Sign & create ${typeLabel}`}
+            </button>
+          </div>
         ) : (
           <button
-            onClick={handleCreate}
-            disabled={!name || !symbol || isPending || isConfirming}
+            onClick={handleReview}
+            disabled={showErrors && !result?.ok}
             className="w-full rounded-lg bg-blue-600 py-3 text-sm font-medium text-white transition-colors hover:bg-blue-700 disabled:opacity-50"
           >
-            {isPending
-              ? "Confirm in wallet..."
-              : isConfirming
-                ? "Creating asset..."
-                : `Create ${tabs.find((t) => t.type === assetType)?.label}`}
+            Review {typeLabel}
           </button>
         )}
 
-        {writeError && (
-          <p className="text-center text-sm text-red-400">
-            Error: {writeError.message.slice(0, 100)}
-          </p>
-        )}
+        <SafeTxStatusNote status={safeStatus} />
+        <TxError error={writeError ?? receiptError} />
 
-        {isSuccess && txHash && (
+        {isSuccess && transactionHash && (
           <div className="rounded-lg border border-emerald-500/30 bg-emerald-500/10 p-4 text-center">
             <p className="text-sm text-emerald-400">
               Asset created successfully!
             </p>
             <p className="mt-1 text-xs font-mono text-slate-400">
-              Tx: {shortenAddress(txHash)}
+              Tx: {shortenAddress(transactionHash)}
             </p>
+            {createdAsset ? (
+              <p className="mt-1 text-xs text-slate-400">
+                Token {shortenAddress(createdAsset.token)} &middot; Registry{" "}
+                {shortenAddress(createdAsset.complianceRegistry)} &middot; Oracle{" "}
+                {shortenAddress(createdAsset.navOracle)}. Opening setup...
+              </p>
+            ) : created.isError || created.data === null ? (
+              <p className="mt-1 text-xs text-amber-400">
+                Couldn&apos;t find the new asset in the factory. It will appear on the dashboard.
+              </p>
+            ) : (
+              <p className="mt-1 text-xs text-slate-400">Locating the new asset...</p>
+            )}
           </div>
         )}
       </div>
@@ -338,6 +433,55 @@ export function CreateAssetForm() {
   );
 }
 
+/** The exact factory arguments, and what simulating them against the factory returned */
+function ReviewStep({
+  rows,
+  functionName,
+  simulation,
+}: {
+  rows: ReviewRow[];
+  functionName: CreateAssetCall["functionName"];
+  simulation: UseQueryResult<readonly [`0x${string}`, `0x${string}`, `0x${string}`]>;
+}) {
+  const predicted = simulation.data;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <p className="text-sm font-medium text-slate-300">Review</p>
+        <p className="text-xs text-slate-500">
+          <span className="font-mono">AssetFactory.{functionName}</span> will be called with these arguments.
+        </p>
+      </div>
+      <dl className="divide-y divide-slate-800 rounded-lg bg-slate-800/30 text-xs">
+        {rows.map((r) => (
+          <div key={r.param} className="grid grid-cols-3 gap-2 px-3 py-2">
+            <dt className="font-mono text-slate-500">{r.param}</dt>
+            <dd className="col-span-2 break-all text-white">
+              {r.display}
+              {r.display !== r.raw && <span className="block font-mono text-slate-500">{r.raw}</span>}
+            </dd>
+          </div>
+        ))}
+      </dl>
+      {simulation.isFetching ? (
+        <p className="text-xs text-slate-400">Simulating against the factory...</p>
+      ) : simulation.error ? (
+        <TxError error={simulation.error} />
+      ) : (
+        predicted && (
+          <div className="rounded-lg border border-emerald-500/30 bg-emerald-500/10 p-3 text-xs text-emerald-400">
+            Simulation succeeded. If nothing else is created first, this deploys token{" "}
+            <span className="font-mono">{shortenAddress(predicted[0])}</span>, registry{" "}
+            <span className="font-mono">{shortenAddress(predicted[1])}</span> and oracle{" "}
+            <span className="font-mono">{shortenAddress(predicted[2])}</span>.
+          </div>
+        )
+      )}
+    </div>
+  );
+}
+
 function FormField({
   label,
   value,
@@ -345,6 +489,7 @@ function FormField({
   placeholder,
   type = "text",
   mono = false,
+  error,
 }: {
   label: string;
   value: string;
@@ -352,6 +497,7 @@ function FormField({
   placeholder: string;
   type?: string;
   mono?: boolean;
+  error?: string;
 }) {
   return (
     <div>
@@ -361,8 +507,9 @@ function FormField({
         placeholder={placeholder}
         value={value}
         onChange={(e) => onChange(e.target.value)}
-        className={`w-full rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 text-sm text-white outline-none placeholder:text-slate-600 focus:border-blue-500 ${mono ? "font-mono" : ""}`}
+        className={`w-full rounded-lg border bg-slate-800 px-3 py-2 text-sm text-white outline-none placeholder:text-slate-600 focus:border-blue-500 ${error ? "border-red-500/60" : "border-slate-700"} ${mono ? "font-mono" : ""}`}
       />
+      {error && <p className="mt-1 text-xs text-red-400">{error}</p>}
     </div>
   );
 }
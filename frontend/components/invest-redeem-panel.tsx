@@ -5,34 +5,54 @@ import {
   useAccount,
   useReadContract,
   useWriteContract,
-  useWaitForTransactionReceipt,
 } from "wagmi";
 import { parseUnits, formatUnits } from "viem";
 import { rwaTokenAbi, erc20Abi, navOracleAbi } from "@/lib/abi";
-import { CHAIN_ID } from "@/lib/wagmi";
-import { formatUSDC, formatTokens } from "@/lib/utils";
+import { useTransactionReceipt } from "@/lib/transactions";
+import { useDeployment } from "@/lib/wagmi";
+import { formatPaymentAmount, formatTokens, formatNAV, formatBps, formatTimestamp } from "@/lib/utils";
+import { quoteInvest, quoteRedeem, applySlippage, priceImpactBps } from "@/lib/sdk";
+import { useSlippageTolerance } from "@/lib/slippage";
+import { useTradePreflight } from "@/lib/preflight";
+import { SlippageSettings } from "@/components/slippage-settings";
+import { PreflightChecklist } from "@/components/preflight-checklist";
+import { SafeTxStatusNote } from "@/components/safe-tx-status";
+import { TxError } from "@/components/tx-error";
 
 interface InvestRedeemPanelProps {
   tokenAddress: `0x${string}`;
   paymentTokenAddress: `0x${string}`;
   navOracleAddress: `0x${string}`;
+  /** Set once a bond has matured: invest is hidden and only redeem is offered */
+  maturity?: { maturityDate: bigint };
 }
 
 export function InvestRedeemPanel({
   tokenAddress,
   paymentTokenAddress,
   navOracleAddress,
+  maturity,
 }: InvestRedeemPanelProps) {
+  const { chainId } = useDeployment();
   const { address } = useAccount();
   const [investAmount, setInvestAmount] = useState("");
   const [redeemAmount, setRedeemAmount] = useState("");
-  const [activeTab, setActiveTab] = useState<"invest" | "redeem">("invest");
+  const [selectedTab, setSelectedTab] = useState<"invest" | "redeem">("invest");
+  const activeTab = maturity ? "redeem" : selectedTab;
+  const [slippageBps, setSlippageBps] = useSlippageTolerance(address);
 
   // ---- Contract Reads ----
-  const { data: nav } = useReadContract({
+  // The same NAV invest/redeem will use; reverts (no data) while it is stale
+  const { data: nav, isError: isNavUnavailable } = useReadContract({
     address: navOracleAddress,
     abi: navOracleAbi,
-    functionName: "navPerToken",
+    functionName: "getValidatedNavPerToken",
+  });
+
+  const { data: paymentTokenScale } = useReadContract({
+    address: tokenAddress,
+    abi: rwaTokenAbi,
+    functionName: "paymentTokenScale",
   });
 
   const { data: usdcBalance } = useReadContract({
@@ -88,6 +108,7 @@ export function InvestRedeemPanel({
     writeContract: writeApprove,
     data: approveHash,
     isPending: isApprovePending,
+    error: approveError,
     reset: resetApprove,
   } = useWriteContract();
 
@@ -95,6 +116,7 @@ export function InvestRedeemPanel({
     writeContract: writeInvest,
     data: investHash,
     isPending: isInvestPending,
+    error: investError,
     reset: resetInvest,
   } = useWriteContract();
 
@@ -102,17 +124,30 @@ export function InvestRedeemPanel({
     writeContract: writeRedeem,
     data: redeemHash,
     isPending: isRedeemPending,
+    error: redeemError,
     reset: resetRedeem,
   } = useWriteContract();
 
-  const { isLoading: isApproveConfirming, isSuccess: isApproveSuccess } =
-    useWaitForTransactionReceipt({ hash: approveHash });
+  const {
+    isLoading: isApproveConfirming,
+    isSuccess: isApproveSuccess,
+    safeStatus: approveSafeStatus,
+    error: approveReceiptError,
+  } = useTransactionReceipt(approveHash);
 
-  const { isLoading: isInvestConfirming, isSuccess: isInvestSuccess } =
-    useWaitForTransactionReceipt({ hash: investHash });
+  const {
+    isLoading: isInvestConfirming,
+    isSuccess: isInvestSuccess,
+    safeStatus: investSafeStatus,
+    error: investReceiptError,
+  } = useTransactionReceipt(investHash);
 
-  const { isLoading: isRedeemConfirming, isSuccess: isRedeemSuccess } =
-    useWaitForTransactionReceipt({ hash: redeemHash });
+  const {
+    isLoading: isRedeemConfirming,
+    isSuccess: isRedeemSuccess,
+    safeStatus: redeemSafeStatus,
+    error: redeemReceiptError,
+  } = useTransactionReceipt(redeemHash);
 
   useEffect(() => {
     if (isApproveSuccess) {
@@ -149,17 +184,50 @@ export function InvestRedeemPanel({
       ? parseUnits(redeemAmount, 18)
       : 0n;
 
-  const paymentTokenScale = 10n ** (18n - BigInt(decimals));
+  const canQuote = nav !== undefined && paymentTokenScale !== undefined;
   const estimatedTokensOut =
-    nav && investAmountBigInt > 0n
-      ? (investAmountBigInt * paymentTokenScale * 10n ** 18n) / nav
+    canQuote && investAmountBigInt > 0n
+      ? quoteInvest(investAmountBigInt, nav, paymentTokenScale)
       : 0n;
 
   const estimatedPaymentOut =
-    nav && redeemAmountBigInt > 0n
-      ? (redeemAmountBigInt * nav) / 10n ** 18n / paymentTokenScale
+    canQuote && redeemAmountBigInt > 0n
+      ? quoteRedeem(redeemAmountBigInt, nav, paymentTokenScale)
       : 0n;
 
+  const minTokensOut = applySlippage(estimatedTokensOut, slippageBps);
+  const minPaymentOut = applySlippage(estimatedPaymentOut, slippageBps);
+
+  const investImpactBps = canQuote
+    ? priceImpactBps(investAmountBigInt, estimatedTokensOut, nav, paymentTokenScale)
+    : 0;
+  const redeemImpactBps = canQuote
+    ? priceImpactBps(estimatedPaymentOut, redeemAmountBigInt, nav, paymentTokenScale)
+    : 0;
+
+  const preflightBase = {
+    tokenAddress,
+    paymentTokenAddress,
+    navOracleAddress,
+    account: address,
+  };
+  const investPreflight = useTradePreflight({
+    ...preflightBase,
+    action: "invest",
+    amount: investAmountBigInt,
+    expectedOut: estimatedTokensOut,
+    minOut: minTokensOut,
+    errorContext: { action: "invest", paymentSymbol: pSymbol, paymentDecimals: decimals },
+  });
+  const redeemPreflight = useTradePreflight({
+    ...preflightBase,
+    action: "redeem",
+    amount: redeemAmountBigInt,
+    expectedOut: estimatedPaymentOut,
+    minOut: minPaymentOut,
+    errorContext: { action: "redeem", paymentSymbol: pSymbol, paymentDecimals: decimals },
+  });
+
   const needsApproval =
     allowance !== undefined &&
     investAmountBigInt > 0n &&
@@ -168,7 +236,7 @@ export function InvestRedeemPanel({
   // ---- Handlers ----
   function handleApprove() {
     writeApprove({
-      chainId: CHAIN_ID,
+      chainId,
       address: paymentTokenAddress,
       abi: erc20Abi,
       functionName: "approve",
@@ -178,21 +246,21 @@ export function InvestRedeemPanel({
 
   function handleInvest() {
     writeInvest({
-      chainId: CHAIN_ID,
+      chainId,
       address: tokenAddress,
       abi: rwaTokenAbi,
       functionName: "invest",
-      args: [investAmountBigInt, 0n],
+      args: [investAmountBigInt, minTokensOut],
     });
   }
 
   function handleRedeem() {
     writeRedeem({
-      chainId: CHAIN_ID,
+      chainId,
       address: tokenAddress,
       abi: rwaTokenAbi,
       functionName: "redeem",
-      args: [redeemAmountBigInt, 0n],
+      args: [redeemAmountBigInt, minPaymentOut],
     });
   }
 
@@ -201,36 +269,58 @@ export function InvestRedeemPanel({
   return (
     <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6">
       {/* Tabs */}
-      <div className="mb-6 flex rounded-lg bg-slate-800/50 p-1">
-        <button
-          onClick={() => setActiveTab("invest")}
-          className={`flex-1 rounded-md py-2 text-sm font-medium transition-colors ${
-            activeTab === "invest"
-              ? "bg-blue-600 text-white"
-              : "text-slate-400 hover:text-white"
-          }`}
-        >
-          Invest
-        </button>
-        <button
-          onClick={() => setActiveTab("redeem")}
-          className={`flex-1 rounded-md py-2 text-sm font-medium transition-colors ${
-            activeTab === "redeem"
-              ? "bg-blue-600 text-white"
-              : "text-slate-400 hover:text-white"
-          }`}
-        >
-          Redeem
-        </button>
+      {maturity ? (
+        <div className="mb-6 rounded-lg border border-amber-500/30 bg-amber-500/10 p-4 text-sm">
+          <p className="font-medium text-amber-400">
+            Matured on {formatTimestamp(maturity.maturityDate)}
+          </p>
+          <p className="mt-1 text-slate-400">
+            New investments are closed. Redemptions pay the current oracle NAV
+            {nav !== undefined ? `, ${formatNAV(nav)} per token` : ""}.
+          </p>
+        </div>
+      ) : (
+        <div className="mb-6 flex rounded-lg bg-slate-800/50 p-1">
+          <button
+            onClick={() => setSelectedTab("invest")}
+            className={`flex-1 rounded-md py-2 text-sm font-medium transition-colors ${
+              activeTab === "invest"
+                ? "bg-blue-600 text-white"
+                : "text-slate-400 hover:text-white"
+            }`}
+          >
+            Invest
+          </button>
+          <button
+            onClick={() => setSelectedTab("redeem")}
+            className={`flex-1 rounded-md py-2 text-sm font-medium transition-colors ${
+              activeTab === "redeem"
+                ? "bg-blue-600 text-white"
+                : "text-slate-400 hover:text-white"
+            }`}
+          >
+            Redeem
+          </button>
+        </div>
+      )}
+
+      <div className="mb-4">
+        <SlippageSettings slippageBps={slippageBps} onChange={setSlippageBps} />
       </div>
 
+      {isNavUnavailable && (
+        <p className="mb-4 rounded-lg bg-amber-500/10 p-3 text-xs text-amber-400">
+          NAV is stale, so invest and redeem are unavailable until the oracle is updated.
+        </p>
+      )}
+
       {activeTab === "invest" ? (
         <div className="space-y-4">
           <div className="flex items-center justify-between text-sm">
             <span className="text-slate-400">Your {pSymbol} Balance</span>
             <span className="font-medium text-white">
               {address && usdcBalance !== undefined
-                ? formatUSDC(usdcBalance)
+                ? formatPaymentAmount(usdcBalance, decimals)
                 : "--"}
             </span>
           </div>
@@ -260,21 +350,27 @@ export function InvestRedeemPanel({
             )}
           </div>
 
-          {estimatedTokensOut > 0n && (
-            <div className="rounded-lg bg-slate-800/30 p-3 text-sm">
-              <span className="text-slate-400">You will receive ~ </span>
-              <span className="font-medium text-white">
-                {formatTokens(estimatedTokensOut)} tokens
-              </span>
-            </div>
+          {estimatedTokensOut > 0n && nav !== undefined && (
+            <QuoteDetails
+              rows={[
+                ["Rate", `1 token = ${formatNAV(nav)}`],
+                ["You will receive ~", `${formatTokens(estimatedTokensOut)} tokens`],
+                ["Minimum received", `${formatTokens(minTokensOut)} tokens`],
+                ["Price impact", formatImpact(investImpactBps)],
+              ]}
+            />
           )}
 
           {investCapacity !== undefined && investCapacity < maxUsdcLimit && (
             <p className="text-xs text-slate-500">
-              Daily limit remaining: {formatUSDC(investCapacity)} {pSymbol}
+              Daily limit remaining: {formatPaymentAmount(investCapacity, decimals)} {pSymbol}
             </p>
           )}
 
+          {address && investAmountBigInt > 0n && (
+            <PreflightChecklist checks={investPreflight.checks} />
+          )}
+
           {!address ? (
             <p className="text-center text-sm text-slate-500">
               Connect your wallet to invest
@@ -282,7 +378,7 @@ export function InvestRedeemPanel({
           ) : needsApproval ? (
             <button
               onClick={handleApprove}
-              disabled={isApprovePending || isApproveConfirming}
+              disabled={!investPreflight.canApprove || isApprovePending || isApproveConfirming}
               className="w-full rounded-lg bg-amber-600 py-3 text-sm font-medium text-white transition-colors hover:bg-amber-700 disabled:opacity-50"
             >
               {isApprovePending
@@ -295,7 +391,8 @@ export function InvestRedeemPanel({
             <button
               onClick={handleInvest}
               disabled={
-                investAmountBigInt === 0n ||
+                !investPreflight.canSubmit ||
+                estimatedTokensOut === 0n ||
                 isInvestPending ||
                 isInvestConfirming
               }
@@ -309,6 +406,12 @@ export function InvestRedeemPanel({
             </button>
           )}
 
+          <SafeTxStatusNote status={approveSafeStatus ?? investSafeStatus} />
+          <TxError
+            error={approveError ?? approveReceiptError ?? investError ?? investReceiptError}
+            context={{ action: "invest", paymentSymbol: pSymbol, paymentDecimals: decimals }}
+          />
+
           {isInvestSuccess && (
             <p className="text-center text-sm text-emerald-400">
               Investment successful!
@@ -349,13 +452,15 @@ export function InvestRedeemPanel({
             )}
           </div>
 
-          {estimatedPaymentOut > 0n && (
-            <div className="rounded-lg bg-slate-800/30 p-3 text-sm">
-              <span className="text-slate-400">You will receive ~ </span>
-              <span className="font-medium text-white">
-                {formatUSDC(estimatedPaymentOut)} {pSymbol}
-              </span>
-            </div>
+          {estimatedPaymentOut > 0n && nav !== undefined && (
+            <QuoteDetails
+              rows={[
+                ["Rate", `1 token = ${formatNAV(nav)}`],
+                ["You will receive ~", `${formatPaymentAmount(estimatedPaymentOut, decimals)} ${pSymbol}`],
+                ["Minimum received", `${formatPaymentAmount(minPaymentOut, decimals)} ${pSymbol}`],
+                ["Price impact", formatImpact(redeemImpactBps)],
+              ]}
+            />
           )}
 
           {redeemCapacity !== undefined && redeemCapacity < maxUsdcLimit && (
@@ -364,6 +469,10 @@ export function InvestRedeemPanel({
             </p>
           )}
 
+          {address && redeemAmountBigInt > 0n && (
+            <PreflightChecklist checks={redeemPreflight.checks} />
+          )}
+
           {!address ? (
             <p className="text-center text-sm text-slate-500">
               Connect your wallet to redeem
@@ -372,7 +481,8 @@ export function InvestRedeemPanel({
             <button
               onClick={handleRedeem}
               disabled={
-                redeemAmountBigInt === 0n ||
+                !redeemPreflight.canSubmit ||
+                estimatedPaymentOut === 0n ||
                 isRedeemPending ||
                 isRedeemConfirming
               }
@@ -386,6 +496,12 @@ export function InvestRedeemPanel({
             </button>
           )}
 
+          <SafeTxStatusNote status={redeemSafeStatus} />
+          <TxError
+            error={redeemError ?? redeemReceiptError}
+            context={{ action: "redeem", paymentSymbol: pSymbol, paymentDecimals: decimals }}
+          />
+
           {isRedeemSuccess && (
             <p className="text-center text-sm text-emerald-400">
               Redemption successful!
@@ -396,3 +512,20 @@ export function InvestRedeemPanel({
     </div>
   );
 }
+
+function formatImpact(bps: number): string {
+  return bps < 1 ? "< 0.01%" : formatBps(bps);
+}
+
+function QuoteDetails({ rows }: { rows: [string, string][] }) {
+  return (
+    <div className="space-y-1.5 rounded-lg bg-slate-800/30 p-3 text-sm">
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex items-center justify-between">
+          <span className="text-slate-400">{label}</span>
+          <span className="font-medium text-white">{value}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
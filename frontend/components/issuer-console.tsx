@@ -0,0 +1,638 @@
+"use client";
+
+import { useState } from "react";
+import {
+  useAccount,
+  useReadContract,
+  useReadContracts,
+  useWriteContract,
+} from "wagmi";
+import { isAddress, parseUnits, zeroAddress } from "viem";
+import { erc20Abi, rwaTokenAbi } from "@/lib/abi";
+import { useTransactionReceipt } from "@/lib/transactions";
+import { useDeployment } from "@/lib/wagmi";
+import { formatPayment, type ErrorContext } from "@/lib/errors";
+import { formatTokens } from "@/lib/utils";
+import { SafeTxStatusNote } from "@/components/safe-tx-status";
+import { TxError } from "@/components/tx-error";
+
+interface IssuerConsoleProps {
+  tokenAddress: `0x${string}`;
+  paymentTokenAddress: `0x${string}`;
+}
+
+/** A destructive action waiting for the issuer to confirm it */
+interface PendingConfirmation {
+  title: string;
+  message: string;
+  confirmLabel: string;
+  onConfirm: () => void;
+}
+
+function parseAmount(value: string, decimals: number): bigint {
+  if (!value.trim() || isNaN(Number(value)) || Number(value) < 0) return 0n;
+  try {
+    return parseUnits(value.trim(), decimals);
+  } catch {
+    return 0n;
+  }
+}
+
+/**
+ * Owner-only controls for the token itself: supply, pause, daily limits and
+ * the payment reserve. Renders nothing for anyone but `owner()`.
+ */
+export function IssuerConsole({ tokenAddress, paymentTokenAddress }: IssuerConsoleProps) {
+  const { chainId } = useDeployment();
+  const { address } = useAccount();
+  const [confirmation, setConfirmation] = useState<PendingConfirmation | null>(null);
+
+  const { data: tokenOwner } = useReadContract({
+    address: tokenAddress,
+    abi: rwaTokenAbi,
+    functionName: "owner",
+  });
+
+  const isOwner =
+    address && tokenOwner
+      ? address.toLowerCase() === tokenOwner.toLowerCase()
+      : false;
+
+  const token = { chainId, address: tokenAddress, abi: rwaTokenAbi } as const;
+  const payment = { chainId, address: paymentTokenAddress, abi: erc20Abi } as const;
+  const { data: reads } = useReadContracts({
+    allowFailure: false,
+    contracts: [
+      { ...token, functionName: "paused" },
+      { ...token, functionName: "totalSupply" },
+      { ...token, functionName: "dailyInvestLimit" },
+      { ...token, functionName: "dailyRedeemLimit" },
+      { ...token, functionName: "getRemainingInvestCapacity" },
+      { ...token, functionName: "getRemainingRedeemCapacity" },
+      { ...payment, functionName: "balanceOf", args: [tokenAddress] },
+      { ...payment, functionName: "balanceOf", args: [address ?? zeroAddress] },
+      { ...payment, functionName: "allowance", args: [address ?? zeroAddress, tokenAddress] },
+      { ...payment, functionName: "decimals" },
+      { ...payment, functionName: "symbol" },
+    ],
+    query: { enabled: isOwner },
+  });
+
+  if (!isOwner) return null;
+
+  if (!reads) {
+    return (
+      <div className="flex items-center justify-center rounded-xl border border-slate-800 bg-slate-900/50 p-12">
+        <div className="h-6 w-6 animate-spin rounded-full border-2 border-blue-500 border-t-transparent" />
+      </div>
+    );
+  }
+
+  const [
+    paused,
+    totalSupply,
+    dailyInvestLimit,
+    dailyRedeemLimit,
+    investCapacity,
+    redeemCapacity,
+    reserve,
+    ownerPaymentBalance,
+    allowance,
+    paymentDecimals,
+    paymentSymbol,
+  ] = reads;
+  const ctx: ErrorContext = { paymentSymbol, paymentDecimals };
+
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+      <div className="mb-4 flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-white">Issuer Console</h3>
+        <span
+          className={`inline-flex rounded-full border px-2.5 py-0.5 text-xs font-medium ${
+            paused
+              ? "border-red-500/30 bg-red-500/20 text-red-400"
+              : "border-emerald-500/30 bg-emerald-500/20 text-emerald-400"
+          }`}
+        >
+          {paused ? "Paused" : "Active"}
+        </span>
+      </div>
+
+      <div className="mb-6 grid grid-cols-2 gap-3 sm:grid-cols-4">
+        <Readout label="Payment Reserve" value={formatPayment(reserve, ctx)} />
+        <Readout label="Total Supply" value={`${formatTokens(totalSupply)} tokens`} />
+        <Readout
+          label="Invest Limit / Left Today"
+          value={
+            dailyInvestLimit === 0n
+              ? "Unlimited"
+              : `${formatPayment(dailyInvestLimit, ctx)} / ${formatPayment(investCapacity, ctx)}`
+          }
+        />
+        <Readout
+          label="Redeem Limit / Left Today"
+          value={
+            dailyRedeemLimit === 0n
+              ? "Unlimited"
+              : `${formatTokens(dailyRedeemLimit)} / ${formatTokens(redeemCapacity)}`
+          }
+        />
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        <Section title="Supply">
+          <AddressAmountAction
+            tokenAddress={tokenAddress}
+            functionName="mint"
+            label="Mint to"
+            unit="tokens"
+            decimals={18}
+            hint="Recipient must be eligible in the compliance registry."
+            buttonLabel="Mint"
+            buttonColor="bg-emerald-600 hover:bg-emerald-700"
+            disabled={paused}
+            errorContext={ctx}
+          />
+          <AddressAmountAction
+            tokenAddress={tokenAddress}
+            functionName="burn"
+            label="Burn from"
+            unit="tokens"
+            decimals={18}
+            buttonLabel="Burn"
+            buttonColor="bg-red-600 hover:bg-red-700"
+            disabled={paused}
+            errorContext={ctx}
+            confirm={(to, amount) => ({
+              title: "Burn tokens",
+              message: `Burn ${formatTokens(amount)} tokens from ${to}? This removes them from the holder's balance and can't be undone.`,
+              confirmLabel: "Burn",
+            })}
+            onConfirmRequest={setConfirmation}
+          />
+          {paused && (
+            <p className="text-xs text-amber-400">Minting and burning are disabled while the token is paused.</p>
+          )}
+        </Section>
+
+        <Section title="Trading">
+          <PauseAction
+            tokenAddress={tokenAddress}
+            paused={paused}
+            onConfirmRequest={setConfirmation}
+          />
+          <LimitAction
+            tokenAddress={tokenAddress}
+            functionName="setDailyInvestLimit"
+            label="Daily invest limit"
+            unit={paymentSymbol}
+            decimals={paymentDecimals}
+            errorContext={ctx}
+          />
+          <LimitAction
+            tokenAddress={tokenAddress}
+            functionName="setDailyRedeemLimit"
+            label="Daily redeem limit"
+            unit="tokens"
+            decimals={18}
+            errorContext={ctx}
+          />
+        </Section>
+
+        <Section title="Reserve">
+          <DepositAction
+            tokenAddress={tokenAddress}
+            paymentTokenAddress={paymentTokenAddress}
+            balance={ownerPaymentBalance}
+            allowance={allowance}
+            errorContext={{ ...ctx, action: "deposit" }}
+          />
+          <AddressAmountAction
+            tokenAddress={tokenAddress}
+            functionName="withdrawPaymentTokens"
+            label="Withdraw to"
+            unit={paymentSymbol}
+            decimals={paymentDecimals}
+            max={reserve}
+            buttonLabel="Withdraw"
+            buttonColor="bg-red-600 hover:bg-red-700"
+            errorContext={{ ...ctx, action: "withdraw" }}
+            confirm={(to, amount) => ({
+              title: "Withdraw reserve",
+              message: `Withdraw ${formatPayment(amount, ctx)} to ${to}? Redemptions fail once the reserve can't cover them.`,
+              confirmLabel: "Withdraw",
+            })}
+            onConfirmRequest={setConfirmation}
+          />
+        </Section>
+      </div>
+
+      {confirmation && (
+        <ConfirmDialog
+          {...confirmation}
+          onConfirm={() => {
+            confirmation.onConfirm();
+            setConfirmation(null);
+          }}
+          onCancel={() => setConfirmation(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+// ---- Sub-components ----
+
+function Readout({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-lg bg-slate-800/50 p-3">
+      <p className="text-xs text-slate-500">{label}</p>
+      <p className="mt-1 text-sm font-semibold text-white">{value}</p>
+    </div>
+  );
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="space-y-4">
+      <p className="text-sm font-medium text-slate-300">{title}</p>
+      {children}
+    </div>
+  );
+}
+
+function useOwnerWrite() {
+  const { writeContract, data: hash, isPending, error } = useWriteContract();
+  const {
+    isLoading: isConfirming,
+    isSuccess,
+    safeStatus,
+    error: receiptError,
+  } = useTransactionReceipt(hash);
+  return { writeContract, isPending, isConfirming, isSuccess, safeStatus, error: error ?? receiptError };
+}
+
+function SubmitButton({
+  label,
+  color,
+  disabled,
+  isPending,
+  isConfirming,
+  onClick,
+}: {
+  label: string;
+  color: string;
+  disabled: boolean;
+  isPending: boolean;
+  isConfirming: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled || isPending || isConfirming}
+      className={`rounded-lg px-4 py-2 text-sm font-medium text-white transition-colors disabled:opacity-50 ${color}`}
+    >
+      {isPending ? "..." : isConfirming ? "Confirming" : label}
+    </button>
+  );
+}
+
+const inputClasses =
+  "rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 text-sm text-white outline-none placeholder:text-slate-600 focus:border-blue-500";
+
+function AddressAmountAction({
+  tokenAddress,
+  functionName,
+  label,
+  unit,
+  decimals,
+  max,
+  hint,
+  buttonLabel,
+  buttonColor,
+  disabled = false,
+  errorContext,
+  confirm,
+  onConfirmRequest,
+}: {
+  tokenAddress: `0x${string}`;
+  functionName: "mint" | "burn" | "withdrawPaymentTokens";
+  label: string;
+  unit: string;
+  decimals: number;
+  max?: bigint;
+  hint?: string;
+  buttonLabel: string;
+  buttonColor: string;
+  disabled?: boolean;
+  errorContext: ErrorContext;
+  confirm?: (to: string, amount: bigint) => Omit<PendingConfirmation, "onConfirm">;
+  onConfirmRequest?: (confirmation: PendingConfirmation) => void;
+}) {
+  const { chainId } = useDeployment();
+  const [to, setTo] = useState("");
+  const [amount, setAmount] = useState("");
+  const { writeContract, isPending, isConfirming, isSuccess, safeStatus, error } = useOwnerWrite();
+
+  const target = to.trim();
+  const value = parseAmount(amount, decimals);
+  const isValid = isAddress(target) && value > 0n && (max === undefined || value <= max);
+
+  function submit() {
+    writeContract(
+      {
+        chainId,
+        address: tokenAddress,
+        abi: rwaTokenAbi,
+        functionName,
+        args: [target as `0x${string}`, value],
+      },
+      {
+        onSuccess: () => {
+          setTo("");
+          setAmount("");
+        },
+      }
+    );
+  }
+
+  function handleClick() {
+    if (confirm && onConfirmRequest) {
+      onConfirmRequest({ ...confirm(target, value), onConfirm: submit });
+    } else {
+      submit();
+    }
+  }
+
+  return (
+    <div>
+      <label className="mb-1 block text-xs text-slate-400">{label}</label>
+      <div className="flex flex-col gap-2 sm:flex-row">
+        <input
+          type="text"
+          placeholder="0x address..."
+          value={to}
+          onChange={(e) => setTo(e.target.value)}
+          className={`flex-1 ${inputClasses}`}
+        />
+        <input
+          type="number"
+          placeholder={`0.00 ${unit}`}
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          className={`sm:w-32 ${inputClasses}`}
+        />
+        <SubmitButton
+          label={buttonLabel}
+          color={buttonColor}
+          disabled={disabled || !isValid}
+          isPending={isPending}
+          isConfirming={isConfirming}
+          onClick={handleClick}
+        />
+      </div>
+      {hint && <p className="mt-1 text-xs text-slate-500">{hint}</p>}
+      {max !== undefined && value > max && (
+        <p className="mt-1 text-xs text-red-400">Exceeds the available {unit}.</p>
+      )}
+      {isSuccess && <p className="mt-1 text-xs text-emerald-400">Success!</p>}
+      <SafeTxStatusNote status={safeStatus} className="mt-2" />
+      <TxError error={error} context={errorContext} className="mt-2" />
+    </div>
+  );
+}
+
+function LimitAction({
+  tokenAddress,
+  functionName,
+  label,
+  unit,
+  decimals,
+  errorContext,
+}: {
+  tokenAddress: `0x${string}`;
+  functionName: "setDailyInvestLimit" | "setDailyRedeemLimit";
+  label: string;
+  unit: string;
+  decimals: number;
+  errorContext: ErrorContext;
+}) {
+  const { chainId } = useDeployment();
+  const [limit, setLimit] = useState("");
+  const { writeContract, isPending, isConfirming, isSuccess, safeStatus, error } = useOwnerWrite();
+
+  // Zero is valid and means no limit
+  const isValid = limit.trim() !== "" && !isNaN(Number(limit)) && Number(limit) >= 0;
+
+  function submit() {
+    writeContract(
+      {
+        chainId,
+        address: tokenAddress,
+        abi: rwaTokenAbi,
+        functionName,
+        args: [parseAmount(limit, decimals)],
+      },
+      { onSuccess: () => setLimit("") }
+    );
+  }
+
+  return (
+    <div>
+      <label className="mb-1 block text-xs text-slate-400">{label}</label>
+      <div className="flex gap-2">
+        <input
+          type="number"
+          placeholder={`0.00 ${unit}`}
+          value={limit}
+          onChange={(e) => setLimit(e.target.value)}
+          className={`flex-1 ${inputClasses}`}
+        />
+        <SubmitButton
+          label="Set"
+          color="bg-blue-600 hover:bg-blue-700"
+          disabled={!isValid}
+          isPending={isPending}
+          isConfirming={isConfirming}
+          onClick={submit}
+        />
+      </div>
+      <p className="mt-1 text-xs text-slate-500">Set to 0 for no limit.</p>
+      {isSuccess && <p className="mt-1 text-xs text-emerald-400">Success!</p>}
+      <SafeTxStatusNote status={safeStatus} className="mt-2" />
+      <TxError error={error} context={errorContext} className="mt-2" />
+    </div>
+  );
+}
+
+function PauseAction({
+  tokenAddress,
+  paused,
+  onConfirmRequest,
+}: {
+  tokenAddress: `0x${string}`;
+  paused: boolean;
+  onConfirmRequest: (confirmation: PendingConfirmation) => void;
+}) {
+  const { chainId } = useDeployment();
+  const { writeContract, isPending, isConfirming, safeStatus, error } = useOwnerWrite();
+
+  function submit() {
+    writeContract({
+      chainId,
+      address: tokenAddress,
+      abi: rwaTokenAbi,
+      functionName: paused ? "unpause" : "pause",
+    });
+  }
+
+  function handleClick() {
+    if (paused) {
+      submit();
+      return;
+    }
+    onConfirmRequest({
+      title: "Pause token",
+      message:
+        "Pausing stops every invest, redeem, transfer, mint and burn until the token is unpaused.",
+      confirmLabel: "Pause",
+      onConfirm: submit,
+    });
+  }
+
+  return (
+    <div>
+      <label className="mb-1 block text-xs text-slate-400">
+        {paused ? "Token is paused" : "Token is active"}
+      </label>
+      <SubmitButton
+        label={paused ? "Unpause" : "Pause"}
+        color={paused ? "bg-emerald-600 hover:bg-emerald-700" : "bg-red-600 hover:bg-red-700"}
+        disabled={false}
+        isPending={isPending}
+        isConfirming={isConfirming}
+        onClick={handleClick}
+      />
+      <SafeTxStatusNote status={safeStatus} className="mt-2" />
+      <TxError error={error} className="mt-2" />
+    </div>
+  );
+}
+
+function DepositAction({
+  tokenAddress,
+  paymentTokenAddress,
+  balance,
+  allowance,
+  errorContext,
+}: {
+  tokenAddress: `0x${string}`;
+  paymentTokenAddress: `0x${string}`;
+  balance: bigint;
+  allowance: bigint;
+  errorContext: ErrorContext;
+}) {
+  const { chainId } = useDeployment();
+  const [amount, setAmount] = useState("");
+  const approve = useOwnerWrite();
+  const deposit = useOwnerWrite();
+
+  const value = parseAmount(amount, errorContext.paymentDecimals ?? 6);
+  const needsApproval = value > 0n && allowance < value;
+  const exceedsBalance = value > balance;
+
+  function handleApprove() {
+    approve.writeContract({
+      chainId,
+      address: paymentTokenAddress,
+      abi: erc20Abi,
+      functionName: "approve",
+      args: [tokenAddress, value],
+    });
+  }
+
+  function handleDeposit() {
+    deposit.writeContract(
+      {
+        chainId,
+        address: tokenAddress,
+        abi: rwaTokenAbi,
+        functionName: "depositPaymentTokens",
+        args: [value],
+      },
+      { onSuccess: () => setAmount("") }
+    );
+  }
+
+  return (
+    <div>
+      <label className="mb-1 block text-xs text-slate-400">
+        Deposit from your wallet ({formatPayment(balance, errorContext)} available)
+      </label>
+      <div className="flex gap-2">
+        <input
+          type="number"
+          placeholder={`0.00 ${errorContext.paymentSymbol ?? ""}`}
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          className={`flex-1 ${inputClasses}`}
+        />
+        {needsApproval ? (
+          <SubmitButton
+            label="Approve"
+            color="bg-amber-600 hover:bg-amber-700"
+            disabled={exceedsBalance}
+            isPending={approve.isPending}
+            isConfirming={approve.isConfirming}
+            onClick={handleApprove}
+          />
+        ) : (
+          <SubmitButton
+            label="Deposit"
+            color="bg-emerald-600 hover:bg-emerald-700"
+            disabled={value === 0n || exceedsBalance}
+            isPending={deposit.isPending}
+            isConfirming={deposit.isConfirming}
+            onClick={handleDeposit}
+          />
+        )}
+      </div>
+      {exceedsBalance && <p className="mt-1 text-xs text-red-400">Exceeds your wallet balance.</p>}
+      {deposit.isSuccess && <p className="mt-1 text-xs text-emerald-400">Success!</p>}
+      <SafeTxStatusNote status={approve.safeStatus ?? deposit.safeStatus} className="mt-2" />
+      <TxError error={approve.error ?? deposit.error} context={errorContext} className="mt-2" />
+    </div>
+  );
+}
+
+function ConfirmDialog({
+  title,
+  message,
+  confirmLabel,
+  onConfirm,
+  onCancel,
+}: PendingConfirmation & { onCancel: () => void }) {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4">
+      <div className="w-full max-w-md rounded-xl border border-slate-800 bg-slate-900 p-6">
+        <h4 className="text-lg font-semibold text-white">{title}</h4>
+        <p className="mt-2 break-words text-sm text-slate-400">{message}</p>
+        <div className="mt-6 flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="rounded-lg bg-slate-800 px-4 py-2 text-sm font-medium text-slate-300 transition-colors hover:bg-slate-700"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            className="rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-red-700"
+          >
+            {confirmLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import { useReadContracts } from "wagmi";
+import { erc20Abi } from "@/lib/abi";
+import type { AssetSummary } from "@/lib/assets";
+import {
+  COVERAGE_WARNING_BPS,
+  OUTFLOW_WINDOW_DAYS,
+  isCoverageLow,
+  useAssetLiquidity,
+} from "@/lib/liquidity";
+import { formatBps, formatPaymentAmount, formatTimestamp, formatTokens } from "@/lib/utils";
+import { useDeployment } from "@/lib/wagmi";
+
+/** Coverage ratio as a short label, e.g. "42.10%" or "n/a" with no supply */
+export function formatCoverage(coverageBps: number | null): string {
+  return coverageBps === null ? "n/a" : formatBps(coverageBps);
+}
+
+/** Amber pill shown wherever an asset's coverage is below the warning threshold */
+export function LowCoverageBadge({ coverageBps }: { coverageBps: number | null }) {
+  if (!isCoverageLow(coverageBps)) return null;
+  return (
+    <span
+      className="inline-flex rounded-full border border-amber-500/30 bg-amber-500/20 px-2.5 py-0.5 text-xs font-medium text-amber-400"
+      title={`Reserve covers less than ${formatBps(COVERAGE_WARNING_BPS)} of outstanding tokens at NAV`}
+    >
+      Low reserve
+    </span>
+  );
+}
+
+export function LiquidityPanel({ summary }: { summary?: AssetSummary }) {
+  const { chainId } = useDeployment();
+  const { liquidity, projection, isLoading, error } = useAssetLiquidity(summary, {
+    withProjection: true,
+  });
+  const payment = { chainId, address: summary?.paymentToken, abi: erc20Abi } as const;
+  const { data: paymentToken } = useReadContracts({
+    allowFailure: false,
+    contracts: [
+      { ...payment, functionName: "decimals" },
+      { ...payment, functionName: "symbol" },
+    ],
+    query: { enabled: !!summary },
+  });
+  const [decimals, symbol] = paymentToken ?? [];
+  const pay = (amount: bigint) => (decimals !== undefined ? `${formatPaymentAmount(amount, decimals)} ${symbol}` : "...");
+
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+      <div className="mb-4 flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-white">Reserve & Liquidity</h3>
+        {liquidity && <LowCoverageBadge coverageBps={liquidity.coverageBps} />}
+      </div>
+
+      {isLoading || !liquidity || decimals === undefined ? (
+        error ? (
+          <p className="py-8 text-center text-sm text-red-400">
+            Failed to load reserve: {error.message.slice(0, 100)}
+          </p>
+        ) : (
+          <div className="flex justify-center py-8">
+            <div className="h-6 w-6 animate-spin rounded-full border-2 border-blue-500 border-t-transparent" />
+          </div>
+        )
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+            <Stat label="Reserve" value={pay(liquidity.reserve)} />
+            <Stat label="Liabilities at NAV" value={pay(liquidity.liabilities)} />
+            <Stat
+              label="Coverage"
+              value={formatCoverage(liquidity.coverageBps)}
+              warn={isCoverageLow(liquidity.coverageBps)}
+            />
+            <Stat
+              label="Max Redeemable Now"
+              value={`${formatTokens(liquidity.maxRedeemableTokens)} tokens`}
+              sub={pay(liquidity.maxRedeemablePayment)}
+            />
+          </div>
+
+          {liquidity.coverageBps !== null && (
+            <div className="mt-4 h-2 overflow-hidden rounded-full bg-slate-800">
+              <div
+                className={`h-full rounded-full ${
+                  isCoverageLow(liquidity.coverageBps) ? "bg-amber-400" : "bg-emerald-500"
+                }`}
+                style={{ width: `${Math.min(liquidity.coverageBps / 100, 100)}%` }}
+              />
+            </div>
+          )}
+
+          <div className="mt-4 rounded-lg bg-slate-800/30 p-3 text-sm">
+            {!projection ? (
+              <p className="text-slate-500">Loading redemption history...</p>
+            ) : projection.daysOfCoverage === null ? (
+              <p className="text-slate-400">
+                No redemptions in the last {OUTFLOW_WINDOW_DAYS} days, so no shortfall is projected.
+              </p>
+            ) : (
+              <p className="text-slate-400">
+                Redemptions averaged{" "}
+                <span className="font-medium text-white">
+                  {pay(projection.dailyOutflow)}/day
+                </span>{" "}
+                over the last {OUTFLOW_WINDOW_DAYS} days. At that rate the reserve lasts{" "}
+                <span
+                  className={`font-medium ${projection.daysOfCoverage < OUTFLOW_WINDOW_DAYS ? "text-amber-400" : "text-white"}`}
+                >
+                  {projection.daysOfCoverage.toFixed(1)} days
+                </span>
+                {projection.shortfallAt !== null && (
+                  <> (until {formatTimestamp(BigInt(projection.shortfallAt))})</>
+                )}
+                .
+              </p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function Stat({
+  label,
+  value,
+  sub,
+  warn = false,
+}: {
+  label: string;
+  value: string;
+  sub?: string;
+  warn?: boolean;
+}) {
+  return (
+    <div className="rounded-lg bg-slate-800/50 p-3">
+      <p className="text-xs text-slate-500">{label}</p>
+      <p className={`mt-1 text-sm font-semibold ${warn ? "text-amber-400" : "text-white"}`}>{value}</p>
+      {sub && <p className="text-xs text-slate-500">{sub}</p>}
+    </div>
+  );
+}
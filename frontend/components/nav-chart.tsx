@@ -0,0 +1,144 @@
+"use client";
+
+import { formatUnits } from "viem";
+import type { NavPoint } from "@/lib/nav-history";
+
+const WIDTH = 600;
+
+interface ChartBounds {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+function toNumber(nav: bigint): number {
+  return Number(formatUnits(nav, 18));
+}
+
+/** Carry the last point forward to `until` so the line reaches "now" even if the NAV hasn't moved lately */
+function extendTo(series: NavPoint[], until?: number): NavPoint[] {
+  const points = [...series];
+  const last = points[points.length - 1];
+  if (until !== undefined && last && until > last.timestamp) {
+    points.push({ timestamp: until, nav: last.nav });
+  }
+  return points;
+}
+
+function boundsOf(lines: NavPoint[][]): ChartBounds {
+  const points = lines.flat();
+  const xs = points.map((p) => p.timestamp);
+  const ys = points.map((p) => toNumber(p.nav));
+  return {
+    minX: Math.min(...xs),
+    maxX: Math.max(...xs),
+    minY: Math.min(...ys),
+    maxY: Math.max(...ys),
+  };
+}
+
+function scaleX(timestamp: number, { minX, maxX }: ChartBounds, pad: number): number {
+  return pad + ((timestamp - minX) / (maxX - minX || 1)) * (WIDTH - 2 * pad);
+}
+
+function project(points: NavPoint[], bounds: ChartBounds, height: number, pad: number) {
+  const spanY = bounds.maxY - bounds.minY || 1;
+  return points.map((p) => ({
+    x: scaleX(p.timestamp, bounds, pad),
+    y: height - pad - ((toNumber(p.nav) - bounds.minY) / spanY) * (height - 2 * pad),
+  }));
+}
+
+/** Map a NAV series to SVG coordinates, extended to `until` */
+function toCoords(series: NavPoint[], height: number, pad: number, until?: number) {
+  const points = extendTo(series, until);
+  const bounds = boundsOf([points]);
+  return { coords: project(points, bounds, height, pad), ...bounds };
+}
+
+function linePath(coords: { x: number; y: number }[]): string {
+  return coords.map((c, i) => `${i === 0 ? "M" : "L"}${c.x.toFixed(1)},${c.y.toFixed(1)}`).join(" ");
+}
+
+export function NavChart({
+  series,
+  compare,
+  highlights = [],
+  until,
+  height = 200,
+}: {
+  series: NavPoint[];
+  /** A second series drawn as a dashed line on the same scale */
+  compare?: NavPoint[];
+  /** Time ranges to shade, e.g. periods where two series disagree */
+  highlights?: { from: number; to: number }[];
+  /** Extend the last value to this timestamp (unix seconds) */
+  until?: number;
+  height?: number;
+}) {
+  if (series.length === 0) {
+    return (
+      <div
+        className="flex items-center justify-center rounded-lg bg-slate-800/30 text-sm text-slate-500"
+        style={{ height }}
+      >
+        No NAV history yet.
+      </div>
+    );
+  }
+
+  const pad = 12;
+  const main = extendTo(series, until);
+  const other = compare && compare.length > 0 ? extendTo(compare, until) : undefined;
+  const bounds = boundsOf(other ? [main, other] : [main]);
+  const { minX, maxX, minY, maxY } = bounds;
+  const coords = project(main, bounds, height, pad);
+  const path = linePath(coords);
+  const area = `${path} L${coords[coords.length - 1].x.toFixed(1)},${height - pad} L${coords[0].x.toFixed(1)},${height - pad} Z`;
+  const date = (ts: number) =>
+    new Date(ts * 1000).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "2-digit" });
+
+  return (
+    <div>
+      <div className="relative">
+        <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full" preserveAspectRatio="none" style={{ height }}>
+          {highlights.map((h, i) => {
+            const x1 = scaleX(Math.max(h.from, minX), bounds, pad);
+            const x2 = scaleX(Math.min(h.to, maxX), bounds, pad);
+            return <rect key={i} x={x1} y={0} width={Math.max(x2 - x1, 1)} height={height} className="fill-red-500/10" />;
+          })}
+          <path d={area} className="fill-blue-500/10" />
+          <path d={path} className="fill-none stroke-blue-400" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+          {other && (
+            <path
+              d={linePath(project(other, bounds, height, pad))}
+              className="fill-none stroke-amber-400"
+              strokeWidth={2}
+              strokeDasharray="6 4"
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+        </svg>
+        <span className="absolute left-1 top-0 text-xs text-slate-500">${maxY.toFixed(4)}</span>
+        <span className="absolute bottom-0 left-1 text-xs text-slate-500">${minY.toFixed(4)}</span>
+      </div>
+      <div className="mt-1 flex justify-between text-xs text-slate-500">
+        <span>{date(minX)}</span>
+        <span>{date(maxX)}</span>
+      </div>
+    </div>
+  );
+}
+
+/** Compact, axis-free line for cards */
+export function NavSparkline({ series, until }: { series: NavPoint[]; until?: number }) {
+  if (series.length < 2) return null;
+  const height = 32;
+  const { coords } = toCoords(series, height, 2, until);
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${height}`} className="h-8 w-full" preserveAspectRatio="none">
+      <path d={linePath(coords)} className="fill-none stroke-emerald-400" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+    </svg>
+  );
+}
@@ -0,0 +1,82 @@
+"use client";
+
+import { useState } from "react";
+import {
+  NAV_PERIODS,
+  periodStart,
+  sliceNavSeries,
+  useNavHistory,
+  type NavPeriod,
+} from "@/lib/nav-history";
+import { formatNAV } from "@/lib/utils";
+import { NavChart } from "@/components/nav-chart";
+
+function formatReturn(value: number | null | undefined): string {
+  if (value === null || value === undefined) return "--";
+  return `${value >= 0 ? "+" : ""}${(value * 100).toFixed(2)}%`;
+}
+
+export function NavHistoryPanel({ oracleAddress }: { oracleAddress: `0x${string}` }) {
+  const [period, setPeriod] = useState<NavPeriod>("ITD");
+  const [now] = useState(() => Math.floor(Date.now() / 1000));
+  const { series, performance, isLoading, error } = useNavHistory(oracleAddress);
+
+  const visible =
+    performance && period !== "ITD"
+      ? sliceNavSeries(series, periodStart(period, now, performance.inception.timestamp))
+      : series;
+
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-lg font-semibold text-white">NAV History</h3>
+        <div className="flex rounded-lg bg-slate-800/50 p-1">
+          {NAV_PERIODS.map((p) => (
+            <button
+              key={p.value}
+              onClick={() => setPeriod(p.value)}
+              className={`rounded-md px-3 py-1 text-xs font-medium transition-colors ${
+                period === p.value ? "bg-blue-600 text-white" : "text-slate-400 hover:text-white"
+              }`}
+            >
+              {p.value === "ITD" ? "All" : p.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-16">
+          <div className="h-6 w-6 animate-spin rounded-full border-2 border-blue-500 border-t-transparent" />
+        </div>
+      ) : error ? (
+        <p className="py-16 text-center text-sm text-red-400">
+          Failed to load NAV history: {error.message.slice(0, 100)}
+        </p>
+      ) : (
+        <NavChart series={visible} until={now} />
+      )}
+
+      <div className="mt-4 grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-6">
+        <Stat label="Current NAV" value={performance ? formatNAV(performance.current) : "..."} />
+        {NAV_PERIODS.map((p) => (
+          <Stat
+            key={p.value}
+            label={p.label}
+            value={formatReturn(performance?.returns[p.value])}
+          />
+        ))}
+        <Stat label="Annualized" value={formatReturn(performance?.annualizedYield)} />
+      </div>
+    </div>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-lg bg-slate-800/50 p-3">
+      <p className="text-xs text-slate-500">{label}</p>
+      <p className="mt-1 text-sm font-semibold text-white">{value}</p>
+    </div>
+  );
+}
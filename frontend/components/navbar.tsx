@@ -1,5 +1,6 @@
 "use client";
 
+import { useEffect, useState } from "react";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 import {
@@ -9,23 +10,24 @@ import {
   useBalance,
   useSwitchChain,
 } from "wagmi";
-import { injected } from "wagmi/connectors";
 import { formatUnits } from "viem";
 import { shortenAddress } from "@/lib/utils";
-import { CHAIN_ID } from "@/lib/wagmi";
+import { useWalletOptions } from "@/lib/wallets";
+import { SUPPORTED_CHAINS, isSupportedChain, useDeployment } from "@/lib/wagmi";
 
 export function Navbar() {
   const pathname = usePathname();
-  const { address, isConnected, chainId: walletChainId } = useAccount();
-  const { connect, isPending: isConnecting } = useConnect();
+  const { address, isConnected, connector, chainId: walletChainId } = useAccount();
   const { disconnect } = useDisconnect();
   const { data: balance } = useBalance({ address });
   const { switchChain, isPending: isSwitching } = useSwitchChain();
+  const { chainId, chain } = useDeployment();
 
-  const isWrongNetwork = isConnected && walletChainId !== CHAIN_ID;
+  const isWrongNetwork = isConnected && !isSupportedChain(walletChainId);
 
   const navLinks = [
     { href: "/", label: "Dashboard" },
+    { href: "/portfolio", label: "Portfolio" },
     { href: "/factory", label: "Create Asset" },
   ];
 
@@ -68,18 +70,16 @@ export function Navbar() {
               {/* Wrong Network Warning */}
               {isWrongNetwork ? (
                 <button
-                  onClick={() => switchChain({ chainId: CHAIN_ID })}
+                  onClick={() => switchChain({ chainId })}
                   disabled={isSwitching}
                   className="flex items-center gap-2 rounded-lg border border-red-500/50 bg-red-500/10 px-3 py-2 text-sm font-medium text-red-400 transition-colors hover:bg-red-500/20 disabled:opacity-50"
                 >
                   <span className="h-2 w-2 rounded-full bg-red-400 animate-pulse" />
-                  {isSwitching ? "Switching..." : "Switch to Sepolia"}
+                  {isSwitching ? "Switching..." : `Switch to ${chain.name}`}
                 </button>
               ) : (
                 <>
-                  <span className="hidden items-center gap-1.5 rounded-lg border border-slate-700 bg-slate-800/50 px-2.5 py-1.5 text-xs text-slate-400 sm:inline-flex">
-                    Sepolia
-                  </span>
+                  <ChainSwitcher />
                   {balance && (
                     <span className="hidden text-sm text-slate-400 sm:inline">
                       {Number(
@@ -97,6 +97,11 @@ export function Navbar() {
                 <span className="text-sm font-medium text-slate-200">
                   {shortenAddress(address)}
                 </span>
+                {connector && (
+                  <span className="hidden text-xs text-slate-500 sm:inline">
+                    {connector.type === "safe" ? "Safe" : connector.name}
+                  </span>
+                )}
               </div>
               <button
                 onClick={() => disconnect()}
@@ -106,16 +111,127 @@ export function Navbar() {
               </button>
             </>
           ) : (
-            <button
-              onClick={() => connect({ connector: injected() })}
-              disabled={isConnecting}
-              className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-blue-700 disabled:opacity-50"
-            >
-              {isConnecting ? "Connecting..." : "Connect Wallet"}
-            </button>
+            <>
+              <ChainSwitcher />
+              <ConnectMenu />
+            </>
           )}
         </div>
       </div>
     </nav>
   );
 }
+
+/**
+ * Network picker over every chain in the deployment registry. Switches the
+ * wallet when connected, otherwise just the chain the app reads from.
+ */
+function ChainSwitcher() {
+  const { chainId } = useDeployment();
+  const { switchChain, isPending } = useSwitchChain();
+
+  if (SUPPORTED_CHAINS.length < 2) {
+    return (
+      <span className="hidden items-center gap-1.5 rounded-lg border border-slate-700 bg-slate-800/50 px-2.5 py-1.5 text-xs text-slate-400 sm:inline-flex">
+        {SUPPORTED_CHAINS[0].name}
+      </span>
+    );
+  }
+
+  return (
+    <select
+      value={chainId}
+      disabled={isPending}
+      onChange={(e) => switchChain({ chainId: Number(e.target.value) })}
+      className="hidden rounded-lg border border-slate-700 bg-slate-800/50 px-2.5 py-1.5 text-xs text-slate-400 outline-none focus:border-blue-500 disabled:opacity-50 sm:block"
+    >
+      {SUPPORTED_CHAINS.map((c) => (
+        <option key={c.id} value={c.id}>
+          {c.name}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+/**
+ * Wallet picker. Each entry says whether it can connect from this page, and
+ * inside the Safe{Wallet} iframe the Safe connects on its own.
+ */
+function ConnectMenu() {
+  const [open, setOpen] = useState(false);
+  const { connect, isPending, variables, error, reset } = useConnect();
+  const { options, safeAvailable, isLoading } = useWalletOptions();
+  const safeConnector = options.find((o) => o.connector?.type === "safe")?.connector;
+
+  useEffect(() => {
+    if (safeAvailable && safeConnector) connect({ connector: safeConnector });
+  }, [safeAvailable, safeConnector, connect]);
+
+  function toggle() {
+    setOpen((o) => !o);
+    reset();
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={toggle}
+        disabled={isPending}
+        className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-blue-700 disabled:opacity-50"
+      >
+        {isPending ? "Connecting..." : "Connect Wallet"}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-2 w-80 rounded-xl border border-slate-800 bg-slate-900 p-2 shadow-xl">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <div className="h-6 w-6 animate-spin rounded-full border-2 border-blue-500 border-t-transparent" />
+            </div>
+          ) : (
+            <ul className="space-y-1">
+              {options.map((option) => {
+                const isConnecting = isPending && !!option.connector && variables?.connector === option.connector;
+                return (
+                  <li key={option.key}>
+                    <button
+                      onClick={() =>
+                        option.connector &&
+                        connect({ connector: option.connector }, { onSuccess: () => setOpen(false) })
+                      }
+                      disabled={!option.connector || isPending}
+                      className="flex w-full items-center gap-3 rounded-lg px-3 py-2 text-left transition-colors hover:bg-slate-800 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+                    >
+                      {option.icon ? (
+                        // eslint-disable-next-line @next/next/no-img-element
+                        <img src={option.icon} alt="" className="h-6 w-6 rounded" />
+                      ) : (
+                        <span className="flex h-6 w-6 items-center justify-center rounded bg-slate-800 text-xs font-semibold text-slate-300">
+                          {option.name[0]}
+                        </span>
+                      )}
+                      <span className="min-w-0">
+                        <span className={`block text-sm font-medium ${option.connector ? "text-slate-200" : "text-slate-500"}`}>
+                          {option.name}
+                        </span>
+                        <span className="block truncate text-xs text-slate-500">
+                          {isConnecting ? "Check your wallet..." : option.status}
+                        </span>
+                      </span>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+          {error && (
+            <p className="mt-2 rounded-lg bg-red-500/10 px-3 py-2 text-xs text-red-400">
+              {"shortMessage" in error ? error.shortMessage : error.message}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
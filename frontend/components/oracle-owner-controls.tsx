@@ -0,0 +1,241 @@
+"use client";
+
+import { useState } from "react";
+import { useWriteContract } from "wagmi";
+import { getAddress, isAddress, zeroAddress } from "viem";
+import { navOracleAbi } from "@/lib/abi";
+import { useContractEvents } from "@/lib/event-logs";
+import { useTransactionReceipt } from "@/lib/transactions";
+import { explorerTxUrl, useDeployment } from "@/lib/wagmi";
+import { formatDuration, formatTimestamp, shortenAddress } from "@/lib/utils";
+import { SafeTxStatusNote } from "@/components/safe-tx-status";
+import { TxError } from "@/components/tx-error";
+
+const DURATION_UNITS = { hours: 3600, days: 86400 } as const;
+type DurationUnit = keyof typeof DURATION_UNITS;
+
+function parseDuration(value: string, unit: DurationUnit): bigint | undefined {
+  const n = Number(value);
+  if (!value.trim() || !Number.isFinite(n) || n <= 0) return undefined;
+  const seconds = Math.round(n * DURATION_UNITS[unit]);
+  return seconds > 0 ? BigInt(seconds) : undefined;
+}
+
+const inputClasses =
+  "rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 text-sm text-white outline-none placeholder:text-slate-600 focus:border-blue-500";
+
+/** Oracle owner section of OraclePanel: rotate the updater and change the staleness window */
+export function OracleOwnerControls({
+  oracleAddress,
+  updater,
+  lastUpdated,
+  maxStaleness,
+}: {
+  oracleAddress: `0x${string}`;
+  updater: `0x${string}`;
+  lastUpdated: bigint;
+  maxStaleness: bigint;
+}) {
+  return (
+    <div className="mt-4 space-y-4 border-t border-slate-800 pt-4">
+      <p className="text-sm font-medium text-slate-300">Owner Controls</p>
+      <SetUpdaterForm oracleAddress={oracleAddress} updater={updater} />
+      <SetMaxStalenessForm oracleAddress={oracleAddress} lastUpdated={lastUpdated} maxStaleness={maxStaleness} />
+    </div>
+  );
+}
+
+function SetUpdaterForm({ oracleAddress, updater }: { oracleAddress: `0x${string}`; updater: `0x${string}` }) {
+  const { chainId } = useDeployment();
+  const [input, setInput] = useState("");
+  const { writeContract, data: hash, isPending, error } = useWriteContract();
+  const { isLoading: isConfirming, isSuccess, safeStatus, error: receiptError } = useTransactionReceipt(hash);
+
+  const value = input.trim();
+  const newUpdater = isAddress(value) ? getAddress(value) : undefined;
+  const problem = !value
+    ? null
+    : !newUpdater
+      ? "Not a valid address."
+      : newUpdater === zeroAddress
+        ? "The updater can't be the zero address."
+        : newUpdater.toLowerCase() === updater.toLowerCase()
+          ? "That's already the updater."
+          : null;
+
+  function handleSubmit() {
+    if (!newUpdater || problem) return;
+    writeContract(
+      { chainId, address: oracleAddress, abi: navOracleAbi, functionName: "setUpdater", args: [newUpdater] },
+      { onSuccess: () => setInput("") }
+    );
+  }
+
+  return (
+    <div>
+      <label className="mb-1 block text-xs text-slate-400">Rotate updater</label>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          placeholder="0x..."
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          className={`flex-1 ${inputClasses}`}
+        />
+        <button
+          onClick={handleSubmit}
+          disabled={!newUpdater || !!problem || isPending || isConfirming}
+          className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isPending ? "..." : isConfirming ? "Confirming" : "Set"}
+        </button>
+      </div>
+      {problem ? (
+        <p className="mt-1 text-xs text-red-400">{problem}</p>
+      ) : (
+        newUpdater && (
+          <p className="mt-1 text-xs text-slate-400">
+            {shortenAddress(updater)} loses the right to publish NAV as soon as this confirms.
+          </p>
+        )
+      )}
+      {isSuccess && <p className="mt-1 text-xs text-emerald-400">Updater changed.</p>}
+      <SafeTxStatusNote status={safeStatus} className="mt-2" />
+      <TxError error={error ?? receiptError} className="mt-2" />
+    </div>
+  );
+}
+
+function SetMaxStalenessForm({
+  oracleAddress,
+  lastUpdated,
+  maxStaleness,
+}: {
+  oracleAddress: `0x${string}`;
+  lastUpdated: bigint;
+  maxStaleness: bigint;
+}) {
+  const { chainId } = useDeployment();
+  // Refreshed on every edit, so the NAV's age is measured from then rather
+  // than from when the page was opened
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+  const [input, setInput] = useState("");
+  const [unit, setUnit] = useState<DurationUnit>("hours");
+  const { writeContract, data: hash, isPending, error } = useWriteContract();
+  const { isLoading: isConfirming, isSuccess, safeStatus, error: receiptError } = useTransactionReceipt(hash);
+
+  const seconds = parseDuration(input, unit);
+  // lastUpdated can be ahead of `now` when the NAV was published after the last edit
+  const age = Math.max(0, now - Number(lastUpdated));
+  const staleAt = seconds !== undefined ? Number(lastUpdated + seconds) : undefined;
+  // NAVOracle.isStale: block.timestamp - lastUpdated > maxStaleness
+  const staleImmediately = seconds !== undefined && age > Number(seconds);
+
+  function handleSubmit() {
+    if (seconds === undefined) return;
+    writeContract(
+      { chainId, address: oracleAddress, abi: navOracleAbi, functionName: "setMaxStaleness", args: [seconds] },
+      { onSuccess: () => setInput("") }
+    );
+  }
+
+  return (
+    <div>
+      <label className="mb-1 block text-xs text-slate-400">
+        Staleness window (currently {formatDuration(Number(maxStaleness))})
+      </label>
+      <div className="flex gap-2">
+        <input
+          type="number"
+          min="0"
+          step="any"
+          placeholder={unit === "hours" ? "25" : "1"}
+          value={input}
+          onChange={(e) => {
+            setInput(e.target.value);
+            setNow(Math.floor(Date.now() / 1000));
+          }}
+          className={`min-w-0 flex-1 ${inputClasses}`}
+        />
+        <select
+          value={unit}
+          onChange={(e) => {
+            setUnit(e.target.value as DurationUnit);
+            setNow(Math.floor(Date.now() / 1000));
+          }}
+          className={inputClasses}
+        >
+          <option value="hours">hours</option>
+          <option value="days">days</option>
+        </select>
+        <button
+          onClick={handleSubmit}
+          disabled={seconds === undefined || seconds === maxStaleness || isPending || isConfirming}
+          className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isPending ? "..." : isConfirming ? "Confirming" : "Set"}
+        </button>
+      </div>
+      {seconds !== undefined && staleAt !== undefined && (
+        staleImmediately ? (
+          <p className="mt-2 rounded-lg bg-red-500/10 px-3 py-2 text-xs text-red-400">
+            The NAV was last updated {formatDuration(age)} ago, so a {formatDuration(Number(seconds))} window makes it
+            stale right away. Invest and redeem revert with StaleNAV until the updater publishes again.
+          </p>
+        ) : (
+          <p className="mt-1 text-xs text-slate-400">
+            {formatDuration(Number(seconds))} ({seconds.toString()}s). The current NAV would go stale{" "}
+            {formatTimestamp(BigInt(staleAt))}, in {formatDuration(staleAt - now)}.
+          </p>
+        )
+      )}
+      {isSuccess && <p className="mt-1 text-xs text-emerald-400">Staleness window updated.</p>}
+      <SafeTxStatusNote status={safeStatus} className="mt-2" />
+      <TxError error={error ?? receiptError} className="mt-2" />
+    </div>
+  );
+}
+
+/** UpdaterChanged / MaxStalenessChanged log, newest first */
+export function OracleAdminHistory({ oracleAddress }: { oracleAddress: `0x${string}` }) {
+  const { chainId } = useDeployment();
+  const { data: events, isLoading } = useContractEvents({
+    address: oracleAddress,
+    abi: navOracleAbi,
+    eventNames: ["UpdaterChanged", "MaxStalenessChanged"],
+  });
+
+  if (isLoading || !events || events.length === 0) return null;
+
+  return (
+    <div className="mt-4 border-t border-slate-800 pt-4">
+      <p className="mb-3 text-sm font-medium text-slate-300">Oracle Settings History</p>
+      <ul className="max-h-48 space-y-2 overflow-y-auto text-xs">
+        {[...events].reverse().map((e) => {
+          const url = explorerTxUrl(chainId, e.transactionHash);
+          return (
+            <li key={`${e.transactionHash}-${e.logIndex}`} className="flex items-center justify-between gap-2">
+              <span className="text-slate-300">
+                {e.eventName === "UpdaterChanged" ? (
+                  <>
+                    Updater set to <span className="font-mono">{shortenAddress(e.args.newUpdater as string)}</span>
+                  </>
+                ) : (
+                  <>Staleness window set to {formatDuration(Number(e.args.newMaxStaleness as bigint))}</>
+                )}
+              </span>
+              <span className="shrink-0 text-slate-500">
+                {formatTimestamp(BigInt(e.timestamp))}
+                {url && (
+                  <a href={url} target="_blank" rel="noopener noreferrer" className="ml-2 text-blue-400 hover:text-blue-300">
+                    &#8599;
+                  </a>
+                )}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
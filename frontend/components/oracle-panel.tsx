@@ -5,18 +5,42 @@ import {
   useAccount,
   useReadContract,
   useWriteContract,
-  useWaitForTransactionReceipt,
 } from "wagmi";
-import { parseUnits } from "viem";
+import { formatUnits, parseUnits } from "viem";
 import { navOracleAbi } from "@/lib/abi";
-import { CHAIN_ID } from "@/lib/wagmi";
-import { formatNAV, timeAgo, shortenAddress } from "@/lib/utils";
+import {
+  NAV_CONFIRM_APR_BPS,
+  NAV_CONFIRM_CHANGE_BPS,
+  formatReturn,
+  navConfirmationText,
+  previewNavUpdate,
+  type NavUpdatePreview,
+  type NavWarning,
+} from "@/lib/nav-guardrails";
+import { useTransactionReceipt } from "@/lib/transactions";
+import { useDeployment } from "@/lib/wagmi";
+import { formatBps, formatDuration, formatNAV, formatTokens, timeAgo, shortenAddress } from "@/lib/utils";
+import { OracleAdminHistory, OracleOwnerControls } from "@/components/oracle-owner-controls";
+import { SafeTxStatusNote } from "@/components/safe-tx-status";
+import { TxError } from "@/components/tx-error";
 
 interface OraclePanelProps {
   oracleAddress: `0x${string}`;
+  /** Token supply, for the AUM impact of a NAV update */
+  totalSupply?: bigint;
 }
 
-export function OraclePanel({ oracleAddress }: OraclePanelProps) {
+function parseNav(value: string): bigint | undefined {
+  if (!value.trim() || isNaN(Number(value))) return undefined;
+  try {
+    return parseUnits(value.trim(), 18);
+  } catch {
+    return undefined;
+  }
+}
+
+export function OraclePanel({ oracleAddress, totalSupply }: OraclePanelProps) {
+  const { chainId } = useDeployment();
   const { address } = useAccount();
 
   const { data: nav } = useReadContract({
@@ -49,23 +73,40 @@ export function OraclePanel({ oracleAddress }: OraclePanelProps) {
     functionName: "maxStaleness",
   });
 
+  const { data: owner } = useReadContract({
+    address: oracleAddress,
+    abi: navOracleAbi,
+    functionName: "owner",
+  });
+
   const isUpdater =
     address && updater
       ? address.toLowerCase() === updater.toLowerCase()
       : false;
+  const isOwner =
+    address && owner ? address.toLowerCase() === owner.toLowerCase() : false;
 
   // ─── Update NAV ───────────────────────────────────────────────────────────
   const [newNav, setNewNav] = useState("");
+  const [confirmText, setConfirmText] = useState("");
+  // Refreshed whenever a value is typed, so the preview measures elapsed time
+  // from then rather than from when the page was opened
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
 
   const {
     writeContract: writeUpdateNAV,
     data: updateHash,
     isPending: isUpdatePending,
+    error: updateError,
     reset: resetUpdate,
   } = useWriteContract();
 
-  const { isLoading: isUpdateConfirming, isSuccess: isUpdateSuccess } =
-    useWaitForTransactionReceipt({ hash: updateHash });
+  const {
+    isLoading: isUpdateConfirming,
+    isSuccess: isUpdateSuccess,
+    safeStatus: updateSafeStatus,
+    error: updateReceiptError,
+  } = useTransactionReceipt(updateHash);
 
   useEffect(() => {
     if (isUpdateSuccess) {
@@ -74,11 +115,32 @@ export function OraclePanel({ oracleAddress }: OraclePanelProps) {
     }
   }, [isUpdateSuccess, resetUpdate]);
 
+  const navBigInt = parseNav(newNav);
+  function buildPreview(at: number) {
+    return navBigInt !== undefined && nav !== undefined && lastUpdated !== undefined
+      ? previewNavUpdate({ currentNav: nav, newNav: navBigInt, lastUpdated, totalSupply: totalSupply ?? 0n, now: at })
+      : undefined;
+  }
+  const preview = buildPreview(now);
+  const confirmation = navBigInt !== undefined ? navConfirmationText(navBigInt) : "";
+  const isConfirmed = !preview?.needsConfirmation || confirmText.trim() === confirmation;
+
+  function changeNewNav(value: string) {
+    setNewNav(value);
+    setConfirmText("");
+    setNow(Math.floor(Date.now() / 1000));
+  }
+
   function handleUpdateNAV() {
-    if (!newNav || isNaN(Number(newNav))) return;
-    const navBigInt = parseUnits(newNav, 18);
+    // Checked again at the time of sending: a warning that only appears now
+    // shows up for confirmation instead of being sent past
+    const at = Math.floor(Date.now() / 1000);
+    const fresh = buildPreview(at);
+    setNow(at);
+    if (navBigInt === undefined || !fresh || fresh.willRevert) return;
+    if (fresh.needsConfirmation && confirmText.trim() !== confirmation) return;
     writeUpdateNAV({
-      chainId: CHAIN_ID,
+      chainId,
       address: oracleAddress,
       abi: navOracleAbi,
       functionName: "updateNAV",
@@ -119,7 +181,7 @@ export function OraclePanel({ oracleAddress }: OraclePanelProps) {
           <p className="text-xs text-slate-500">Max Staleness</p>
           <p className="mt-1 text-sm font-medium text-white">
             {maxStaleness !== undefined
-              ? `${(Number(maxStaleness) / 3600).toFixed(1)}h`
+              ? formatDuration(Number(maxStaleness))
               : "..."}
           </p>
         </div>
@@ -142,14 +204,15 @@ export function OraclePanel({ oracleAddress }: OraclePanelProps) {
               step="0.0001"
               placeholder="1.05"
               value={newNav}
-              onChange={(e) => setNewNav(e.target.value)}
+              onChange={(e) => changeNewNav(e.target.value)}
               className="flex-1 rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 text-sm text-white outline-none placeholder:text-slate-600 focus:border-blue-500"
             />
             <button
               onClick={handleUpdateNAV}
               disabled={
-                !newNav ||
-                isNaN(Number(newNav)) ||
+                !preview ||
+                preview.willRevert ||
+                !isConfirmed ||
                 isUpdatePending ||
                 isUpdateConfirming
               }
@@ -162,11 +225,117 @@ export function OraclePanel({ oracleAddress }: OraclePanelProps) {
                   : "Update"}
             </button>
           </div>
+          {preview && nav !== undefined && (
+            <NavUpdateImpact
+              preview={preview}
+              currentNav={nav}
+              hasSupply={totalSupply !== undefined}
+              onUseSuggestion={(suggestion) => changeNewNav(formatUnits(suggestion, 18))}
+            />
+          )}
+          {preview?.needsConfirmation && (
+            <div className="mt-2">
+              <label className="mb-1 block text-xs text-amber-400">
+                Type <span className="font-mono">{confirmation}</span> to publish this NAV
+              </label>
+              <input
+                type="text"
+                value={confirmText}
+                onChange={(e) => setConfirmText(e.target.value)}
+                className="w-full rounded-lg border border-amber-500/40 bg-slate-800 px-3 py-2 font-mono text-sm text-white outline-none focus:border-amber-400"
+              />
+            </div>
+          )}
           {isUpdateSuccess && (
             <p className="mt-1 text-xs text-emerald-400">NAV updated!</p>
           )}
+          <SafeTxStatusNote status={updateSafeStatus} className="mt-2" />
+          <TxError error={updateError ?? updateReceiptError} className="mt-2" />
         </div>
       )}
+
+      {/* Updater rotation and staleness window (owner only) */}
+      {isOwner && updater && lastUpdated !== undefined && maxStaleness !== undefined && (
+        <OracleOwnerControls
+          oracleAddress={oracleAddress}
+          updater={updater}
+          lastUpdated={lastUpdated}
+          maxStaleness={maxStaleness}
+        />
+      )}
+
+      <OracleAdminHistory oracleAddress={oracleAddress} />
+    </div>
+  );
+}
+
+function describeNavWarning(w: NavWarning, currentNav: bigint): string {
+  switch (w.kind) {
+    case "decrease":
+      return `Below the current NAV of ${formatNAV(currentNav)}. NAV can only go up; updateNAV would revert with NAVDecreased.`;
+    case "magnitude":
+      return `That's ${w.factor >= 1 ? `${Math.round(w.factor).toLocaleString("en-US")}×` : `1/${Math.round(1 / w.factor).toLocaleString("en-US")} of`} the current NAV, which looks like a misplaced decimal point.`;
+    case "change":
+      return `Moves the NAV by more than the ${formatBps(NAV_CONFIRM_CHANGE_BPS)} confirmation threshold.`;
+    case "annualized":
+      return `Implies ${formatReturn(w.annualizedReturn)} a year since the last update, above the ${formatBps(NAV_CONFIRM_APR_BPS)} confirmation threshold.`;
+  }
+}
+
+/** What a pending NAV update does: the move, the implied annual rate and the AUM change */
+export function NavUpdateImpact({
+  preview,
+  currentNav,
+  hasSupply,
+  onUseSuggestion,
+}: {
+  preview: NavUpdatePreview;
+  currentNav: bigint;
+  hasSupply: boolean;
+  onUseSuggestion: (suggestion: bigint) => void;
+}) {
+  const aumChange = preview.aumAfter - preview.aumBefore;
+
+  return (
+    <div className="mt-2 space-y-2">
+      <div className="grid grid-cols-3 gap-2">
+        <div className="rounded-lg bg-slate-800/50 p-3">
+          <p className="text-xs text-slate-500">Change</p>
+          <p className="mt-1 text-sm font-medium text-white">{formatReturn(preview.changeBps / 10_000)}</p>
+        </div>
+        <div className="rounded-lg bg-slate-800/50 p-3">
+          <p className="text-xs text-slate-500">Annualized</p>
+          <p className="mt-1 text-sm font-medium text-white">
+            {preview.annualizedReturn !== null ? formatReturn(preview.annualizedReturn) : "—"}
+          </p>
+          <p className="text-xs text-slate-500">over {formatDuration(preview.elapsed)}</p>
+        </div>
+        <div className="rounded-lg bg-slate-800/50 p-3">
+          <p className="text-xs text-slate-500">AUM</p>
+          <p className="mt-1 text-sm font-medium text-white">
+            {hasSupply ? `${aumChange < 0n ? "-" : "+"}$${formatTokens(aumChange < 0n ? -aumChange : aumChange)}` : "..."}
+          </p>
+          {hasSupply && <p className="text-xs text-slate-500">to ${formatTokens(preview.aumAfter)}</p>}
+        </div>
+      </div>
+      {preview.warnings.map((w) => (
+        <p
+          key={w.kind}
+          className={`rounded-lg px-3 py-2 text-xs ${
+            w.kind === "decrease" ? "bg-red-500/10 text-red-400" : "bg-amber-500/10 text-amber-400"
+          }`}
+        >
+          {describeNavWarning(w, currentNav)}
+          {w.kind === "magnitude" && (
+            <>
+              {" "}
+              <button onClick={() => onUseSuggestion(w.suggestion)} className="underline hover:text-amber-300">
+                Use {formatUnits(w.suggestion, 18)}
+              </button>
+            </>
+          )}
+        </p>
+      ))}
     </div>
   );
 }
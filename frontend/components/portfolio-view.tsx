@@ -0,0 +1,193 @@
+"use client";
+
+import Link from "next/link";
+import { useAccount } from "wagmi";
+import type { PaymentToken } from "@/lib/deployments";
+import { usePortfolio } from "@/lib/portfolio";
+import {
+  formatTokens,
+  formatPaymentAmount,
+  assetTypeLabel,
+  assetTypeBadgeClasses,
+} from "@/lib/utils";
+
+const ALLOCATION_COLORS: Record<string, string> = {
+  BOND: "bg-blue-500",
+  REAL_ESTATE: "bg-emerald-500",
+  COMMODITY: "bg-amber-500",
+};
+
+function formatPnl(pnl: bigint, decimals: number): string {
+  return `${pnl >= 0n ? "+" : "-"}${formatPaymentAmount(pnl >= 0n ? pnl : -pnl, decimals)}`;
+}
+
+function formatAmount(amount: bigint, token: PaymentToken): string {
+  return `${formatPaymentAmount(amount, token.decimals)} ${token.symbol}`;
+}
+
+function pnlClass(pnl: bigint | undefined): string {
+  if (pnl === undefined || pnl === 0n) return "text-slate-400";
+  return pnl > 0n ? "text-emerald-400" : "text-red-400";
+}
+
+export function PortfolioView() {
+  const { address } = useAccount();
+  const { positions, totals, isLoading, isCostBasisLoading } = usePortfolio(address);
+
+  if (!address) {
+    return (
+      <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-12 text-center">
+        <p className="text-lg text-slate-400">Connect your wallet to see your portfolio.</p>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <div className="h-8 w-8 animate-spin rounded-full border-2 border-blue-500 border-t-transparent" />
+      </div>
+    );
+  }
+
+  if (positions.length === 0) {
+    return (
+      <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-12 text-center">
+        <p className="text-lg text-slate-400">You don&apos;t hold any assets yet.</p>
+        <p className="mt-2 text-sm text-slate-500">
+          Browse the{" "}
+          <Link href="/" className="text-blue-400 hover:text-blue-300">
+            Dashboard
+          </Link>{" "}
+          to invest.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Summary, one line per payment token */}
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+        <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-5">
+          <p className="text-xs text-slate-500">Total Value</p>
+          {totals.map((t) => (
+            <p key={t.paymentToken.address} className="mt-1 text-2xl font-bold text-white">
+              {formatAmount(t.value, t.paymentToken)}
+            </p>
+          ))}
+        </div>
+        <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-5">
+          <p className="text-xs text-slate-500">Cost Basis</p>
+          {totals.map((t) => (
+            <p key={t.paymentToken.address} className="mt-1 text-2xl font-bold text-white">
+              {isCostBasisLoading ? "..." : formatAmount(t.cost, t.paymentToken)}
+            </p>
+          ))}
+        </div>
+        <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-5">
+          <p className="text-xs text-slate-500">Unrealized P&amp;L</p>
+          {totals.map((t) => (
+            <p key={t.paymentToken.address} className={`mt-1 text-2xl font-bold ${pnlClass(t.pnl)}`}>
+              {isCostBasisLoading
+                ? "..."
+                : `${formatPnl(t.pnl, t.paymentToken.decimals)} ${t.paymentToken.symbol}`}
+            </p>
+          ))}
+        </div>
+      </div>
+
+      {/* Allocation */}
+      <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+        <h3 className="mb-4 text-lg font-semibold text-white">Allocation</h3>
+        <div className="space-y-6">
+          {totals.map((t) => (
+            <div key={t.paymentToken.address}>
+              {totals.length > 1 && (
+                <p className="mb-2 text-xs text-slate-500">Priced in {t.paymentToken.symbol}</p>
+              )}
+              <div className="flex h-3 overflow-hidden rounded-full bg-slate-800">
+                {t.allocation.map((a) => (
+                  <div
+                    key={a.assetType}
+                    className={ALLOCATION_COLORS[a.assetType] ?? "bg-slate-500"}
+                    style={{ width: `${a.weight * 100}%` }}
+                  />
+                ))}
+              </div>
+              <div className="mt-4 flex flex-wrap gap-6">
+                {t.allocation.map((a) => (
+                  <div key={a.assetType} className="flex items-center gap-2 text-sm">
+                    <span className={`h-2.5 w-2.5 rounded-full ${ALLOCATION_COLORS[a.assetType] ?? "bg-slate-500"}`} />
+                    <span className="text-slate-300">{assetTypeLabel(a.assetType)}</span>
+                    <span className="text-slate-500">
+                      {(a.weight * 100).toFixed(1)}% &middot; {formatAmount(a.value, t.paymentToken)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Positions */}
+      <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+        <h3 className="mb-4 text-lg font-semibold text-white">Positions</h3>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead>
+              <tr className="border-b border-slate-800 text-xs text-slate-500">
+                <th className="py-2 pr-4 font-medium">Asset</th>
+                <th className="py-2 pr-4 font-medium">Type</th>
+                <th className="py-2 pr-4 text-right font-medium">Balance</th>
+                <th className="py-2 pr-4 text-right font-medium">Value</th>
+                <th className="py-2 pr-4 text-right font-medium">Cost Basis</th>
+                <th className="py-2 text-right font-medium">Unrealized P&amp;L</th>
+              </tr>
+            </thead>
+            <tbody>
+              {positions.map((p) => (
+                <tr key={p.asset.index} className="border-b border-slate-800/50">
+                  <td className="py-3 pr-4">
+                    <Link href={`/asset/${p.asset.index}`} className="font-medium text-white hover:text-blue-400">
+                      {p.name ?? "..."}
+                    </Link>
+                    <p className="text-xs text-slate-500">{p.symbol ?? "..."}</p>
+                  </td>
+                  <td className="py-3 pr-4">
+                    <span
+                      className={`inline-flex rounded-full border px-2 py-0.5 text-xs font-medium ${assetTypeBadgeClasses(p.asset.assetType)}`}
+                    >
+                      {assetTypeLabel(p.asset.assetType)}
+                    </span>
+                  </td>
+                  <td className="py-3 pr-4 text-right text-slate-300">{formatTokens(p.balance)}</td>
+                  <td className="py-3 pr-4 text-right text-white">{formatAmount(p.value, p.paymentToken)}</td>
+                  <td className="py-3 pr-4 text-right text-slate-300">
+                    {isCostBasisLoading ? "..." : formatAmount(p.costBasis.cost, p.paymentToken)}
+                    {p.costBasis.untrackedTokens > 0n && (
+                      <p
+                        className="text-xs text-slate-500"
+                        title="Tokens received by transfer have no known cost and are excluded from P&L"
+                      >
+                        + {formatTokens(p.costBasis.untrackedTokens)} without cost
+                      </p>
+                    )}
+                  </td>
+                  <td className={`py-3 text-right ${pnlClass(p.unrealizedPnl)}`}>
+                    {isCostBasisLoading
+                      ? "..."
+                      : p.unrealizedPnl !== undefined
+                        ? formatPnl(p.unrealizedPnl, p.paymentToken.decimals)
+                        : "--"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+"use client";
+
+import type { CheckStatus, PreflightCheck } from "@/lib/preflight";
+
+const STATUS_ICON: Record<CheckStatus, { icon: string; className: string }> = {
+  pass: { icon: "✓", className: "text-emerald-400" },
+  fail: { icon: "✕", className: "text-red-400" },
+  pending: { icon: "…", className: "text-slate-500" },
+};
+
+/** What still stands between the user and a successful invest / redeem */
+export function PreflightChecklist({ checks }: { checks: PreflightCheck[] }) {
+  return (
+    <ul className="space-y-1.5 rounded-lg bg-slate-800/30 p-3 text-xs">
+      {checks.map((check) => {
+        const { icon, className } = STATUS_ICON[check.status];
+        return (
+          <li key={check.id}>
+            <div className="flex items-center gap-2">
+              <span className={`w-3 text-center font-bold ${className}`}>{icon}</span>
+              <span className={check.status === "fail" ? "text-white" : "text-slate-400"}>
+                {check.label}
+              </span>
+            </div>
+            {check.reason && <p className="ml-5 text-red-400">{check.reason}</p>}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,238 @@
+"use client";
+
+import { useState } from "react";
+import { useAccount, useReadContract } from "wagmi";
+import { commodityTokenAbi } from "@/lib/abi";
+import { useContractEvents } from "@/lib/event-logs";
+import {
+  RATIO_TOLERANCE_BPS,
+  checkReserve,
+  formatBackingRatio,
+  parseAttestations,
+  useAttestations,
+  type ReserveIssue,
+} from "@/lib/proof-of-reserve";
+import { trustedCustodians } from "@/lib/deployments";
+import { explorerTxUrl, useDeployment } from "@/lib/wagmi";
+import { formatBps, formatTimestamp, formatTokens, shortenAddress } from "@/lib/utils";
+
+interface ProofOfReservePanelProps {
+  tokenAddress: `0x${string}`;
+  unit: string;
+  backingRatio: bigint;
+  totalSupply: bigint;
+}
+
+type TimelineItem =
+  | {
+      kind: "attestation";
+      key: string;
+      timestamp: number;
+      vault: string;
+      quantity: bigint;
+      unit: string;
+      custodian: `0x${string}`;
+      signatureValid: boolean;
+      trusted: boolean;
+    }
+  | {
+      kind: "ratio";
+      key: string;
+      timestamp: number;
+      oldRatio: bigint;
+      newRatio: bigint;
+      transactionHash: `0x${string}`;
+    };
+
+function describeIssue(issue: ReserveIssue, unit: string): string {
+  switch (issue.kind) {
+    case "signature":
+      return `${issue.vault}: signature doesn't match the custodian, so it isn't counted.`;
+    case "untrusted":
+      return `${issue.vault}: ${shortenAddress(issue.custodian)} isn't a trusted custodian for this token, so it isn't counted.`;
+    case "token":
+      return `${issue.vault}: attestation is for a different token, so it isn't counted.`;
+    case "unit":
+      return `${issue.vault}: attested in "${issue.unit}" but the token is denominated in "${unit}", so it isn't counted.`;
+    case "undercollateralized":
+      return `Vaults hold ${formatTokens(issue.shortfall)} ${unit} less than supply × backing ratio requires.`;
+    case "ratio-divergence":
+      return `Attested ratio ${formatBackingRatio(issue.attestedRatio)} is ${formatBps(issue.divergenceBps)} off the on-chain backing ratio.`;
+  }
+}
+
+export function ProofOfReservePanel({
+  tokenAddress,
+  unit,
+  backingRatio,
+  totalSupply,
+}: ProofOfReservePanelProps) {
+  const { chainId, deployment } = useDeployment();
+  const { address } = useAccount();
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const custodians = trustedCustodians(deployment, tokenAddress);
+  const { attestations, isLoading, addAttestations } = useAttestations(tokenAddress, custodians);
+
+  const { data: tokenOwner } = useReadContract({
+    address: tokenAddress,
+    abi: commodityTokenAbi,
+    functionName: "owner",
+  });
+  const isOwner =
+    address && tokenOwner ? address.toLowerCase() === tokenOwner.toLowerCase() : false;
+
+  const { data: ratioEvents } = useContractEvents({
+    address: tokenAddress,
+    abi: commodityTokenAbi,
+    eventNames: ["BackingRatioUpdated"],
+  });
+
+  async function handleFile(file: File | undefined) {
+    if (!file) return;
+    try {
+      addAttestations(parseAttestations(await file.text()));
+      setUploadError(null);
+    } catch (err) {
+      setUploadError(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  const check = checkReserve(attestations, { token: tokenAddress, unit, totalSupply, backingRatio });
+  const vaults = new Set(attestations.map((a) => a.vault)).size;
+
+  const timeline: TimelineItem[] = [
+    ...attestations.map((a) => ({
+      kind: "attestation" as const,
+      key: `${a.vault}@${a.timestamp}`,
+      timestamp: a.timestamp,
+      vault: a.vault,
+      quantity: a.quantityWad,
+      unit: a.unit,
+      custodian: a.custodian,
+      signatureValid: a.signatureValid,
+      trusted: a.trusted,
+    })),
+    ...(ratioEvents ?? []).map((e) => ({
+      kind: "ratio" as const,
+      key: `${e.transactionHash}-${e.logIndex}`,
+      timestamp: e.timestamp,
+      oldRatio: e.args.oldRatio as bigint,
+      newRatio: e.args.newRatio as bigint,
+      transactionHash: e.transactionHash,
+    })),
+  ].sort((a, b) => b.timestamp - a.timestamp);
+
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+      <div className="mb-4 flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-white">Proof of Reserve</h3>
+        {isOwner && (
+          <label className="cursor-pointer text-xs text-blue-400 hover:text-blue-300">
+            Upload attestation
+            <input
+              type="file"
+              accept=".json,application/json"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              className="hidden"
+            />
+          </label>
+        )}
+      </div>
+
+      {uploadError && <p className="mb-3 text-xs text-red-400">Upload failed: {uploadError}</p>}
+      {custodians.length === 0 && (
+        <p className="mb-3 rounded-lg bg-amber-500/10 p-2 text-xs text-amber-400">
+          No trusted custodians are listed for this token in deployments.json, so no attestation counts towards the
+          reserve.
+        </p>
+      )}
+
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+        <Stat label="On-chain Backing" value={formatBackingRatio(backingRatio)} />
+        <Stat
+          label="Attested Backing"
+          value={check.attestedRatio !== null && vaults > 0 ? formatBackingRatio(check.attestedRatio) : "--"}
+        />
+        <Stat label="Attested Quantity" value={`${formatTokens(check.attestedQuantity)} ${unit}`} />
+        <Stat label="Required Quantity" value={`${formatTokens(check.requiredQuantity)} ${unit}`} />
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <div className="h-6 w-6 animate-spin rounded-full border-2 border-blue-500 border-t-transparent" />
+        </div>
+      ) : vaults === 0 ? (
+        <p className="mt-4 text-sm text-slate-500">
+          No custodian attestations loaded{isOwner ? "; upload a signed attestation file to check reserves" : ""}.
+        </p>
+      ) : check.issues.length === 0 ? (
+        <p className="mt-4 rounded-lg bg-emerald-500/10 p-3 text-xs text-emerald-400">
+          {vaults} {vaults === 1 ? "vault covers" : "vaults cover"} supply, within{" "}
+          {formatBps(RATIO_TOLERANCE_BPS)} of the on-chain backing ratio.
+        </p>
+      ) : (
+        <ul className="mt-4 space-y-1 rounded-lg bg-red-500/10 p-3 text-xs text-red-400">
+          {check.issues.map((issue, i) => (
+            <li key={i}>{describeIssue(issue, unit)}</li>
+          ))}
+        </ul>
+      )}
+
+      {timeline.length > 0 && (
+        <div className="mt-6">
+          <p className="mb-3 text-sm font-medium text-slate-300">History</p>
+          <ol className="max-h-72 space-y-3 overflow-y-auto border-l border-slate-800 pl-4">
+            {timeline.map((item) => (
+              <li key={item.key} className="relative text-xs">
+                <span
+                  className={`absolute -left-[21px] top-1 h-2 w-2 rounded-full ${
+                    item.kind === "ratio"
+                      ? "bg-blue-400"
+                      : item.signatureValid && item.trusted
+                        ? "bg-emerald-400"
+                        : "bg-red-400"
+                  }`}
+                />
+                <p className="text-slate-500">{formatTimestamp(BigInt(item.timestamp))}</p>
+                {item.kind === "attestation" ? (
+                  <p className="text-slate-300">
+                    {item.vault}: {formatTokens(item.quantity)} {item.unit} attested by{" "}
+                    <span className="font-mono">{shortenAddress(item.custodian)}</span>
+                    {!item.signatureValid ? (
+                      <span className="text-red-400"> (invalid signature)</span>
+                    ) : (
+                      !item.trusted && <span className="text-red-400"> (untrusted custodian)</span>
+                    )}
+                  </p>
+                ) : (
+                  <p className="text-slate-300">
+                    Backing ratio {formatBackingRatio(item.oldRatio)} → {formatBackingRatio(item.newRatio)}
+                    {explorerTxUrl(chainId, item.transactionHash) && (
+                      <a
+                        href={explorerTxUrl(chainId, item.transactionHash)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="ml-2 text-blue-400 hover:text-blue-300"
+                      >
+                        &#8599;
+                      </a>
+                    )}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-lg bg-slate-800/50 p-3">
+      <p className="text-xs text-slate-500">{label}</p>
+      <p className="mt-1 text-sm font-semibold text-white">{value}</p>
+    </div>
+  );
+}
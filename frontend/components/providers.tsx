@@ -4,11 +4,12 @@ import { useState, useEffect, type ReactNode } from "react";
 import { WagmiProvider } from "wagmi";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { config } from "@/lib/wagmi";
+import { useRefreshOnNewBlock } from "@/lib/block-refresh";
 
 const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
-      refetchInterval: 6_000, // refresh contract reads every 6s
+      // Contract reads refresh per block via BlockRefresher, not on a timer
       retry: 1,
     },
   },
@@ -29,7 +30,15 @@ export function Providers({ children }: { children: ReactNode }) {
 
   return (
     <WagmiProvider config={config}>
-      <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+      <QueryClientProvider client={queryClient}>
+        <BlockRefresher />
+        {children}
+      </QueryClientProvider>
     </WagmiProvider>
   );
 }
+
+function BlockRefresher() {
+  useRefreshOnNewBlock();
+  return null;
+}
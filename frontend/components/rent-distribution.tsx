@@ -0,0 +1,444 @@
+"use client";
+
+import { useState } from "react";
+import { useAccount, useBlockNumber, useReadContract, useReadContracts } from "wagmi";
+import { getCapabilities, sendCalls, waitForCallsStatus, writeContract } from "wagmi/actions";
+import { formatUnits, parseUnits } from "viem";
+import { erc20Abi, rwaTokenAbi } from "@/lib/abi";
+import { fetchAddressStatuses, type BatchStatus } from "@/lib/bulk-compliance";
+import { formatContractError } from "@/lib/errors";
+import { useContractEvents } from "@/lib/event-logs";
+import { isSafeConnector, waitForTransaction } from "@/lib/transactions";
+import {
+  PAYOUT_BATCH_SIZE,
+  buildClaimFile,
+  distributionToCsv,
+  payoutBatches,
+  planDistribution,
+  snapshotHolders,
+  type DistributionPlan,
+  type Payout,
+} from "@/lib/rent-distribution";
+import { config, explorerTxUrl, useDeployment } from "@/lib/wagmi";
+import { downloadTextFile, formatPaymentAmount, formatTokens, shortenAddress } from "@/lib/utils";
+
+interface RentDistributionProps {
+  tokenAddress: `0x${string}`;
+  registryAddress: `0x${string}`;
+  paymentTokenAddress: `0x${string}`;
+  totalValuation: bigint;
+  rentalYieldBps: bigint;
+}
+
+interface PayoutBatchResult {
+  payouts: Payout[];
+  status: BatchStatus;
+  hash?: `0x${string}`;
+  error?: string;
+}
+
+const STATUS_CLASSES: Record<BatchStatus, string> = {
+  queued: "text-slate-500",
+  pending: "text-blue-400",
+  confirming: "text-blue-400",
+  success: "text-emerald-400",
+  failed: "text-red-400",
+};
+
+/**
+ * Token owner's rent payout tool: snapshot holders at a block, split a rental
+ * amount pro-rata (frozen holders excluded), then pay directly or publish a
+ * Merkle claim file.
+ */
+export function RentDistribution({
+  tokenAddress,
+  registryAddress,
+  paymentTokenAddress,
+  totalValuation,
+  rentalYieldBps,
+}: RentDistributionProps) {
+  const { chainId } = useDeployment();
+  const { address, connector } = useAccount();
+  const [blockInput, setBlockInput] = useState("");
+  const [amountInput, setAmountInput] = useState("");
+  const [plan, setPlan] = useState<DistributionPlan | null>(null);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [planError, setPlanError] = useState<string | null>(null);
+  const [results, setResults] = useState<PayoutBatchResult[] | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const { data: tokenOwner } = useReadContract({
+    address: tokenAddress,
+    abi: rwaTokenAbi,
+    functionName: "owner",
+  });
+  const isOwner =
+    address && tokenOwner ? address.toLowerCase() === tokenOwner.toLowerCase() : false;
+
+  const { data: latestBlock } = useBlockNumber({ chainId, query: { enabled: isOwner } });
+
+  const { data: paymentToken } = useReadContracts({
+    allowFailure: false,
+    contracts: [
+      { chainId, address: paymentTokenAddress, abi: erc20Abi, functionName: "decimals" },
+      { chainId, address: paymentTokenAddress, abi: erc20Abi, functionName: "symbol" },
+    ],
+    query: { enabled: isOwner },
+  });
+  const [decimals, symbol] = paymentToken ?? [];
+
+  const { data: walletBalance } = useReadContract({
+    address: paymentTokenAddress,
+    abi: erc20Abi,
+    functionName: "balanceOf",
+    args: address ? [address] : undefined,
+    query: { enabled: isOwner },
+  });
+
+  const transfers = useContractEvents({
+    address: tokenAddress,
+    abi: rwaTokenAbi,
+    eventNames: ["Transfer"],
+    enabled: isOwner,
+  });
+
+  if (!isOwner) return null;
+
+  // Rent implied by the on-chain yield, for one month
+  const monthlyRent = (totalValuation * rentalYieldBps) / 10_000n / 12n;
+  const total = decimals !== undefined ? parseAmount(amountInput, decimals) : 0n;
+  const pay = (amount: bigint) => (decimals !== undefined ? formatPaymentAmount(amount, decimals) : "...");
+  const snapshotBlock = blockInput.trim() === "" ? latestBlock : parseBlock(blockInput);
+  const isBlockValid =
+    snapshotBlock !== undefined && (latestBlock === undefined || snapshotBlock <= latestBlock);
+
+  function resetPlan() {
+    setPlan(null);
+    setResults(null);
+    setPlanError(null);
+  }
+
+  async function handlePlan() {
+    if (!transfers.data || snapshotBlock === undefined) return;
+    setIsPlanning(true);
+    resetPlan();
+    try {
+      const holders = snapshotHolders(transfers.data, snapshotBlock);
+      const accounts = [...holders.keys()];
+      const statuses = await fetchAddressStatuses(chainId, registryAddress, accounts);
+      const frozen = new Set(
+        accounts.filter((_, i) => statuses[i].isFrozen).map((a) => a.toLowerCase())
+      );
+      setPlan(planDistribution(holders, frozen, total, snapshotBlock));
+    } catch (err) {
+      setPlanError(formatContractError(err));
+    } finally {
+      setIsPlanning(false);
+    }
+  }
+
+  /** Whether the wallet can send a batch all-or-nothing, so a batch's outcome is every transfer's outcome */
+  async function supportsAtomicBatch(): Promise<boolean> {
+    try {
+      const capabilities = await getCapabilities(config, { chainId, connector });
+      const status = capabilities.atomic?.status;
+      return status === "supported" || status === "ready";
+    } catch {
+      return false;
+    }
+  }
+
+  async function handlePayout() {
+    if (!plan) return;
+    setIsRunning(true);
+    const atomic = await supportsAtomicBatch();
+    // Without atomic batching a batch can land partially, so each transfer
+    // goes out as its own transaction and is tracked on its own. Resuming
+    // keeps what was paid and only re-sends the transfers that weren't.
+    const settled = results?.filter((r) => r.status === "success") ?? [];
+    const unpaid = results
+      ? results.filter((r) => r.status !== "success").flatMap((r) => r.payouts)
+      : plan.payouts;
+    const batches: PayoutBatchResult[] = [
+      ...settled,
+      ...payoutBatches(unpaid, atomic ? PAYOUT_BATCH_SIZE : 1).map(
+        (payouts): PayoutBatchResult => ({ payouts, status: "queued" })
+      ),
+    ];
+    const update = (i: number, patch: Partial<PayoutBatchResult>) => {
+      batches[i] = { ...batches[i], ...patch };
+      setResults([...batches]);
+    };
+
+    setResults([...batches]);
+    for (let i = 0; i < batches.length; i++) {
+      if (batches[i].status === "success") continue;
+      try {
+        update(i, { status: "pending" });
+        if (atomic) {
+          const { id } = await sendCalls(config, {
+            chainId,
+            calls: batches[i].payouts.map((p) => ({
+              to: paymentTokenAddress,
+              abi: erc20Abi,
+              functionName: "transfer",
+              args: [p.account, p.amount],
+            })),
+            forceAtomic: true,
+          });
+          update(i, { status: "confirming" });
+          // A Safe reports the batch as pending until its owners have signed and
+          // executed it, which can take far longer than the default timeout
+          const { status, receipts } = await waitForCallsStatus(config, {
+            id,
+            timeout: isSafeConnector(connector) ? 0 : undefined,
+          });
+          const hash = receipts?.[receipts.length - 1]?.transactionHash;
+          if (status !== "success" || receipts?.some((r) => r.status !== "success")) {
+            update(i, { status: "failed", hash, error: "Transaction reverted" });
+            break;
+          }
+          update(i, { status: "success", hash });
+        } else {
+          const [p] = batches[i].payouts;
+          const hash = await writeContract(config, {
+            chainId,
+            address: paymentTokenAddress,
+            abi: erc20Abi,
+            functionName: "transfer",
+            args: [p.account, p.amount],
+          });
+          update(i, { status: "confirming", hash });
+          const receipt = await waitForTransaction(config, { chainId, hash, connector });
+          if (receipt.status !== "success") {
+            update(i, { status: "failed", hash: receipt.transactionHash, error: "Transaction reverted" });
+            break;
+          }
+          update(i, { status: "success", hash: receipt.transactionHash });
+        }
+      } catch (err) {
+        update(i, { status: "failed", error: formatContractError(err, { action: "payout", paymentSymbol: symbol, paymentDecimals: decimals }) });
+        break;
+      }
+    }
+    setIsRunning(false);
+  }
+
+  function handleExportCsv() {
+    if (!plan) return;
+    downloadTextFile(
+      `rent-${shortenAddress(tokenAddress)}-${plan.snapshotBlock}.csv`,
+      distributionToCsv(plan)
+    );
+  }
+
+  function handleExportClaims() {
+    if (!plan) return;
+    const file = buildClaimFile(plan, chainId, tokenAddress, paymentTokenAddress);
+    downloadTextFile(
+      `rent-claims-${shortenAddress(tokenAddress)}-${plan.snapshotBlock}.json`,
+      JSON.stringify(file, null, 2),
+      "application/json"
+    );
+  }
+
+  const paidBatches = results?.filter((r) => r.status === "success") ?? [];
+  const paid = paidBatches.reduce((n, r) => n + r.payouts.length, 0);
+  const unpaidTotal = plan
+    ? plan.total - paidBatches.flatMap((r) => r.payouts).reduce((sum, p) => sum + p.amount, 0n)
+    : 0n;
+  const insufficient = walletBalance !== undefined && walletBalance < unpaidTotal;
+
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+      <h3 className="mb-1 text-lg font-semibold text-white">Rental Distribution</h3>
+      <p className="mb-4 text-xs text-slate-500">
+        Pays rent in the payment token to holders pro-rata to their balance at the snapshot block.
+        Frozen addresses are excluded based on their current registry status.
+      </p>
+
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+        <div>
+          <label className="mb-1 block text-xs text-slate-400">Snapshot block</label>
+          <input
+            type="text"
+            inputMode="numeric"
+            placeholder={latestBlock !== undefined ? `Latest (${latestBlock})` : "Latest"}
+            value={blockInput}
+            disabled={isRunning}
+            onChange={(e) => {
+              setBlockInput(e.target.value);
+              resetPlan();
+            }}
+            className={`w-full rounded-lg border bg-slate-800 px-3 py-2 text-sm text-white outline-none placeholder:text-slate-600 ${
+              blockInput && !isBlockValid ? "border-red-500" : "border-slate-700 focus:border-blue-500"
+            }`}
+          />
+        </div>
+        <div>
+          <label className="mb-1 block text-xs text-slate-400">Rent to distribute ({symbol ?? "..."})</label>
+          <input
+            type="number"
+            placeholder="0.00"
+            value={amountInput}
+            disabled={isRunning}
+            onChange={(e) => {
+              setAmountInput(e.target.value);
+              resetPlan();
+            }}
+            className="w-full rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 text-sm text-white outline-none placeholder:text-slate-600 focus:border-blue-500"
+          />
+          {monthlyRent > 0n && decimals !== undefined && (
+            <button
+              onClick={() => {
+                setAmountInput(formatUnits(monthlyRent, decimals));
+                resetPlan();
+              }}
+              disabled={isRunning}
+              className="mt-1 text-xs text-blue-400 hover:text-blue-300"
+            >
+              Use one month at the on-chain yield ({pay(monthlyRent)} {symbol})
+            </button>
+          )}
+        </div>
+      </div>
+
+      {!plan && (
+        <button
+          onClick={handlePlan}
+          disabled={!isBlockValid || decimals === undefined || total === 0n || !transfers.data || isPlanning}
+          className="mt-4 w-full rounded-lg bg-blue-600 py-2 text-sm font-medium text-white transition-colors hover:bg-blue-700 disabled:opacity-50"
+        >
+          {transfers.isLoading
+            ? "Loading transfer history..."
+            : isPlanning
+              ? "Taking snapshot..."
+              : "Preview distribution"}
+        </button>
+      )}
+      {planError && <p className="mt-2 text-xs text-red-400">Snapshot failed: {planError.slice(0, 100)}</p>}
+      {transfers.error && (
+        <p className="mt-2 text-xs text-red-400">
+          Failed to load transfers: {transfers.error.message.slice(0, 100)}
+        </p>
+      )}
+
+      {plan && (
+        <div className="mt-4 space-y-3">
+          <p className="text-xs text-slate-400">
+            {pay(plan.total)} {symbol} to {plan.payouts.length} holders at block {plan.snapshotBlock.toString()}{" "}
+            ({formatTokens(plan.eligibleSupply)} eligible tokens)
+            {plan.excluded.length > 0 && ` · ${plan.excluded.length} frozen excluded`}
+          </p>
+          {insufficient && (
+            <p className="rounded-lg bg-amber-500/10 p-2 text-xs text-amber-400">
+              Your wallet holds {pay(walletBalance)} {symbol}, less than the {pay(unpaidTotal)} {symbol} still to
+              pay.
+            </p>
+          )}
+
+          <div className="max-h-64 overflow-y-auto rounded-lg bg-slate-800/30">
+            <table className="w-full text-left text-xs">
+              <thead className="sticky top-0 bg-slate-900 text-slate-500">
+                <tr>
+                  <th className="px-3 py-2 font-medium">Holder</th>
+                  <th className="px-3 py-2 text-right font-medium">Balance</th>
+                  <th className="px-3 py-2 text-right font-medium">Payout</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-800">
+                {plan.payouts.map((p) => (
+                  <tr key={p.account} className="text-slate-300">
+                    <td className="px-3 py-2 font-mono">{shortenAddress(p.account)}</td>
+                    <td className="px-3 py-2 text-right">{formatTokens(p.balance)}</td>
+                    <td className="px-3 py-2 text-right">{pay(p.amount)}</td>
+                  </tr>
+                ))}
+                {plan.excluded.map((e) => (
+                  <tr key={e.account} className="text-slate-500">
+                    <td className="px-3 py-2 font-mono">{shortenAddress(e.account)}</td>
+                    <td className="px-3 py-2 text-right">{formatTokens(e.balance)}</td>
+                    <td className="px-3 py-2 text-right text-red-400">{e.reason}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {results && (
+            <ul className="space-y-1 text-xs">
+              {results.map((r, i) => {
+                const url = r.hash ? explorerTxUrl(chainId, r.hash) : undefined;
+                return (
+                  <li key={i} className="flex items-center justify-between rounded-lg bg-slate-800/50 px-3 py-2">
+                    <span className="text-slate-400">
+                      {r.payouts.length === 1
+                        ? `Transfer to ${shortenAddress(r.payouts[0].account)}`
+                        : `Batch ${i + 1} · ${r.payouts.length} transfers`}
+                    </span>
+                    <span className={STATUS_CLASSES[r.status]}>
+                      {r.error ? `${r.status}: ${r.error.slice(0, 60)}` : r.status}
+                      {url && (
+                        <a href={url} target="_blank" rel="noopener noreferrer" className="ml-2 text-blue-400 hover:text-blue-300">
+                          &#8599;
+                        </a>
+                      )}
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          <div className="flex flex-wrap items-center justify-between gap-2 text-xs">
+            <span className="flex gap-3">
+              <button onClick={handleExportCsv} className="text-blue-400 hover:text-blue-300">
+                Export CSV
+              </button>
+              <button
+                onClick={handleExportClaims}
+                disabled={plan.payouts.length === 0}
+                className="text-blue-400 hover:text-blue-300 disabled:opacity-50"
+              >
+                Download Merkle claim file
+              </button>
+            </span>
+            {results && !isRunning && (
+              <span className="text-slate-400">
+                <span className="text-emerald-400">{paid} paid</span>
+                {paid < plan.payouts.length && ` · ${plan.payouts.length - paid} not paid`}
+              </span>
+            )}
+          </div>
+
+          {!results?.every((r) => r.status === "success") && (
+            <button
+              onClick={handlePayout}
+              disabled={plan.payouts.length === 0 || isRunning || insufficient}
+              className="w-full rounded-lg bg-emerald-600 py-2 text-sm font-medium text-white transition-colors hover:bg-emerald-700 disabled:opacity-50"
+            >
+              {isRunning
+                ? "Paying out..."
+                : results
+                  ? "Resume payout"
+                  : `Pay ${plan.payouts.length} holders directly`}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function parseAmount(value: string, decimals: number): bigint {
+  if (!value.trim() || isNaN(Number(value)) || Number(value) <= 0) return 0n;
+  try {
+    return parseUnits(value.trim(), decimals);
+  } catch {
+    return 0n;
+  }
+}
+
+function parseBlock(value: string): bigint | undefined {
+  return /^\d+$/.test(value.trim()) ? BigInt(value.trim()) : undefined;
+}
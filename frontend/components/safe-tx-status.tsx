@@ -0,0 +1,20 @@
+"use client";
+
+import { describeSafeTxStatus, isSafeTxPending, type SafeTxStatus } from "@/lib/transactions";
+
+/** Progress of a Safe proposal still waiting on signatures or execution, or nothing */
+export function SafeTxStatusNote({
+  status,
+  className = "",
+}: {
+  status: SafeTxStatus | undefined;
+  className?: string;
+}) {
+  if (!status || !isSafeTxPending(status)) return null;
+  return (
+    <p className={`flex items-center gap-2 rounded-lg bg-amber-500/10 px-3 py-2 text-xs text-amber-400 ${className}`}>
+      <span className="h-1.5 w-1.5 animate-pulse rounded-full bg-amber-400" />
+      {describeSafeTxStatus(status)}. You can leave this page; the Safe keeps the proposal.
+    </p>
+  );
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import { useState } from "react";
+import { MAX_SLIPPAGE_BPS, SLIPPAGE_PRESETS_BPS } from "@/lib/slippage";
+import { formatBps } from "@/lib/utils";
+
+interface SlippageSettingsProps {
+  slippageBps: number;
+  onChange: (bps: number) => void;
+}
+
+export function SlippageSettings({ slippageBps, onChange }: SlippageSettingsProps) {
+  const [open, setOpen] = useState(false);
+  const [custom, setCustom] = useState("");
+
+  const customBps = custom.trim() === "" ? undefined : Math.round(Number(custom) * 100);
+  const isCustomValid =
+    customBps !== undefined && !isNaN(customBps) && customBps >= 0 && customBps <= MAX_SLIPPAGE_BPS;
+
+  return (
+    <div className="text-xs">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1 text-slate-400 hover:text-white"
+      >
+        Slippage tolerance: <span className="font-medium text-white">{formatBps(slippageBps)}</span>
+        <span>{open ? "▴" : "▾"}</span>
+      </button>
+
+      {open && (
+        <div className="mt-2 flex flex-wrap items-center gap-2 rounded-lg bg-slate-800/50 p-2">
+          {SLIPPAGE_PRESETS_BPS.map((bps) => (
+            <button
+              key={bps}
+              onClick={() => {
+                onChange(bps);
+                setCustom("");
+              }}
+              className={`rounded-md px-2.5 py-1 font-medium transition-colors ${
+                slippageBps === bps ? "bg-blue-600 text-white" : "bg-slate-800 text-slate-400 hover:text-white"
+              }`}
+            >
+              {formatBps(bps)}
+            </button>
+          ))}
+          <div className="flex items-center gap-1">
+            <input
+              type="number"
+              placeholder="Custom"
+              value={custom}
+              onChange={(e) => {
+                setCustom(e.target.value);
+                const bps = Math.round(Number(e.target.value) * 100);
+                if (e.target.value.trim() !== "" && bps >= 0 && bps <= MAX_SLIPPAGE_BPS) onChange(bps);
+              }}
+              className={`w-20 rounded-md border bg-slate-800 px-2 py-1 text-white outline-none ${
+                custom && !isCustomValid ? "border-red-500" : "border-slate-700 focus:border-blue-500"
+              }`}
+            />
+            <span className="text-slate-500">%</span>
+          </div>
+          {slippageBps > 300 && (
+            <p className="w-full text-amber-400">High tolerance: the trade may execute at a much worse rate.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+"use client";
+
+import { formatContractError, type ErrorContext } from "@/lib/errors";
+
+/** Decoded revert or wallet error for a write, or nothing if there is none */
+export function TxError({
+  error,
+  context,
+  className = "",
+}: {
+  error: unknown;
+  context?: ErrorContext;
+  className?: string;
+}) {
+  if (!error) return null;
+  return (
+    <p className={`rounded-lg bg-red-500/10 px-3 py-2 text-xs text-red-400 ${className}`}>
+      {formatContractError(error, context)}
+    </p>
+  );
+}
@@ -0,0 +1,342 @@
+"use client";
+
+import { useState } from "react";
+import { useAccount, useReadContract, useReadContracts, useWriteContract } from "wagmi";
+import { formatUnits, parseUnits } from "viem";
+import { erc20Abi, realEstateTokenAbi } from "@/lib/abi";
+import { useTransactionReceipt } from "@/lib/transactions";
+import {
+  DRIFT_TOLERANCE_BPS,
+  describeCause,
+  driftBps,
+  impliedNav,
+  isDriftBreach,
+  reconciliationToCsv,
+  useValuationReconciliation,
+  type ReconciliationPoint,
+} from "@/lib/valuation-reconciliation";
+import { explorerTxUrl, useDeployment } from "@/lib/wagmi";
+import {
+  downloadTextFile,
+  formatBps,
+  formatNAV,
+  formatTimestamp,
+  formatPaymentAmount,
+  formatTokens,
+  shortenAddress,
+} from "@/lib/utils";
+import { NavChart } from "@/components/nav-chart";
+import { SafeTxStatusNote } from "@/components/safe-tx-status";
+import { TxError } from "@/components/tx-error";
+
+interface ValuationReconciliationProps {
+  tokenAddress: `0x${string}`;
+  oracleAddress: `0x${string}`;
+  /** totalValuation is denominated in this token */
+  paymentTokenAddress: `0x${string}`;
+  totalValuation: bigint;
+  totalSupply: bigint;
+  nav: bigint;
+}
+
+interface PaymentUnit {
+  symbol: string;
+  decimals: number;
+}
+
+function formatValuation(amount: bigint, payment: PaymentUnit): string {
+  return `${formatPaymentAmount(amount, payment.decimals)} ${payment.symbol}`;
+}
+
+function formatDrift(bps: number | null): string {
+  if (bps === null) return "--";
+  return `${bps > 0 ? "+" : ""}${formatBps(bps)}`;
+}
+
+function causeDetail(point: ReconciliationPoint, payment: PaymentUnit): string {
+  const { cause } = point;
+  switch (cause.kind) {
+    case "initial":
+      return "";
+    case "valuation":
+      return `${formatValuation(cause.oldValuation, payment)} → ${formatValuation(cause.newValuation, payment)}`;
+    case "nav":
+      return `${formatNAV(cause.oldNav)} → ${formatNAV(cause.newNav)}`;
+    case "mint":
+    case "burn":
+      return `${formatTokens(cause.amount)} tokens`;
+  }
+}
+
+/**
+ * Compares the property valuation per token with the oracle NAV over time,
+ * shading the periods where they disagree by more than the tolerance.
+ */
+export function ValuationReconciliation({ paymentTokenAddress, ...props }: ValuationReconciliationProps) {
+  const payment = { address: paymentTokenAddress, abi: erc20Abi } as const;
+  const { data } = useReadContracts({
+    allowFailure: false,
+    contracts: [
+      { ...payment, functionName: "decimals" },
+      { ...payment, functionName: "symbol" },
+    ],
+  });
+
+  if (!data) {
+    return (
+      <div className="flex items-center justify-center rounded-xl border border-slate-800 bg-slate-900/50 p-12">
+        <div className="h-6 w-6 animate-spin rounded-full border-2 border-blue-500 border-t-transparent" />
+      </div>
+    );
+  }
+  return <ReconciliationView {...props} payment={{ decimals: data[0], symbol: data[1] }} />;
+}
+
+function ReconciliationView({
+  tokenAddress,
+  oracleAddress,
+  totalValuation,
+  totalSupply,
+  nav,
+  payment,
+}: Omit<ValuationReconciliationProps, "paymentTokenAddress"> & { payment: PaymentUnit }) {
+  const { address } = useAccount();
+  const [now] = useState(() => Math.floor(Date.now() / 1000));
+  const { points, breaches, isLoading, error } = useValuationReconciliation(
+    tokenAddress,
+    oracleAddress,
+    totalValuation,
+    payment.decimals
+  );
+
+  const { data: tokenOwner } = useReadContract({
+    address: tokenAddress,
+    abi: realEstateTokenAbi,
+    functionName: "owner",
+  });
+  const isOwner =
+    address && tokenOwner ? address.toLowerCase() === tokenOwner.toLowerCase() : false;
+
+  // Current state comes from live reads so it doesn't wait on the log scan
+  const implied = impliedNav(totalValuation, totalSupply, payment.decimals);
+  const drift = driftBps(nav, implied);
+
+  const oracleSeries = points.map((p) => ({ timestamp: p.timestamp, nav: p.oracleNav }));
+  const impliedSeries = points.flatMap((p) =>
+    p.impliedNav === null ? [] : [{ timestamp: p.timestamp, nav: p.impliedNav }]
+  );
+  const highlights = breaches.map((b) => ({ from: b.start.timestamp, to: b.end?.timestamp ?? now }));
+
+  function handleExport() {
+    downloadTextFile(`valuation-reconciliation-${shortenAddress(tokenAddress)}.csv`, reconciliationToCsv(points, payment.decimals));
+  }
+
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-900/50 p-6">
+      <div className="mb-4 flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-white">Valuation Reconciliation</h3>
+        <button
+          onClick={handleExport}
+          disabled={points.length === 0}
+          className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50"
+        >
+          Download report
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+        <Stat label="Total Valuation" value={formatValuation(totalValuation, payment)} />
+        <Stat label="Valuation / Supply" value={implied !== null ? formatNAV(implied) : "--"} />
+        <Stat label="Oracle NAV" value={formatNAV(nav)} />
+        <Stat label="Drift" value={formatDrift(drift)} />
+      </div>
+
+      {implied === null ? (
+        <p className="mt-4 text-sm text-slate-500">No tokens in circulation, so there is no per-token valuation yet.</p>
+      ) : isDriftBreach(drift) ? (
+        <p className="mt-4 rounded-lg bg-red-500/10 p-3 text-xs text-red-400">
+          Oracle NAV is {formatDrift(drift)} away from valuation / supply, beyond the{" "}
+          {formatBps(DRIFT_TOLERANCE_BPS)} tolerance.
+        </p>
+      ) : (
+        <p className="mt-4 rounded-lg bg-emerald-500/10 p-3 text-xs text-emerald-400">
+          Oracle NAV and valuation / supply agree within {formatBps(DRIFT_TOLERANCE_BPS)}.
+        </p>
+      )}
+
+      <div className="mt-6">
+        {isLoading ? (
+          <div className="flex justify-center py-16">
+            <div className="h-6 w-6 animate-spin rounded-full border-2 border-blue-500 border-t-transparent" />
+          </div>
+        ) : error ? (
+          <p className="py-16 text-center text-sm text-red-400">
+            Failed to load valuation history: {error.message.slice(0, 100)}
+          </p>
+        ) : (
+          <>
+            <NavChart series={oracleSeries} compare={impliedSeries} highlights={highlights} until={now} />
+            <div className="mt-2 flex gap-4 text-xs text-slate-400">
+              <span className="flex items-center gap-1">
+                <span className="h-0.5 w-4 bg-blue-400" /> Oracle NAV
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="h-0.5 w-4 border-t-2 border-dashed border-amber-400" /> Valuation / supply
+              </span>
+              {breaches.length > 0 && (
+                <span className="flex items-center gap-1">
+                  <span className="h-3 w-4 bg-red-500/20" /> Drift &gt; {formatBps(DRIFT_TOLERANCE_BPS)}
+                </span>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+
+      {breaches.length > 0 && (
+        <div className="mt-6">
+          <p className="mb-3 text-sm font-medium text-slate-300">Drift Breaches</p>
+          <div className="max-h-72 overflow-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-slate-500">
+                  <th className="pb-2 font-medium">Opened</th>
+                  <th className="pb-2 font-medium">Caused by</th>
+                  <th className="pb-2 text-right font-medium">Max drift</th>
+                  <th className="pb-2 text-right font-medium">Resolved by</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...breaches].reverse().map((b, i) => (
+                  <tr
+                    key={`${b.start.blockNumber}-${i}`}
+                    className="border-t border-slate-800"
+                  >
+                    <td className="py-2 text-slate-400">{formatTimestamp(BigInt(b.start.timestamp))}</td>
+                    <td className="py-2 text-slate-300">
+                      <CauseLabel point={b.start} payment={payment} />
+                    </td>
+                    <td className="py-2 text-right text-red-400">{formatBps(b.maxDriftBps)}</td>
+                    <td className="py-2 text-right text-slate-300">
+                      {b.end ? <CauseLabel point={b.end} payment={payment} /> : <span className="text-red-400">Still open</span>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {isOwner && (
+        <UpdateValuationForm
+          tokenAddress={tokenAddress}
+          totalValuation={totalValuation}
+          totalSupply={totalSupply}
+          nav={nav}
+          payment={payment}
+        />
+      )}
+    </div>
+  );
+}
+
+function CauseLabel({ point, payment }: { point: ReconciliationPoint; payment: PaymentUnit }) {
+  const { chainId } = useDeployment();
+  const detail = causeDetail(point, payment);
+  const url = point.transactionHash && explorerTxUrl(chainId, point.transactionHash);
+  return (
+    <>
+      {describeCause(point.cause)}
+      {detail && <span className="text-slate-500"> ({detail})</span>}
+      {url && (
+        <a href={url} target="_blank" rel="noopener noreferrer" className="ml-2 text-blue-400 hover:text-blue-300">
+          &#8599;
+        </a>
+      )}
+    </>
+  );
+}
+
+/** Owner form for RealEstateToken.updateValuation, previewing the drift it would leave */
+function UpdateValuationForm({
+  tokenAddress,
+  totalValuation,
+  totalSupply,
+  nav,
+  payment,
+}: {
+  tokenAddress: `0x${string}`;
+  totalValuation: bigint;
+  totalSupply: bigint;
+  nav: bigint;
+  payment: PaymentUnit;
+}) {
+  const { chainId } = useDeployment();
+  const [input, setInput] = useState("");
+  const { writeContract, data: hash, isPending, error } = useWriteContract();
+  const { isLoading: isConfirming, isSuccess, safeStatus, error: receiptError } = useTransactionReceipt(hash);
+
+  let newValuation: bigint | undefined;
+  try {
+    if (input.trim() && Number(input) > 0) newValuation = parseUnits(input.trim(), payment.decimals);
+  } catch {
+    newValuation = undefined;
+  }
+  const previewImplied = newValuation !== undefined ? impliedNav(newValuation, totalSupply, payment.decimals) : null;
+  const previewDrift = driftBps(nav, previewImplied);
+
+  function handleSubmit() {
+    if (newValuation === undefined) return;
+    writeContract(
+      {
+        chainId,
+        address: tokenAddress,
+        abi: realEstateTokenAbi,
+        functionName: "updateValuation",
+        args: [newValuation],
+      },
+      { onSuccess: () => setInput("") }
+    );
+  }
+
+  return (
+    <div className="mt-6 border-t border-slate-800 pt-6">
+      <label className="mb-1 block text-sm font-medium text-slate-300">Update Valuation ({payment.symbol})</label>
+      <div className="flex gap-2">
+        <input
+          type="number"
+          placeholder={formatUnits(totalValuation, payment.decimals)}
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          className="flex-1 rounded-lg border border-slate-700 bg-slate-800 px-3 py-2 text-sm text-white outline-none placeholder:text-slate-600 focus:border-blue-500"
+        />
+        <button
+          onClick={handleSubmit}
+          disabled={newValuation === undefined || newValuation === totalValuation || isPending || isConfirming}
+          className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isPending ? "..." : isConfirming ? "Confirming" : "Update"}
+        </button>
+      </div>
+      {previewImplied !== null && (
+        <p className={`mt-2 text-xs ${isDriftBreach(previewDrift) ? "text-amber-400" : "text-slate-400"}`}>
+          Valuation / supply would be {formatNAV(previewImplied)}, {formatDrift(previewDrift)} from the oracle NAV
+          {isDriftBreach(previewDrift) && "; update the NAV as well to stay within tolerance"}.
+        </p>
+      )}
+      {isSuccess && <p className="mt-1 text-xs text-emerald-400">Valuation updated.</p>}
+      <SafeTxStatusNote status={safeStatus} className="mt-2" />
+      <TxError error={error ?? receiptError} className="mt-2" />
+    </div>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-lg bg-slate-800/50 p-3">
+      <p className="text-xs text-slate-500">{label}</p>
+      <p className="mt-1 text-sm font-semibold text-white">{value}</p>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+// Event indexer service. Run with `npm run indexer`; configured by env vars.
+
+import { createPublicClient, getAddress, http, isAddress, type PublicClient } from "viem";
+import { IndexerStore } from "./store";
+import { EventIndexer } from "./indexer";
+import { createQueryServer } from "./server";
+
+function envInt(name: string, fallback: number): number {
+  const value = process.env[name];
+  return value === undefined || value === "" ? fallback : Number(value);
+}
+
+async function main() {
+  const factory = process.env.RWA_FACTORY_ADDRESS;
+  if (!factory || !isAddress(factory, { strict: false })) {
+    throw new Error("Set RWA_FACTORY_ADDRESS to the AssetFactory proxy address");
+  }
+
+  const rpcUrl = process.env.RWA_RPC_URL ?? "http://127.0.0.1:8545";
+  const port = envInt("RWA_INDEXER_PORT", 4100);
+  const publicClient = createPublicClient({ transport: http(rpcUrl) }) as PublicClient;
+  const store = new IndexerStore(process.env.RWA_INDEXER_DB ?? "indexer.db");
+
+  const indexer = new EventIndexer(publicClient, store, {
+    factory: getAddress(factory),
+    startBlock: envInt("RWA_INDEXER_START_BLOCK", 0),
+    confirmations: envInt("RWA_INDEXER_CONFIRMATIONS", 0),
+    batchSize: envInt("RWA_INDEXER_BATCH_SIZE", 2000),
+    reorgDepth: envInt("RWA_INDEXER_REORG_DEPTH", 64),
+    pollIntervalMs: envInt("RWA_INDEXER_POLL_MS", 4000),
+  });
+
+  const server = createQueryServer(store);
+  server.listen(port, () => console.info(`[indexer] query API on http://localhost:${port}`));
+
+  const controller = new AbortController();
+  const shutdown = () => controller.abort();
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
+
+  await indexer.run(controller.signal);
+
+  server.close();
+  store.close();
+}
+
+main().catch((err: unknown) => {
+  console.error("[indexer]", err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,256 @@
+import type { Address, PublicClient } from "viem";
+import { protocolEventsAbi } from "../lib/abi";
+import { AssetFactoryClient, type DeployedAsset } from "../lib/sdk";
+import type { ContractKind, IndexedAsset } from "../lib/indexer-client";
+import type { IndexerStore, NewEvent } from "./store";
+
+export interface IndexerConfig {
+  factory: Address;
+  /** First block to index on an empty database */
+  startBlock: number;
+  /** Blocks to stay behind head; 0 indexes up to the latest block */
+  confirmations: number;
+  /** Max blocks per eth_getLogs call */
+  batchSize: number;
+  /** How many recent checkpoints to keep for reorg detection */
+  reorgDepth: number;
+  pollIntervalMs: number;
+}
+
+type Logger = Pick<Console, "info" | "warn" | "error">;
+
+const ADDRESS_RE = /^0x[0-9a-fA-F]{40}$/;
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+function serializeArgs(args: unknown): Record<string, string | boolean> {
+  const out: Record<string, string | boolean> = {};
+  if (!args || typeof args !== "object") return out;
+  for (const [key, value] of Object.entries(args)) {
+    out[key] = typeof value === "boolean" ? value : String(value);
+  }
+  return out;
+}
+
+/**
+ * Backfills and tails every protocol event from the factory and each asset
+ * triplet it deploys. Each block range is fetched, decoded and committed
+ * atomically; a hash checkpoint per range lets the next pass detect a reorg
+ * and roll back to the last block both chains agree on.
+ */
+export class EventIndexer {
+  private readonly factory: AssetFactoryClient;
+  private deployedAssets: DeployedAsset[] = [];
+
+  constructor(
+    private readonly publicClient: PublicClient,
+    private readonly store: IndexerStore,
+    private readonly config: IndexerConfig,
+    private readonly log: Logger = console
+  ) {
+    this.factory = new AssetFactoryClient(config.factory, { publicClient });
+  }
+
+  /** Seed the factory and already-deployed assets, and set the initial cursor */
+  async init() {
+    this.store.addContract(this.config.factory, "factory", null);
+    if (this.store.getCursor() === undefined) {
+      this.store.setMeta("cursor", String(this.config.startBlock - 1));
+    }
+    this.store.setMeta("factory", this.config.factory.toLowerCase());
+    this.store.setMeta("chainId", String(await this.publicClient.getChainId()));
+
+    // Assets created before startBlock would otherwise never be discovered
+    this.deployedAssets = await this.factory.getDeployedAssets();
+    const known = new Set(this.store.getAssets().map((a) => a.index));
+    for (const asset of this.deployedAssets) {
+      if (!known.has(asset.index)) this.store.addAsset({ ...asset, createdBlock: 0, createdAt: 0 });
+    }
+  }
+
+  /** Index the next batch. Resolves true once caught up with the target head. */
+  async syncOnce(): Promise<boolean> {
+    const head = Number(await this.publicClient.getBlockNumber());
+    this.store.setMeta("head", String(head));
+    const target = head - this.config.confirmations;
+
+    await this.checkReorg();
+
+    const from = (this.store.getCursor() ?? this.config.startBlock - 1) + 1;
+    if (from > target) return true;
+    const to = Math.min(from + this.config.batchSize - 1, target);
+
+    const events: NewEvent[] = [];
+    // Written with the range's events, so an abandoned or reorged range leaves no asset behind
+    const created: IndexedAsset[] = [];
+    const timestamps = new Map<bigint, number>();
+
+    // Pin the range's last block before reading logs. Its hash becomes the
+    // checkpoint, so it must be the chain the logs came from.
+    const pinned = await this.publicClient.getBlock({ blockNumber: BigInt(to) });
+
+    // Factory first, so triplets deployed in this range are watched below
+    const factoryLogs = await this.getLogs([this.config.factory], from, to);
+    if (!this.onPinnedChain(factoryLogs, pinned)) return this.retryRange(from, to);
+    for (const log of factoryLogs) {
+      let assetIndex: number | null = null;
+      if (log.eventName === "AssetCreated") {
+        const asset = await this.resolveAsset(log.args.token as Address);
+        if (asset) {
+          assetIndex = asset.index;
+          created.push({
+            ...asset,
+            createdBlock: Number(log.blockNumber),
+            createdAt: await this.timestamp(log.blockNumber, timestamps),
+          });
+        }
+      }
+      events.push(await this.toEvent(log, "factory", assetIndex, timestamps));
+    }
+
+    // Triplets created in this range aren't stored yet but are watched from their first block
+    const contracts = [
+      ...this.store
+        .getContracts()
+        .filter((c) => c.kind !== "factory" && !created.some((a) => a.index === c.assetIndex)),
+      ...created.flatMap((a) => [
+        { address: a.token.toLowerCase() as Address, kind: "token" as const, assetIndex: a.index },
+        { address: a.complianceRegistry.toLowerCase() as Address, kind: "registry" as const, assetIndex: a.index },
+        { address: a.navOracle.toLowerCase() as Address, kind: "oracle" as const, assetIndex: a.index },
+      ]),
+    ];
+    const byAddress = new Map(contracts.map((c) => [c.address, c]));
+    if (contracts.length > 0) {
+      const logs = await this.getLogs(contracts.map((c) => c.address), from, to);
+      if (!this.onPinnedChain(logs, pinned)) return this.retryRange(from, to);
+      for (const log of logs) {
+        const contract = byAddress.get(log.address.toLowerCase() as Address);
+        if (!contract) continue;
+        events.push(await this.toEvent(log, contract.kind, contract.assetIndex, timestamps));
+      }
+    }
+
+    // A reorg while the logs were read replaces the pinned block
+    const block = await this.publicClient.getBlock({ blockNumber: BigInt(to) });
+    if (block.hash !== pinned.hash) return this.retryRange(from, to);
+    this.store.commitRange(events, created, to, pinned.hash);
+    this.store.pruneCheckpoints(this.config.reorgDepth);
+    if (events.length > 0) {
+      this.log.info(`[indexer] blocks ${from}-${to}: ${events.length} events`);
+    }
+    return to >= target;
+  }
+
+  /** Poll until `signal` aborts */
+  async run(signal: AbortSignal) {
+    await this.init();
+    while (!signal.aborted) {
+      let caughtUp = false;
+      try {
+        caughtUp = await this.syncOnce();
+      } catch (err) {
+        this.log.error("[indexer] sync failed:", err instanceof Error ? err.message : err);
+        caughtUp = true; // back off before retrying
+      }
+      if (caughtUp) await sleep(this.config.pollIntervalMs, signal);
+    }
+  }
+
+  private getLogs(address: Address[], from: number, to: number) {
+    return this.publicClient.getLogs({
+      address,
+      events: protocolEventsAbi,
+      fromBlock: BigInt(from),
+      toBlock: BigInt(to),
+    });
+  }
+
+  /** Logs from the pinned block must carry its hash */
+  private onPinnedChain(
+    logs: { blockNumber: bigint; blockHash: string }[],
+    pinned: { number: bigint; hash: string }
+  ) {
+    return logs.every((log) => log.blockNumber !== pinned.number || log.blockHash === pinned.hash);
+  }
+
+  private retryRange(from: number, to: number) {
+    this.log.warn(`[indexer] chain changed while reading blocks ${from}-${to}, retrying`);
+    return false;
+  }
+
+  private async checkReorg() {
+    const checkpoints = this.store.getCheckpoints(this.config.reorgDepth);
+    if (checkpoints.length === 0) return;
+
+    for (const cp of checkpoints) {
+      const block = await this.publicClient
+        .getBlock({ blockNumber: BigInt(cp.blockNumber) })
+        .catch(() => null);
+      if (block?.hash === cp.blockHash) {
+        if (cp !== checkpoints[0]) {
+          this.log.warn(`[indexer] reorg detected, rolling back to block ${cp.blockNumber}`);
+          this.store.rollbackTo(cp.blockNumber);
+        }
+        return;
+      }
+    }
+
+    // Deeper than every checkpoint we kept: start over
+    this.log.warn("[indexer] reorg deeper than reorgDepth, reindexing from startBlock");
+    this.store.rollbackTo(this.config.startBlock - 1);
+  }
+
+  /** Factory index of a newly created token */
+  private async resolveAsset(token: Address): Promise<DeployedAsset | undefined> {
+    const find = () =>
+      this.deployedAssets.find((a) => a.token.toLowerCase() === token.toLowerCase());
+    if (!find()) this.deployedAssets = await this.factory.getDeployedAssets();
+    const asset = find();
+    if (!asset) this.log.warn(`[indexer] AssetCreated for unknown token ${token}`);
+    return asset;
+  }
+
+  private async timestamp(blockNumber: bigint, cache: Map<bigint, number>) {
+    let ts = cache.get(blockNumber);
+    if (ts === undefined) {
+      const block = await this.publicClient.getBlock({ blockNumber });
+      ts = Number(block.timestamp);
+      cache.set(blockNumber, ts);
+    }
+    return ts;
+  }
+
+  private async toEvent(
+    log: Awaited<ReturnType<EventIndexer["getLogs"]>>[number],
+    contractKind: ContractKind,
+    assetIndex: number | null,
+    timestamps: Map<bigint, number>
+  ): Promise<NewEvent> {
+    const args = serializeArgs(log.args);
+    const accounts = Object.values(args).filter(
+      (v): v is string => typeof v === "string" && ADDRESS_RE.test(v) && v !== ZERO_ADDRESS
+    );
+    return {
+      contract: log.address,
+      contractKind,
+      assetIndex,
+      eventName: log.eventName,
+      args,
+      blockNumber: Number(log.blockNumber),
+      blockHash: log.blockHash,
+      transactionHash: log.transactionHash,
+      logIndex: log.logIndex,
+      timestamp: await this.timestamp(log.blockNumber, timestamps),
+      accounts,
+    };
+  }
+}
+
+function sleep(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener("abort", () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
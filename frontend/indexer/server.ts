@@ -0,0 +1,73 @@
+import { createServer, type Server } from "node:http";
+import type { EventQuery, IndexerStatus } from "../lib/indexer-client";
+import type { IndexerStore } from "./store";
+
+function intParam(params: URLSearchParams, name: string): number | undefined {
+  const value = params.get(name);
+  if (value === null || value === "") return undefined;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0) throw new Error(`Invalid ${name}: ${value}`);
+  return n;
+}
+
+/** Parse `/events` query params into an EventQuery */
+export function parseEventQuery(params: URLSearchParams): EventQuery {
+  const order = params.get("order");
+  const event = params.get("event");
+  return {
+    contract: (params.get("contract") ?? undefined) as `0x${string}` | undefined,
+    assetIndex: intParam(params, "asset"),
+    eventName: event ? event.split(",") : undefined,
+    account: (params.get("account") ?? undefined) as `0x${string}` | undefined,
+    fromBlock: intParam(params, "fromBlock"),
+    toBlock: intParam(params, "toBlock"),
+    order: order === "desc" ? "desc" : "asc",
+    limit: intParam(params, "limit"),
+    offset: intParam(params, "offset"),
+  };
+}
+
+/**
+ * Read-only JSON API over the index:
+ *   GET /status
+ *   GET /assets
+ *   GET /events?asset=&contract=&event=A,B&account=&fromBlock=&toBlock=&order=&limit=&offset=
+ */
+export function createQueryServer(store: IndexerStore): Server {
+  return createServer((req, res) => {
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    res.setHeader("Content-Type", "application/json");
+
+    const send = (status: number, body: unknown) => {
+      res.statusCode = status;
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.method !== "GET") return send(405, { error: "Method not allowed" });
+
+    const url = new URL(req.url ?? "/", "http://localhost");
+    try {
+      switch (url.pathname) {
+        case "/status": {
+          const status: IndexerStatus = {
+            chainId: Number(store.getMeta("chainId") ?? 0),
+            factory: (store.getMeta("factory") ?? "") as `0x${string}`,
+            lastIndexedBlock: store.getCursor() ?? -1,
+            headBlock: Number(store.getMeta("head") ?? 0),
+            contracts: store.getContracts().length,
+            events: store.countEvents(),
+          };
+          return send(200, status);
+        }
+        case "/assets":
+          return send(200, store.getAssets());
+        case "/events":
+          return send(200, store.queryEvents(parseEventQuery(url.searchParams)));
+        default:
+          return send(404, { error: "Not found" });
+      }
+    } catch (err) {
+      return send(400, { error: err instanceof Error ? err.message : String(err) });
+    }
+  });
+}
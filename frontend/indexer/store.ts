@@ -0,0 +1,356 @@
+import Database from "better-sqlite3";
+import type {
+  ContractKind,
+  EventPage,
+  EventQuery,
+  IndexedAsset,
+  IndexedEvent,
+} from "../lib/indexer-client";
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS contracts (
+  address       TEXT PRIMARY KEY,
+  kind          TEXT NOT NULL,
+  asset_index   INTEGER
+);
+
+CREATE TABLE IF NOT EXISTS assets (
+  asset_index          INTEGER PRIMARY KEY,
+  token                TEXT NOT NULL,
+  compliance_registry  TEXT NOT NULL,
+  nav_oracle           TEXT NOT NULL,
+  asset_type           TEXT NOT NULL,
+  created_block        INTEGER NOT NULL,
+  created_at           INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS events (
+  id                INTEGER PRIMARY KEY AUTOINCREMENT,
+  contract          TEXT NOT NULL,
+  contract_kind     TEXT NOT NULL,
+  asset_index       INTEGER,
+  event_name        TEXT NOT NULL,
+  args              TEXT NOT NULL,
+  block_number      INTEGER NOT NULL,
+  block_hash        TEXT NOT NULL,
+  transaction_hash  TEXT NOT NULL,
+  log_index         INTEGER NOT NULL,
+  timestamp         INTEGER NOT NULL,
+  UNIQUE (block_hash, log_index)
+);
+CREATE INDEX IF NOT EXISTS events_contract ON events (contract, block_number);
+CREATE INDEX IF NOT EXISTS events_asset ON events (asset_index, block_number);
+CREATE INDEX IF NOT EXISTS events_name ON events (event_name, block_number);
+
+-- Address arguments of each event, for "everything involving account X" queries
+CREATE TABLE IF NOT EXISTS event_accounts (
+  event_id  INTEGER NOT NULL REFERENCES events (id) ON DELETE CASCADE,
+  account   TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS event_accounts_account ON event_accounts (account);
+
+-- Hashes of recently indexed blocks, used to detect reorgs
+CREATE TABLE IF NOT EXISTS checkpoints (
+  block_number  INTEGER PRIMARY KEY,
+  block_hash    TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS meta (
+  key    TEXT PRIMARY KEY,
+  value  TEXT NOT NULL
+);
+`;
+
+export type NewEvent = Omit<IndexedEvent, "id"> & { accounts: string[] };
+
+interface EventRow {
+  id: number;
+  contract: string;
+  contract_kind: ContractKind;
+  asset_index: number | null;
+  event_name: string;
+  args: string;
+  block_number: number;
+  block_hash: string;
+  transaction_hash: string;
+  log_index: number;
+  timestamp: number;
+}
+
+interface AssetRow {
+  asset_index: number;
+  token: string;
+  compliance_registry: string;
+  nav_oracle: string;
+  asset_type: string;
+  created_block: number;
+  created_at: number;
+}
+
+function toEvent(row: EventRow): IndexedEvent {
+  return {
+    id: row.id,
+    contract: row.contract as `0x${string}`,
+    contractKind: row.contract_kind,
+    assetIndex: row.asset_index,
+    eventName: row.event_name,
+    args: JSON.parse(row.args),
+    blockNumber: row.block_number,
+    blockHash: row.block_hash as `0x${string}`,
+    transactionHash: row.transaction_hash as `0x${string}`,
+    logIndex: row.log_index,
+    timestamp: row.timestamp,
+  };
+}
+
+function toAsset(row: AssetRow): IndexedAsset {
+  return {
+    index: row.asset_index,
+    token: row.token as `0x${string}`,
+    complianceRegistry: row.compliance_registry as `0x${string}`,
+    navOracle: row.nav_oracle as `0x${string}`,
+    assetType: row.asset_type,
+    createdBlock: row.created_block,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * SQLite persistence for the indexer. Addresses are stored lower-cased so
+ * lookups don't depend on checksum casing.
+ */
+export class IndexerStore {
+  private readonly db: Database.Database;
+
+  constructor(path: string) {
+    this.db = new Database(path);
+    this.db.pragma("journal_mode = WAL");
+    this.db.pragma("foreign_keys = ON");
+    this.db.exec(SCHEMA);
+  }
+
+  close() {
+    this.db.close();
+  }
+
+  // ---- Meta ----
+
+  getMeta(key: string): string | undefined {
+    const row = this.db.prepare("SELECT value FROM meta WHERE key = ?").get(key) as
+      | { value: string }
+      | undefined;
+    return row?.value;
+  }
+
+  setMeta(key: string, value: string) {
+    this.db
+      .prepare("INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value")
+      .run(key, value);
+  }
+
+  /** Last block whose logs are fully indexed, or undefined before the first run */
+  getCursor(): number | undefined {
+    const value = this.getMeta("cursor");
+    return value === undefined ? undefined : Number(value);
+  }
+
+  // ---- Contracts & assets ----
+
+  addContract(address: string, kind: ContractKind, assetIndex: number | null) {
+    this.db
+      .prepare("INSERT OR IGNORE INTO contracts (address, kind, asset_index) VALUES (?, ?, ?)")
+      .run(address.toLowerCase(), kind, assetIndex);
+  }
+
+  getContracts(): { address: `0x${string}`; kind: ContractKind; assetIndex: number | null }[] {
+    const rows = this.db.prepare("SELECT address, kind, asset_index FROM contracts").all() as {
+      address: string;
+      kind: ContractKind;
+      asset_index: number | null;
+    }[];
+    return rows.map((r) => ({
+      address: r.address as `0x${string}`,
+      kind: r.kind,
+      assetIndex: r.asset_index,
+    }));
+  }
+
+  /**
+   * Register an asset triplet and start watching its three contracts.
+   * Re-registering (seeded asset, then its AssetCreated log) fills in the
+   * creation block.
+   */
+  /**
+   * Insert or replace the asset at `asset.index`. A re-creation at the same
+   * index after a reorg can be a different triplet, so every column is
+   * overwritten and the old triplet's contracts stop being watched.
+   */
+  addAsset(asset: IndexedAsset) {
+    const insert = this.db.transaction(() => {
+      this.db.prepare("DELETE FROM contracts WHERE asset_index = ?").run(asset.index);
+      this.db
+        .prepare(
+          `INSERT INTO assets
+             (asset_index, token, compliance_registry, nav_oracle, asset_type, created_block, created_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT (asset_index) DO UPDATE SET
+             token = excluded.token,
+             compliance_registry = excluded.compliance_registry,
+             nav_oracle = excluded.nav_oracle,
+             asset_type = excluded.asset_type,
+             created_block = excluded.created_block,
+             created_at = excluded.created_at`
+        )
+        .run(
+          asset.index,
+          asset.token.toLowerCase(),
+          asset.complianceRegistry.toLowerCase(),
+          asset.navOracle.toLowerCase(),
+          asset.assetType,
+          asset.createdBlock,
+          asset.createdAt
+        );
+      this.addContract(asset.token, "token", asset.index);
+      this.addContract(asset.complianceRegistry, "registry", asset.index);
+      this.addContract(asset.navOracle, "oracle", asset.index);
+    });
+    insert();
+  }
+
+  getAssets(): IndexedAsset[] {
+    const rows = this.db.prepare("SELECT * FROM assets ORDER BY asset_index").all() as AssetRow[];
+    return rows.map(toAsset);
+  }
+
+  // ---- Events ----
+
+  /**
+   * Persist a block range's new assets and events and advance the cursor
+   * atomically, so a crash or an abandoned range never leaves a half-indexed
+   * range behind.
+   */
+  commitRange(events: NewEvent[], assets: IndexedAsset[], toBlock: number, toBlockHash: string) {
+    const insertEvent = this.db.prepare(
+      `INSERT OR IGNORE INTO events
+         (contract, contract_kind, asset_index, event_name, args, block_number, block_hash,
+          transaction_hash, log_index, timestamp)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    const insertAccount = this.db.prepare("INSERT INTO event_accounts (event_id, account) VALUES (?, ?)");
+    const commit = this.db.transaction(() => {
+      for (const asset of assets) this.addAsset(asset);
+      for (const e of events) {
+        const { changes, lastInsertRowid } = insertEvent.run(
+          e.contract.toLowerCase(),
+          e.contractKind,
+          e.assetIndex,
+          e.eventName,
+          JSON.stringify(e.args),
+          e.blockNumber,
+          e.blockHash,
+          e.transactionHash,
+          e.logIndex,
+          e.timestamp
+        );
+        if (changes === 0) continue;
+        for (const account of new Set(e.accounts.map((a) => a.toLowerCase()))) {
+          insertAccount.run(lastInsertRowid, account);
+        }
+      }
+      this.db
+        .prepare("INSERT OR REPLACE INTO checkpoints (block_number, block_hash) VALUES (?, ?)")
+        .run(toBlock, toBlockHash);
+      this.setMeta("cursor", String(toBlock));
+    });
+    commit();
+  }
+
+  /** Checkpoints newest first, for walking back to a common ancestor */
+  getCheckpoints(limit: number): { blockNumber: number; blockHash: string }[] {
+    const rows = this.db
+      .prepare("SELECT block_number, block_hash FROM checkpoints ORDER BY block_number DESC LIMIT ?")
+      .all(limit) as { block_number: number; block_hash: string }[];
+    return rows.map((r) => ({ blockNumber: r.block_number, blockHash: r.block_hash }));
+  }
+
+  pruneCheckpoints(keep: number) {
+    this.db
+      .prepare(
+        `DELETE FROM checkpoints WHERE block_number NOT IN
+           (SELECT block_number FROM checkpoints ORDER BY block_number DESC LIMIT ?)`
+      )
+      .run(keep);
+  }
+
+  /** Drop everything indexed after `block` (reorg recovery) */
+  rollbackTo(block: number) {
+    const rollback = this.db.transaction(() => {
+      this.db.prepare("DELETE FROM events WHERE block_number > ?").run(block);
+      this.db.prepare("DELETE FROM checkpoints WHERE block_number > ?").run(block);
+      const orphaned = this.db
+        .prepare("SELECT asset_index, token, compliance_registry, nav_oracle FROM assets WHERE created_block > ?")
+        .all(block) as Pick<AssetRow, "asset_index" | "token" | "compliance_registry" | "nav_oracle">[];
+      for (const a of orphaned) {
+        this.db
+          .prepare("DELETE FROM contracts WHERE address IN (?, ?, ?)")
+          .run(a.token, a.compliance_registry, a.nav_oracle);
+      }
+      this.db.prepare("DELETE FROM assets WHERE created_block > ?").run(block);
+      this.setMeta("cursor", String(block));
+    });
+    rollback();
+  }
+
+  countEvents(): number {
+    return (this.db.prepare("SELECT COUNT(*) AS n FROM events").get() as { n: number }).n;
+  }
+
+  queryEvents(query: EventQuery): EventPage {
+    const where: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (query.contract) {
+      where.push("e.contract = ?");
+      params.push(query.contract.toLowerCase());
+    }
+    if (query.assetIndex !== undefined) {
+      where.push("e.asset_index = ?");
+      params.push(query.assetIndex);
+    }
+    const names = query.eventName === undefined ? [] : [query.eventName].flat();
+    if (names.length > 0) {
+      where.push(`e.event_name IN (${names.map(() => "?").join(", ")})`);
+      params.push(...names);
+    }
+    if (query.account) {
+      where.push("e.id IN (SELECT event_id FROM event_accounts WHERE account = ?)");
+      params.push(query.account.toLowerCase());
+    }
+    if (query.fromBlock !== undefined) {
+      where.push("e.block_number >= ?");
+      params.push(query.fromBlock);
+    }
+    if (query.toBlock !== undefined) {
+      where.push("e.block_number <= ?");
+      params.push(query.toBlock);
+    }
+
+    const clause = where.length > 0 ? `WHERE ${where.join(" AND ")}` : "";
+    const order = query.order === "desc" ? "DESC" : "ASC";
+    const limit = Math.min(query.limit ?? 100, 1000);
+    const offset = query.offset ?? 0;
+
+    const total = (
+      this.db.prepare(`SELECT COUNT(*) AS n FROM events e ${clause}`).get(...params) as { n: number }
+    ).n;
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM events e ${clause}
+         ORDER BY e.block_number ${order}, e.log_index ${order}
+         LIMIT ? OFFSET ?`
+      )
+      .all(...params, limit, offset) as EventRow[];
+
+    return { events: rows.map(toEvent), total };
+  }
+}
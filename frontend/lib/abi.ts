@@ -34,9 +34,98 @@ const rwaTokenFunctions = [
   "function depositPaymentTokens(uint256 amount)",
 ] as const;
 
+const rwaTokenEvents = [
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+  "event Invested(address indexed investor, uint256 paymentAmount, uint256 tokensOut)",
+  "event Redeemed(address indexed investor, uint256 tokenAmount, uint256 paymentOut)",
+  "event DailyInvestLimitChanged(uint256 newLimit)",
+  "event DailyRedeemLimitChanged(uint256 newLimit)",
+  "event PaymentTokensWithdrawn(address indexed to, uint256 amount)",
+  "event PaymentTokensDeposited(address indexed from, uint256 amount)",
+  "event Paused(address account)",
+  "event Unpaused(address account)",
+] as const;
+
+// Emitted by every OwnableUpgradeable contract (tokens, registry, oracle, factory)
+const ownableEvents = [
+  "event OwnershipTransferred(address indexed previousOwner, address indexed newOwner)",
+] as const;
+
+const realEstateTokenEvents = [
+  "event ValuationUpdated(uint256 oldValuation, uint256 newValuation)",
+] as const;
+
+const commodityTokenEvents = [
+  "event BackingRatioUpdated(uint256 oldRatio, uint256 newRatio)",
+] as const;
+
+const assetFactoryEvents = [
+  "event AssetCreated(address indexed token, address complianceRegistry, address navOracle, string assetType)",
+  "event BondImplUpdated(address indexed newImpl)",
+  "event RealEstateImplUpdated(address indexed newImpl)",
+  "event CommodityImplUpdated(address indexed newImpl)",
+  "event ComplianceRegistryImplUpdated(address indexed newImpl)",
+  "event NavOracleImplUpdated(address indexed newImpl)",
+] as const;
+
+const complianceRegistryEvents = [
+  "event AddedToWhitelist(address indexed account)",
+  "event RemovedFromWhitelist(address indexed account)",
+  "event AddressFrozen(address indexed account)",
+  "event AddressUnfrozen(address indexed account)",
+] as const;
+
+const navOracleEvents = [
+  "event NAVUpdated(uint256 oldNav, uint256 newNav, uint256 timestamp)",
+  "event UpdaterChanged(address indexed newUpdater)",
+  "event MaxStalenessChanged(uint256 newMaxStaleness)",
+] as const;
+
+// Custom errors from every protocol contract plus the OpenZeppelin bases they
+// inherit. Reverts bubble up through cross-contract calls (a token's invest
+// can revert with the oracle's StaleNAV), so every ABI carries the full set.
+const protocolErrors = [
+  // RWAToken
+  "error NotEligible(address account)",
+  "error SlippageExceeded(uint256 actual, uint256 minimum)",
+  "error InsufficientPaymentBalance(uint256 available, uint256 required)",
+  "error DailyInvestLimitExceeded(uint256 remaining)",
+  "error DailyRedeemLimitExceeded(uint256 remaining)",
+  "error ZeroAmount()",
+  // ComplianceRegistry
+  "error AlreadyWhitelisted(address account)",
+  "error NotWhitelisted(address account)",
+  "error AlreadyFrozen(address account)",
+  "error NotFrozen(address account)",
+  // NAVOracle
+  "error StaleNAV()",
+  "error NAVDecreased()",
+  "error NotUpdater()",
+  "error ZeroValue()",
+  // Shared by registry, oracle and factory
+  "error ZeroAddress()",
+  // OpenZeppelin
+  "error OwnableUnauthorizedAccount(address account)",
+  "error OwnableInvalidOwner(address owner)",
+  "error EnforcedPause()",
+  "error ExpectedPause()",
+  "error InvalidInitialization()",
+  "error NotInitializing()",
+  "error SafeERC20FailedOperation(address token)",
+  "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+  "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+  "error ERC20InvalidSender(address sender)",
+  "error ERC20InvalidReceiver(address receiver)",
+  "error ERC20InvalidApprover(address approver)",
+  "error ERC20InvalidSpender(address spender)",
+] as const;
+
 // ─── Bond Token ───────────────────────────────────────────────────────────────
 export const bondTokenAbi = parseAbi([
   ...rwaTokenFunctions,
+  ...rwaTokenEvents,
+  ...ownableEvents,
+  ...protocolErrors,
   "function maturityDate() view returns (uint256)",
   "function couponRateBps() view returns (uint256)",
   "function faceValue() view returns (uint256)",
@@ -46,6 +135,10 @@ export const bondTokenAbi = parseAbi([
 // ─── Real Estate Token ────────────────────────────────────────────────────────
 export const realEstateTokenAbi = parseAbi([
   ...rwaTokenFunctions,
+  ...rwaTokenEvents,
+  ...ownableEvents,
+  ...realEstateTokenEvents,
+  ...protocolErrors,
   "function propertyId() view returns (string)",
   "function jurisdiction() view returns (string)",
   "function totalValuation() view returns (uint256)",
@@ -56,6 +149,10 @@ export const realEstateTokenAbi = parseAbi([
 // ─── Commodity Token ──────────────────────────────────────────────────────────
 export const commodityTokenAbi = parseAbi([
   ...rwaTokenFunctions,
+  ...rwaTokenEvents,
+  ...ownableEvents,
+  ...commodityTokenEvents,
+  ...protocolErrors,
   "function commodityType() view returns (string)",
   "function unit() view returns (string)",
   "function backingRatio() view returns (uint256)",
@@ -63,7 +160,12 @@ export const commodityTokenAbi = parseAbi([
 ]);
 
 // ─── General RWA Token (for when type is unknown) ─────────────────────────────
-export const rwaTokenAbi = parseAbi([...rwaTokenFunctions]);
+export const rwaTokenAbi = parseAbi([
+  ...rwaTokenFunctions,
+  ...rwaTokenEvents,
+  ...ownableEvents,
+  ...protocolErrors,
+]);
 
 // ─── Asset Factory ────────────────────────────────────────────────────────────
 export const assetFactoryAbi = parseAbi([
@@ -78,6 +180,9 @@ export const assetFactoryAbi = parseAbi([
   "function commodityImpl() view returns (address)",
   "function complianceRegistryImpl() view returns (address)",
   "function navOracleImpl() view returns (address)",
+  ...assetFactoryEvents,
+  ...ownableEvents,
+  ...protocolErrors,
 ]);
 
 // ─── Compliance Registry ──────────────────────────────────────────────────────
@@ -90,6 +195,9 @@ export const complianceRegistryAbi = parseAbi([
   "function isFrozen(address account) view returns (bool)",
   "function isEligible(address account) view returns (bool)",
   "function owner() view returns (address)",
+  ...complianceRegistryEvents,
+  ...ownableEvents,
+  ...protocolErrors,
 ]);
 
 // ─── NAV Oracle ───────────────────────────────────────────────────────────────
@@ -105,6 +213,9 @@ export const navOracleAbi = parseAbi([
   "function updateNAV(uint256 newNavPerToken)",
   "function setUpdater(address _updater)",
   "function setMaxStaleness(uint256 _maxStaleness)",
+  ...navOracleEvents,
+  ...ownableEvents,
+  ...protocolErrors,
 ]);
 
 // ─── ERC-20 (for payment token interactions) ─────────────────────────────────
@@ -117,6 +228,23 @@ export const erc20Abi = parseAbi([
   "function allowance(address owner, address spender) view returns (uint256)",
   "function approve(address spender, uint256 amount) returns (bool)",
   "function transfer(address to, uint256 amount) returns (bool)",
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+  "event Approval(address indexed owner, address indexed spender, uint256 value)",
+  ...protocolErrors,
+]);
+
+// ─── Every protocol error (for decoding raw revert data) ─────────────────────
+export const protocolErrorsAbi = parseAbi(protocolErrors);
+
+// ─── Every protocol event (for decoding logs across contracts) ────────────────
+export const protocolEventsAbi = parseAbi([
+  ...rwaTokenEvents,
+  ...realEstateTokenEvents,
+  ...commodityTokenEvents,
+  ...assetFactoryEvents,
+  ...complianceRegistryEvents,
+  ...navOracleEvents,
+  ...ownableEvents,
 ]);
 
 // ─── Helper: get token ABI by asset type ──────────────────────────────────────
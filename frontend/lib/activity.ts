@@ -0,0 +1,172 @@
+import { zeroAddress } from "viem";
+import type { ContractEvent } from "@/lib/event-logs";
+import { formatPaymentAmount, formatTokens, shortenAddress, toCsv } from "@/lib/utils";
+
+export type ActivityCategory =
+  | "invest"
+  | "redeem"
+  | "transfer"
+  | "mint-burn"
+  | "reserves"
+  | "limits"
+  | "admin";
+
+export const ACTIVITY_CATEGORIES: { value: ActivityCategory; label: string }[] = [
+  { value: "invest", label: "Invest" },
+  { value: "redeem", label: "Redeem" },
+  { value: "transfer", label: "Transfers" },
+  { value: "mint-burn", label: "Mint / Burn" },
+  { value: "reserves", label: "Reserves" },
+  { value: "limits", label: "Limits" },
+  { value: "admin", label: "Admin" },
+];
+
+export interface ActivityRow {
+  key: string;
+  category: ActivityCategory;
+  label: string;
+  /** Human-readable amounts, e.g. "1,000.00 USDC → 952.38 tokens" */
+  details: string;
+  /** Every address involved, for "mine only" filtering */
+  accounts: `0x${string}`[];
+  blockNumber: bigint;
+  timestamp: number;
+  transactionHash: `0x${string}`;
+}
+
+/**
+ * Turn decoded RWAToken logs into activity rows, newest first. The mint/burn
+ * `Transfer` that accompanies every invest/redeem is folded into that row.
+ */
+export function toActivityRows(
+  events: ContractEvent[],
+  paymentSymbol = "USDC",
+  paymentDecimals = 6
+): ActivityRow[] {
+  const payment = (amount: unknown) => `${formatPaymentAmount(amount as bigint, paymentDecimals)} ${paymentSymbol}`;
+  const investRedeemTxs = new Set(
+    events
+      .filter((e) => e.eventName === "Invested" || e.eventName === "Redeemed")
+      .map((e) => e.transactionHash)
+  );
+
+  const rows: ActivityRow[] = [];
+  for (const e of events) {
+    const base = {
+      key: `${e.transactionHash}-${e.logIndex}`,
+      blockNumber: e.blockNumber,
+      timestamp: e.timestamp,
+      transactionHash: e.transactionHash,
+    };
+    const a = e.args;
+
+    switch (e.eventName) {
+      case "Invested":
+        rows.push({
+          ...base,
+          category: "invest",
+          label: "Invest",
+          details: `${payment(a.paymentAmount)} → ${formatTokens(a.tokensOut as bigint)} tokens`,
+          accounts: [a.investor as `0x${string}`],
+        });
+        break;
+      case "Redeemed":
+        rows.push({
+          ...base,
+          category: "redeem",
+          label: "Redeem",
+          details: `${formatTokens(a.tokenAmount as bigint)} tokens → ${payment(a.paymentOut)}`,
+          accounts: [a.investor as `0x${string}`],
+        });
+        break;
+      case "Transfer": {
+        const from = a.from as `0x${string}`;
+        const to = a.to as `0x${string}`;
+        const value = formatTokens(a.value as bigint);
+        if (from === zeroAddress || to === zeroAddress) {
+          if (investRedeemTxs.has(e.transactionHash)) break;
+          const isMint = from === zeroAddress;
+          rows.push({
+            ...base,
+            category: "mint-burn",
+            label: isMint ? "Mint" : "Burn",
+            details: `${value} tokens ${isMint ? "to" : "from"} ${shortenAddress(isMint ? to : from)}`,
+            accounts: [isMint ? to : from],
+          });
+        } else {
+          rows.push({
+            ...base,
+            category: "transfer",
+            label: "Transfer",
+            details: `${value} tokens ${shortenAddress(from)} → ${shortenAddress(to)}`,
+            accounts: [from, to],
+          });
+        }
+        break;
+      }
+      case "PaymentTokensDeposited":
+        rows.push({
+          ...base,
+          category: "reserves",
+          label: "Reserve Deposit",
+          details: payment(a.amount),
+          accounts: [a.from as `0x${string}`],
+        });
+        break;
+      case "PaymentTokensWithdrawn":
+        rows.push({
+          ...base,
+          category: "reserves",
+          label: "Reserve Withdrawal",
+          details: `${payment(a.amount)} to ${shortenAddress(a.to as string)}`,
+          accounts: [a.to as `0x${string}`],
+        });
+        break;
+      case "DailyInvestLimitChanged":
+        rows.push({
+          ...base,
+          category: "limits",
+          label: "Invest Limit",
+          details: (a.newLimit as bigint) === 0n ? "Unlimited" : `${payment(a.newLimit)} / day`,
+          accounts: [],
+        });
+        break;
+      case "DailyRedeemLimitChanged":
+        rows.push({
+          ...base,
+          category: "limits",
+          label: "Redeem Limit",
+          details: (a.newLimit as bigint) === 0n ? "Unlimited" : `${formatTokens(a.newLimit as bigint)} tokens / day`,
+          accounts: [],
+        });
+        break;
+      case "Paused":
+      case "Unpaused":
+        rows.push({
+          ...base,
+          category: "admin",
+          label: e.eventName,
+          details: `by ${shortenAddress(a.account as string)}`,
+          accounts: [a.account as `0x${string}`],
+        });
+        break;
+    }
+  }
+
+  // Logs arrive in chain order
+  return rows.reverse();
+}
+
+export function activityToCsv(rows: ActivityRow[]): string {
+  return toCsv([
+    ["timestamp", "block", "type", "details", "accounts", "transaction"],
+    ...rows.map((r) => [
+      new Date(r.timestamp * 1000).toISOString(),
+      r.blockNumber.toString(),
+      r.label,
+      r.details,
+      r.accounts.join(" "),
+      r.transactionHash,
+    ]),
+  ]);
+}
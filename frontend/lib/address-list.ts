@@ -0,0 +1,49 @@
+import { getAddress, isAddress } from "viem";
+
+export interface ParsedAddressList {
+  /** Checksummed, de-duplicated addresses in input order */
+  addresses: `0x${string}`[];
+  /** Entries that are not valid addresses, with their 1-based line number */
+  invalid: { line: number; value: string }[];
+  /** Checksummed addresses that appeared more than once */
+  duplicates: `0x${string}`[];
+}
+
+/**
+ * Parse a pasted list or CSV of addresses. The address is taken from the
+ * first column; blank lines, `#` comments and a non-address header row are
+ * skipped.
+ */
+export function parseAddressList(text: string): ParsedAddressList {
+  const addresses: `0x${string}`[] = [];
+  const invalid: { line: number; value: string }[] = [];
+  const duplicates: `0x${string}`[] = [];
+  const seen = new Set<string>();
+  let isFirstRow = true;
+
+  const lines = text.split(/\r?\n/);
+  lines.forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line || line.startsWith("#")) return;
+
+    const value = line.split(/[,;\t ]/)[0].replace(/^["']|["']$/g, "");
+    const isHeader = isFirstRow && !value.startsWith("0x");
+    isFirstRow = false;
+    if (!isAddress(value, { strict: false })) {
+      // First row without an address is treated as a CSV header
+      if (isHeader) return;
+      invalid.push({ line: i + 1, value });
+      return;
+    }
+
+    const checksummed = getAddress(value);
+    if (seen.has(checksummed)) {
+      duplicates.push(checksummed);
+      return;
+    }
+    seen.add(checksummed);
+    addresses.push(checksummed);
+  });
+
+  return { addresses, invalid, duplicates };
+}
@@ -0,0 +1,277 @@
+import {
+  formatUnits,
+  getAddress,
+  isAddress,
+  parseUnits,
+  zeroAddress,
+  type Address,
+  type PublicClient,
+} from "viem";
+import { assetFactoryAbi } from "@/lib/abi";
+import type { AssetType } from "@/lib/sdk";
+import { formatBps, formatTimestamp } from "@/lib/utils";
+
+// Validation for CreateAssetForm. Every field is a string as typed; each
+// asset type's schema turns them into the exact factory arguments, or a
+// message per field explaining what's wrong.
+
+export interface AssetFormValues {
+  name: string;
+  symbol: string;
+  complianceOfficer: string;
+  oracleUpdater: string;
+  maturityDays: string;
+  couponBps: string;
+  faceValue: string;
+  propertyId: string;
+  jurisdiction: string;
+  totalValuation: string;
+  rentalYieldBps: string;
+  commodityType: string;
+  unit: string;
+  backingRatio: string;
+}
+
+export type AssetFormField = keyof AssetFormValues;
+
+export type AssetFormErrors = Partial<Record<AssetFormField, string>>;
+
+export interface AssetFormContext {
+  /** Unix seconds, for the bond maturity */
+  now: number;
+  paymentToken: { address: Address; symbol: string; decimals: number };
+  /** Used for the officer and updater when they're left blank */
+  defaultAddress?: Address;
+}
+
+/** Longest maturity the form accepts, in days */
+export const MAX_MATURITY_DAYS = 100 * 365;
+
+type FieldResult<T> = { value: T } | { error: string };
+type FieldRule<T> = (input: string, ctx: AssetFormContext) => FieldResult<T>;
+
+function text({ max, pattern, hint }: { max: number; pattern?: RegExp; hint?: string }): FieldRule<string> {
+  return (input) => {
+    const value = input.trim();
+    if (!value) return { error: "Required." };
+    if (value.length > max) return { error: `At most ${max} characters.` };
+    if (pattern && !pattern.test(value)) return { error: hint ?? "Invalid format." };
+    return { value };
+  };
+}
+
+/** Checksummed address; blank falls back to the connected wallet */
+const address: FieldRule<Address> = (input, ctx) => {
+  const value = input.trim();
+  if (!value) {
+    return ctx.defaultAddress ? { value: ctx.defaultAddress } : { error: "Required. Connect a wallet to default to it." };
+  }
+  if (!isAddress(value, { strict: false })) return { error: "Not a valid address." };
+  // Mixed case means the address carries a checksum, and it has to match
+  if (value !== value.toLowerCase() && !isAddress(value)) return { error: "Checksum doesn't match; check for typos." };
+  if (getAddress(value) === zeroAddress) return { error: "Can't be the zero address." };
+  return { value: getAddress(value) };
+};
+
+function integer({ min, max, unit }: { min: number; max: number; unit: string }): FieldRule<bigint> {
+  return (input) => {
+    const value = input.trim();
+    if (!/^\d+$/.test(value)) return { error: `Whole number of ${unit}.` };
+    const n = Number(value);
+    if (n < min || n > max) return { error: `Between ${min.toLocaleString("en-US")} and ${max.toLocaleString("en-US")} ${unit}.` };
+    return { value: BigInt(value) };
+  };
+}
+
+const bps = integer({ min: 0, max: 10_000, unit: "bps" });
+
+/** Positive decimal amount with at most `decimals` places */
+function amount(decimals: (ctx: AssetFormContext) => number): FieldRule<bigint> {
+  return (input, ctx) => {
+    const value = input.trim();
+    const places = decimals(ctx);
+    if (!/^\d+(\.\d+)?$/.test(value)) return { error: "Enter a positive number." };
+    if ((value.split(".")[1]?.length ?? 0) > places) return { error: `At most ${places} decimal places.` };
+    const parsed = parseUnits(value, places);
+    if (parsed === 0n) return { error: "Must be greater than zero." };
+    return { value: parsed };
+  };
+}
+
+const paymentAmount = amount((ctx) => ctx.paymentToken.decimals);
+
+const RULES = {
+  name: text({ max: 64 }),
+  symbol: text({
+    max: 11,
+    pattern: /^[A-Za-z0-9][A-Za-z0-9.-]+$/,
+    hint: "2-11 letters, digits, '-' or '.', starting with a letter or digit.",
+  }),
+  complianceOfficer: address,
+  oracleUpdater: address,
+  maturityDays: integer({ min: 1, max: MAX_MATURITY_DAYS, unit: "days" }),
+  couponBps: bps,
+  faceValue: paymentAmount,
+  propertyId: text({ max: 64 }),
+  jurisdiction: text({
+    max: 6,
+    pattern: /^[A-Z]{2}(-[A-Z0-9]{1,3})?$/,
+    hint: "ISO 3166 code, e.g. US or US-NY.",
+  }),
+  totalValuation: paymentAmount,
+  rentalYieldBps: bps,
+  commodityType: text({ max: 32, pattern: /^[A-Z][A-Z0-9_]*$/, hint: "Upper case, e.g. GOLD or CRUDE_OIL." }),
+  unit: text({ max: 32 }),
+  backingRatio: amount(() => 18),
+} satisfies { [F in AssetFormField]: FieldRule<unknown> };
+
+type Parsed = { [F in AssetFormField]: (typeof RULES)[F] extends FieldRule<infer T> ? T : never };
+
+const COMMON_FIELDS = ["name", "symbol", "complianceOfficer", "oracleUpdater"] as const;
+
+/** The fields each asset type's factory call takes, in form order */
+export const ASSET_FORM_FIELDS = {
+  BOND: [...COMMON_FIELDS, "maturityDays", "couponBps", "faceValue"],
+  REAL_ESTATE: [...COMMON_FIELDS, "propertyId", "jurisdiction", "totalValuation", "rentalYieldBps"],
+  COMMODITY: [...COMMON_FIELDS, "commodityType", "unit", "backingRatio"],
+} as const satisfies Record<AssetType, readonly AssetFormField[]>;
+
+export type CreateAssetCall =
+  | {
+      functionName: "createBond";
+      args: readonly [string, string, bigint, bigint, bigint, Address, Address, Address];
+    }
+  | {
+      functionName: "createRealEstate";
+      args: readonly [string, string, string, string, bigint, bigint, Address, Address, Address];
+    }
+  | {
+      functionName: "createCommodity";
+      args: readonly [string, string, string, string, bigint, Address, Address, Address];
+    };
+
+/** One factory argument as the review step shows it */
+export interface ReviewRow {
+  /** Parameter name in the factory ABI */
+  param: string;
+  /** What the value means */
+  display: string;
+  /** The value exactly as it will be encoded */
+  raw: string;
+}
+
+export type AssetFormResult =
+  | { ok: true; call: CreateAssetCall; review: ReviewRow[] }
+  | { ok: false; errors: AssetFormErrors };
+
+function row(param: string, raw: string | bigint, display?: string): ReviewRow {
+  return { param, raw: raw.toString(), display: display ?? raw.toString() };
+}
+
+export function validateAssetForm(
+  assetType: AssetType,
+  values: AssetFormValues,
+  ctx: AssetFormContext
+): AssetFormResult {
+  const errors: AssetFormErrors = {};
+  const parsed: Partial<Record<AssetFormField, unknown>> = {};
+  for (const field of ASSET_FORM_FIELDS[assetType]) {
+    const result = (RULES[field] as FieldRule<unknown>)(values[field], ctx);
+    if ("error" in result) errors[field] = result.error;
+    else parsed[field] = result.value;
+  }
+  if (Object.keys(errors).length > 0) return { ok: false, errors };
+
+  const v = parsed as Parsed;
+  const pay = ctx.paymentToken;
+  const payment = (units: bigint) => `${Number(formatUnits(units, pay.decimals)).toLocaleString("en-US")} ${pay.symbol}`;
+  const head = [row("name", v.name), row("symbol", v.symbol)];
+  const tail = [
+    row("paymentToken", pay.address, `${pay.symbol} (${pay.address})`),
+    row("complianceOfficer", v.complianceOfficer),
+    row("oracleUpdater", v.oracleUpdater),
+  ];
+
+  switch (assetType) {
+    case "BOND": {
+      const maturityDate = BigInt(ctx.now) + v.maturityDays * 86_400n;
+      return {
+        ok: true,
+        call: {
+          functionName: "createBond",
+          args: [v.name, v.symbol, maturityDate, v.couponBps, v.faceValue, pay.address, v.complianceOfficer, v.oracleUpdater],
+        },
+        review: [
+          ...head,
+          row("maturityDate", maturityDate, `${formatTimestamp(maturityDate)} (in ${v.maturityDays} days)`),
+          row("couponRateBps", v.couponBps, formatBps(v.couponBps)),
+          row("faceValue", v.faceValue, payment(v.faceValue)),
+          ...tail,
+        ],
+      };
+    }
+    case "REAL_ESTATE":
+      return {
+        ok: true,
+        call: {
+          functionName: "createRealEstate",
+          args: [
+            v.name,
+            v.symbol,
+            v.propertyId,
+            v.jurisdiction,
+            v.totalValuation,
+            v.rentalYieldBps,
+            pay.address,
+            v.complianceOfficer,
+            v.oracleUpdater,
+          ],
+        },
+        review: [
+          ...head,
+          row("propertyId", v.propertyId),
+          row("jurisdiction", v.jurisdiction),
+          row("totalValuation", v.totalValuation, payment(v.totalValuation)),
+          row("rentalYieldBps", v.rentalYieldBps, formatBps(v.rentalYieldBps)),
+          ...tail,
+        ],
+      };
+    case "COMMODITY":
+      return {
+        ok: true,
+        call: {
+          functionName: "createCommodity",
+          args: [v.name, v.symbol, v.commodityType, v.unit, v.backingRatio, pay.address, v.complianceOfficer, v.oracleUpdater],
+        },
+        review: [
+          ...head,
+          row("commodityType", v.commodityType),
+          row("unit_", v.unit),
+          row("backingRatio", v.backingRatio, `${formatUnits(v.backingRatio, 18)} ${v.unit} per token`),
+          ...tail,
+        ],
+      };
+  }
+}
+
+/**
+ * Run `call` against the factory as `account` without sending it. Resolves
+ * to the token, registry and oracle it would deploy, or throws the revert.
+ */
+export async function simulateCreateAsset(
+  client: PublicClient,
+  factory: Address,
+  call: CreateAssetCall,
+  account: Address
+): Promise<readonly [Address, Address, Address]> {
+  const base = { address: factory, abi: assetFactoryAbi, account } as const;
+  // Narrowed per function so each args tuple type-checks against the ABI
+  switch (call.functionName) {
+    case "createBond":
+      return (await client.simulateContract({ ...base, functionName: call.functionName, args: call.args })).result;
+    case "createRealEstate":
+      return (await client.simulateContract({ ...base, functionName: call.functionName, args: call.args })).result;
+    case "createCommodity":
+      return (await client.simulateContract({ ...base, functionName: call.functionName, args: call.args })).result;
+  }
+}
@@ -0,0 +1,90 @@
+import { useCallback } from "react";
+import { useLocalStorage, writeLocalStorage } from "@/lib/local-storage";
+
+// A freshly created asset can't take investors yet: the oracle sits at the
+// $1.00 it was initialized with, nobody is whitelisted and there is nothing
+// in the reserve to redeem against. The setup wizard walks the issuer through
+// those steps and remembers, per asset, which ones they've finished.
+
+export type SetupStepId = "nav" | "whitelist" | "limits" | "reserve";
+
+export type SetupStepState = "done" | "skipped";
+
+export const SETUP_STEPS: { id: SetupStepId; label: string }[] = [
+  { id: "nav", label: "Publish the opening NAV" },
+  { id: "whitelist", label: "Whitelist the issuer and seed investors" },
+  { id: "limits", label: "Set daily invest and redeem limits" },
+  { id: "reserve", label: "Deposit the redemption reserve" },
+];
+
+export interface AssetSetup {
+  /** Unix seconds the asset was created from this browser */
+  createdAt: number;
+  steps: Partial<Record<SetupStepId, SetupStepState>>;
+  /** The issuer closed the wizard; the checklist is kept */
+  dismissed?: boolean;
+}
+
+function storageKey(chainId: number, token: string): string {
+  return `rwa:setup:${chainId}:${token.toLowerCase()}`;
+}
+
+export function parseAssetSetup(value: string | null): AssetSetup | undefined {
+  if (!value) return undefined;
+  try {
+    const parsed = JSON.parse(value) as Partial<AssetSetup>;
+    if (typeof parsed.createdAt !== "number" || typeof parsed.steps !== "object" || !parsed.steps) {
+      return undefined;
+    }
+    return { createdAt: parsed.createdAt, steps: parsed.steps, dismissed: parsed.dismissed === true };
+  } catch {
+    return undefined;
+  }
+}
+
+/** First step that is neither done nor skipped */
+export function nextSetupStep(setup: AssetSetup): SetupStepId | undefined {
+  return SETUP_STEPS.find((step) => !setup.steps[step.id])?.id;
+}
+
+function writeSetup(chainId: number, token: string, setup: AssetSetup) {
+  writeLocalStorage(storageKey(chainId, token), JSON.stringify(setup));
+}
+
+/** Open a checklist for an asset that was just created; a no-op if it already has one */
+export function startAssetSetup(chainId: number, token: string) {
+  if (parseAssetSetup(window.localStorage.getItem(storageKey(chainId, token)))) return;
+  writeSetup(chainId, token, { createdAt: Math.floor(Date.now() / 1000), steps: {} });
+}
+
+/**
+ * The setup checklist for an asset, kept in localStorage and in sync across
+ * components and tabs. `setup` is undefined for assets that weren't created
+ * from this browser.
+ */
+export function useAssetSetup(chainId: number, token: `0x${string}`) {
+  const key = storageKey(chainId, token);
+  const [stored] = useLocalStorage(key);
+  const setup = parseAssetSetup(stored);
+
+  const update = useCallback(
+    (patch: (current: AssetSetup) => AssetSetup) => {
+      const current = parseAssetSetup(window.localStorage.getItem(key));
+      if (current) writeSetup(chainId, token, patch(current));
+    },
+    [chainId, token, key]
+  );
+
+  const setStep = useCallback(
+    (id: SetupStepId, state: SetupStepState | undefined) =>
+      update((current) => ({ ...current, steps: { ...current.steps, [id]: state } })),
+    [update]
+  );
+
+  const setDismissed = useCallback(
+    (dismissed: boolean) => update((current) => ({ ...current, dismissed })),
+    [update]
+  );
+
+  return { setup, setStep, setDismissed };
+}
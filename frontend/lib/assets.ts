@@ -0,0 +1,286 @@
+import { useQuery } from "@tanstack/react-query";
+import { usePublicClient, useReadContract, useReadContracts } from "wagmi";
+import { zeroAddress, type PublicClient } from "viem";
+import {
+  assetFactoryAbi,
+  bondTokenAbi,
+  commodityTokenAbi,
+  navOracleAbi,
+  realEstateTokenAbi,
+  rwaTokenAbi,
+} from "@/lib/abi";
+import type { DeployedAsset } from "@/lib/sdk";
+import { useDeployment } from "@/lib/wagmi";
+
+/**
+ * Query keys for the multicall-backed hooks below. Keys starting with "asset"
+ * are refetched on every block by `useRefreshOnNewBlock`; factory entries
+ * never change, so they live under their own prefix.
+ */
+export const assetQueryKeys = {
+  deployed: (chainId: number, index: number) => ["deployed-asset", chainId, index] as const,
+  summary: (chainId: number, token: string, account?: string) =>
+    ["asset", "summary", chainId, token.toLowerCase(), account?.toLowerCase() ?? null] as const,
+  metadata: (chainId: number, token: string) =>
+    ["asset", "metadata", chainId, token.toLowerCase()] as const,
+  reserve: (chainId: number, token: string) =>
+    ["asset", "reserve", chainId, token.toLowerCase()] as const,
+};
+
+/** Every asset registered in the current chain's factory, in deployment order */
+export function useDeployedAssets() {
+  const { chainId, deployment } = useDeployment();
+  const factory = deployment?.factory ?? zeroAddress;
+
+  const { data: assetCount, isLoading: isCountLoading } = useReadContract({
+    chainId,
+    address: factory,
+    abi: assetFactoryAbi,
+    functionName: "getDeployedAssetsCount",
+    query: { enabled: !!deployment },
+  });
+
+  const count = assetCount ? Number(assetCount) : 0;
+
+  const { data: assetsData, isLoading: isAssetsLoading } = useReadContracts({
+    contracts: Array.from({ length: count }, (_, i) => ({
+      chainId,
+      address: factory,
+      abi: assetFactoryAbi,
+      functionName: "deployedAssets" as const,
+      args: [BigInt(i)] as const,
+    })),
+    query: { enabled: !!deployment && count > 0 },
+  });
+
+  const assets: DeployedAsset[] = [];
+  assetsData?.forEach((result, index) => {
+    if (result.status !== "success" || !result.result) return;
+    const [token, complianceRegistry, navOracle, assetType] = result.result;
+    assets.push({ index, token, complianceRegistry, navOracle, assetType });
+  });
+
+  return { assets, isLoading: !!deployment && (isCountLoading || isAssetsLoading) };
+}
+
+// ─── Summary ─────────────────────────────────────────────────────────────────
+
+/** Token and oracle state shared by cards, headers and panels */
+export interface AssetSummary {
+  token: `0x${string}`;
+  name: string;
+  symbol: string;
+  totalSupply: bigint;
+  paused: boolean;
+  owner: `0x${string}`;
+  navOracle: `0x${string}`;
+  paymentToken: `0x${string}`;
+  paymentTokenScale: bigint;
+  nav: bigint;
+  lastUpdated: bigint;
+  isStale: boolean;
+  /** Only set when an account was given */
+  balance?: bigint;
+  /** `balance` in payment token units, same math as `getTokenValue` */
+  balanceValue?: bigint;
+}
+
+/**
+ * Read an asset's summary in a single multicall. If the oracle address isn't
+ * known yet it is looked up first, which costs one extra call.
+ */
+export async function fetchAssetSummary(
+  client: PublicClient,
+  token: `0x${string}`,
+  { account, navOracle }: { account?: `0x${string}`; navOracle?: `0x${string}` } = {}
+): Promise<AssetSummary> {
+  const oracle =
+    navOracle ??
+    (await client.readContract({ address: token, abi: rwaTokenAbi, functionName: "navOracle" }));
+
+  const t = { address: token, abi: rwaTokenAbi } as const;
+  const o = { address: oracle, abi: navOracleAbi } as const;
+  const [
+    name,
+    symbol,
+    totalSupply,
+    paused,
+    owner,
+    paymentToken,
+    paymentTokenScale,
+    balance,
+    nav,
+    lastUpdated,
+    isStale,
+  ] = await client.multicall({
+    allowFailure: false,
+    contracts: [
+      { ...t, functionName: "name" },
+      { ...t, functionName: "symbol" },
+      { ...t, functionName: "totalSupply" },
+      { ...t, functionName: "paused" },
+      { ...t, functionName: "owner" },
+      { ...t, functionName: "paymentToken" },
+      { ...t, functionName: "paymentTokenScale" },
+      { ...t, functionName: "balanceOf", args: [account ?? zeroAddress] },
+      { ...o, functionName: "navPerToken" },
+      { ...o, functionName: "lastUpdated" },
+      { ...o, functionName: "isStale" },
+    ],
+  });
+
+  return {
+    token,
+    name,
+    symbol,
+    totalSupply,
+    paused,
+    owner,
+    navOracle: oracle,
+    paymentToken,
+    paymentTokenScale,
+    nav,
+    lastUpdated,
+    isStale,
+    balance: account ? balance : undefined,
+    balanceValue: account ? (balance * nav) / 10n ** 18n / paymentTokenScale : undefined,
+  };
+}
+
+/**
+ * Summary for one asset. Components asking for the same token and account
+ * share one cached multicall; it refreshes on every new block.
+ */
+export function useAssetSummary(
+  token: `0x${string}` | undefined,
+  options: { account?: `0x${string}`; navOracle?: `0x${string}` } = {}
+) {
+  const { chainId } = useDeployment();
+  const publicClient = usePublicClient({ chainId });
+  const { account, navOracle } = options;
+
+  return useQuery({
+    queryKey: assetQueryKeys.summary(chainId, token ?? "", account),
+    queryFn: () =>
+      fetchAssetSummary(publicClient as PublicClient, token as `0x${string}`, { account, navOracle }),
+    enabled: !!token && !!publicClient,
+  });
+}
+
+// ─── Type-specific metadata ──────────────────────────────────────────────────
+
+export type AssetMetadata =
+  | {
+      assetType: "BOND";
+      maturityDate: bigint;
+      couponRateBps: bigint;
+      faceValue: bigint;
+      isMatured: boolean;
+    }
+  | {
+      assetType: "REAL_ESTATE";
+      propertyId: string;
+      jurisdiction: string;
+      totalValuation: bigint;
+      rentalYieldBps: bigint;
+    }
+  | {
+      assetType: "COMMODITY";
+      commodityType: string;
+      unit: string;
+      backingRatio: bigint;
+    };
+
+export async function fetchAssetMetadata(
+  client: PublicClient,
+  token: `0x${string}`,
+  assetType: string
+): Promise<AssetMetadata | null> {
+  switch (assetType) {
+    case "BOND": {
+      const c = { address: token, abi: bondTokenAbi } as const;
+      const [maturityDate, couponRateBps, faceValue, isMatured] = await client.multicall({
+        allowFailure: false,
+        contracts: [
+          { ...c, functionName: "maturityDate" },
+          { ...c, functionName: "couponRateBps" },
+          { ...c, functionName: "faceValue" },
+          { ...c, functionName: "isMatured" },
+        ],
+      });
+      return { assetType, maturityDate, couponRateBps, faceValue, isMatured };
+    }
+    case "REAL_ESTATE": {
+      const c = { address: token, abi: realEstateTokenAbi } as const;
+      const [propertyId, jurisdiction, totalValuation, rentalYieldBps] = await client.multicall({
+        allowFailure: false,
+        contracts: [
+          { ...c, functionName: "propertyId" },
+          { ...c, functionName: "jurisdiction" },
+          { ...c, functionName: "totalValuation" },
+          { ...c, functionName: "rentalYieldBps" },
+        ],
+      });
+      return { assetType, propertyId, jurisdiction, totalValuation, rentalYieldBps };
+    }
+    case "COMMODITY": {
+      const c = { address: token, abi: commodityTokenAbi } as const;
+      const [commodityType, unit, backingRatio] = await client.multicall({
+        allowFailure: false,
+        contracts: [
+          { ...c, functionName: "commodityType" },
+          { ...c, functionName: "unit" },
+          { ...c, functionName: "backingRatio" },
+        ],
+      });
+      return { assetType, commodityType, unit, backingRatio };
+    }
+    default:
+      return null;
+  }
+}
+
+// ─── Detail ──────────────────────────────────────────────────────────────────
+
+/**
+ * Everything the asset page needs for factory entry `index`: the deployed
+ * addresses, the shared summary and the type-specific metadata.
+ */
+export function useAssetDetail(index: number, account?: `0x${string}`) {
+  const { chainId, deployment } = useDeployment();
+  const publicClient = usePublicClient({ chainId });
+  const client = publicClient as PublicClient;
+
+  const deployed = useQuery({
+    queryKey: assetQueryKeys.deployed(chainId, index),
+    queryFn: async (): Promise<DeployedAsset> => {
+      const [token, complianceRegistry, navOracle, assetType] = await client.readContract({
+        address: deployment!.factory,
+        abi: assetFactoryAbi,
+        functionName: "deployedAssets",
+        args: [BigInt(index)],
+      });
+      return { index, token, complianceRegistry, navOracle, assetType };
+    },
+    enabled: !isNaN(index) && !!deployment && !!publicClient,
+    // Factory entries never change once written
+    staleTime: Infinity,
+  });
+
+  const asset = deployed.data;
+  const summary = useAssetSummary(asset?.token, { account, navOracle: asset?.navOracle });
+
+  const metadata = useQuery({
+    queryKey: assetQueryKeys.metadata(chainId, asset?.token ?? ""),
+    queryFn: () => fetchAssetMetadata(client, asset!.token, asset!.assetType),
+    enabled: !!asset && !!publicClient,
+  });
+
+  return {
+    asset,
+    summary: summary.data,
+    metadata: metadata.data ?? undefined,
+    isLoading: deployed.isLoading,
+    error: deployed.error,
+  };
+}
@@ -0,0 +1,26 @@
+import { useQueryClient } from "@tanstack/react-query";
+import { useWatchBlockNumber } from "wagmi";
+import { useDeployment } from "@/lib/wagmi";
+
+/**
+ * Query key prefixes that hold chain state and should refetch once per block:
+ * the multicall-backed asset hooks plus wagmi's own read queries. Log scans
+ * ("contract-logs", "topic-logs") and indexer reads ("indexed-events") keep
+ * their slower interval.
+ */
+const BLOCK_SCOPED_QUERIES = new Set(["asset", "readContract", "readContracts", "balance"]);
+
+/** Refetch on-chain reads when a new block arrives instead of on a timer */
+export function useRefreshOnNewBlock() {
+  const queryClient = useQueryClient();
+  const { chainId } = useDeployment();
+
+  useWatchBlockNumber({
+    chainId,
+    onBlockNumber: () => {
+      queryClient.invalidateQueries({
+        predicate: (query) => BLOCK_SCOPED_QUERIES.has(query.queryKey[0] as string),
+      });
+    },
+  });
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import { accruedInterest, addMonths, couponSchedule, yieldToMaturity, type BondTerms } from "@/lib/bond";
+
+const utc = (iso: string) => Date.parse(`${iso}Z`) / 1000;
+const iso = (ts: number) => new Date(ts * 1000).toISOString().slice(0, 19);
+
+function terms(overrides: Partial<BondTerms> = {}): BondTerms {
+  return {
+    maturityDate: utc("2030-01-15T00:00:00"),
+    couponRateBps: 500,
+    frequency: 2,
+    convention: "30/360",
+    ...overrides,
+  };
+}
+
+describe("addMonths", () => {
+  it("keeps the day of month when it exists", () => {
+    expect(iso(addMonths(utc("2025-01-15T00:00:00"), 1))).toBe("2025-02-15T00:00:00");
+    expect(iso(addMonths(utc("2025-01-15T00:00:00"), -2))).toBe("2024-11-15T00:00:00");
+  });
+
+  it("clamps to the last day of shorter months", () => {
+    expect(iso(addMonths(utc("2025-01-31T00:00:00"), 1))).toBe("2025-02-28T00:00:00");
+    expect(iso(addMonths(utc("2024-01-31T00:00:00"), 1))).toBe("2024-02-29T00:00:00");
+    expect(iso(addMonths(utc("2025-03-31T00:00:00"), -1))).toBe("2025-02-28T00:00:00");
+    expect(iso(addMonths(utc("2025-08-31T00:00:00"), 1))).toBe("2025-09-30T00:00:00");
+  });
+
+  it("keeps the time of day", () => {
+    expect(iso(addMonths(utc("2025-05-31T13:45:10"), 6))).toBe("2025-11-30T13:45:10");
+  });
+
+  it("crosses year boundaries", () => {
+    expect(iso(addMonths(utc("2025-11-30T00:00:00"), 3))).toBe("2026-02-28T00:00:00");
+    expect(iso(addMonths(utc("2025-06-30T00:00:00"), -18))).toBe("2023-12-30T00:00:00");
+  });
+});
+
+describe("couponSchedule", () => {
+  it("generates periods backwards from maturity", () => {
+    const schedule = couponSchedule(terms(), utc("2028-12-01T00:00:00"));
+    expect(schedule.map((p) => [iso(p.start), iso(p.end)])).toEqual([
+      ["2028-07-15T00:00:00", "2029-01-15T00:00:00"],
+      ["2029-01-15T00:00:00", "2029-07-15T00:00:00"],
+      ["2029-07-15T00:00:00", "2030-01-15T00:00:00"],
+    ]);
+  });
+
+  it("ends on the maturity date even when earlier dates are clamped", () => {
+    const schedule = couponSchedule(terms({ maturityDate: utc("2030-06-30T00:00:00") }), utc("2029-01-01T00:00:00"));
+    expect(iso(schedule[schedule.length - 1].end)).toBe("2030-06-30T00:00:00");
+    expect(iso(schedule[0].start)).toBe("2028-12-30T00:00:00");
+  });
+
+  it("starts a new period on a coupon date", () => {
+    const schedule = couponSchedule(terms(), utc("2029-07-15T00:00:00"));
+    expect(schedule).toHaveLength(1);
+    expect(iso(schedule[0].start)).toBe("2029-07-15T00:00:00");
+  });
+
+  it("is empty once the bond has matured", () => {
+    expect(couponSchedule(terms(), utc("2030-01-15T00:00:00"))).toEqual([]);
+  });
+
+  it("pays equal coupons under 30/360", () => {
+    const schedule = couponSchedule(terms({ frequency: 4 }), utc("2029-01-01T00:00:00"));
+    expect(schedule).toHaveLength(5);
+    for (const p of schedule) expect(p.amount).toBeCloseTo(0.0125, 12);
+  });
+
+  it("pays by actual days under ACT/360", () => {
+    const [period] = couponSchedule(terms({ convention: "ACT/360" }), utc("2029-10-01T00:00:00"));
+    // 2029-07-15 to 2030-01-15 is 184 days
+    expect(period.amount).toBeCloseTo((0.05 * 184) / 360, 12);
+  });
+});
+
+describe("accruedInterest", () => {
+  it("is zero on a coupon date", () => {
+    expect(accruedInterest(terms(), utc("2029-07-15T00:00:00"))).toBe(0);
+  });
+
+  it("accrues a share of the coupon under 30/360", () => {
+    // 90 of 180 days into the period
+    expect(accruedInterest(terms(), utc("2029-10-15T00:00:00"))).toBeCloseTo(0.0125, 12);
+  });
+
+  it("accrues by actual days under ACT/365", () => {
+    const accrued = accruedInterest(terms({ convention: "ACT/365" }), utc("2029-08-14T00:00:00"));
+    expect(accrued).toBeCloseTo((0.05 * 30) / 365, 12);
+  });
+
+  it("accrues a share of the regular coupon under ACT/ACT", () => {
+    // 92 of 184 days into the period
+    const accrued = accruedInterest(terms({ convention: "ACT/ACT" }), utc("2029-10-15T00:00:00"));
+    expect(accrued).toBeCloseTo(0.0125, 12);
+  });
+
+  it("is zero after maturity", () => {
+    expect(accruedInterest(terms(), utc("2030-02-01T00:00:00"))).toBe(0);
+  });
+});
+
+describe("yieldToMaturity", () => {
+  const couponDate = utc("2027-01-15T00:00:00");
+
+  it("equals the coupon rate at par on a coupon date", () => {
+    expect(yieldToMaturity(terms(), 1, couponDate)).toBeCloseTo(0.05, 8);
+  });
+
+  it("rises above the coupon below par and falls below it above par", () => {
+    expect(yieldToMaturity(terms(), 0.95, couponDate)!).toBeGreaterThan(0.05);
+    expect(yieldToMaturity(terms(), 1.05, couponDate)!).toBeLessThan(0.05);
+  });
+
+  it("reproduces the price it was solved from", () => {
+    // One period left: price = (1 + coupon) / (1 + y/2)^w
+    const t = terms();
+    const at = utc("2029-10-15T00:00:00");
+    const w = (t.maturityDate - at) / (t.maturityDate - utc("2029-07-15T00:00:00"));
+    const price = 1.025 / Math.pow(1 + 0.08 / 2, w);
+    expect(yieldToMaturity(t, price, at)).toBeCloseTo(0.08, 8);
+  });
+
+  it("is null once matured or for prices no yield reproduces", () => {
+    expect(yieldToMaturity(terms(), 1, utc("2030-01-15T00:00:00"))).toBeNull();
+    expect(yieldToMaturity(terms(), 0, couponDate)).toBeNull();
+    expect(yieldToMaturity(terms(), 100, couponDate)).toBeNull();
+  });
+});
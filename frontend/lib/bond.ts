@@ -0,0 +1,203 @@
+// Coupon, accrual and yield math for BondToken. Pure functions only, so the
+// page, the CLI and any future indexer job can share them.
+//
+// BondToken only stores `maturityDate` and `couponRateBps`; coupons are not
+// paid on-chain. Invest and redeem both happen at NAV, and one token is
+// minted per payment unit at a NAV of 1.00, so a token represents $1 of par
+// and NAV is read as the dirty price per $1 of par. `faceValue` is the bond's
+// denomination and doesn't enter the per-token math.
+
+export type CouponFrequency = 1 | 2 | 4 | 12;
+
+export const COUPON_FREQUENCIES: { value: CouponFrequency; label: string }[] = [
+  { value: 1, label: "Annual" },
+  { value: 2, label: "Semi-annual" },
+  { value: 4, label: "Quarterly" },
+  { value: 12, label: "Monthly" },
+];
+
+export type DayCountConvention = "30/360" | "ACT/360" | "ACT/365" | "ACT/ACT";
+
+export const DAY_COUNT_CONVENTIONS: DayCountConvention[] = ["30/360", "ACT/360", "ACT/365", "ACT/ACT"];
+
+/** NAV (1e18 scale) that equals par */
+export const PAR_NAV = 10n ** 18n;
+
+const DAY = 86_400;
+
+export interface BondTerms {
+  /** Unix seconds */
+  maturityDate: number;
+  couponRateBps: number;
+  frequency: CouponFrequency;
+  convention: DayCountConvention;
+}
+
+export interface CouponPeriod {
+  /** Unix seconds; the previous coupon date */
+  start: number;
+  /** Unix seconds; the payment date */
+  end: number;
+  /** Coupon per $1 of par */
+  amount: number;
+}
+
+/** `ts` shifted by whole months in UTC, clamped to the end of shorter months */
+export function addMonths(ts: number, months: number): number {
+  const d = new Date(ts * 1000);
+  const target = new Date(
+    Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + months, 1, d.getUTCHours(), d.getUTCMinutes(), d.getUTCSeconds())
+  );
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(d.getUTCDate(), lastDay));
+  return Math.floor(target.getTime() / 1000);
+}
+
+/** Days between two timestamps under 30/360 (US bond basis) */
+function days30360(start: number, end: number): number {
+  const a = new Date(start * 1000);
+  const b = new Date(end * 1000);
+  let d1 = a.getUTCDate();
+  let d2 = b.getUTCDate();
+  if (d1 === 31) d1 = 30;
+  if (d2 === 31 && d1 === 30) d2 = 30;
+  return (
+    360 * (b.getUTCFullYear() - a.getUTCFullYear()) +
+    30 * (b.getUTCMonth() - a.getUTCMonth()) +
+    (d2 - d1)
+  );
+}
+
+function actualDays(start: number, end: number): number {
+  return (end - start) / DAY;
+}
+
+/**
+ * Fraction of a year between `start` and `end`. ACT/ACT (ICMA) needs the
+ * coupon period the range falls in, since its year is `frequency` periods.
+ */
+export function yearFraction(
+  start: number,
+  end: number,
+  convention: DayCountConvention,
+  period?: { start: number; end: number; frequency: CouponFrequency }
+): number {
+  switch (convention) {
+    case "30/360":
+      return days30360(start, end) / 360;
+    case "ACT/360":
+      return actualDays(start, end) / 360;
+    case "ACT/365":
+      return actualDays(start, end) / 365;
+    case "ACT/ACT": {
+      if (!period) return actualDays(start, end) / 365;
+      return actualDays(start, end) / actualDays(period.start, period.end) / period.frequency;
+    }
+  }
+}
+
+function couponFor(terms: BondTerms, start: number, end: number): number {
+  const rate = terms.couponRateBps / 10_000;
+  // 30/360 and ACT/ACT pay equal coupons every regular period
+  if (terms.convention === "30/360" || terms.convention === "ACT/ACT") return rate / terms.frequency;
+  return rate * yearFraction(start, end, terms.convention);
+}
+
+/**
+ * Coupon periods still running or ahead at `from`, generated backwards from
+ * maturity so the final payment always falls on the maturity date.
+ */
+export function couponSchedule(terms: BondTerms, from: number): CouponPeriod[] {
+  const step = 12 / terms.frequency;
+  const periods: CouponPeriod[] = [];
+  for (let k = 0; ; k++) {
+    const end = addMonths(terms.maturityDate, -step * k);
+    if (end <= from) break;
+    const start = addMonths(terms.maturityDate, -step * (k + 1));
+    periods.push({ start, end, amount: couponFor(terms, start, end) });
+  }
+  return periods.reverse();
+}
+
+/** The coupon period containing `at`, or undefined once the bond has matured */
+export function currentPeriod(terms: BondTerms, at: number): CouponPeriod | undefined {
+  return couponSchedule(terms, at)[0];
+}
+
+/** Interest accrued per $1 of par since the last coupon date */
+export function accruedInterest(terms: BondTerms, at: number): number {
+  const period = currentPeriod(terms, at);
+  if (!period) return 0;
+  const fraction =
+    terms.convention === "30/360" || terms.convention === "ACT/ACT"
+      ? // Share of the regular coupon, so a full period accrues exactly one coupon
+        yearFraction(period.start, at, terms.convention, { ...period, frequency: terms.frequency }) *
+        terms.frequency
+      : yearFraction(period.start, at, terms.convention) /
+        yearFraction(period.start, period.end, terms.convention);
+  return period.amount * fraction;
+}
+
+/** NAV (1e18 scale) as a price per $1 of par */
+export function navToPrice(nav: bigint): number {
+  return Number(nav) / Number(PAR_NAV);
+}
+
+/**
+ * Annualised yield to maturity, compounded at the coupon frequency, for a
+ * dirty price per $1 of par. Street convention: the first cash flow is
+ * discounted by the fraction of its period left. Null once matured or if no
+ * yield in (-99%, 1000%) reproduces the price.
+ */
+export function yieldToMaturity(terms: BondTerms, dirtyPrice: number, at: number): number | null {
+  const periods = couponSchedule(terms, at);
+  if (periods.length === 0 || dirtyPrice <= 0) return null;
+
+  const first = periods[0];
+  const w = (first.end - at) / (first.end - first.start);
+  const f = terms.frequency;
+
+  const priceAt = (y: number) =>
+    periods.reduce((pv, p, k) => {
+      const cashFlow = p.amount + (k === periods.length - 1 ? 1 : 0);
+      return pv + cashFlow / Math.pow(1 + y / f, w + k);
+    }, 0);
+
+  // Price falls as yield rises, so bisect
+  let lo = -0.99;
+  let hi = 10;
+  if (priceAt(lo) < dirtyPrice || priceAt(hi) > dirtyPrice) return null;
+  for (let i = 0; i < 200; i++) {
+    const mid = (lo + hi) / 2;
+    if (priceAt(mid) > dirtyPrice) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+export interface BondAnalytics {
+  matured: boolean;
+  schedule: CouponPeriod[];
+  nextPayment?: CouponPeriod;
+  /** Per $1 of par */
+  accrued: number;
+  /** NAV as a dirty price per $1 of par */
+  dirtyPrice: number;
+  cleanPrice: number;
+  ytm: number | null;
+}
+
+export function bondAnalytics(terms: BondTerms, nav: bigint, at: number): BondAnalytics {
+  const schedule = couponSchedule(terms, at);
+  const accrued = accruedInterest(terms, at);
+  const dirtyPrice = navToPrice(nav);
+  return {
+    matured: at >= terms.maturityDate,
+    schedule,
+    nextPayment: schedule[0],
+    accrued,
+    dirtyPrice,
+    cleanPrice: dirtyPrice - accrued,
+    ytm: yieldToMaturity(terms, dirtyPrice, at),
+  };
+}
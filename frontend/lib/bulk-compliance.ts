@@ -0,0 +1,195 @@
+import { encodeFunctionData, zeroAddress } from "viem";
+import { estimateGas, getBlock, readContracts } from "wagmi/actions";
+import { complianceRegistryAbi } from "@/lib/abi";
+import type { SafeTxStatus } from "@/lib/transactions";
+import { config } from "@/lib/wagmi";
+import { toCsv } from "@/lib/utils";
+
+export type BulkAction = "whitelist" | "unwhitelist" | "freeze" | "unfreeze";
+
+export interface AddressStatus {
+  isWhitelisted: boolean;
+  isFrozen: boolean;
+}
+
+/**
+ * Each registry function reverts the whole batch on the first address that is
+ * already in the target state, so those are filtered out before sending.
+ */
+export const BULK_ACTIONS: Record<
+  BulkAction,
+  {
+    label: string;
+    functionName: "addToWhitelist" | "removeFromWhitelist" | "freezeAddress" | "unfreezeAddress";
+    skipReason: (status: AddressStatus) => string | undefined;
+  }
+> = {
+  whitelist: {
+    label: "Add to Whitelist",
+    functionName: "addToWhitelist",
+    skipReason: (s) => (s.isWhitelisted ? "Already whitelisted" : undefined),
+  },
+  unwhitelist: {
+    label: "Remove from Whitelist",
+    functionName: "removeFromWhitelist",
+    skipReason: (s) => (!s.isWhitelisted ? "Not whitelisted" : undefined),
+  },
+  freeze: {
+    label: "Freeze",
+    functionName: "freezeAddress",
+    skipReason: (s) => (s.isFrozen ? "Already frozen" : undefined),
+  },
+  unfreeze: {
+    label: "Unfreeze",
+    functionName: "unfreezeAddress",
+    skipReason: (s) => (!s.isFrozen ? "Not frozen" : undefined),
+  },
+};
+
+/** Addresses in the call whose gas is estimated; the per-address cost is extrapolated from it */
+const GAS_SAMPLE_SIZE = 50;
+
+/** Share of the block gas limit one batch may use, so it still fits in a busy block */
+const BLOCK_GAS_SHARE_PERCENT = 50n;
+
+export interface BulkPlan {
+  batches: `0x${string}`[][];
+  skipped: { address: `0x${string}`; reason: string }[];
+  /** Most addresses one batch holds, from the gas estimate */
+  batchSize: number;
+}
+
+/** Read `isWhitelisted` and `isFrozen` for every address in one multicall */
+export async function fetchAddressStatuses(
+  chainId: number,
+  registry: `0x${string}`,
+  addresses: `0x${string}`[]
+): Promise<AddressStatus[]> {
+  const results = await readContracts(config, {
+    allowFailure: false,
+    contracts: addresses.flatMap((account) => [
+      {
+        chainId,
+        address: registry,
+        abi: complianceRegistryAbi,
+        functionName: "isWhitelisted",
+        args: [account],
+      } as const,
+      {
+        chainId,
+        address: registry,
+        abi: complianceRegistryAbi,
+        functionName: "isFrozen",
+        args: [account],
+      } as const,
+    ]),
+  });
+
+  return addresses.map((_, i) => ({
+    isWhitelisted: results[2 * i] as boolean,
+    isFrozen: results[2 * i + 1] as boolean,
+  }));
+}
+
+/**
+ * Split `addresses` into the ones to send and the ones to leave out. A
+ * single bad entry reverts the whole batch, so the zero address, repeats and
+ * addresses already in the target state never make it into one.
+ */
+export function selectBulkTargets(
+  action: BulkAction,
+  addresses: `0x${string}`[],
+  statuses: AddressStatus[]
+): { toSend: `0x${string}`[]; skipped: BulkPlan["skipped"] } {
+  const { skipReason } = BULK_ACTIONS[action];
+  const toSend: `0x${string}`[] = [];
+  const skipped: BulkPlan["skipped"] = [];
+  const seen = new Set<string>();
+
+  addresses.forEach((address, i) => {
+    const key = address.toLowerCase();
+    const reason =
+      address === zeroAddress ? "Zero address" : seen.has(key) ? "Duplicate" : skipReason(statuses[i]);
+    seen.add(key);
+    if (reason) skipped.push({ address, reason });
+    else toSend.push(address);
+  });
+  return { toSend, skipped };
+}
+
+/**
+ * How many addresses fit in one batch: the gas of a sample call, scaled per
+ * address against a share of the current block gas limit. The sample's
+ * fixed cost is counted against every address, which errs on the small side.
+ */
+export async function estimateBatchSize(
+  chainId: number,
+  registry: `0x${string}`,
+  action: BulkAction,
+  addresses: `0x${string}`[],
+  account: `0x${string}`
+): Promise<number> {
+  const sample = addresses.slice(0, GAS_SAMPLE_SIZE);
+  const [block, gas] = await Promise.all([
+    getBlock(config, { chainId }),
+    estimateGas(config, {
+      chainId,
+      account,
+      to: registry,
+      data: encodeFunctionData({
+        abi: complianceRegistryAbi,
+        functionName: BULK_ACTIONS[action].functionName,
+        args: [sample],
+      }),
+    }),
+  ]);
+  const budget = (block.gasLimit * BLOCK_GAS_SHARE_PERCENT) / 100n;
+  return Math.max(1, Number((budget * BigInt(sample.length)) / gas));
+}
+
+/** Read each address's status, drop what would revert and size the batches by gas */
+export async function planBulkAction(
+  chainId: number,
+  registry: `0x${string}`,
+  action: BulkAction,
+  addresses: `0x${string}`[],
+  account: `0x${string}`
+): Promise<BulkPlan> {
+  const statuses = await fetchAddressStatuses(chainId, registry, addresses);
+  const { toSend, skipped } = selectBulkTargets(action, addresses, statuses);
+  if (toSend.length === 0) return { batches: [], skipped, batchSize: 0 };
+
+  const batchSize = await estimateBatchSize(chainId, registry, action, toSend, account);
+  const batches: `0x${string}`[][] = [];
+  for (let i = 0; i < toSend.length; i += batchSize) {
+    batches.push(toSend.slice(i, i + batchSize));
+  }
+  return { batches, skipped, batchSize };
+}
+
+export type BatchStatus = "queued" | "pending" | "confirming" | "success" | "failed";
+
+export interface BatchResult {
+  addresses: `0x${string}`[];
+  status: BatchStatus;
+  hash?: `0x${string}`;
+  /** Set while a Safe proposal for the batch is collecting signatures */
+  safeStatus?: SafeTxStatus;
+  error?: string;
+}
+
+/** One row per address: what happened to it and in which transaction */
+export function bulkReportToCsv(
+  action: BulkAction,
+  batches: BatchResult[],
+  skipped: BulkPlan["skipped"]
+): string {
+  const { label } = BULK_ACTIONS[action];
+  return toCsv([
+    ["address", "action", "result", "transaction", "detail"],
+    ...batches.flatMap((b) =>
+      b.addresses.map((address) => [address, label, b.status, b.hash ?? "", b.error ?? ""])
+    ),
+    ...skipped.map((s) => [s.address, label, "skipped", "", s.reason]),
+  ]);
+}
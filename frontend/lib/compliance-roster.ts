@@ -0,0 +1,138 @@
+import { useReadContracts } from "wagmi";
+import { complianceRegistryAbi, rwaTokenAbi } from "@/lib/abi";
+import { useContractEvents, type ContractEvent } from "@/lib/event-logs";
+import { useDeployment } from "@/lib/wagmi";
+
+/** How many entries are re-checked against `isEligible` on each load */
+const ELIGIBILITY_SAMPLE_SIZE = 20;
+
+export type RosterStatus = "eligible" | "frozen" | "removed";
+
+export interface RosterEntry {
+  account: `0x${string}`;
+  isWhitelisted: boolean;
+  isFrozen: boolean;
+  /** When the account was (most recently) whitelisted, unix seconds */
+  whitelistedAt?: number;
+  frozenAt?: number;
+  /** Timestamp of the last membership change */
+  updatedAt: number;
+}
+
+export interface RosterEntryWithBalance extends RosterEntry {
+  balance?: bigint;
+  /** false if the on-chain `isEligible` disagreed with the replayed state */
+  verified?: boolean;
+}
+
+export function rosterStatus(entry: RosterEntry): RosterStatus {
+  if (entry.isFrozen) return "frozen";
+  return entry.isWhitelisted ? "eligible" : "removed";
+}
+
+/**
+ * Replay registry logs (oldest first) into the current membership set. The
+ * registry keeps its lists in private mappings, so the logs are the only way
+ * to enumerate them. Returned most recently changed first.
+ */
+export function toComplianceRoster(events: ContractEvent[]): RosterEntry[] {
+  const roster = new Map<string, RosterEntry>();
+
+  for (const e of events) {
+    const account = e.args.account as `0x${string}`;
+    const entry = roster.get(account) ?? {
+      account,
+      isWhitelisted: false,
+      isFrozen: false,
+      updatedAt: e.timestamp,
+    };
+
+    switch (e.eventName) {
+      case "AddedToWhitelist":
+        entry.isWhitelisted = true;
+        entry.whitelistedAt = e.timestamp;
+        break;
+      case "RemovedFromWhitelist":
+        entry.isWhitelisted = false;
+        break;
+      case "AddressFrozen":
+        entry.isFrozen = true;
+        entry.frozenAt = e.timestamp;
+        break;
+      case "AddressUnfrozen":
+        entry.isFrozen = false;
+        entry.frozenAt = undefined;
+        break;
+      default:
+        continue;
+    }
+    entry.updatedAt = e.timestamp;
+    roster.set(account, entry);
+  }
+
+  return [...roster.values()].sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Registry roster joined with token balances. The most recently changed
+ * entries are cross-checked against `isEligible` to catch gaps in the log scan.
+ */
+export function useComplianceRoster(
+  registryAddress: `0x${string}`,
+  tokenAddress: `0x${string}`,
+  options: { enabled?: boolean } = {}
+) {
+  const { enabled = true } = options;
+  const { chainId } = useDeployment();
+  const events = useContractEvents({
+    address: registryAddress,
+    abi: complianceRegistryAbi,
+    eventNames: ["AddedToWhitelist", "RemovedFromWhitelist", "AddressFrozen", "AddressUnfrozen"],
+    enabled,
+  });
+
+  const roster = events.data ? toComplianceRoster(events.data) : [];
+  const sample = roster.slice(0, ELIGIBILITY_SAMPLE_SIZE);
+
+  const { data: balances } = useReadContracts({
+    contracts: roster.map((entry) => ({
+      chainId,
+      address: tokenAddress,
+      abi: rwaTokenAbi,
+      functionName: "balanceOf",
+      args: [entry.account],
+    } as const)),
+    query: { enabled: enabled && roster.length > 0 },
+  });
+
+  const { data: eligibility } = useReadContracts({
+    contracts: sample.map((entry) => ({
+      chainId,
+      address: registryAddress,
+      abi: complianceRegistryAbi,
+      functionName: "isEligible",
+      args: [entry.account],
+    } as const)),
+    query: { enabled: enabled && sample.length > 0 },
+  });
+
+  const entries: RosterEntryWithBalance[] = roster.map((entry, i) => {
+    const eligible = eligibility?.[i]?.result;
+    return {
+      ...entry,
+      balance: balances?.[i]?.result,
+      verified:
+        eligible === undefined
+          ? undefined
+          : eligible === (entry.isWhitelisted && !entry.isFrozen),
+    };
+  });
+
+  return {
+    entries,
+    sampled: eligibility?.filter((r) => r.status === "success").length ?? 0,
+    mismatches: entries.filter((e) => e.verified === false).length,
+    isLoading: events.isLoading,
+    error: events.error,
+  };
+}
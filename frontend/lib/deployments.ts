@@ -0,0 +1,212 @@
+// Per-chain deployment registry. `deployments.json` maps a chain id to the
+// protocol contracts deployed there; `npm run rwa -- deployments import`
+// fills it in from the Foundry broadcast of `Deploy.s.sol`. No React or wagmi
+// here, so the CLI reads the same registry as the app.
+
+import { defineChain, getAddress, isAddress, type Address, type Chain } from "viem";
+import {
+  arbitrum,
+  arbitrumSepolia,
+  base,
+  baseSepolia,
+  foundry,
+  mainnet,
+  optimism,
+  optimismSepolia,
+  polygon,
+  polygonAmoy,
+  sepolia,
+} from "viem/chains";
+import registry from "../deployments.json";
+
+export interface PaymentToken {
+  address: Address;
+  symbol: string;
+  decimals: number;
+}
+
+export interface Deployment {
+  chainId: number;
+  /** Display name; defaults to the chain's name */
+  name: string;
+  /** AssetFactory proxy */
+  factory: Address;
+  /** Tokens new assets can be priced in; the first is the default */
+  paymentTokens: PaymentToken[];
+  /** First block to scan for event logs (the deployment block keeps scans cheap) */
+  deployBlock: bigint;
+  /** RPC endpoint; defaults to the chain's public RPC */
+  rpcUrl?: string;
+  /** Block explorer base URL; defaults to the chain's explorer */
+  explorerUrl?: string;
+  /** Custodians trusted to attest each commodity token's reserves, keyed by lowercase token address */
+  custodians: Record<string, Address[]>;
+}
+
+/** A registry entry as stored in deployments.json, keyed by chain id */
+export interface DeploymentEntry {
+  name?: string;
+  factory: string;
+  paymentTokens: PaymentToken[];
+  deployBlock: number;
+  rpcUrl?: string;
+  explorerUrl?: string;
+  custodians?: Record<string, string[]>;
+}
+
+export type DeploymentRegistry = Record<string, DeploymentEntry>;
+
+const KNOWN_CHAINS: Chain[] = [
+  mainnet,
+  sepolia,
+  base,
+  baseSepolia,
+  arbitrum,
+  arbitrumSepolia,
+  optimism,
+  optimismSepolia,
+  polygon,
+  polygonAmoy,
+  foundry,
+];
+
+export function knownChain(chainId: number): Chain | undefined {
+  return KNOWN_CHAINS.find((c) => c.id === chainId);
+}
+
+function parseEntry(chainKey: string, entry: DeploymentEntry): Deployment {
+  const chainId = Number(chainKey);
+  const where = `deployments.json [${chainKey}]`;
+  if (!Number.isInteger(chainId) || chainId <= 0) throw new Error(`${where}: key must be a chain id`);
+  if (!isAddress(entry.factory, { strict: false })) throw new Error(`${where}: invalid factory address`);
+  if (!knownChain(chainId) && !entry.rpcUrl) throw new Error(`${where}: unknown chain needs an rpcUrl`);
+
+  return {
+    chainId,
+    name: entry.name ?? knownChain(chainId)?.name ?? `Chain ${chainId}`,
+    factory: getAddress(entry.factory),
+    paymentTokens: (entry.paymentTokens ?? []).map((t, i) => {
+      if (!isAddress(t.address, { strict: false })) {
+        throw new Error(`${where}: invalid address for payment token ${i + 1}`);
+      }
+      return { address: getAddress(t.address), symbol: t.symbol, decimals: t.decimals };
+    }),
+    deployBlock: BigInt(entry.deployBlock ?? 0),
+    rpcUrl: entry.rpcUrl,
+    explorerUrl: entry.explorerUrl?.replace(/\/+$/, ""),
+    custodians: Object.fromEntries(
+      Object.entries(entry.custodians ?? {}).map(([token, custodians]) => {
+        if (!isAddress(token, { strict: false })) throw new Error(`${where}: invalid custodian token address`);
+        return [
+          token.toLowerCase(),
+          custodians.map((c) => {
+            if (!isAddress(c, { strict: false })) throw new Error(`${where}: invalid custodian for ${token}`);
+            return getAddress(c);
+          }),
+        ];
+      })
+    ),
+  };
+}
+
+/** Validate a registry, throwing on the first malformed entry */
+export function parseDeployments(data: DeploymentRegistry): Deployment[] {
+  return Object.entries(data).map(([chainKey, entry]) => parseEntry(chainKey, entry));
+}
+
+/** Every configured deployment, in registry order */
+export const DEPLOYMENTS: Deployment[] = parseDeployments(registry as DeploymentRegistry);
+
+export function getDeployment(chainId: number): Deployment | undefined {
+  return DEPLOYMENTS.find((d) => d.chainId === chainId);
+}
+
+/** Addresses whose attestations count towards a commodity token's reserve */
+export function trustedCustodians(deployment: Deployment | undefined, token: string): Address[] {
+  return deployment?.custodians[token.toLowerCase()] ?? [];
+}
+
+/** The viem chain for a deployment, with its RPC and explorer overrides applied */
+export function deploymentChain(deployment: Deployment): Chain {
+  const chain = knownChain(deployment.chainId);
+  const rpcUrls = deployment.rpcUrl ? { default: { http: [deployment.rpcUrl] } } : undefined;
+  const blockExplorers = deployment.explorerUrl
+    ? { default: { name: "Explorer", url: deployment.explorerUrl } }
+    : undefined;
+
+  if (chain) {
+    return {
+      ...chain,
+      rpcUrls: rpcUrls ?? chain.rpcUrls,
+      blockExplorers: blockExplorers ?? chain.blockExplorers,
+    };
+  }
+  return defineChain({
+    id: deployment.chainId,
+    name: deployment.name,
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    rpcUrls: rpcUrls!,
+    blockExplorers,
+  });
+}
+
+// ─── Foundry broadcast import ────────────────────────────────────────────────
+
+interface BroadcastTransaction {
+  transactionType: string;
+  contractName: string | null;
+  contractAddress: string | null;
+  arguments: string[] | null;
+}
+
+interface BroadcastReceipt {
+  blockNumber: string | number;
+}
+
+interface Broadcast {
+  chain: number;
+  transactions: BroadcastTransaction[];
+  receipts: BroadcastReceipt[];
+}
+
+/** The payment token Deploy.s.sol creates */
+const MOCK_USDC = { symbol: "USDC", decimals: 6 };
+
+/**
+ * Build a registry entry from `broadcast/Deploy.s.sol/<chainId>/run-latest.json`.
+ * The factory is the ERC1967Proxy created over the AssetFactory
+ * implementation, and the deploy block is the first block with a receipt.
+ */
+export function deploymentFromBroadcast(json: string): { chainId: number; entry: DeploymentEntry } {
+  let broadcast: Broadcast;
+  try {
+    broadcast = JSON.parse(json);
+  } catch {
+    throw new Error("Not a JSON file");
+  }
+  if (!Array.isArray(broadcast?.transactions) || typeof broadcast.chain !== "number") {
+    throw new Error("Not a Foundry broadcast file (expected run-latest.json)");
+  }
+
+  const creates = broadcast.transactions.filter((tx) => tx.transactionType === "CREATE");
+  const factoryImpl = creates.find((tx) => tx.contractName === "AssetFactory")?.contractAddress;
+  const proxy = creates.find(
+    (tx) =>
+      tx.contractName === "ERC1967Proxy" &&
+      !!factoryImpl &&
+      tx.arguments?.[0]?.toLowerCase() === factoryImpl.toLowerCase()
+  );
+  if (!proxy?.contractAddress) throw new Error("No AssetFactory proxy in this broadcast");
+
+  const usdc = creates.find((tx) => tx.contractName === "MockUSDC")?.contractAddress;
+  const blocks = (broadcast.receipts ?? []).map((r) => Number(r.blockNumber));
+
+  return {
+    chainId: broadcast.chain,
+    entry: {
+      factory: getAddress(proxy.contractAddress),
+      paymentTokens: usdc ? [{ address: getAddress(usdc), ...MOCK_USDC }] : [],
+      deployBlock: blocks.length > 0 ? Math.min(...blocks) : 0,
+    },
+  };
+}
@@ -0,0 +1,155 @@
+import {
+  BaseError,
+  ChainMismatchError,
+  ContractFunctionRevertedError,
+  InsufficientFundsError,
+  UserRejectedRequestError,
+  decodeErrorResult,
+  formatUnits,
+} from "viem";
+import { protocolErrorsAbi } from "./abi";
+import { formatTokens, shortenAddress } from "./utils";
+
+// Relative imports so the CLI can share these messages.
+
+/** What the failed call was doing, so amounts can be shown in the right unit */
+export interface ErrorContext {
+  /** `invest`, `deposit`, `withdraw` and `payout` move the payment token; the rest move asset tokens */
+  action?: "invest" | "redeem" | "transfer" | "deposit" | "withdraw" | "payout";
+  paymentSymbol?: string;
+  /** Defaults to 6 (USDC) */
+  paymentDecimals?: number;
+}
+
+export interface DecodedContractError {
+  errorName: string;
+  args: readonly unknown[];
+}
+
+/** Find the custom error behind a viem error, decoding raw revert data if needed */
+export function decodeContractError(error: unknown): DecodedContractError | undefined {
+  if (!(error instanceof BaseError)) return undefined;
+  const reverted = error.walk((e) => e instanceof ContractFunctionRevertedError);
+  if (!(reverted instanceof ContractFunctionRevertedError)) return undefined;
+
+  if (reverted.data?.errorName) {
+    return { errorName: reverted.data.errorName, args: reverted.data.args ?? [] };
+  }
+  if (reverted.raw) {
+    try {
+      const decoded = decodeErrorResult({ abi: protocolErrorsAbi, data: reverted.raw });
+      return { errorName: decoded.errorName, args: decoded.args ?? [] };
+    } catch {
+      // Not one of ours
+    }
+  }
+  return undefined;
+}
+
+/** Payment token amount with symbol, in the unit described by `ctx` */
+export function formatPayment(amount: bigint, ctx: ErrorContext): string {
+  const value = Number(formatUnits(amount, ctx.paymentDecimals ?? 6)).toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+  return `${value} ${ctx.paymentSymbol ?? "USDC"}`;
+}
+
+const PAYMENT_ACTIONS: ReadonlySet<ErrorContext["action"]> = new Set(["invest", "deposit", "withdraw", "payout"]);
+
+function describeCustomError({ errorName, args }: DecodedContractError, ctx: ErrorContext): string | undefined {
+  const a = args as readonly [unknown, unknown, unknown];
+  const addr = (i: number) => shortenAddress(String(a[i]));
+  const payment = (i: number) => formatPayment(a[i] as bigint, ctx);
+  const tokens = (i: number) => `${formatTokens(a[i] as bigint)} tokens`;
+
+  switch (errorName) {
+    // RWAToken
+    case "NotEligible":
+      return `${addr(0)} is not eligible: it must be whitelisted and not frozen in this asset's compliance registry.`;
+    case "SlippageExceeded":
+      return ctx.action === "redeem"
+        ? `Price moved beyond your slippage tolerance: you would receive ${payment(0)}, below your minimum of ${payment(1)}. Retry or raise the tolerance.`
+        : `Price moved beyond your slippage tolerance: you would receive ${tokens(0)}, below your minimum of ${tokens(1)}. Retry or raise the tolerance.`;
+    case "InsufficientPaymentBalance":
+      return `The asset's reserve holds ${payment(0)} but this redemption needs ${payment(1)}. Try a smaller amount or wait for the issuer to top up reserves.`;
+    case "DailyInvestLimitExceeded":
+      return `Daily limit exceeded: ${payment(0)} remaining today.`;
+    case "DailyRedeemLimitExceeded":
+      return `Daily redemption limit exceeded: ${tokens(0)} remaining today.`;
+    case "ZeroAmount":
+      return "Amount must be greater than zero.";
+
+    // ComplianceRegistry
+    case "AlreadyWhitelisted":
+      return `${addr(0)} is already whitelisted.`;
+    case "NotWhitelisted":
+      return `${addr(0)} is not whitelisted.`;
+    case "AlreadyFrozen":
+      return `${addr(0)} is already frozen.`;
+    case "NotFrozen":
+      return `${addr(0)} is not frozen.`;
+
+    // NAVOracle
+    case "StaleNAV":
+      return "NAV is stale: the oracle must publish a fresh NAV before anyone can invest or redeem.";
+    case "NAVDecreased":
+      return "NAV can only increase: enter a value at or above the current NAV.";
+    case "NotUpdater":
+      return "Only the oracle's authorized updater can publish NAV.";
+    case "ZeroValue":
+      return "Value must be greater than zero.";
+    case "ZeroAddress":
+      return "The zero address is not allowed here.";
+
+    // OpenZeppelin
+    case "OwnableUnauthorizedAccount":
+      return `${addr(0)} is not the owner of this contract.`;
+    case "OwnableInvalidOwner":
+      return `${addr(0)} can't be set as owner.`;
+    case "EnforcedPause":
+      return "This asset is paused by the issuer.";
+    case "ExpectedPause":
+      return "This asset is not paused.";
+    case "InvalidInitialization":
+    case "NotInitializing":
+      return "This contract is already initialized.";
+    case "SafeERC20FailedOperation":
+      return `Payment token transfer failed (${addr(0)}).`;
+    case "ERC20InsufficientBalance":
+      return PAYMENT_ACTIONS.has(ctx.action)
+        ? `Insufficient balance: you have ${payment(1)} but need ${payment(2)}.`
+        : `Insufficient balance: you have ${tokens(1)} but need ${tokens(2)}.`;
+    case "ERC20InsufficientAllowance":
+      return `Allowance too low: approved ${payment(1)} but ${payment(2)} is needed. Approve the full amount first.`;
+    case "ERC20InvalidSender":
+    case "ERC20InvalidReceiver":
+    case "ERC20InvalidApprover":
+    case "ERC20InvalidSpender":
+      return `${addr(0)} is not a valid ${errorName.slice("ERC20Invalid".length).toLowerCase()}.`;
+    default:
+      return undefined;
+  }
+}
+
+/** A human-readable, actionable message for any error from a contract call */
+export function formatContractError(error: unknown, ctx: ErrorContext = {}): string {
+  const decoded = decodeContractError(error);
+  if (decoded) {
+    return describeCustomError(decoded, ctx) ?? `Reverted with ${decoded.errorName}.`;
+  }
+
+  if (error instanceof BaseError) {
+    if (error.walk((e) => e instanceof UserRejectedRequestError)) {
+      return "Transaction rejected in wallet.";
+    }
+    if (error.walk((e) => e instanceof InsufficientFundsError)) {
+      return "Not enough ETH to pay for gas.";
+    }
+    if (error.walk((e) => e instanceof ChainMismatchError)) {
+      return "Your wallet is on the wrong network.";
+    }
+    return error.shortMessage;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,369 @@
+import { useCallback } from "react";
+import { useQueries, useQuery, useQueryClient, type QueryClient, type UseQueryResult } from "@tanstack/react-query";
+import { usePublicClient } from "wagmi";
+import { parseEventLogs, type Abi, type AbiEvent, type Log, type PublicClient } from "viem";
+import { IndexerClient, type IndexedEvent } from "@/lib/indexer-client";
+import { useDeployment } from "@/lib/wagmi";
+
+/** A decoded log with its block timestamp */
+export interface ContractEvent {
+  address: `0x${string}`;
+  eventName: string;
+  args: Record<string, unknown>;
+  blockNumber: bigint;
+  logIndex: number;
+  transactionHash: `0x${string}`;
+  /** Block timestamp (unix seconds) */
+  timestamp: number;
+}
+
+export interface ContractEventsFilter {
+  address: `0x${string}` | `0x${string}`[];
+  abi: Abi;
+  /** Restrict to these events; defaults to every event in `abi` */
+  eventNames?: readonly string[];
+  /** First block to scan; defaults to 0 */
+  fromBlock?: bigint;
+}
+
+/** Blocks per eth_getLogs call; public RPCs refuse wider ranges */
+export const LOG_CHUNK_BLOCKS = BigInt(process.env.NEXT_PUBLIC_LOG_CHUNK_BLOCKS ?? "2000");
+
+/** Recent blocks rescanned on every refresh, so logs a reorg replaced are picked up */
+const REORG_DEPTH = 12n;
+
+/** Event indexer query API (see indexer/); history views read from it when it covers the chain */
+const indexer = process.env.NEXT_PUBLIC_INDEXER_URL
+  ? new IndexerClient(process.env.NEXT_PUBLIC_INDEXER_URL)
+  : undefined;
+
+/** Largest page the indexer's /events endpoint returns */
+const INDEXER_PAGE_SIZE = 1000;
+
+type TimedLog = Log<bigint, number, false> & { timestamp: number };
+
+/** Logs found so far, and the block the scan has reached */
+interface LogScan<T> {
+  scannedTo: bigint;
+  logs: T[];
+}
+
+type ContractLogs = LogScan<TimedLog>;
+
+/** Block timestamps by block hash; a block's timestamp never changes, so this is never invalidated */
+const blockTimestamps = new Map<string, number>();
+
+/** Call `fetch` over [fromBlock, toBlock] in LOG_CHUNK_BLOCKS ranges, oldest first */
+export async function getLogsChunked<T>(
+  fromBlock: bigint,
+  toBlock: bigint,
+  fetch: (fromBlock: bigint, toBlock: bigint) => Promise<T[]>
+): Promise<T[]> {
+  const out: T[] = [];
+  for (let from = fromBlock; from <= toBlock; from += LOG_CHUNK_BLOCKS) {
+    const to = from + LOG_CHUNK_BLOCKS - 1n < toBlock ? from + LOG_CHUNK_BLOCKS - 1n : toBlock;
+    out.push(...(await fetch(from, to)));
+  }
+  return out;
+}
+
+/** Attach block timestamps, fetching only blocks that aren't cached yet */
+export async function withTimestamps<L extends Log<bigint, number, false>>(
+  client: PublicClient,
+  logs: L[]
+): Promise<(L & { timestamp: number })[]> {
+  const missing = [...new Set(logs.map((log) => log.blockHash))].filter((hash) => !blockTimestamps.has(hash));
+  const blocks = await Promise.all(missing.map((blockHash) => client.getBlock({ blockHash })));
+  for (const b of blocks) if (b.hash) blockTimestamps.set(b.hash, Number(b.timestamp));
+  return logs.map((log) => ({ ...log, timestamp: blockTimestamps.get(log.blockHash) ?? 0 }));
+}
+
+function eventsOf(abi: Abi, eventNames: readonly string[] | undefined): AbiEvent[] {
+  return abi.filter(
+    (item): item is AbiEvent => item.type === "event" && (!eventNames || eventNames.includes(item.name))
+  );
+}
+
+function toContractEvent(log: TimedLog & { eventName: string; args: unknown }): ContractEvent {
+  return {
+    address: log.address,
+    eventName: log.eventName,
+    args: (log.args ?? {}) as Record<string, unknown>,
+    blockNumber: log.blockNumber,
+    logIndex: log.logIndex,
+    transactionHash: log.transactionHash,
+    timestamp: log.timestamp,
+  };
+}
+
+function byChainOrder(a: ContractEvent, b: ContractEvent): number {
+  return a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : a.blockNumber < b.blockNumber ? -1 : 1;
+}
+
+/** Decode the logs that match `abi` and `eventNames`, dropping the rest */
+function decodeLogs(logs: TimedLog[], abi: Abi, eventNames: readonly string[] | undefined): ContractEvent[] {
+  const events = eventsOf(abi, eventNames);
+  if (events.length === 0) return [];
+  return parseEventLogs({ abi: events, logs }).map((log) => toContractEvent(log as TimedLog & typeof log));
+}
+
+/** Fetch and decode every matching log since `fromBlock`, oldest first */
+export async function fetchContractEvents(
+  client: PublicClient,
+  { address, abi, eventNames, fromBlock = 0n }: ContractEventsFilter
+): Promise<ContractEvent[]> {
+  const events = eventsOf(abi, eventNames);
+  if (events.length === 0) return [];
+
+  const latest = await client.getBlockNumber();
+  const logs = await getLogsChunked(fromBlock, latest, (from, to) =>
+    client.getLogs({ address, events, fromBlock: from, toBlock: to })
+  );
+  return (await withTimestamps(client, logs)).map(toContractEvent);
+}
+
+/**
+ * Extend `previous` up to the latest block with `fetchRange`. Only the blocks
+ * past the last scan, plus REORG_DEPTH blocks behind it, are fetched.
+ */
+async function extendScan<T extends { blockNumber: bigint }>(
+  client: PublicClient,
+  fromBlock: bigint,
+  previous: LogScan<T> | undefined,
+  fetchRange: (fromBlock: bigint, toBlock: bigint) => Promise<T[]>
+): Promise<LogScan<T>> {
+  const latest = await client.getBlockNumber();
+  const rescanFrom = previous ? previous.scannedTo + 1n - REORG_DEPTH : fromBlock;
+  const start = rescanFrom > fromBlock ? rescanFrom : fromBlock;
+  const kept = previous ? previous.logs.filter((log) => log.blockNumber < start) : [];
+  const logs = await getLogsChunked(start, latest, fetchRange);
+  return { scannedTo: latest, logs: [...kept, ...logs] };
+}
+
+function scanContractLogs(
+  client: PublicClient,
+  address: `0x${string}`,
+  fromBlock: bigint,
+  previous: ContractLogs | undefined
+): Promise<ContractLogs> {
+  return extendScan(client, fromBlock, previous, async (from, to) =>
+    withTimestamps(client, await client.getLogs({ address, fromBlock: from, toBlock: to }))
+  );
+}
+
+function contractLogsKey(chainId: number, address: string) {
+  return ["contract-logs", chainId, address.toLowerCase()] as const;
+}
+
+function contractLogsQuery(
+  queryClient: QueryClient,
+  client: PublicClient | undefined,
+  chainId: number,
+  address: `0x${string}`,
+  fromBlock: bigint,
+  enabled: boolean
+) {
+  const queryKey = contractLogsKey(chainId, address);
+  return {
+    queryKey,
+    queryFn: () =>
+      scanContractLogs(client as PublicClient, address, fromBlock, queryClient.getQueryData<ContractLogs>(queryKey)),
+    enabled: enabled && !!client,
+    // Log scans are heavier than single reads, so poll less often
+    refetchInterval: 15_000,
+  };
+}
+
+/**
+ * Decoded event history for one or more contracts, scanned from the
+ * deployment block. Every hook on the same contract shares one scan, which
+ * only fetches new blocks on refresh; each caller decodes its own events.
+ */
+export function useContractEvents(
+  filter: Omit<ContractEventsFilter, "fromBlock"> & { enabled?: boolean }
+) {
+  const { chainId, deployment } = useDeployment();
+  const publicClient = usePublicClient({ chainId });
+  const queryClient = useQueryClient();
+  const { address, abi, eventNames, enabled = true } = filter;
+  const fromBlock = deployment?.deployBlock ?? 0n;
+  const addresses = Array.isArray(address) ? address : [address];
+  const eventKey = eventNames?.join(",");
+
+  const combine = useCallback(
+    (results: UseQueryResult<ContractLogs>[]) => {
+      const done = results.every((r) => r.data);
+      return {
+        data: done
+          ? decodeLogs(
+              results.flatMap((r) => r.data!.logs),
+              abi,
+              eventKey === undefined ? undefined : eventKey.split(",")
+            ).sort(byChainOrder)
+          : undefined,
+        isLoading: results.some((r) => r.isLoading),
+        error: results.find((r) => r.error)?.error ?? null,
+        dataUpdatedAt: Math.max(0, ...results.map((r) => r.dataUpdatedAt)),
+      };
+    },
+    [abi, eventKey]
+  );
+
+  return useQueries({
+    queries: addresses.map((a) => contractLogsQuery(queryClient, publicClient, chainId, a, fromBlock, enabled)),
+    combine,
+  });
+}
+
+/** One event, narrowed by the values of its indexed args */
+export interface TopicFilter {
+  eventName: string;
+  args: Record<string, `0x${string}`>;
+}
+
+/**
+ * Events on `address` that match any of `filters`, e.g. the transfers from
+ * or to one account, without fetching everyone else's logs. Scanned from the
+ * deployment block and extended incrementally like `useContractEvents`.
+ */
+export function useTopicEvents({
+  address,
+  abi,
+  filters,
+  enabled = true,
+}: {
+  address: `0x${string}`[];
+  abi: Abi;
+  filters: TopicFilter[];
+  enabled?: boolean;
+}) {
+  const { chainId, deployment } = useDeployment();
+  const publicClient = usePublicClient({ chainId });
+  const queryClient = useQueryClient();
+  const fromBlock = deployment?.deployBlock ?? 0n;
+  const queryKey = [
+    "topic-logs",
+    chainId,
+    address.map((a) => a.toLowerCase()),
+    filters.map((f) => [f.eventName, Object.entries(f.args).map(([k, v]) => `${k}=${v.toLowerCase()}`)]),
+  ];
+
+  const fetchRange = async (from: bigint, to: bigint) => {
+    const client = publicClient as PublicClient;
+    const batches = await Promise.all(
+      filters.map((f) =>
+        client.getLogs({
+          address,
+          event: eventsOf(abi, [f.eventName])[0],
+          args: f.args,
+          fromBlock: from,
+          toBlock: to,
+        })
+      )
+    );
+    // A log can match more than one filter, e.g. a transfer to oneself
+    const unique = new Map(batches.flat().map((log) => [`${log.transactionHash}:${log.logIndex}`, log]));
+    return (await withTimestamps(client, [...unique.values()]))
+      .map((log) => toContractEvent(log as TimedLog & { eventName: string; args: unknown }))
+      .sort(byChainOrder);
+  };
+
+  const query = useQuery({
+    queryKey,
+    queryFn: () => extendScan(publicClient as PublicClient, fromBlock, queryClient.getQueryData<LogScan<ContractEvent>>(queryKey), fetchRange),
+    enabled: enabled && !!publicClient && address.length > 0,
+    refetchInterval: 15_000,
+  });
+  return { data: query.data?.logs, isLoading: query.isLoading, error: query.error };
+}
+
+/** An indexed event in the shape a log scan produces; uint and int args go back to bigint */
+function fromIndexedEvent(e: IndexedEvent, events: AbiEvent[]): ContractEvent {
+  const inputs = events.find((ev) => ev.name === e.eventName)?.inputs ?? [];
+  const args: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(e.args)) {
+    const type = inputs.find((input) => input.name === name)?.type;
+    args[name] = typeof value === "string" && type && /^u?int\d*$/.test(type) ? BigInt(value) : value;
+  }
+  return {
+    address: e.contract,
+    eventName: e.eventName,
+    args,
+    blockNumber: BigInt(e.blockNumber),
+    logIndex: e.logIndex,
+    transactionHash: e.transactionHash,
+    timestamp: e.timestamp,
+  };
+}
+
+/** Every indexed event matching the filter, oldest first */
+export async function fetchIndexedEvents(
+  client: IndexerClient,
+  { address, abi, eventNames }: Omit<ContractEventsFilter, "fromBlock">
+): Promise<ContractEvent[]> {
+  const events = eventsOf(abi, eventNames);
+  if (events.length === 0) return [];
+
+  const out: ContractEvent[] = [];
+  for (const contract of Array.isArray(address) ? address : [address]) {
+    for (let offset = 0; ; offset += INDEXER_PAGE_SIZE) {
+      const page = await client.events({
+        contract,
+        eventName: events.map((e) => e.name),
+        order: "asc",
+        limit: INDEXER_PAGE_SIZE,
+        offset,
+      });
+      out.push(...page.events.map((e) => fromIndexedEvent(e, events)));
+      if (page.events.length === 0 || offset + page.events.length >= page.total) break;
+    }
+  }
+  return out.sort(byChainOrder);
+}
+
+/**
+ * `useContractEvents` for views that only display history. Reads from the
+ * indexer when NEXT_PUBLIC_INDEXER_URL points at one for the current chain,
+ * and falls back to a log scan without one or while it's unreachable. The
+ * indexer can trail the chain by its confirmation depth.
+ */
+export function useEventHistory(filter: Omit<ContractEventsFilter, "fromBlock"> & { enabled?: boolean }) {
+  const { chainId } = useDeployment();
+  const { address, abi, eventNames, enabled = true } = filter;
+
+  const status = useQuery({
+    queryKey: ["indexer-status"],
+    queryFn: () => indexer!.status(),
+    enabled: enabled && !!indexer,
+    staleTime: 60_000,
+    retry: false,
+  });
+  const covered = status.data?.chainId === chainId;
+
+  const addresses = (Array.isArray(address) ? address : [address]).map((a) => a.toLowerCase());
+  const indexed = useQuery({
+    queryKey: ["indexed-events", chainId, addresses, eventNames?.join(",") ?? "all"],
+    queryFn: () => fetchIndexedEvents(indexer!, { address, abi, eventNames }),
+    enabled: enabled && covered,
+    refetchInterval: 15_000,
+  });
+
+  const useIndexer = covered && !indexed.isError;
+  const scanned = useContractEvents({
+    ...filter,
+    enabled: enabled && (!indexer || status.isError || (status.isSuccess && !useIndexer)),
+  });
+
+  if (enabled && indexer && status.isPending) {
+    return { data: undefined, isLoading: true, error: null, dataUpdatedAt: 0 };
+  }
+  if (useIndexer) {
+    return {
+      data: indexed.data,
+      isLoading: indexed.isLoading,
+      error: indexed.error,
+      dataUpdatedAt: indexed.dataUpdatedAt,
+    };
+  }
+  return scanned;
+}
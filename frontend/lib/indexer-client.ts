@@ -0,0 +1,95 @@
+// Typed client for the event indexer's HTTP query API (see indexer/).
+// The same types describe the indexer's SQLite rows, so the service and its
+// consumers can't drift apart.
+
+export type ContractKind = "factory" | "token" | "registry" | "oracle";
+
+export interface IndexedAsset {
+  index: number;
+  token: `0x${string}`;
+  complianceRegistry: `0x${string}`;
+  navOracle: `0x${string}`;
+  assetType: string;
+  createdBlock: number;
+  createdAt: number;
+}
+
+export interface IndexedEvent {
+  id: number;
+  contract: `0x${string}`;
+  contractKind: ContractKind;
+  /** Factory index of the asset the contract belongs to (null for the factory) */
+  assetIndex: number | null;
+  eventName: string;
+  /** Decoded event args; uint values are decimal strings */
+  args: Record<string, string | boolean>;
+  blockNumber: number;
+  blockHash: `0x${string}`;
+  transactionHash: `0x${string}`;
+  logIndex: number;
+  /** Block timestamp (unix seconds) */
+  timestamp: number;
+}
+
+export interface EventQuery {
+  contract?: `0x${string}`;
+  assetIndex?: number;
+  eventName?: string | string[];
+  /** Match events where any address argument equals this account */
+  account?: `0x${string}`;
+  fromBlock?: number;
+  toBlock?: number;
+  order?: "asc" | "desc";
+  limit?: number;
+  offset?: number;
+}
+
+export interface EventPage {
+  events: IndexedEvent[];
+  total: number;
+}
+
+export interface IndexerStatus {
+  chainId: number;
+  factory: `0x${string}`;
+  lastIndexedBlock: number;
+  headBlock: number;
+  contracts: number;
+  events: number;
+}
+
+export class IndexerClient {
+  constructor(private readonly baseUrl: string) {}
+
+  private async get<T>(path: string, params: Record<string, string | number | undefined> = {}): Promise<T> {
+    const url = new URL(path, this.baseUrl);
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) url.searchParams.set(key, String(value));
+    }
+    const res = await fetch(url);
+    if (!res.ok) throw new Error(`Indexer ${path} failed: ${res.status} ${await res.text()}`);
+    return res.json() as Promise<T>;
+  }
+
+  status() {
+    return this.get<IndexerStatus>("/status");
+  }
+
+  assets() {
+    return this.get<IndexedAsset[]>("/assets");
+  }
+
+  events(query: EventQuery = {}) {
+    return this.get<EventPage>("/events", {
+      contract: query.contract,
+      asset: query.assetIndex,
+      event: Array.isArray(query.eventName) ? query.eventName.join(",") : query.eventName,
+      account: query.account,
+      fromBlock: query.fromBlock,
+      toBlock: query.toBlock,
+      order: query.order,
+      limit: query.limit,
+      offset: query.offset,
+    });
+  }
+}
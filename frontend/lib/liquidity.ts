@@ -0,0 +1,160 @@
+import { useQuery } from "@tanstack/react-query";
+import { usePublicClient } from "wagmi";
+import type { PublicClient } from "viem";
+import { erc20Abi, rwaTokenAbi } from "@/lib/abi";
+import { assetQueryKeys, type AssetSummary } from "@/lib/assets";
+import { useContractEvents, type ContractEvent } from "@/lib/event-logs";
+import { quoteInvest, quoteRedeem } from "@/lib/sdk";
+import { useDeployment } from "@/lib/wagmi";
+
+/** Coverage below this (in bps of liabilities) gets a warning badge. Defaults to 20% */
+export const COVERAGE_WARNING_BPS = Number(
+  process.env.NEXT_PUBLIC_COVERAGE_WARNING_BPS ?? "2000"
+);
+
+/** Days of `Redeemed` history the outflow rate is averaged over */
+export const OUTFLOW_WINDOW_DAYS = 7;
+
+const DAY = 86_400;
+
+export interface Liquidity {
+  /** Payment tokens held by the token contract, which pays every redemption */
+  reserve: bigint;
+  /** `totalSupply` valued at NAV, in payment token units */
+  liabilities: bigint;
+  /** reserve / liabilities in bps; null when nothing is outstanding */
+  coverageBps: number | null;
+  /** Tokens that can be redeemed right now, bounded by reserve, supply and the daily limit */
+  maxRedeemableTokens: bigint;
+  /** Payment out for `maxRedeemableTokens` */
+  maxRedeemablePayment: bigint;
+}
+
+export function computeLiquidity({
+  reserve,
+  totalSupply,
+  nav,
+  paymentTokenScale,
+  redeemCapacity,
+}: {
+  reserve: bigint;
+  totalSupply: bigint;
+  nav: bigint;
+  paymentTokenScale: bigint;
+  redeemCapacity: bigint;
+}): Liquidity {
+  const liabilities = quoteRedeem(totalSupply, nav, paymentTokenScale);
+  const coverageBps = liabilities === 0n ? null : Number((reserve * 10_000n) / liabilities);
+
+  // Invest math inverts redeem math: the most tokens `reserve` can pay out
+  let maxRedeemableTokens = quoteInvest(reserve, nav, paymentTokenScale);
+  if (maxRedeemableTokens > totalSupply) maxRedeemableTokens = totalSupply;
+  if (maxRedeemableTokens > redeemCapacity) maxRedeemableTokens = redeemCapacity;
+
+  return {
+    reserve,
+    liabilities,
+    coverageBps,
+    maxRedeemableTokens,
+    maxRedeemablePayment: quoteRedeem(maxRedeemableTokens, nav, paymentTokenScale),
+  };
+}
+
+export function isCoverageLow(coverageBps: number | null): boolean {
+  return coverageBps !== null && coverageBps < COVERAGE_WARNING_BPS;
+}
+
+/** Average payment paid out per day by `Redeemed` events in the window ending at `now` */
+export function dailyOutflow(
+  events: ContractEvent[],
+  now: number,
+  windowDays = OUTFLOW_WINDOW_DAYS
+): bigint {
+  const from = now - windowDays * DAY;
+  let total = 0n;
+  for (const e of events) {
+    if (e.eventName === "Redeemed" && e.timestamp >= from) total += e.args.paymentOut as bigint;
+  }
+  return total / BigInt(windowDays);
+}
+
+export interface ShortfallProjection {
+  /** Average payment out per day */
+  dailyOutflow: bigint;
+  /** How long the reserve lasts at that rate; null when nothing is flowing out */
+  daysOfCoverage: number | null;
+  /** Unix seconds when the reserve runs dry at that rate */
+  shortfallAt: number | null;
+}
+
+export function projectShortfall(reserve: bigint, outflow: bigint, now: number): ShortfallProjection {
+  if (outflow === 0n) return { dailyOutflow: 0n, daysOfCoverage: null, shortfallAt: null };
+  // Hundredths of a day keep the division in bigint
+  const daysOfCoverage = Number((reserve * 100n) / outflow) / 100;
+  return {
+    dailyOutflow: outflow,
+    daysOfCoverage,
+    shortfallAt: now + Math.floor(daysOfCoverage * DAY),
+  };
+}
+
+async function fetchReserve(client: PublicClient, summary: AssetSummary) {
+  const [reserve, redeemCapacity] = await client.multicall({
+    allowFailure: false,
+    contracts: [
+      { address: summary.paymentToken, abi: erc20Abi, functionName: "balanceOf", args: [summary.token] },
+      { address: summary.token, abi: rwaTokenAbi, functionName: "getRemainingRedeemCapacity" },
+    ],
+  });
+  return { reserve, redeemCapacity };
+}
+
+/**
+ * Reserve coverage for an asset, refreshed every block alongside its summary.
+ * Pass `withProjection` to also scan `Redeemed` logs for the outflow rate.
+ */
+export function useAssetLiquidity(
+  summary: AssetSummary | undefined,
+  { withProjection = false }: { withProjection?: boolean } = {}
+) {
+  const { chainId } = useDeployment();
+  const publicClient = usePublicClient({ chainId });
+
+  const reserveQuery = useQuery({
+    queryKey: assetQueryKeys.reserve(chainId, summary?.token ?? ""),
+    queryFn: () => fetchReserve(publicClient as PublicClient, summary!),
+    enabled: !!summary && !!publicClient,
+  });
+
+  const redemptions = useContractEvents({
+    address: summary?.token ?? "0x",
+    abi: rwaTokenAbi,
+    eventNames: ["Redeemed"],
+    enabled: withProjection && !!summary,
+  });
+
+  const liquidity =
+    summary && reserveQuery.data
+      ? computeLiquidity({
+          reserve: reserveQuery.data.reserve,
+          totalSupply: summary.totalSupply,
+          nav: summary.nav,
+          paymentTokenScale: summary.paymentTokenScale,
+          redeemCapacity: reserveQuery.data.redeemCapacity,
+        })
+      : undefined;
+
+  // The log fetch time stands in for "now" so the projection stays pure
+  const now = Math.floor(redemptions.dataUpdatedAt / 1000);
+  const projection =
+    liquidity && redemptions.data
+      ? projectShortfall(liquidity.reserve, dailyOutflow(redemptions.data, now), now)
+      : undefined;
+
+  return {
+    liquidity,
+    projection,
+    isLoading: reserveQuery.isLoading,
+    error: reserveQuery.error ?? redemptions.error,
+  };
+}
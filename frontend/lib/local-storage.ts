@@ -0,0 +1,33 @@
+import { useCallback, useSyncExternalStore } from "react";
+
+// Settings and uploads the app keeps in localStorage. Every component reading
+// a key re-renders when it changes, in this tab or (through the `storage`
+// event) in another one.
+
+const CHANGE_EVENT = "rwa:local-storage-change";
+
+function subscribe(onChange: () => void) {
+  window.addEventListener("storage", onChange);
+  window.addEventListener(CHANGE_EVENT, onChange);
+  return () => {
+    window.removeEventListener("storage", onChange);
+    window.removeEventListener(CHANGE_EVENT, onChange);
+  };
+}
+
+/** Store `value` under `key` and notify every `useLocalStorage` reading it */
+export function writeLocalStorage(key: string, value: string) {
+  window.localStorage.setItem(key, value);
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+}
+
+/** The raw value under `key`, null when unset and during server rendering */
+export function useLocalStorage(key: string) {
+  const value = useSyncExternalStore(
+    subscribe,
+    () => window.localStorage.getItem(key),
+    () => null
+  );
+  const setValue = useCallback((next: string) => writeLocalStorage(key, next), [key]);
+  return [value, setValue] as const;
+}
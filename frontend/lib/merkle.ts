@@ -0,0 +1,48 @@
+import { concat, encodeAbiParameters, keccak256, type Hex } from "viem";
+
+// Sorted-pair Merkle tree whose proofs verify with OpenZeppelin's
+// `MerkleProof.verify`. Leaves are double-hashed like OZ's
+// StandardMerkleTree so a leaf can never be mistaken for an inner node.
+
+/** Leaf for an (account, amount) claim: keccak256(keccak256(abi.encode(account, amount))) */
+export function claimLeaf(account: `0x${string}`, amount: bigint): Hex {
+  return keccak256(
+    keccak256(encodeAbiParameters([{ type: "address" }, { type: "uint256" }], [account, amount]))
+  );
+}
+
+function hashPair(a: Hex, b: Hex): Hex {
+  return keccak256(a.toLowerCase() < b.toLowerCase() ? concat([a, b]) : concat([b, a]));
+}
+
+/**
+ * Root and one proof per leaf, in the order the leaves were given. An odd
+ * node at the end of a layer is carried up unchanged.
+ */
+export function buildMerkleTree(leaves: Hex[]): { root: Hex; proofs: Hex[][] } {
+  if (leaves.length === 0) throw new Error("Merkle tree needs at least one leaf");
+
+  const proofs: Hex[][] = leaves.map(() => []);
+  // Position of each original leaf in the current layer
+  const positions = leaves.map((_, i) => i);
+  let layer = leaves;
+
+  while (layer.length > 1) {
+    const next: Hex[] = [];
+    for (let i = 0; i < layer.length; i += 2) {
+      next.push(i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i]);
+    }
+    positions.forEach((pos, leaf) => {
+      const sibling = pos ^ 1;
+      if (sibling < layer.length) proofs[leaf].push(layer[sibling]);
+      positions[leaf] = pos >> 1;
+    });
+    layer = next;
+  }
+
+  return { root: layer[0], proofs };
+}
+
+export function verifyMerkleProof(leaf: Hex, proof: Hex[], root: Hex): boolean {
+  return proof.reduce(hashPair, leaf).toLowerCase() === root.toLowerCase();
+}
@@ -0,0 +1,100 @@
+import { formatUnits } from "viem";
+import { navReturn } from "@/lib/nav-history";
+import { navChangeBps } from "@/lib/utils";
+
+// Checks on a manual NAV update before the updater signs it. NAVOracle only
+// refuses decreases; a mistyped 1050 for 1.050 goes straight through and
+// reprices every holder, so large moves need the value typed a second time.
+
+/** Change against the current NAV, in bps, beyond which the update must be confirmed */
+export const NAV_CONFIRM_CHANGE_BPS = Number(
+  process.env.NEXT_PUBLIC_NAV_CONFIRM_CHANGE_BPS ?? "500"
+);
+
+/** Annualized return since the last update, in bps, beyond which the update must be confirmed */
+export const NAV_CONFIRM_APR_BPS = Number(
+  process.env.NEXT_PUBLIC_NAV_CONFIRM_APR_BPS ?? "5000"
+);
+
+const YEAR = 365 * 86_400;
+const WAD = 10n ** 18n;
+
+export type NavWarning =
+  | { kind: "decrease" }
+  | { kind: "magnitude"; factor: number; suggestion: bigint }
+  | { kind: "change"; changeBps: number }
+  | { kind: "annualized"; annualizedReturn: number };
+
+export interface NavUpdatePreview {
+  changeBps: number;
+  /** Compound annual rate implied by the move since lastUpdated; null if no time has passed */
+  annualizedReturn: number | null;
+  /** Seconds since lastUpdated */
+  elapsed: number;
+  /** totalSupply × NAV, 1e18-scale dollars */
+  aumBefore: bigint;
+  aumAfter: bigint;
+  warnings: NavWarning[];
+  /** The contract would revert with NAVDecreased */
+  willRevert: boolean;
+  needsConfirmation: boolean;
+}
+
+export function previewNavUpdate({
+  currentNav,
+  newNav,
+  lastUpdated,
+  totalSupply,
+  now,
+}: {
+  currentNav: bigint;
+  newNav: bigint;
+  lastUpdated: bigint;
+  totalSupply: bigint;
+  now: number;
+}): NavUpdatePreview {
+  const ret = navReturn(currentNav, newNav);
+  const changeBps = navChangeBps(currentNav, newNav);
+  const elapsed = Math.max(0, now - Number(lastUpdated));
+  const annualizedReturn = elapsed > 0 && ret > -1 ? Math.pow(1 + ret, YEAR / elapsed) - 1 : null;
+
+  const warnings: NavWarning[] = [];
+  if (newNav < currentNav) warnings.push({ kind: "decrease" });
+
+  // A power-of-ten slip: suggest the value with the decimal point moved back
+  const factor = currentNav > 0n ? Number(newNav) / Number(currentNav) : 0;
+  if (factor >= 10 || (factor > 0 && factor <= 0.1)) {
+    const shift = Math.round(Math.log10(factor));
+    const suggestion = shift > 0 ? newNav / 10n ** BigInt(shift) : newNav * 10n ** BigInt(-shift);
+    warnings.push({ kind: "magnitude", factor, suggestion });
+  } else if (Math.abs(changeBps) > NAV_CONFIRM_CHANGE_BPS) {
+    warnings.push({ kind: "change", changeBps });
+  }
+  if (annualizedReturn !== null && annualizedReturn * 10_000 > NAV_CONFIRM_APR_BPS) {
+    warnings.push({ kind: "annualized", annualizedReturn });
+  }
+
+  const willRevert = newNav < currentNav;
+  return {
+    changeBps,
+    annualizedReturn,
+    elapsed,
+    aumBefore: (totalSupply * currentNav) / WAD,
+    aumAfter: (totalSupply * newNav) / WAD,
+    warnings,
+    willRevert,
+    needsConfirmation: !willRevert && warnings.length > 0,
+  };
+}
+
+/** What the updater has to type to confirm: the NAV exactly as it will be published */
+export function navConfirmationText(newNav: bigint): string {
+  return formatUnits(newNav, 18);
+}
+
+/** A return as a signed percentage, capped so huge annualized figures stay readable */
+export function formatReturn(r: number): string {
+  if (!Number.isFinite(r) || Math.abs(r) >= 100) return r < 0 ? "< -9,999%" : "> 9,999%";
+  const pct = (r * 100).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return `${r > 0 ? "+" : ""}${pct}%`;
+}
@@ -0,0 +1,139 @@
+import { navOracleAbi } from "@/lib/abi";
+import { useEventHistory, type ContractEvent } from "@/lib/event-logs";
+
+/** NAVOracle.initialize starts every oracle at $1.00 */
+const INITIAL_NAV = 10n ** 18n;
+const DAY = 86_400;
+const YEAR = 365 * DAY;
+
+export interface NavPoint {
+  /** Unix seconds */
+  timestamp: number;
+  /** NAV per token, 1e18 scale */
+  nav: bigint;
+}
+
+export type NavPeriod = "1M" | "3M" | "YTD" | "ITD";
+
+export const NAV_PERIODS: { value: NavPeriod; label: string }[] = [
+  { value: "1M", label: "1M" },
+  { value: "3M", label: "3M" },
+  { value: "YTD", label: "YTD" },
+  { value: "ITD", label: "Since inception" },
+];
+
+export interface NavPerformance {
+  current: bigint;
+  inception: NavPoint;
+  /** Simple return over each period (0.05 = 5%), null if the asset is younger than the period */
+  returns: Record<NavPeriod, number | null>;
+  /** Compound annual growth since inception, null until there is any history */
+  annualizedYield: number | null;
+}
+
+/**
+ * Build the NAV series from an oracle's logs. The oracle's initialization
+ * (its first OwnershipTransferred) marks inception at $1.00; each
+ * NAVUpdated adds a point at the timestamp the contract recorded.
+ */
+export function toNavSeries(events: ContractEvent[]): NavPoint[] {
+  const series: NavPoint[] = [];
+  const init = events.find((e) => e.eventName === "OwnershipTransferred");
+  const updates = events.filter((e) => e.eventName === "NAVUpdated");
+
+  if (init) {
+    const firstOld = updates[0]?.args.oldNav as bigint | undefined;
+    series.push({ timestamp: init.timestamp, nav: firstOld ?? INITIAL_NAV });
+  } else if (updates.length > 0) {
+    series.push({
+      timestamp: updates[0].timestamp,
+      nav: updates[0].args.oldNav as bigint,
+    });
+  }
+
+  for (const e of updates) {
+    series.push({
+      timestamp: Number(e.args.timestamp as bigint),
+      nav: e.args.newNav as bigint,
+    });
+  }
+  return series;
+}
+
+/** NAV in effect at `timestamp` (the last point at or before it) */
+export function navAt(series: NavPoint[], timestamp: number): bigint | undefined {
+  let nav: bigint | undefined;
+  for (const p of series) {
+    if (p.timestamp > timestamp) break;
+    nav = p.nav;
+  }
+  return nav;
+}
+
+/** `to / from - 1` as a float, computed in bigint to keep 1e18-scale precision */
+export function navReturn(from: bigint, to: bigint): number {
+  if (from === 0n) return 0;
+  return Number(((to - from) * 10n ** 12n) / from) / 1e12;
+}
+
+export function periodStart(period: NavPeriod, now: number, inception: number): number {
+  switch (period) {
+    case "1M":
+      return now - 30 * DAY;
+    case "3M":
+      return now - 91 * DAY;
+    case "YTD":
+      return Date.UTC(new Date(now * 1000).getUTCFullYear(), 0, 1) / 1000;
+    case "ITD":
+      return inception;
+  }
+}
+
+/** Points from `from` onwards, starting with the NAV in effect at `from` */
+export function sliceNavSeries(series: NavPoint[], from: number): NavPoint[] {
+  const startNav = navAt(series, from);
+  const rest = series.filter((p) => p.timestamp > from);
+  return startNav === undefined ? rest : [{ timestamp: from, nav: startNav }, ...rest];
+}
+
+export function navPerformance(
+  series: NavPoint[],
+  now = Math.floor(Date.now() / 1000)
+): NavPerformance | undefined {
+  if (series.length === 0) return undefined;
+  const inception = series[0];
+  const current = series[series.length - 1].nav;
+
+  const returns = {} as Record<NavPeriod, number | null>;
+  for (const { value } of NAV_PERIODS) {
+    const start = periodStart(value, now, inception.timestamp);
+    const startNav = navAt(series, start);
+    returns[value] = startNav === undefined ? null : navReturn(startNav, current);
+  }
+
+  const elapsed = now - inception.timestamp;
+  const annualizedYield =
+    elapsed > 0 && series.length > 1
+      ? Math.pow(1 + navReturn(inception.nav, current), YEAR / elapsed) - 1
+      : null;
+
+  return { current, inception, returns, annualizedYield };
+}
+
+/** NAV series and performance for an oracle, built from its event logs */
+export function useNavHistory(oracleAddress: `0x${string}` | undefined) {
+  const query = useEventHistory({
+    address: oracleAddress ?? "0x",
+    abi: navOracleAbi,
+    eventNames: ["NAVUpdated", "OwnershipTransferred"],
+    enabled: !!oracleAddress,
+  });
+
+  const series = query.data ? toNavSeries(query.data) : [];
+  return {
+    series,
+    performance: navPerformance(series),
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+}
@@ -0,0 +1,247 @@
+import { zeroAddress } from "viem";
+import { useReadContracts } from "wagmi";
+import { erc20Abi, rwaTokenAbi } from "@/lib/abi";
+import { useDeployedAssets } from "@/lib/assets";
+import type { PaymentToken } from "@/lib/deployments";
+import { useTopicEvents, type ContractEvent } from "@/lib/event-logs";
+import type { DeployedAsset } from "@/lib/sdk";
+import { useDeployment } from "@/lib/wagmi";
+
+export interface CostBasis {
+  /** Tokens acquired through `invest` and still held */
+  tokens: bigint;
+  /** Payment token paid for those tokens */
+  cost: bigint;
+  /** Tokens received by transfer or owner mint, which carry no known cost */
+  untrackedTokens: bigint;
+}
+
+export interface Position {
+  asset: DeployedAsset;
+  name?: string;
+  symbol?: string;
+  balance: bigint;
+  paymentToken: PaymentToken;
+  /** Current value in payment token units (`getTokenValue(balance)`) */
+  value: bigint;
+  costBasis: CostBasis;
+  /** `value - cost` over the tokens that have a cost basis; undefined if none do */
+  unrealizedPnl?: bigint;
+}
+
+export interface Allocation {
+  assetType: string;
+  value: bigint;
+  /** Share of total portfolio value, 0..1 */
+  weight: number;
+}
+
+/**
+ * Totals for the positions priced in one payment token. Amounts in different
+ * tokens (and decimals) can't be added, so there is one per token.
+ */
+export interface PortfolioTotal {
+  paymentToken: PaymentToken;
+  value: bigint;
+  cost: bigint;
+  pnl: bigint;
+  allocation: Allocation[];
+}
+
+const emptyBasis = (): CostBasis => ({ tokens: 0n, cost: 0n, untrackedTokens: 0n });
+
+/**
+ * Average-cost basis per token for `account`, replayed from RWAToken logs
+ * (oldest first). Invests add cost; redeems and transfers out release it
+ * pro rata. Keys are lowercase token addresses.
+ */
+export function toCostBasis(events: ContractEvent[], account: `0x${string}`): Map<string, CostBasis> {
+  const me = account.toLowerCase();
+  const byToken = new Map<string, CostBasis>();
+  const investRedeemTxs = new Set(
+    events
+      .filter((e) => e.eventName === "Invested" || e.eventName === "Redeemed")
+      .map((e) => e.transactionHash)
+  );
+
+  const release = (basis: CostBasis, amount: bigint) => {
+    // Untracked tokens go first so the known cost basis survives as long as possible
+    const fromUntracked = amount < basis.untrackedTokens ? amount : basis.untrackedTokens;
+    basis.untrackedTokens -= fromUntracked;
+    const fromTracked = amount - fromUntracked;
+    if (fromTracked === 0n || basis.tokens === 0n) return;
+    const released = fromTracked > basis.tokens ? basis.tokens : fromTracked;
+    basis.cost -= (basis.cost * released) / basis.tokens;
+    basis.tokens -= released;
+  };
+
+  for (const e of events) {
+    const token = e.address.toLowerCase();
+    const basis = byToken.get(token) ?? emptyBasis();
+    const a = e.args;
+
+    switch (e.eventName) {
+      case "Invested":
+        if ((a.investor as string).toLowerCase() !== me) continue;
+        basis.tokens += a.tokensOut as bigint;
+        basis.cost += a.paymentAmount as bigint;
+        break;
+      case "Redeemed":
+        if ((a.investor as string).toLowerCase() !== me) continue;
+        release(basis, a.tokenAmount as bigint);
+        break;
+      case "Transfer": {
+        // The mint/burn inside invest/redeem is already counted above
+        if (investRedeemTxs.has(e.transactionHash)) continue;
+        const from = (a.from as string).toLowerCase();
+        const to = (a.to as string).toLowerCase();
+        const value = a.value as bigint;
+        if (to === me) basis.untrackedTokens += value;
+        else if (from === me) release(basis, value);
+        else continue;
+        break;
+      }
+      default:
+        continue;
+    }
+    byToken.set(token, basis);
+  }
+  return byToken;
+}
+
+export function toAllocation(positions: Position[]): Allocation[] {
+  const total = positions.reduce((sum, p) => sum + p.value, 0n);
+  const byType = new Map<string, bigint>();
+  for (const p of positions) {
+    byType.set(p.asset.assetType, (byType.get(p.asset.assetType) ?? 0n) + p.value);
+  }
+  return [...byType.entries()]
+    .map(([assetType, value]) => ({
+      assetType,
+      value,
+      weight: total === 0n ? 0 : Number((value * 10_000n) / total) / 10_000,
+    }))
+    .sort((a, b) => (b.value > a.value ? 1 : b.value < a.value ? -1 : 0));
+}
+
+/** Group positions by payment token, largest value first */
+export function toTotals(positions: Position[]): PortfolioTotal[] {
+  const groups = new Map<string, Position[]>();
+  for (const p of positions) {
+    const key = p.paymentToken.address.toLowerCase();
+    groups.set(key, [...(groups.get(key) ?? []), p]);
+  }
+  return [...groups.values()]
+    .map((group) => ({
+      paymentToken: group[0].paymentToken,
+      value: group.reduce((sum, p) => sum + p.value, 0n),
+      cost: group.reduce((sum, p) => sum + p.costBasis.cost, 0n),
+      pnl: group.reduce((sum, p) => sum + (p.unrealizedPnl ?? 0n), 0n),
+      allocation: toAllocation(group),
+    }))
+    .sort((a, b) => (b.value > a.value ? 1 : b.value < a.value ? -1 : 0));
+}
+
+/** Every factory asset the account holds, valued at the current NAV */
+export function usePortfolio(account: `0x${string}` | undefined) {
+  const { chainId } = useDeployment();
+  const { assets, isLoading: isAssetsLoading } = useDeployedAssets();
+  const enabled = !!account && assets.length > 0;
+
+  // One multicall for name, symbol, balance and payment token of every asset
+  const { data: reads, isLoading: isReadsLoading } = useReadContracts({
+    contracts: assets.flatMap((asset) => [
+      { chainId, address: asset.token, abi: rwaTokenAbi, functionName: "name" } as const,
+      { chainId, address: asset.token, abi: rwaTokenAbi, functionName: "symbol" } as const,
+      {
+        chainId,
+        address: asset.token,
+        abi: rwaTokenAbi,
+        functionName: "balanceOf",
+        args: [account ?? zeroAddress],
+      } as const,
+      { chainId, address: asset.token, abi: rwaTokenAbi, functionName: "paymentToken" } as const,
+    ]),
+    query: { enabled },
+  });
+
+  const holdings = assets
+    .map((asset, i) => ({
+      asset,
+      name: reads?.[4 * i]?.result as string | undefined,
+      symbol: reads?.[4 * i + 1]?.result as string | undefined,
+      balance: (reads?.[4 * i + 2]?.result as bigint | undefined) ?? 0n,
+      paymentToken: (reads?.[4 * i + 3]?.result as `0x${string}` | undefined) ?? zeroAddress,
+    }))
+    .filter((h) => h.balance > 0n);
+  const paymentTokens = [...new Set(holdings.map((h) => h.paymentToken))];
+
+  // Second multicall values only the non-zero balances, and reads the
+  // decimals and symbol of the payment tokens they're valued in
+  const { data: values, isLoading: isValuesLoading } = useReadContracts({
+    contracts: [
+      ...holdings.map((h) => ({
+        chainId,
+        address: h.asset.token,
+        abi: rwaTokenAbi,
+        functionName: "getTokenValue",
+        args: [h.balance],
+      } as const)),
+      ...paymentTokens.flatMap((address) => [
+        { chainId, address, abi: erc20Abi, functionName: "decimals" } as const,
+        { chainId, address, abi: erc20Abi, functionName: "symbol" } as const,
+      ]),
+    ],
+    query: { enabled: holdings.length > 0 },
+  });
+  const paymentTokenInfo = new Map(
+    paymentTokens.map((address, i) => {
+      const at = holdings.length + 2 * i;
+      return [
+        address,
+        {
+          address,
+          decimals: (values?.[at]?.result as number | undefined) ?? 18,
+          symbol: (values?.[at + 1]?.result as string | undefined) ?? "",
+        },
+      ];
+    })
+  );
+
+  // Only this account's logs: its invests and redeems, and transfers to or from it
+  const { data: events, isLoading: isEventsLoading } = useTopicEvents({
+    address: assets.map((a) => a.token),
+    abi: rwaTokenAbi,
+    filters: account
+      ? [
+          { eventName: "Invested", args: { investor: account } },
+          { eventName: "Redeemed", args: { investor: account } },
+          { eventName: "Transfer", args: { from: account } },
+          { eventName: "Transfer", args: { to: account } },
+        ]
+      : [],
+    enabled,
+  });
+  const basis = events && account ? toCostBasis(events, account) : new Map<string, CostBasis>();
+
+  const positions: Position[] = holdings.map((h, i) => {
+    const value = (values?.[i]?.result as bigint | undefined) ?? 0n;
+    const costBasis = basis.get(h.asset.token.toLowerCase()) ?? emptyBasis();
+    // Only the share of the position with a known cost is compared against it
+    const trackedValue = h.balance === 0n ? 0n : (value * costBasis.tokens) / h.balance;
+    return {
+      ...h,
+      paymentToken: paymentTokenInfo.get(h.paymentToken)!,
+      value,
+      costBasis,
+      unrealizedPnl: costBasis.tokens > 0n ? trackedValue - costBasis.cost : undefined,
+    };
+  });
+
+  return {
+    positions,
+    totals: toTotals(positions),
+    isLoading: isAssetsLoading || (enabled && (isReadsLoading || isValuesLoading)),
+    isCostBasisLoading: isEventsLoading,
+  };
+}
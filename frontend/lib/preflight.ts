@@ -0,0 +1,171 @@
+import { useReadContract, useReadContracts, useSimulateContract } from "wagmi";
+import { zeroAddress } from "viem";
+import { complianceRegistryAbi, erc20Abi, navOracleAbi, rwaTokenAbi } from "@/lib/abi";
+import { formatContractError, formatPayment, type ErrorContext } from "@/lib/errors";
+import { useDeployment } from "@/lib/wagmi";
+import { formatTokens } from "@/lib/utils";
+
+export type CheckStatus = "pass" | "fail" | "pending";
+
+export interface PreflightCheck {
+  id: string;
+  label: string;
+  status: CheckStatus;
+  /** Why the check failed, shown under the label */
+  reason?: string;
+  /**
+   * Approval is the one failing check the user can fix from the panel
+   * itself, so it doesn't block the Approve button.
+   */
+  blocksApproval?: boolean;
+}
+
+export interface TradePreflightParams {
+  action: "invest" | "redeem";
+  tokenAddress: `0x${string}`;
+  paymentTokenAddress: `0x${string}`;
+  navOracleAddress: `0x${string}`;
+  account: `0x${string}` | undefined;
+  /** Payment units for invest, token units for redeem */
+  amount: bigint;
+  /** Expected output at the current NAV, for the reserve check */
+  expectedOut: bigint;
+  /** minTokensOut / minPaymentOut passed to the contract */
+  minOut: bigint;
+  errorContext: ErrorContext;
+}
+
+function check(
+  id: string,
+  label: string,
+  ok: boolean | undefined,
+  reason: string,
+  blocksApproval = true
+): PreflightCheck {
+  return {
+    id,
+    label,
+    status: ok === undefined ? "pending" : ok ? "pass" : "fail",
+    reason: ok === false ? reason : undefined,
+    blocksApproval,
+  };
+}
+
+/**
+ * Every condition `RWAToken.invest` / `redeem` checks, read up front in one
+ * multicall, followed by a full `simulateContract` once they all pass.
+ */
+export function useTradePreflight({
+  action,
+  tokenAddress,
+  paymentTokenAddress,
+  navOracleAddress,
+  account,
+  amount,
+  expectedOut,
+  minOut,
+  errorContext,
+}: TradePreflightParams) {
+  const { chainId } = useDeployment();
+  const user = account ?? zeroAddress;
+
+  const { data: registry } = useReadContract({
+    address: tokenAddress,
+    abi: rwaTokenAbi,
+    functionName: "complianceRegistry",
+  });
+
+  const { data: reads } = useReadContracts({
+    allowFailure: false,
+    contracts: [
+      { chainId, address: registry ?? zeroAddress, abi: complianceRegistryAbi, functionName: "isEligible", args: [user] },
+      { chainId, address: tokenAddress, abi: rwaTokenAbi, functionName: "paused" },
+      { chainId, address: navOracleAddress, abi: navOracleAbi, functionName: "isStale" },
+      { chainId, address: tokenAddress, abi: rwaTokenAbi, functionName: "getRemainingInvestCapacity" },
+      { chainId, address: tokenAddress, abi: rwaTokenAbi, functionName: "getRemainingRedeemCapacity" },
+      { chainId, address: paymentTokenAddress, abi: erc20Abi, functionName: "balanceOf", args: [tokenAddress] },
+      { chainId, address: paymentTokenAddress, abi: erc20Abi, functionName: "balanceOf", args: [user] },
+      { chainId, address: paymentTokenAddress, abi: erc20Abi, functionName: "allowance", args: [user, tokenAddress] },
+      { chainId, address: tokenAddress, abi: rwaTokenAbi, functionName: "balanceOf", args: [user] },
+    ],
+    query: { enabled: !!account && !!registry },
+  });
+
+  const [
+    isEligible,
+    paused,
+    isStale,
+    investCapacity,
+    redeemCapacity,
+    reserve,
+    paymentBalance,
+    allowance,
+    tokenBalance,
+  ] = reads ?? [];
+
+  const ctx = errorContext;
+  const checks: PreflightCheck[] = [
+    check("eligible", "Eligible in compliance registry", isEligible,
+      "Your address must be whitelisted and not frozen. Contact the compliance officer."),
+    check("not-paused", "Token is not paused", paused === undefined ? undefined : !paused,
+      "The issuer has paused invest and redeem."),
+    check("nav-fresh", "NAV is up to date", isStale === undefined ? undefined : !isStale,
+      "The oracle hasn't published a NAV within its staleness window."),
+    check("amount", "Amount is greater than zero", amount > 0n, "Enter an amount."),
+  ];
+
+  if (action === "invest") {
+    checks.push(
+      check("capacity", "Within daily invest limit",
+        investCapacity === undefined ? undefined : amount <= investCapacity,
+        `Only ${investCapacity !== undefined ? formatPayment(investCapacity, ctx) : ""} can be invested today.`),
+      check("balance", "Sufficient balance",
+        paymentBalance === undefined ? undefined : amount <= paymentBalance,
+        `You have ${paymentBalance !== undefined ? formatPayment(paymentBalance, ctx) : ""}.`),
+      check("allowance", "Payment token approved",
+        allowance === undefined ? undefined : amount <= allowance,
+        "Approve the payment token before investing.", false)
+    );
+  } else {
+    checks.push(
+      check("capacity", "Within daily redeem limit",
+        redeemCapacity === undefined ? undefined : amount <= redeemCapacity,
+        `Only ${redeemCapacity !== undefined ? formatTokens(redeemCapacity) : ""} tokens can be redeemed today.`),
+      check("balance", "Sufficient token balance",
+        tokenBalance === undefined ? undefined : amount <= tokenBalance,
+        `You have ${tokenBalance !== undefined ? formatTokens(tokenBalance) : ""} tokens.`),
+      check("reserve", "Reserve covers the payout",
+        reserve === undefined ? undefined : expectedOut <= reserve,
+        `The asset's reserve holds ${reserve !== undefined ? formatPayment(reserve, ctx) : ""}. Try a smaller amount.`)
+    );
+  }
+
+  const explicitPassed = checks.every((c) => c.status === "pass");
+
+  const simulation = useSimulateContract({
+    chainId,
+    address: tokenAddress,
+    abi: rwaTokenAbi,
+    functionName: action,
+    args: [amount, minOut],
+    account,
+    // Only simulate once the cheap checks pass, so its error is never redundant
+    query: { enabled: !!account && explicitPassed },
+  });
+
+  checks.push({
+    id: "simulation",
+    label: "Transaction simulation succeeds",
+    status: !explicitPassed || simulation.isFetching ? "pending" : simulation.isSuccess ? "pass" : "fail",
+    reason: simulation.error ? formatContractError(simulation.error, ctx) : undefined,
+    blocksApproval: false,
+  });
+
+  return {
+    checks,
+    /** Every check, including the simulation, passed */
+    canSubmit: !!account && checks.every((c) => c.status === "pass"),
+    /** Everything except approval and simulation passed */
+    canApprove: !!account && checks.every((c) => c.status === "pass" || !c.blocksApproval),
+  };
+}
@@ -0,0 +1,253 @@
+import { useCallback } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { formatUnits, isAddress, parseUnits, recoverMessageAddress, type Hex } from "viem";
+import { useLocalStorage } from "@/lib/local-storage";
+
+// Custodian attestations tie CommodityToken supply to physical inventory.
+// Each one is an EIP-191 signed statement of how much of the commodity sits
+// in one vault; the latest accepted attestation per vault makes up the
+// reserve. Only custodians listed for the token in deployments.json are
+// accepted, since anyone can sign a file naming themselves as custodian.
+
+/** Attested vs on-chain backing ratio gap that gets flagged, in bps */
+export const RATIO_TOLERANCE_BPS = 50;
+
+const WAD = 10n ** 18n;
+
+/** An attestation as uploaded; `quantity` is a decimal string in `unit` */
+export interface AttestationInput {
+  token: `0x${string}`;
+  vault: string;
+  quantity: string;
+  unit: string;
+  /** Unix seconds */
+  timestamp: number;
+  custodian: `0x${string}`;
+  signature: Hex;
+}
+
+export interface Attestation extends AttestationInput {
+  /** `quantity` as an 18-decimal fixed-point number */
+  quantityWad: bigint;
+  /** Address that actually signed the message */
+  signer: `0x${string}`;
+  /** `signer` is the claimed custodian */
+  signatureValid: boolean;
+  /** The custodian is on the token's trusted list */
+  trusted: boolean;
+}
+
+/** The exact text custodians sign with `personal_sign` */
+export function attestationMessage(a: Omit<AttestationInput, "custodian" | "signature">): string {
+  return [
+    "Proof of reserve attestation",
+    `Token: ${a.token.toLowerCase()}`,
+    `Vault: ${a.vault}`,
+    `Quantity: ${a.quantity}`,
+    `Unit: ${a.unit}`,
+    `Timestamp: ${a.timestamp}`,
+  ].join("\n");
+}
+
+function parseTimestamp(value: unknown): number {
+  if (typeof value === "number") return value;
+  if (typeof value === "string") {
+    if (/^\d+$/.test(value)) return Number(value);
+    const ms = Date.parse(value);
+    if (!isNaN(ms)) return Math.floor(ms / 1000);
+  }
+  throw new Error("timestamp must be unix seconds or an ISO date");
+}
+
+/** Parse one attestation or an array of them, with a readable error for bad input */
+export function parseAttestations(text: string): AttestationInput[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Not a JSON file");
+  }
+  const items = Array.isArray(data) ? data : [data];
+  return items.map((item, i) => {
+    const where = items.length > 1 ? `Attestation ${i + 1}: ` : "";
+    const a = item as Record<string, unknown>;
+    for (const field of ["token", "vault", "quantity", "unit", "custodian", "signature"]) {
+      if (typeof a?.[field] !== "string" || !a[field]) throw new Error(`${where}missing "${field}"`);
+    }
+    if (!isAddress(a.token as string)) throw new Error(`${where}invalid token address`);
+    if (!isAddress(a.custodian as string)) throw new Error(`${where}invalid custodian address`);
+    if (!/^\d+(\.\d+)?$/.test(a.quantity as string)) throw new Error(`${where}quantity must be a decimal number`);
+    let timestamp: number;
+    try {
+      timestamp = parseTimestamp(a.timestamp);
+    } catch (err) {
+      throw new Error(`${where}${(err as Error).message}`);
+    }
+    return {
+      token: a.token as `0x${string}`,
+      vault: a.vault as string,
+      quantity: a.quantity as string,
+      unit: a.unit as string,
+      timestamp,
+      custodian: a.custodian as `0x${string}`,
+      signature: a.signature as Hex,
+    };
+  });
+}
+
+/** Recover the signer and check it against the claimed custodian and the trusted list */
+export async function verifyAttestation(
+  input: AttestationInput,
+  trustedCustodians: readonly string[]
+): Promise<Attestation> {
+  let signer: `0x${string}` = "0x0000000000000000000000000000000000000000";
+  try {
+    signer = await recoverMessageAddress({
+      message: attestationMessage(input),
+      signature: input.signature,
+    });
+  } catch {
+    // Malformed signature; reported as invalid below
+  }
+  return {
+    ...input,
+    quantityWad: parseUnits(input.quantity, 18),
+    signer,
+    signatureValid: signer.toLowerCase() === input.custodian.toLowerCase(),
+    trusted: trustedCustodians.some((c) => c.toLowerCase() === input.custodian.toLowerCase()),
+  };
+}
+
+/** Signed by the custodian it names, and that custodian is trusted for the token */
+export function isAccepted(a: Attestation): boolean {
+  return a.signatureValid && a.trusted;
+}
+
+/** The newest attestation for each vault, which together make up the reserve */
+export function latestByVault(attestations: Attestation[]): Attestation[] {
+  const latest = new Map<string, Attestation>();
+  for (const a of attestations) {
+    const current = latest.get(a.vault);
+    if (!current || a.timestamp > current.timestamp) latest.set(a.vault, a);
+  }
+  return [...latest.values()];
+}
+
+export type ReserveIssue =
+  | { kind: "signature"; vault: string }
+  | { kind: "untrusted"; vault: string; custodian: `0x${string}` }
+  | { kind: "unit"; vault: string; unit: string }
+  | { kind: "token"; vault: string }
+  | { kind: "undercollateralized"; shortfall: bigint }
+  | { kind: "ratio-divergence"; attestedRatio: bigint; divergenceBps: number };
+
+export interface ReserveCheck {
+  /** Sum of the latest valid attestation per vault, 18 decimals */
+  attestedQuantity: bigint;
+  /** totalSupply × backingRatio: what the chain says should be in the vaults */
+  requiredQuantity: bigint;
+  /** attestedQuantity / totalSupply, 1e18 = 1:1; null with no supply */
+  attestedRatio: bigint | null;
+  issues: ReserveIssue[];
+}
+
+/**
+ * Compare the vaults' latest attestations with on-chain supply, unit and
+ * backing ratio. Attestations with a bad signature or an untrusted custodian
+ * never count, so they can't displace a vault's last accepted one; they're
+ * reported when newer than it. The wrong token or unit is reported and left
+ * out of the total.
+ */
+export function checkReserve(
+  attestations: Attestation[],
+  { token, unit, totalSupply, backingRatio }: {
+    token: `0x${string}`;
+    unit: string;
+    totalSupply: bigint;
+    backingRatio: bigint;
+  }
+): ReserveCheck {
+  const issues: ReserveIssue[] = [];
+  let attestedQuantity = 0n;
+
+  const latest = latestByVault(attestations.filter(isAccepted));
+  const acceptedAt = new Map(latest.map((a) => [a.vault, a.timestamp]));
+  for (const a of latestByVault(attestations.filter((a) => !isAccepted(a)))) {
+    if (a.timestamp <= (acceptedAt.get(a.vault) ?? -Infinity)) continue;
+    if (!a.signatureValid) issues.push({ kind: "signature", vault: a.vault });
+    else issues.push({ kind: "untrusted", vault: a.vault, custodian: a.custodian });
+  }
+
+  for (const a of latest) {
+    if (a.token.toLowerCase() !== token.toLowerCase()) issues.push({ kind: "token", vault: a.vault });
+    else if (a.unit.trim().toLowerCase() !== unit.trim().toLowerCase())
+      issues.push({ kind: "unit", vault: a.vault, unit: a.unit });
+    else attestedQuantity += a.quantityWad;
+  }
+
+  const requiredQuantity = (totalSupply * backingRatio) / WAD;
+  if (attestedQuantity < requiredQuantity) {
+    issues.push({ kind: "undercollateralized", shortfall: requiredQuantity - attestedQuantity });
+  }
+
+  const attestedRatio = totalSupply === 0n ? null : (attestedQuantity * WAD) / totalSupply;
+  if (attestedRatio !== null && backingRatio > 0n) {
+    const diff = attestedRatio > backingRatio ? attestedRatio - backingRatio : backingRatio - attestedRatio;
+    const divergenceBps = Number((diff * 10_000n) / backingRatio);
+    if (divergenceBps > RATIO_TOLERANCE_BPS) {
+      issues.push({ kind: "ratio-divergence", attestedRatio, divergenceBps });
+    }
+  }
+
+  return { attestedQuantity, requiredQuantity, attestedRatio, issues };
+}
+
+/** Exact ratio string, e.g. "1.0025:1", without going through a float */
+export function formatBackingRatio(ratio: bigint): string {
+  const [whole, fraction = ""] = formatUnits(ratio, 18).split(".");
+  return `${whole}.${fraction.padEnd(4, "0")}:1`;
+}
+
+// ─── Local history ───────────────────────────────────────────────────────────
+
+function storageKey(token: string): string {
+  return `rwa:attestations:${token.toLowerCase()}`;
+}
+
+function readStored(raw: string | null): AttestationInput[] {
+  if (!raw) return [];
+  try {
+    return parseAttestations(raw);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Uploaded attestations for a token, oldest first. They're kept in
+ * localStorage and signatures are re-verified against `trustedCustodians` on
+ * load, so the stored copy doesn't need to be trusted.
+ */
+export function useAttestations(token: `0x${string}`, trustedCustodians: readonly string[]) {
+  const key = storageKey(token);
+  const [raw, setRaw] = useLocalStorage(key);
+
+  const verified = useQuery({
+    queryKey: ["attestations", token.toLowerCase(), raw, trustedCustodians.map((c) => c.toLowerCase())],
+    queryFn: () => Promise.all(readStored(raw).map((a) => verifyAttestation(a, trustedCustodians))),
+    select: (list) => [...list].sort((a, b) => a.timestamp - b.timestamp),
+  });
+
+  const addAttestations = useCallback(
+    (inputs: AttestationInput[]) => {
+      const existing = readStored(window.localStorage.getItem(key));
+      // Same vault and timestamp replaces the earlier upload
+      const merged = new Map(existing.map((a) => [`${a.vault}@${a.timestamp}`, a]));
+      for (const a of inputs) merged.set(`${a.vault}@${a.timestamp}`, a);
+      setRaw(JSON.stringify([...merged.values()]));
+    },
+    [key, setRaw]
+  );
+
+  return { attestations: verified.data ?? [], isLoading: verified.isLoading, addAttestations };
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { buildClaimFile, findClaim, parseClaimFile, type DistributionPlan } from "@/lib/rent-distribution";
+
+const alice = "0x1111111111111111111111111111111111111111";
+const bob = "0x2222222222222222222222222222222222222222";
+const token = "0x3333333333333333333333333333333333333333";
+const paymentToken = "0x4444444444444444444444444444444444444444";
+
+function claimFile() {
+  const plan: DistributionPlan = {
+    snapshotBlock: 100n,
+    total: 300n,
+    eligibleSupply: 3n,
+    payouts: [
+      { account: alice, balance: 1n, amount: 100n },
+      { account: bob, balance: 2n, amount: 200n },
+    ],
+    excluded: [],
+  };
+  return buildClaimFile(plan, 1, token, paymentToken);
+}
+
+describe("parseClaimFile", () => {
+  it("accepts a file built by buildClaimFile and verifies its proofs", () => {
+    const file = parseClaimFile(JSON.stringify(claimFile()));
+    expect(findClaim(file, bob)).toMatchObject({ amount: 200n, verified: true });
+  });
+
+  it("rejects a malformed total", () => {
+    const text = JSON.stringify({ ...claimFile(), total: "1.5" });
+    expect(() => parseClaimFile(text)).toThrow("invalid total");
+  });
+
+  it("rejects a malformed claim amount", () => {
+    const file = claimFile();
+    const [account] = Object.keys(file.claims) as `0x${string}`[];
+    file.claims[account] = { ...file.claims[account], amount: "abc" };
+    expect(() => parseClaimFile(JSON.stringify(file))).toThrow("invalid amount");
+  });
+
+  it("rejects a proof that isn't a list of 32-byte hashes", () => {
+    const file = claimFile();
+    const [account] = Object.keys(file.claims) as `0x${string}`[];
+    file.claims[account] = { ...file.claims[account], proof: ["0x1234"] };
+    expect(() => parseClaimFile(JSON.stringify(file))).toThrow("invalid proof");
+    file.claims[account] = { ...file.claims[account], proof: "0x" as never };
+    expect(() => parseClaimFile(JSON.stringify(file))).toThrow("invalid proof");
+  });
+});
@@ -0,0 +1,200 @@
+import { getAddress, isAddress, zeroAddress, type Hex } from "viem";
+import type { ContractEvent } from "@/lib/event-logs";
+import { buildMerkleTree, claimLeaf, verifyMerkleProof } from "@/lib/merkle";
+import { toCsv } from "@/lib/utils";
+
+/** Transfers per atomic wallet batch when paying out directly */
+export const PAYOUT_BATCH_SIZE = 50;
+
+/**
+ * Replay `Transfer` logs into holder balances as of the end of `block`.
+ * Mints and burns move supply to and from the zero address, which is left out.
+ */
+export function snapshotHolders(events: ContractEvent[], block: bigint): Map<`0x${string}`, bigint> {
+  const balances = new Map<`0x${string}`, bigint>();
+  for (const e of events) {
+    if (e.eventName !== "Transfer" || e.blockNumber > block) continue;
+    const from = e.args.from as `0x${string}`;
+    const to = e.args.to as `0x${string}`;
+    const value = e.args.value as bigint;
+    if (from !== zeroAddress) balances.set(from, (balances.get(from) ?? 0n) - value);
+    if (to !== zeroAddress) balances.set(to, (balances.get(to) ?? 0n) + value);
+  }
+  for (const [account, balance] of balances) {
+    if (balance <= 0n) balances.delete(account);
+  }
+  return balances;
+}
+
+export interface Payout {
+  account: `0x${string}`;
+  /** Token balance at the snapshot block */
+  balance: bigint;
+  /** Payment token units */
+  amount: bigint;
+}
+
+export interface DistributionPlan {
+  snapshotBlock: bigint;
+  total: bigint;
+  /** Balance that shares in the distribution (snapshot supply minus frozen holders) */
+  eligibleSupply: bigint;
+  payouts: Payout[];
+  excluded: { account: `0x${string}`; balance: bigint; reason: string }[];
+}
+
+/**
+ * Split `total` pro-rata across the snapshot, skipping frozen holders.
+ * Amounts are rounded down and the leftover units go one each to the largest
+ * remainders, so payouts always add up to exactly `total`.
+ */
+export function planDistribution(
+  holders: Map<`0x${string}`, bigint>,
+  frozen: Set<string>,
+  total: bigint,
+  snapshotBlock: bigint
+): DistributionPlan {
+  const excluded: DistributionPlan["excluded"] = [];
+  const eligible: [`0x${string}`, bigint][] = [];
+  for (const [account, balance] of holders) {
+    if (frozen.has(account.toLowerCase())) excluded.push({ account, balance, reason: "Frozen" });
+    else eligible.push([account, balance]);
+  }
+
+  const eligibleSupply = eligible.reduce((sum, [, balance]) => sum + balance, 0n);
+  if (eligibleSupply === 0n) {
+    return { snapshotBlock, total, eligibleSupply, payouts: [], excluded };
+  }
+
+  const shares = eligible.map(([account, balance]) => {
+    const exact = total * balance;
+    return { account, balance, amount: exact / eligibleSupply, remainder: exact % eligibleSupply };
+  });
+
+  let dust = total - shares.reduce((sum, s) => sum + s.amount, 0n);
+  const byRemainder = [...shares].sort((a, b) =>
+    a.remainder === b.remainder ? 0 : a.remainder > b.remainder ? -1 : 1
+  );
+  for (const share of byRemainder) {
+    if (dust === 0n) break;
+    share.amount += 1n;
+    dust -= 1n;
+  }
+
+  const payouts = shares
+    .filter((s) => s.amount > 0n)
+    .map(({ account, balance, amount }) => ({ account, balance, amount }))
+    .sort((a, b) => (a.amount === b.amount ? 0 : a.amount > b.amount ? -1 : 1));
+
+  return { snapshotBlock, total, eligibleSupply, payouts, excluded };
+}
+
+export function payoutBatches(payouts: Payout[], batchSize = PAYOUT_BATCH_SIZE): Payout[][] {
+  const batches: Payout[][] = [];
+  for (let i = 0; i < payouts.length; i += batchSize) {
+    batches.push(payouts.slice(i, i + batchSize));
+  }
+  return batches;
+}
+
+export function distributionToCsv(plan: DistributionPlan): string {
+  return toCsv([
+    ["address", "balance", "payout", "status"],
+    ...plan.payouts.map((p) => [p.account, p.balance.toString(), p.amount.toString(), "included"]),
+    ...plan.excluded.map((e) => [e.account, e.balance.toString(), "0", e.reason.toLowerCase()]),
+  ]);
+}
+
+// ─── Merkle claim file ───────────────────────────────────────────────────────
+
+/**
+ * Published by the issuer, loaded by holders. Amounts are decimal strings in
+ * payment token units; leaves are `claimLeaf(account, amount)`.
+ */
+export interface RentClaimFile {
+  version: 1;
+  chainId: number;
+  token: `0x${string}`;
+  paymentToken: `0x${string}`;
+  snapshotBlock: string;
+  total: string;
+  merkleRoot: Hex;
+  claims: Record<`0x${string}`, { amount: string; proof: Hex[] }>;
+}
+
+export function buildClaimFile(
+  plan: DistributionPlan,
+  chainId: number,
+  token: `0x${string}`,
+  paymentToken: `0x${string}`
+): RentClaimFile {
+  const { root, proofs } = buildMerkleTree(plan.payouts.map((p) => claimLeaf(p.account, p.amount)));
+  const claims: RentClaimFile["claims"] = {};
+  plan.payouts.forEach((p, i) => {
+    claims[getAddress(p.account)] = { amount: p.amount.toString(), proof: proofs[i] };
+  });
+  return {
+    version: 1,
+    chainId,
+    token,
+    paymentToken,
+    snapshotBlock: plan.snapshotBlock.toString(),
+    total: plan.total.toString(),
+    merkleRoot: root,
+    claims,
+  };
+}
+
+/** Whole number of payment token units, as a decimal string */
+function isAmount(value: unknown): value is string {
+  return typeof value === "string" && /^\d+$/.test(value);
+}
+
+/** 32-byte hex, as roots and proof nodes are */
+function isHash(value: unknown): value is Hex {
+  return typeof value === "string" && /^0x[0-9a-fA-F]{64}$/.test(value);
+}
+
+/** Parse an uploaded claim file, throwing with a readable message if it's malformed */
+export function parseClaimFile(text: string): RentClaimFile {
+  let data: RentClaimFile;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Not a JSON file");
+  }
+  if (data?.version !== 1 || typeof data.claims !== "object" || data.claims === null) {
+    throw new Error("Not a rent claim file");
+  }
+  if (!isAddress(data.token) || !isAddress(data.paymentToken)) {
+    throw new Error("Claim file has an invalid token address");
+  }
+  if (!isHash(data.merkleRoot)) throw new Error("Claim file has an invalid Merkle root");
+  if (!isAmount(data.total)) throw new Error("Claim file has an invalid total");
+  for (const [account, entry] of Object.entries(data.claims ?? {})) {
+    if (!isAmount(entry?.amount)) throw new Error(`Claim for ${account} has an invalid amount`);
+    if (!Array.isArray(entry.proof) || !entry.proof.every(isHash)) {
+      throw new Error(`Claim for ${account} has an invalid proof`);
+    }
+  }
+  return data;
+}
+
+export interface RentClaim {
+  amount: bigint;
+  proof: Hex[];
+  /** Whether the proof checks out against the file's root */
+  verified: boolean;
+}
+
+/** The account's entry in a claim file, or undefined if it has none */
+export function findClaim(file: RentClaimFile, account: `0x${string}`): RentClaim | undefined {
+  const entry = file.claims[getAddress(account)];
+  if (!entry) return undefined;
+  const amount = BigInt(entry.amount);
+  return {
+    amount,
+    proof: entry.proof,
+    verified: verifyMerkleProof(claimLeaf(getAddress(account), amount), entry.proof, file.merkleRoot),
+  };
+}
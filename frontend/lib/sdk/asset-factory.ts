@@ -0,0 +1,161 @@
+import { parseEventLogs, type Address, type TransactionReceipt } from "viem";
+import { assetFactoryAbi } from "../abi";
+import { BaseContractClient } from "./base";
+import type {
+  CreateBondParams,
+  CreateCommodityParams,
+  CreateRealEstateParams,
+  DeployedAsset,
+} from "./types";
+
+export class AssetFactoryClient extends BaseContractClient {
+  // ---- Reads ----
+
+  owner() {
+    return this.publicClient.readContract({ address: this.address, abi: assetFactoryAbi, functionName: "owner" });
+  }
+
+  getDeployedAssetsCount() {
+    return this.publicClient.readContract({ address: this.address, abi: assetFactoryAbi, functionName: "getDeployedAssetsCount" });
+  }
+
+  async getDeployedAsset(index: number): Promise<DeployedAsset> {
+    const [token, complianceRegistry, navOracle, assetType] =
+      await this.publicClient.readContract({
+        address: this.address,
+        abi: assetFactoryAbi,
+        functionName: "deployedAssets",
+        args: [BigInt(index)],
+      });
+    return { index, token, complianceRegistry, navOracle, assetType };
+  }
+
+  /** Every asset the factory has deployed, in creation order */
+  async getDeployedAssets(): Promise<DeployedAsset[]> {
+    const count = Number(await this.getDeployedAssetsCount());
+    return Promise.all(
+      Array.from({ length: count }, (_, i) => this.getDeployedAsset(i))
+    );
+  }
+
+  /** Look up a deployed asset by its token address (case-insensitive) */
+  async findAssetByToken(token: Address): Promise<DeployedAsset | undefined> {
+    const assets = await this.getDeployedAssets();
+    return assets.find((a) => a.token.toLowerCase() === token.toLowerCase());
+  }
+
+  /**
+   * The asset a create* transaction deployed: the triplet from its
+   * AssetCreated log, plus its index in `deployedAssets` as of that block.
+   */
+  async getCreatedAsset(receipt: TransactionReceipt): Promise<DeployedAsset | undefined> {
+    const [created] = parseEventLogs({
+      abi: assetFactoryAbi,
+      eventName: "AssetCreated",
+      logs: receipt.logs.filter((log) => log.address.toLowerCase() === this.address.toLowerCase()),
+    });
+    if (!created) return undefined;
+    const { token, complianceRegistry, navOracle, assetType } = created.args;
+
+    // The asset was pushed just before the event, so it's at or near the end
+    // of the list; later creations in the same block can only follow it.
+    const blockNumber = receipt.blockNumber;
+    const count = await this.publicClient.readContract({
+      address: this.address,
+      abi: assetFactoryAbi,
+      functionName: "getDeployedAssetsCount",
+      blockNumber,
+    });
+    for (let i = Number(count) - 1; i >= 0; i--) {
+      const [entry] = await this.publicClient.readContract({
+        address: this.address,
+        abi: assetFactoryAbi,
+        functionName: "deployedAssets",
+        args: [BigInt(i)],
+        blockNumber,
+      });
+      if (entry.toLowerCase() === token.toLowerCase()) {
+        return { index: i, token, complianceRegistry, navOracle, assetType };
+      }
+    }
+    return undefined;
+  }
+
+  // ---- Simulations ----
+  // `result` is the [token, registry, oracle] triplet the call would deploy.
+
+  simulateCreateBond(params: CreateBondParams) {
+    return this.publicClient.simulateContract({
+      address: this.address,
+      abi: assetFactoryAbi,
+      functionName: "createBond",
+      args: [
+        params.name,
+        params.symbol,
+        params.maturityDate,
+        params.couponRateBps,
+        params.faceValue,
+        params.paymentToken,
+        params.complianceOfficer,
+        params.oracleUpdater,
+      ],
+      account: this.requireAccount("createBond"),
+    });
+  }
+
+  simulateCreateRealEstate(params: CreateRealEstateParams) {
+    return this.publicClient.simulateContract({
+      address: this.address,
+      abi: assetFactoryAbi,
+      functionName: "createRealEstate",
+      args: [
+        params.name,
+        params.symbol,
+        params.propertyId,
+        params.jurisdiction,
+        params.totalValuation,
+        params.rentalYieldBps,
+        params.paymentToken,
+        params.complianceOfficer,
+        params.oracleUpdater,
+      ],
+      account: this.requireAccount("createRealEstate"),
+    });
+  }
+
+  simulateCreateCommodity(params: CreateCommodityParams) {
+    return this.publicClient.simulateContract({
+      address: this.address,
+      abi: assetFactoryAbi,
+      functionName: "createCommodity",
+      args: [
+        params.name,
+        params.symbol,
+        params.commodityType,
+        params.unit,
+        params.backingRatio,
+        params.paymentToken,
+        params.complianceOfficer,
+        params.oracleUpdater,
+      ],
+      account: this.requireAccount("createCommodity"),
+    });
+  }
+
+  // ---- Writes ----
+
+  async createBond(params: CreateBondParams) {
+    const { request } = await this.simulateCreateBond(params);
+    return this.requireWallet("createBond").writeContract(request);
+  }
+
+  async createRealEstate(params: CreateRealEstateParams) {
+    const { request } = await this.simulateCreateRealEstate(params);
+    return this.requireWallet("createRealEstate").writeContract(request);
+  }
+
+  async createCommodity(params: CreateCommodityParams) {
+    const { request } = await this.simulateCreateCommodity(params);
+    return this.requireWallet("createCommodity").writeContract(request);
+  }
+}
@@ -0,0 +1,56 @@
+import type {
+  Account,
+  Address,
+  Hash,
+  PublicClient,
+  TransactionReceipt,
+  WalletClient,
+} from "viem";
+
+export interface ClientOptions {
+  /** Client used for reads, simulations and receipt polling */
+  publicClient: PublicClient;
+  /** Client used to sign writes. Read-only clients can omit it. */
+  walletClient?: WalletClient;
+}
+
+/** Thrown when a write or simulation is attempted without a signing account */
+export class MissingWalletError extends Error {
+  constructor(action: string) {
+    super(`${action} requires a walletClient with an account`);
+    this.name = "MissingWalletError";
+  }
+}
+
+/**
+ * Shared plumbing for every contract client: holds the target address and
+ * the viem clients, and resolves the signing account for writes.
+ */
+export abstract class BaseContractClient {
+  readonly address: Address;
+  protected readonly publicClient: PublicClient;
+  protected readonly walletClient?: WalletClient;
+
+  constructor(address: Address, { publicClient, walletClient }: ClientOptions) {
+    this.address = address;
+    this.publicClient = publicClient;
+    this.walletClient = walletClient;
+  }
+
+  /** The account simulations run as and writes are signed by */
+  protected requireAccount(action: string): Account {
+    const account = this.walletClient?.account;
+    if (!account) throw new MissingWalletError(action);
+    return account;
+  }
+
+  protected requireWallet(action: string): WalletClient {
+    if (!this.walletClient) throw new MissingWalletError(action);
+    return this.walletClient;
+  }
+
+  /** Wait for a transaction sent by this client to be mined */
+  waitForReceipt(hash: Hash): Promise<TransactionReceipt> {
+    return this.publicClient.waitForTransactionReceipt({ hash });
+  }
+}
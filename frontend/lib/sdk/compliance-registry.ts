@@ -0,0 +1,88 @@
+import type { Address } from "viem";
+import { complianceRegistryAbi } from "../abi";
+import { BaseContractClient } from "./base";
+
+export class ComplianceRegistryClient extends BaseContractClient {
+  // ---- Reads ----
+
+  owner() {
+    return this.publicClient.readContract({ address: this.address, abi: complianceRegistryAbi, functionName: "owner" });
+  }
+
+  isWhitelisted(account: Address) {
+    return this.publicClient.readContract({ address: this.address, abi: complianceRegistryAbi, functionName: "isWhitelisted", args: [account] });
+  }
+
+  isFrozen(account: Address) {
+    return this.publicClient.readContract({ address: this.address, abi: complianceRegistryAbi, functionName: "isFrozen", args: [account] });
+  }
+
+  /** Whitelisted and not frozen: what tokens check on every transfer */
+  isEligible(account: Address) {
+    return this.publicClient.readContract({ address: this.address, abi: complianceRegistryAbi, functionName: "isEligible", args: [account] });
+  }
+
+  // ---- Simulations ----
+
+  simulateAddToWhitelist(accounts: readonly Address[]) {
+    return this.publicClient.simulateContract({
+      address: this.address,
+      abi: complianceRegistryAbi,
+      functionName: "addToWhitelist",
+      args: [accounts],
+      account: this.requireAccount("addToWhitelist"),
+    });
+  }
+
+  simulateRemoveFromWhitelist(accounts: readonly Address[]) {
+    return this.publicClient.simulateContract({
+      address: this.address,
+      abi: complianceRegistryAbi,
+      functionName: "removeFromWhitelist",
+      args: [accounts],
+      account: this.requireAccount("removeFromWhitelist"),
+    });
+  }
+
+  simulateFreezeAddress(accounts: readonly Address[]) {
+    return this.publicClient.simulateContract({
+      address: this.address,
+      abi: complianceRegistryAbi,
+      functionName: "freezeAddress",
+      args: [accounts],
+      account: this.requireAccount("freezeAddress"),
+    });
+  }
+
+  simulateUnfreezeAddress(accounts: readonly Address[]) {
+    return this.publicClient.simulateContract({
+      address: this.address,
+      abi: complianceRegistryAbi,
+      functionName: "unfreezeAddress",
+      args: [accounts],
+      account: this.requireAccount("unfreezeAddress"),
+    });
+  }
+
+  // ---- Writes ----
+
+  async addToWhitelist(accounts: readonly Address[]) {
+    const { request } = await this.simulateAddToWhitelist(accounts);
+    return this.requireWallet("addToWhitelist").writeContract(request);
+  }
+
+  async removeFromWhitelist(accounts: readonly Address[]) {
+    const { request } = await this.simulateRemoveFromWhitelist(accounts);
+    return this.requireWallet("removeFromWhitelist").writeContract(request);
+  }
+
+  async freezeAddress(accounts: readonly Address[]) {
+    const { request } = await this.simulateFreezeAddress(accounts);
+    return this.requireWallet("freezeAddress").writeContract(request);
+  }
+
+  async unfreezeAddress(accounts: readonly Address[]) {
+    const { request } = await this.simulateUnfreezeAddress(accounts);
+    return this.requireWallet("unfreezeAddress").writeContract(request);
+  }
+}
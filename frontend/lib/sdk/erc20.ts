@@ -0,0 +1,66 @@
+import type { Address } from "viem";
+import { erc20Abi } from "../abi";
+import { BaseContractClient } from "./base";
+
+/** Payment token (e.g. USDC) client */
+export class ERC20Client extends BaseContractClient {
+  // ---- Reads ----
+
+  name() {
+    return this.publicClient.readContract({ address: this.address, abi: erc20Abi, functionName: "name" });
+  }
+
+  symbol() {
+    return this.publicClient.readContract({ address: this.address, abi: erc20Abi, functionName: "symbol" });
+  }
+
+  decimals() {
+    return this.publicClient.readContract({ address: this.address, abi: erc20Abi, functionName: "decimals" });
+  }
+
+  totalSupply() {
+    return this.publicClient.readContract({ address: this.address, abi: erc20Abi, functionName: "totalSupply" });
+  }
+
+  balanceOf(account: Address) {
+    return this.publicClient.readContract({ address: this.address, abi: erc20Abi, functionName: "balanceOf", args: [account] });
+  }
+
+  allowance(owner: Address, spender: Address) {
+    return this.publicClient.readContract({ address: this.address, abi: erc20Abi, functionName: "allowance", args: [owner, spender] });
+  }
+
+  // ---- Simulations ----
+
+  simulateApprove(spender: Address, amount: bigint) {
+    return this.publicClient.simulateContract({
+      address: this.address,
+      abi: erc20Abi,
+      functionName: "approve",
+      args: [spender, amount],
+      account: this.requireAccount("approve"),
+    });
+  }
+
+  simulateTransfer(to: Address, amount: bigint) {
+    return this.publicClient.simulateContract({
+      address: this.address,
+      abi: erc20Abi,
+      functionName: "transfer",
+      args: [to, amount],
+      account: this.requireAccount("transfer"),
+    });
+  }
+
+  // ---- Writes ----
+
+  async approve(spender: Address, amount: bigint) {
+    const { request } = await this.simulateApprove(spender, amount);
+    return this.requireWallet("approve").writeContract(request);
+  }
+
+  async transfer(to: Address, amount: bigint) {
+    const { request } = await this.simulateTransfer(to, amount);
+    return this.requireWallet("transfer").writeContract(request);
+  }
+}
@@ -0,0 +1,66 @@
+// Framework-agnostic contract SDK. Depends only on viem and ../abi so the
+// same clients can run in the browser, Node scripts and backend jobs.
+
+import type { Address } from "viem";
+import type { ClientOptions } from "./base";
+import {
+  RWATokenClient,
+  BondTokenClient,
+  RealEstateTokenClient,
+  CommodityTokenClient,
+} from "./rwa-token";
+import { ComplianceRegistryClient } from "./compliance-registry";
+import { NAVOracleClient } from "./nav-oracle";
+import type { DeployedAsset } from "./types";
+
+export { BaseContractClient, MissingWalletError } from "./base";
+export type { ClientOptions } from "./base";
+export { AssetFactoryClient } from "./asset-factory";
+export {
+  RWATokenClient,
+  BondTokenClient,
+  RealEstateTokenClient,
+  CommodityTokenClient,
+} from "./rwa-token";
+export { ComplianceRegistryClient } from "./compliance-registry";
+export { NAVOracleClient } from "./nav-oracle";
+export { ERC20Client } from "./erc20";
+export {
+  quoteInvest,
+  quoteRedeem,
+  paymentTokenScaleFor,
+  applySlippage,
+  priceImpactBps,
+} from "./pricing";
+export * from "./types";
+
+// ─── Typed token client dispatcher ────────────────────────────────────────────
+export function getTokenClient(assetType: "BOND", address: Address, options: ClientOptions): BondTokenClient;
+export function getTokenClient(assetType: "REAL_ESTATE", address: Address, options: ClientOptions): RealEstateTokenClient;
+export function getTokenClient(assetType: "COMMODITY", address: Address, options: ClientOptions): CommodityTokenClient;
+export function getTokenClient(assetType: string, address: Address, options: ClientOptions): RWATokenClient;
+export function getTokenClient(
+  assetType: string,
+  address: Address,
+  options: ClientOptions
+): RWATokenClient {
+  switch (assetType) {
+    case "BOND":
+      return new BondTokenClient(address, options);
+    case "REAL_ESTATE":
+      return new RealEstateTokenClient(address, options);
+    case "COMMODITY":
+      return new CommodityTokenClient(address, options);
+    default:
+      return new RWATokenClient(address, options);
+  }
+}
+
+/** Clients for every contract in a factory-deployed triplet */
+export function getAssetClients(asset: DeployedAsset, options: ClientOptions) {
+  return {
+    token: getTokenClient(asset.assetType, asset.token, options),
+    registry: new ComplianceRegistryClient(asset.complianceRegistry, options),
+    oracle: new NAVOracleClient(asset.navOracle, options),
+  };
+}
@@ -0,0 +1,86 @@
+import type { Address } from "viem";
+import { navOracleAbi } from "../abi";
+import { BaseContractClient } from "./base";
+
+export class NAVOracleClient extends BaseContractClient {
+  // ---- Reads ----
+
+  /** NAV per token (1e18 scale) without a staleness check */
+  navPerToken() {
+    return this.publicClient.readContract({ address: this.address, abi: navOracleAbi, functionName: "navPerToken" });
+  }
+
+  /** NAV per token; reverts with StaleNAV like invest/redeem would */
+  getValidatedNavPerToken() {
+    return this.publicClient.readContract({ address: this.address, abi: navOracleAbi, functionName: "getValidatedNavPerToken" });
+  }
+
+  lastUpdated() {
+    return this.publicClient.readContract({ address: this.address, abi: navOracleAbi, functionName: "lastUpdated" });
+  }
+
+  updater() {
+    return this.publicClient.readContract({ address: this.address, abi: navOracleAbi, functionName: "updater" });
+  }
+
+  maxStaleness() {
+    return this.publicClient.readContract({ address: this.address, abi: navOracleAbi, functionName: "maxStaleness" });
+  }
+
+  owner() {
+    return this.publicClient.readContract({ address: this.address, abi: navOracleAbi, functionName: "owner" });
+  }
+
+  isStale() {
+    return this.publicClient.readContract({ address: this.address, abi: navOracleAbi, functionName: "isStale" });
+  }
+
+  // ---- Simulations ----
+
+  simulateUpdateNAV(newNavPerToken: bigint) {
+    return this.publicClient.simulateContract({
+      address: this.address,
+      abi: navOracleAbi,
+      functionName: "updateNAV",
+      args: [newNavPerToken],
+      account: this.requireAccount("updateNAV"),
+    });
+  }
+
+  simulateSetUpdater(updater: Address) {
+    return this.publicClient.simulateContract({
+      address: this.address,
+      abi: navOracleAbi,
+      functionName: "setUpdater",
+      args: [updater],
+      account: this.requireAccount("setUpdater"),
+    });
+  }
+
+  simulateSetMaxStaleness(maxStaleness: bigint) {
+    return this.publicClient.simulateContract({
+      address: this.address,
+      abi: navOracleAbi,
+      functionName: "setMaxStaleness",
+      args: [maxStaleness],
+      account: this.requireAccount("setMaxStaleness"),
+    });
+  }
+
+  // ---- Writes ----
+
+  async updateNAV(newNavPerToken: bigint) {
+    const { request } = await this.simulateUpdateNAV(newNavPerToken);
+    return this.requireWallet("updateNAV").writeContract(request);
+  }
+
+  async setUpdater(updater: Address) {
+    const { request } = await this.simulateSetUpdater(updater);
+    return this.requireWallet("setUpdater").writeContract(request);
+  }
+
+  async setMaxStaleness(maxStaleness: bigint) {
+    const { request } = await this.simulateSetMaxStaleness(maxStaleness);
+    return this.requireWallet("setMaxStaleness").writeContract(request);
+  }
+}
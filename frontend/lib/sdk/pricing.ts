@@ -0,0 +1,51 @@
+// Mirrors the integer math in RWAToken.invest / redeem / getTokenValue so
+// quotes computed off-chain match what the contract will do exactly.
+
+const WAD = 10n ** 18n;
+
+/** Tokens minted by `invest(paymentAmount)` at `nav` (1e18 scale) */
+export function quoteInvest(
+  paymentAmount: bigint,
+  nav: bigint,
+  paymentTokenScale: bigint
+): bigint {
+  if (nav === 0n) return 0n;
+  return (paymentAmount * paymentTokenScale * WAD) / nav;
+}
+
+/** Payment tokens returned by `redeem(tokenAmount)` at `nav` (1e18 scale) */
+export function quoteRedeem(
+  tokenAmount: bigint,
+  nav: bigint,
+  paymentTokenScale: bigint
+): bigint {
+  if (paymentTokenScale === 0n) return 0n;
+  return (tokenAmount * nav) / WAD / paymentTokenScale;
+}
+
+/** `paymentTokenScale` for a payment token with `decimals` decimals */
+export function paymentTokenScaleFor(decimals: number): bigint {
+  return 10n ** (18n - BigInt(decimals));
+}
+
+/** Worst-case amount after allowing `toleranceBps` of slippage (rounds down) */
+export function applySlippage(amount: bigint, toleranceBps: number): bigint {
+  return (amount * BigInt(10_000 - toleranceBps)) / 10_000n;
+}
+
+/**
+ * How far the effective price of a quote is from NAV, in basis points.
+ * NAV-priced tokens have no market impact, so this only reflects integer
+ * rounding in the contract math.
+ */
+export function priceImpactBps(
+  paymentAmount: bigint,
+  tokenAmount: bigint,
+  nav: bigint,
+  paymentTokenScale: bigint
+): number {
+  if (tokenAmount === 0n || nav === 0n) return 0;
+  const effectivePrice = (paymentAmount * paymentTokenScale * WAD) / tokenAmount;
+  const diff = effectivePrice > nav ? effectivePrice - nav : nav - effectivePrice;
+  return Number((diff * 1_000_000n) / nav) / 100;
+}
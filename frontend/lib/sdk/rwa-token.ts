@@ -0,0 +1,340 @@
+import type { Address } from "viem";
+import {
+  rwaTokenAbi,
+  bondTokenAbi,
+  realEstateTokenAbi,
+  commodityTokenAbi,
+} from "../abi";
+import { BaseContractClient } from "./base";
+
+// ─── Shared RWA Token client (Bond, RealEstate, Commodity) ────────────────────
+export class RWATokenClient extends BaseContractClient {
+  // ---- Reads ----
+
+  name() {
+    return this.publicClient.readContract({ address: this.address, abi: rwaTokenAbi, functionName: "name" });
+  }
+
+  symbol() {
+    return this.publicClient.readContract({ address: this.address, abi: rwaTokenAbi, functionName: "symbol" });
+  }
+
+  decimals() {
+    return this.publicClient.readContract({ address: this.address, abi: rwaTokenAbi, functionName: "decimals" });
+  }
+
+  totalSupply() {
+    return this.publicClient.readContract({ address: this.address, abi: rwaTokenAbi, functionName: "totalSupply" });
+  }
+
+  balanceOf(account: Address) {
+    return this.publicClient.readContract({ address: this.address, abi: rwaTokenAbi, functionName: "balanceOf", args: [account] });
+  }
+
+  allowance(owner: Address, spender: Address) {
+    return this.publicClient.readContract({ address: this.address, abi: rwaTokenAbi, functionName: "allowance", args: [owner, spender] });
+  }
+
+  owner() {
+    return this.publicClient.readContract({ address: this.address, abi: rwaTokenAbi, functionName: "owner" });
+  }
+
+  paused() {
+    return this.publicClient.readContract({ address: this.address, abi: rwaTokenAbi, functionName: "paused" });
+  }
+
+  complianceRegistry() {
+    return this.publicClient.readContract({ address: this.address, abi: rwaTokenAbi, functionName: "complianceRegistry" });
+  }
+
+  navOracle() {
+    return this.publicClient.readContract({ address: this.address, abi: rwaTokenAbi, functionName: "navOracle" });
+  }
+
+  paymentToken() {
+    return this.publicClient.readContract({ address: this.address, abi: rwaTokenAbi, functionName: "paymentToken" });
+  }
+
+  paymentTokenScale() {
+    return this.publicClient.readContract({ address: this.address, abi: rwaTokenAbi, functionName: "paymentTokenScale" });
+  }
+
+  dailyInvestLimit() {
+    return this.publicClient.readContract({ address: this.address, abi: rwaTokenAbi, functionName: "dailyInvestLimit" });
+  }
+
+  dailyRedeemLimit() {
+    return this.publicClient.readContract({ address: this.address, abi: rwaTokenAbi, functionName: "dailyRedeemLimit" });
+  }
+
+  assetType() {
+    return this.publicClient.readContract({ address: this.address, abi: rwaTokenAbi, functionName: "assetType" });
+  }
+
+  /** Value of `tokenAmount` tokens in payment token units at the current NAV */
+  getTokenValue(tokenAmount: bigint) {
+    return this.publicClient.readContract({ address: this.address, abi: rwaTokenAbi, functionName: "getTokenValue", args: [tokenAmount] });
+  }
+
+  /** Remaining invest capacity this epoch (payment token units, max uint256 if unlimited) */
+  getRemainingInvestCapacity() {
+    return this.publicClient.readContract({ address: this.address, abi: rwaTokenAbi, functionName: "getRemainingInvestCapacity" });
+  }
+
+  /** Remaining redeem capacity this epoch (token units, max uint256 if unlimited) */
+  getRemainingRedeemCapacity() {
+    return this.publicClient.readContract({ address: this.address, abi: rwaTokenAbi, functionName: "getRemainingRedeemCapacity" });
+  }
+
+  // ---- Simulations ----
+  // Each resolves to `{ result, request }`; pass `request` to the matching write.
+
+  simulateInvest(paymentAmount: bigint, minTokensOut = 0n) {
+    return this.publicClient.simulateContract({
+      address: this.address,
+      abi: rwaTokenAbi,
+      functionName: "invest",
+      args: [paymentAmount, minTokensOut],
+      account: this.requireAccount("invest"),
+    });
+  }
+
+  simulateRedeem(tokenAmount: bigint, minPaymentOut = 0n) {
+    return this.publicClient.simulateContract({
+      address: this.address,
+      abi: rwaTokenAbi,
+      functionName: "redeem",
+      args: [tokenAmount, minPaymentOut],
+      account: this.requireAccount("redeem"),
+    });
+  }
+
+  simulateTransfer(to: Address, amount: bigint) {
+    return this.publicClient.simulateContract({
+      address: this.address,
+      abi: rwaTokenAbi,
+      functionName: "transfer",
+      args: [to, amount],
+      account: this.requireAccount("transfer"),
+    });
+  }
+
+  simulateMint(to: Address, amount: bigint) {
+    return this.publicClient.simulateContract({
+      address: this.address,
+      abi: rwaTokenAbi,
+      functionName: "mint",
+      args: [to, amount],
+      account: this.requireAccount("mint"),
+    });
+  }
+
+  simulateBurn(from: Address, amount: bigint) {
+    return this.publicClient.simulateContract({
+      address: this.address,
+      abi: rwaTokenAbi,
+      functionName: "burn",
+      args: [from, amount],
+      account: this.requireAccount("burn"),
+    });
+  }
+
+  simulatePause() {
+    return this.publicClient.simulateContract({
+      address: this.address,
+      abi: rwaTokenAbi,
+      functionName: "pause",
+      account: this.requireAccount("pause"),
+    });
+  }
+
+  simulateUnpause() {
+    return this.publicClient.simulateContract({
+      address: this.address,
+      abi: rwaTokenAbi,
+      functionName: "unpause",
+      account: this.requireAccount("unpause"),
+    });
+  }
+
+  simulateSetDailyInvestLimit(limit: bigint) {
+    return this.publicClient.simulateContract({
+      address: this.address,
+      abi: rwaTokenAbi,
+      functionName: "setDailyInvestLimit",
+      args: [limit],
+      account: this.requireAccount("setDailyInvestLimit"),
+    });
+  }
+
+  simulateSetDailyRedeemLimit(limit: bigint) {
+    return this.publicClient.simulateContract({
+      address: this.address,
+      abi: rwaTokenAbi,
+      functionName: "setDailyRedeemLimit",
+      args: [limit],
+      account: this.requireAccount("setDailyRedeemLimit"),
+    });
+  }
+
+  simulateWithdrawPaymentTokens(to: Address, amount: bigint) {
+    return this.publicClient.simulateContract({
+      address: this.address,
+      abi: rwaTokenAbi,
+      functionName: "withdrawPaymentTokens",
+      args: [to, amount],
+      account: this.requireAccount("withdrawPaymentTokens"),
+    });
+  }
+
+  simulateDepositPaymentTokens(amount: bigint) {
+    return this.publicClient.simulateContract({
+      address: this.address,
+      abi: rwaTokenAbi,
+      functionName: "depositPaymentTokens",
+      args: [amount],
+      account: this.requireAccount("depositPaymentTokens"),
+    });
+  }
+
+  // ---- Writes (simulate first, then sign) ----
+
+  async invest(paymentAmount: bigint, minTokensOut = 0n) {
+    const { request } = await this.simulateInvest(paymentAmount, minTokensOut);
+    return this.requireWallet("invest").writeContract(request);
+  }
+
+  async redeem(tokenAmount: bigint, minPaymentOut = 0n) {
+    const { request } = await this.simulateRedeem(tokenAmount, minPaymentOut);
+    return this.requireWallet("redeem").writeContract(request);
+  }
+
+  async transfer(to: Address, amount: bigint) {
+    const { request } = await this.simulateTransfer(to, amount);
+    return this.requireWallet("transfer").writeContract(request);
+  }
+
+  async mint(to: Address, amount: bigint) {
+    const { request } = await this.simulateMint(to, amount);
+    return this.requireWallet("mint").writeContract(request);
+  }
+
+  async burn(from: Address, amount: bigint) {
+    const { request } = await this.simulateBurn(from, amount);
+    return this.requireWallet("burn").writeContract(request);
+  }
+
+  async pause() {
+    const { request } = await this.simulatePause();
+    return this.requireWallet("pause").writeContract(request);
+  }
+
+  async unpause() {
+    const { request } = await this.simulateUnpause();
+    return this.requireWallet("unpause").writeContract(request);
+  }
+
+  async setDailyInvestLimit(limit: bigint) {
+    const { request } = await this.simulateSetDailyInvestLimit(limit);
+    return this.requireWallet("setDailyInvestLimit").writeContract(request);
+  }
+
+  async setDailyRedeemLimit(limit: bigint) {
+    const { request } = await this.simulateSetDailyRedeemLimit(limit);
+    return this.requireWallet("setDailyRedeemLimit").writeContract(request);
+  }
+
+  async withdrawPaymentTokens(to: Address, amount: bigint) {
+    const { request } = await this.simulateWithdrawPaymentTokens(to, amount);
+    return this.requireWallet("withdrawPaymentTokens").writeContract(request);
+  }
+
+  async depositPaymentTokens(amount: bigint) {
+    const { request } = await this.simulateDepositPaymentTokens(amount);
+    return this.requireWallet("depositPaymentTokens").writeContract(request);
+  }
+}
+
+// ─── Bond Token ───────────────────────────────────────────────────────────────
+export class BondTokenClient extends RWATokenClient {
+  maturityDate() {
+    return this.publicClient.readContract({ address: this.address, abi: bondTokenAbi, functionName: "maturityDate" });
+  }
+
+  couponRateBps() {
+    return this.publicClient.readContract({ address: this.address, abi: bondTokenAbi, functionName: "couponRateBps" });
+  }
+
+  faceValue() {
+    return this.publicClient.readContract({ address: this.address, abi: bondTokenAbi, functionName: "faceValue" });
+  }
+
+  isMatured() {
+    return this.publicClient.readContract({ address: this.address, abi: bondTokenAbi, functionName: "isMatured" });
+  }
+}
+
+// ─── Real Estate Token ────────────────────────────────────────────────────────
+export class RealEstateTokenClient extends RWATokenClient {
+  propertyId() {
+    return this.publicClient.readContract({ address: this.address, abi: realEstateTokenAbi, functionName: "propertyId" });
+  }
+
+  jurisdiction() {
+    return this.publicClient.readContract({ address: this.address, abi: realEstateTokenAbi, functionName: "jurisdiction" });
+  }
+
+  totalValuation() {
+    return this.publicClient.readContract({ address: this.address, abi: realEstateTokenAbi, functionName: "totalValuation" });
+  }
+
+  rentalYieldBps() {
+    return this.publicClient.readContract({ address: this.address, abi: realEstateTokenAbi, functionName: "rentalYieldBps" });
+  }
+
+  simulateUpdateValuation(newValuation: bigint) {
+    return this.publicClient.simulateContract({
+      address: this.address,
+      abi: realEstateTokenAbi,
+      functionName: "updateValuation",
+      args: [newValuation],
+      account: this.requireAccount("updateValuation"),
+    });
+  }
+
+  async updateValuation(newValuation: bigint) {
+    const { request } = await this.simulateUpdateValuation(newValuation);
+    return this.requireWallet("updateValuation").writeContract(request);
+  }
+}
+
+// ─── Commodity Token ──────────────────────────────────────────────────────────
+export class CommodityTokenClient extends RWATokenClient {
+  commodityType() {
+    return this.publicClient.readContract({ address: this.address, abi: commodityTokenAbi, functionName: "commodityType" });
+  }
+
+  unit() {
+    return this.publicClient.readContract({ address: this.address, abi: commodityTokenAbi, functionName: "unit" });
+  }
+
+  /** Backing ratio, 1e18 = 1:1 */
+  backingRatio() {
+    return this.publicClient.readContract({ address: this.address, abi: commodityTokenAbi, functionName: "backingRatio" });
+  }
+
+  simulateUpdateBackingRatio(newRatio: bigint) {
+    return this.publicClient.simulateContract({
+      address: this.address,
+      abi: commodityTokenAbi,
+      functionName: "updateBackingRatio",
+      args: [newRatio],
+      account: this.requireAccount("updateBackingRatio"),
+    });
+  }
+
+  async updateBackingRatio(newRatio: bigint) {
+    const { request } = await this.simulateUpdateBackingRatio(newRatio);
+    return this.requireWallet("updateBackingRatio").writeContract(request);
+  }
+}
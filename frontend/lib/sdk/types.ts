@@ -0,0 +1,50 @@
+import type { Address } from "viem";
+
+export type AssetType = "BOND" | "REAL_ESTATE" | "COMMODITY";
+
+export const ASSET_TYPES: readonly AssetType[] = ["BOND", "REAL_ESTATE", "COMMODITY"];
+
+export function isAssetType(value: string): value is AssetType {
+  return (ASSET_TYPES as readonly string[]).includes(value);
+}
+
+/** One entry of `AssetFactory.deployedAssets` */
+export interface DeployedAsset {
+  index: number;
+  token: Address;
+  complianceRegistry: Address;
+  navOracle: Address;
+  assetType: string;
+}
+
+/** Parameters shared by every factory `create*` call */
+interface CreateAssetBaseParams {
+  name: string;
+  symbol: string;
+  paymentToken: Address;
+  complianceOfficer: Address;
+  oracleUpdater: Address;
+}
+
+export interface CreateBondParams extends CreateAssetBaseParams {
+  /** Unix timestamp (seconds) */
+  maturityDate: bigint;
+  couponRateBps: bigint;
+  /** Payment token units (e.g. 1000e6 for $1,000 USDC) */
+  faceValue: bigint;
+}
+
+export interface CreateRealEstateParams extends CreateAssetBaseParams {
+  propertyId: string;
+  jurisdiction: string;
+  /** Payment token units */
+  totalValuation: bigint;
+  rentalYieldBps: bigint;
+}
+
+export interface CreateCommodityParams extends CreateAssetBaseParams {
+  commodityType: string;
+  unit: string;
+  /** 1e18 = 1:1 */
+  backingRatio: bigint;
+}
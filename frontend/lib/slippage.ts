@@ -0,0 +1,29 @@
+import { useCallback } from "react";
+import { useLocalStorage } from "@/lib/local-storage";
+
+export const DEFAULT_SLIPPAGE_BPS = 50;
+export const MAX_SLIPPAGE_BPS = 5_000;
+export const SLIPPAGE_PRESETS_BPS = [10, 50, 100];
+
+function storageKey(account: string | undefined): string {
+  return `rwa:slippage:${account?.toLowerCase() ?? "default"}`;
+}
+
+/** Parse a stored or typed bps value, rejecting anything outside 0..MAX */
+export function parseSlippageBps(value: string | null): number | undefined {
+  if (value === null || value.trim() === "") return undefined;
+  const bps = Number(value);
+  if (!Number.isInteger(bps) || bps < 0 || bps > MAX_SLIPPAGE_BPS) return undefined;
+  return bps;
+}
+
+/**
+ * Slippage tolerance in bps, remembered per wallet in localStorage and kept
+ * in sync across components and tabs.
+ */
+export function useSlippageTolerance(account: `0x${string}` | undefined) {
+  const [stored, setStored] = useLocalStorage(storageKey(account));
+  const setSlippageBps = useCallback((bps: number) => setStored(String(bps)), [setStored]);
+
+  return [parseSlippageBps(stored) ?? DEFAULT_SLIPPAGE_BPS, setSlippageBps] as const;
+}
@@ -0,0 +1,157 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAccount, useWaitForTransactionReceipt, type Config, type Connector } from "wagmi";
+import { waitForTransactionReceipt } from "wagmi/actions";
+import SafeAppsSDK, { TransactionStatus, type GatewayTransactionDetails } from "@safe-global/safe-apps-sdk";
+import { useDeployment } from "@/lib/wagmi";
+
+// A Safe doesn't send the transaction it's asked to sign. `eth_sendTransaction`
+// returns a safeTxHash for a proposal that the other owners still have to
+// confirm and someone has to execute; only then is there an on-chain hash to
+// wait on. These helpers resolve the proposal first and wait on the execution,
+// and behave like a plain receipt wait for every other wallet.
+
+/** How often to ask the Safe about a pending proposal */
+const SAFE_POLL_INTERVAL_MS = 5_000;
+
+export type SafeTxStatus =
+  | { kind: "awaiting-confirmations"; confirmations: number; threshold: number }
+  | { kind: "awaiting-execution" }
+  | { kind: "executed"; transactionHash: `0x${string}` }
+  | { kind: "cancelled" }
+  | { kind: "failed" };
+
+let safeSdk: SafeAppsSDK | undefined;
+
+function getSafeSdk(): SafeAppsSDK {
+  // Created on first use; it talks to the Safe{Wallet} window hosting the app
+  return (safeSdk ??= new SafeAppsSDK());
+}
+
+export function isSafeConnector(connector: Pick<Connector, "type"> | undefined): boolean {
+  return connector?.type === "safe";
+}
+
+function toSafeStatus(tx: GatewayTransactionDetails): SafeTxStatus {
+  switch (tx.txStatus) {
+    case TransactionStatus.AWAITING_CONFIRMATIONS: {
+      const info = tx.detailedExecutionInfo;
+      return info && "confirmationsRequired" in info
+        ? { kind: "awaiting-confirmations", confirmations: info.confirmations.length, threshold: info.confirmationsRequired }
+        : { kind: "awaiting-confirmations", confirmations: 0, threshold: 0 };
+    }
+    case TransactionStatus.AWAITING_EXECUTION:
+      return { kind: "awaiting-execution" };
+    case TransactionStatus.CANCELLED:
+      return { kind: "cancelled" };
+    case TransactionStatus.FAILED:
+      return { kind: "failed" };
+    case TransactionStatus.SUCCESS:
+      // A successful transaction always carries its hash; treat a missing one as still executing
+      return tx.txHash
+        ? { kind: "executed", transactionHash: tx.txHash as `0x${string}` }
+        : { kind: "awaiting-execution" };
+  }
+}
+
+/** Current state of a Safe proposal, by the safeTxHash the wallet returned */
+export async function getSafeTxStatus(safeTxHash: `0x${string}`): Promise<SafeTxStatus> {
+  return toSafeStatus(await getSafeSdk().txs.getBySafeTxHash(safeTxHash));
+}
+
+export function isSafeTxPending(status: SafeTxStatus): boolean {
+  return status.kind === "awaiting-confirmations" || status.kind === "awaiting-execution";
+}
+
+export function describeSafeTxStatus(status: SafeTxStatus): string {
+  switch (status.kind) {
+    case "awaiting-confirmations":
+      return status.threshold > 0
+        ? `Awaiting Safe signatures (${status.confirmations}/${status.threshold})`
+        : "Awaiting Safe signatures";
+    case "awaiting-execution":
+      return "Signed, awaiting execution in the Safe";
+    case "executed":
+      return "Executed by the Safe";
+    case "cancelled":
+      return "Rejected in the Safe";
+    case "failed":
+      return "Safe execution failed";
+  }
+}
+
+function safeTxError(status: SafeTxStatus | undefined): Error | null {
+  if (status?.kind === "cancelled") return new Error("The Safe transaction was rejected");
+  if (status?.kind === "failed") return new Error("The Safe transaction failed on execution");
+  return null;
+}
+
+/**
+ * Drop-in for `useWaitForTransactionReceipt` that also understands Safe
+ * proposals. While the Safe is collecting signatures `isLoading` stays true
+ * and `safeStatus` says how far along it is; `transactionHash` is the hash
+ * that actually landed on chain.
+ */
+export function useTransactionReceipt(hash: `0x${string}` | undefined) {
+  const { chainId } = useDeployment();
+  const { connector } = useAccount();
+  const isSafe = isSafeConnector(connector);
+
+  const safeTx = useQuery({
+    queryKey: ["safeTx", hash],
+    queryFn: () => getSafeTxStatus(hash!),
+    enabled: isSafe && !!hash,
+    refetchInterval: (query) =>
+      !query.state.data || isSafeTxPending(query.state.data) ? SAFE_POLL_INTERVAL_MS : false,
+  });
+
+  const safeStatus = isSafe && hash ? safeTx.data : undefined;
+  const transactionHash = isSafe
+    ? safeStatus?.kind === "executed"
+      ? safeStatus.transactionHash
+      : undefined
+    : hash;
+  const receipt = useWaitForTransactionReceipt({ chainId, hash: transactionHash });
+
+  const error = (isSafe ? (safeTx.error ?? safeTxError(safeStatus)) : null) ?? receipt.error;
+  return {
+    data: receipt.data,
+    transactionHash,
+    safeStatus,
+    isLoading: !!hash && !error && !receipt.isSuccess,
+    isSuccess: receipt.isSuccess,
+    error,
+  };
+}
+
+/**
+ * Imperative counterpart of `useTransactionReceipt` for sequential flows.
+ * With a Safe connector it polls the proposal, reporting each status through
+ * `onSafeStatus`, until it's executed, then waits for the receipt.
+ */
+export async function waitForTransaction(
+  config: Config,
+  {
+    chainId,
+    hash,
+    connector,
+    onSafeStatus,
+  }: {
+    chainId: number;
+    hash: `0x${string}`;
+    connector: Connector | undefined;
+    onSafeStatus?: (status: SafeTxStatus) => void;
+  }
+) {
+  if (!isSafeConnector(connector)) return waitForTransactionReceipt(config, { chainId, hash });
+
+  for (;;) {
+    const status = await getSafeTxStatus(hash);
+    onSafeStatus?.(status);
+    const error = safeTxError(status);
+    if (error) throw error;
+    if (status.kind === "executed") {
+      return waitForTransactionReceipt(config, { chainId, hash: status.transactionHash });
+    }
+    await new Promise((resolve) => setTimeout(resolve, SAFE_POLL_INTERVAL_MS));
+  }
+}
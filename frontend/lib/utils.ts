@@ -2,7 +2,12 @@ import { formatUnits } from "viem";
 
 /** Format a 6-decimal bigint (USDC) to a human-readable string like "1,000.00" */
 export function formatUSDC(amount: bigint): string {
-  const num = Number(formatUnits(amount, 6));
+  return formatPaymentAmount(amount, 6);
+}
+
+/** Format a payment token amount with the token's own decimals, like `formatUSDC` */
+export function formatPaymentAmount(amount: bigint, decimals: number): string {
+  const num = Number(formatUnits(amount, decimals));
   return num.toLocaleString("en-US", {
     minimumFractionDigits: 2,
     maximumFractionDigits: 2,
@@ -36,6 +41,12 @@ export function formatBps(bps: number | bigint): string {
   return `${(n / 100).toFixed(2)}%`;
 }
 
+/** NAV change from `from` to `to` in bps, truncated toward zero */
+export function navChangeBps(from: bigint, to: bigint): number {
+  if (from === 0n) return 0;
+  return Number(((to - from) * 10_000n) / from);
+}
+
 /** Format a unix timestamp (bigint) to a readable date string */
 export function formatTimestamp(ts: bigint): string {
   if (ts === 0n) return "N/A";
@@ -59,6 +70,16 @@ export function timeAgo(ts: bigint): string {
   return `${Math.floor(diff / 86400)}d ago`;
 }
 
+/** Seconds as a short duration: 90000 -> "1d 1h", 5400 -> "1h 30m" */
+export function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  const d = Math.floor(seconds / 86400);
+  const h = Math.floor((seconds % 86400) / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const parts = d > 0 ? [d && `${d}d`, h && `${h}h`] : [h && `${h}h`, m && `${m}m`];
+  return parts.filter(Boolean).join(" ");
+}
+
 /** Asset type to display label */
 export function assetTypeLabel(assetType: string): string {
   switch (assetType) {
@@ -86,3 +107,28 @@ export function assetTypeBadgeClasses(assetType: string): string {
       return "bg-slate-500/20 text-slate-400 border-slate-500/30";
   }
 }
+
+/** Serialize rows (first row = header) as CSV, quoting cells where needed */
+export function toCsv(rows: string[][]): string {
+  return rows
+    .map((row) =>
+      row
+        .map((cell) => (/[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell))
+        .join(",")
+    )
+    .join("\n");
+}
+
+/** Trigger a browser download of `content` as a file */
+export function downloadTextFile(
+  filename: string,
+  content: string,
+  mimeType = "text/csv"
+): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,235 @@
+import { formatUnits, zeroAddress } from "viem";
+import { navOracleAbi, realEstateTokenAbi } from "@/lib/abi";
+import { useContractEvents, type ContractEvent } from "@/lib/event-logs";
+import { toNavSeries } from "@/lib/nav-history";
+import { toCsv } from "@/lib/utils";
+
+// A real estate token carries two prices that are updated independently:
+// RealEstateToken.totalValuation (whole property, payment token units) and
+// NAVOracle.navPerToken. Divided by supply, the first should match the
+// second; this replays both histories to show where and why they drifted.
+
+/** Oracle NAV vs valuation / supply gap that gets flagged, in bps */
+export const DRIFT_TOLERANCE_BPS = 100;
+
+const WAD = 10n ** 18n;
+
+export type ReconciliationCause =
+  | { kind: "initial" }
+  | { kind: "valuation"; oldValuation: bigint; newValuation: bigint }
+  | { kind: "nav"; oldNav: bigint; newNav: bigint }
+  | { kind: "mint" | "burn"; amount: bigint };
+
+export interface ReconciliationPoint {
+  /** Unix seconds */
+  timestamp: number;
+  blockNumber: bigint;
+  transactionHash?: `0x${string}`;
+  /** The update that produced this state */
+  cause: ReconciliationCause;
+  /** Payment token units */
+  valuation: bigint;
+  totalSupply: bigint;
+  /** Oracle NAV per token, 1e18 scale */
+  oracleNav: bigint;
+  /** totalValuation / totalSupply, 1e18 scale; null with no supply */
+  impliedNav: bigint | null;
+  /** (oracleNav - impliedNav) / impliedNav in bps; positive when the oracle is above */
+  driftBps: number | null;
+  breach: boolean;
+}
+
+/** A run of consecutive out-of-tolerance points */
+export interface DriftBreach {
+  /** The update that pushed drift past the tolerance */
+  start: ReconciliationPoint;
+  /** The update that brought it back, if any */
+  end?: ReconciliationPoint;
+  /** Largest absolute drift during the breach */
+  maxDriftBps: number;
+}
+
+/**
+ * NAV per token implied by a valuation in payment token units with
+ * `valuationDecimals` decimals, 1e18 scale; null with no supply
+ */
+export function impliedNav(valuation: bigint, totalSupply: bigint, valuationDecimals: number): bigint | null {
+  if (totalSupply === 0n) return null;
+  return (valuation * WAD * WAD) / (10n ** BigInt(valuationDecimals) * totalSupply);
+}
+
+export function driftBps(oracleNav: bigint, implied: bigint | null): number | null {
+  if (implied === null || implied === 0n) return null;
+  return Number(((oracleNav - implied) * 10_000n) / implied);
+}
+
+export function isDriftBreach(drift: number | null): boolean {
+  return drift !== null && Math.abs(drift) > DRIFT_TOLERANCE_BPS;
+}
+
+function byLogOrder(a: ContractEvent, b: ContractEvent): number {
+  if (a.blockNumber !== b.blockNumber) return a.blockNumber < b.blockNumber ? -1 : 1;
+  return a.logIndex - b.logIndex;
+}
+
+/**
+ * Replay the token's `ValuationUpdated` and mint/burn `Transfer` logs together
+ * with the oracle's `NAVUpdated` logs, in chain order, recording valuation,
+ * supply, both NAVs and the drift after every update. Valuations are in the
+ * payment token, with `valuationDecimals` decimals.
+ */
+export function reconcile(
+  tokenEvents: ContractEvent[],
+  oracleEvents: ContractEvent[],
+  currentValuation: bigint,
+  valuationDecimals: number
+): ReconciliationPoint[] {
+  const firstValuation = tokenEvents.find((e) => e.eventName === "ValuationUpdated");
+  const navSeries = toNavSeries(oracleEvents);
+
+  let valuation = firstValuation ? (firstValuation.args.oldValuation as bigint) : currentValuation;
+  let oracleNav = navSeries[0]?.nav ?? WAD;
+  let totalSupply = 0n;
+
+  const points: ReconciliationPoint[] = [];
+  const push = (e: ContractEvent | undefined, cause: ReconciliationCause) => {
+    const implied = impliedNav(valuation, totalSupply, valuationDecimals);
+    const drift = driftBps(oracleNav, implied);
+    points.push({
+      timestamp: e?.timestamp ?? navSeries[0]?.timestamp ?? 0,
+      blockNumber: e?.blockNumber ?? 0n,
+      transactionHash: e?.transactionHash,
+      cause,
+      valuation,
+      totalSupply,
+      oracleNav,
+      impliedNav: implied,
+      driftBps: drift,
+      breach: isDriftBreach(drift),
+    });
+  };
+
+  push(undefined, { kind: "initial" });
+
+  const events = [...tokenEvents, ...oracleEvents].sort(byLogOrder);
+  for (const e of events) {
+    switch (e.eventName) {
+      case "ValuationUpdated": {
+        const oldValuation = e.args.oldValuation as bigint;
+        valuation = e.args.newValuation as bigint;
+        push(e, { kind: "valuation", oldValuation, newValuation: valuation });
+        break;
+      }
+      case "NAVUpdated": {
+        const oldNav = e.args.oldNav as bigint;
+        oracleNav = e.args.newNav as bigint;
+        push(e, { kind: "nav", oldNav, newNav: oracleNav });
+        break;
+      }
+      case "Transfer": {
+        const amount = e.args.value as bigint;
+        if (e.args.from === zeroAddress) {
+          totalSupply += amount;
+          push(e, { kind: "mint", amount });
+        } else if (e.args.to === zeroAddress) {
+          totalSupply -= amount;
+          push(e, { kind: "burn", amount });
+        }
+        break;
+      }
+    }
+  }
+  return points;
+}
+
+/** Group out-of-tolerance points into breaches, each attributed to the update that opened it */
+export function driftBreaches(points: ReconciliationPoint[]): DriftBreach[] {
+  const breaches: DriftBreach[] = [];
+  let open: DriftBreach | undefined;
+  for (const p of points) {
+    if (p.breach) {
+      const drift = Math.abs(p.driftBps ?? 0);
+      if (open) open.maxDriftBps = Math.max(open.maxDriftBps, drift);
+      else breaches.push((open = { start: p, maxDriftBps: drift }));
+    } else if (open) {
+      open.end = p;
+      open = undefined;
+    }
+  }
+  return breaches;
+}
+
+export function describeCause(cause: ReconciliationCause): string {
+  switch (cause.kind) {
+    case "initial":
+      return "Initial state";
+    case "valuation":
+      return "Valuation updated";
+    case "nav":
+      return "NAV updated";
+    case "mint":
+      return "Tokens minted";
+    case "burn":
+      return "Tokens burned";
+  }
+}
+
+/** One row per replayed update, for the reconciliation report */
+export function reconciliationToCsv(points: ReconciliationPoint[], valuationDecimals: number): string {
+  return toCsv([
+    [
+      "timestamp",
+      "block",
+      "transaction",
+      "update",
+      "valuation",
+      "total_supply",
+      "oracle_nav",
+      "implied_nav",
+      "drift_bps",
+      "breach",
+    ],
+    ...points.map((p) => [
+      new Date(p.timestamp * 1000).toISOString(),
+      p.cause.kind === "initial" ? "" : p.blockNumber.toString(),
+      p.transactionHash ?? "",
+      describeCause(p.cause),
+      formatUnits(p.valuation, valuationDecimals),
+      formatUnits(p.totalSupply, 18),
+      formatUnits(p.oracleNav, 18),
+      p.impliedNav === null ? "" : formatUnits(p.impliedNav, 18),
+      p.driftBps === null ? "" : String(p.driftBps),
+      p.breach ? "yes" : "no",
+    ]),
+  ]);
+}
+
+/** Reconciled valuation and NAV history for a real estate token and its oracle */
+export function useValuationReconciliation(
+  tokenAddress: `0x${string}`,
+  oracleAddress: `0x${string}`,
+  currentValuation: bigint,
+  valuationDecimals: number
+) {
+  const tokenEvents = useContractEvents({
+    address: tokenAddress,
+    abi: realEstateTokenAbi,
+    eventNames: ["ValuationUpdated", "Transfer"],
+  });
+  const oracleEvents = useContractEvents({
+    address: oracleAddress,
+    abi: navOracleAbi,
+    eventNames: ["NAVUpdated", "OwnershipTransferred"],
+  });
+
+  const points =
+    tokenEvents.data && oracleEvents.data
+      ? reconcile(tokenEvents.data, oracleEvents.data, currentValuation, valuationDecimals)
+      : [];
+  return {
+    points,
+    breaches: driftBreaches(points),
+    isLoading: tokenEvents.isLoading || oracleEvents.isLoading,
+    error: tokenEvents.error ?? oracleEvents.error,
+  };
+}
@@ -1,20 +1,73 @@
-import { createConfig, http } from "wagmi";
+import { createConfig, http, useChainId } from "wagmi";
 import { sepolia } from "wagmi/chains";
-import { injected } from "wagmi/connectors";
+import { coinbaseWallet, injected, safe, walletConnect } from "wagmi/connectors";
+import type { Chain, Transport } from "viem";
+import { DEPLOYMENTS, deploymentChain, getDeployment } from "@/lib/deployments";
 
-export const CHAIN = sepolia;
-export const CHAIN_ID = sepolia.id;
+/**
+ * Every chain with a deployment in `deployments.json`. Sepolia stands in
+ * when the registry is empty so the app still loads and can say so.
+ */
+export const SUPPORTED_CHAINS = (
+  DEPLOYMENTS.length > 0 ? DEPLOYMENTS.map(deploymentChain) : [sepolia]
+) as [Chain, ...Chain[]];
+
+/** WalletConnect Cloud project id; WalletConnect (and Ledger Live) is off without one */
+export const WALLETCONNECT_PROJECT_ID = process.env.NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID;
+
+const APP_NAME = "RWA Protocol";
 
 export const config = createConfig({
-  chains: [sepolia],
-  connectors: [injected()],
-  transports: {
-    [sepolia.id]: http(),
-  },
+  chains: SUPPORTED_CHAINS,
+  // Browser extensions that announce themselves over EIP-6963 (including
+  // Ledger's) are added alongside these automatically.
+  connectors: [
+    injected(),
+    safe(),
+    coinbaseWallet({ appName: APP_NAME }),
+    ...(WALLETCONNECT_PROJECT_ID
+      ? [walletConnect({ projectId: WALLETCONNECT_PROJECT_ID, metadata: walletConnectMetadata() })]
+      : []),
+  ],
+  transports: Object.fromEntries(
+    SUPPORTED_CHAINS.map((chain) => [chain.id, http(getDeployment(chain.id)?.rpcUrl)])
+  ) as Record<number, Transport>,
+  // Coalesce concurrent single reads into one multicall
+  batch: { multicall: true },
 });
 
-// ─── Deployed contract addresses (set via .env.local) ─────────────────────────
-export const FACTORY_ADDRESS = (process.env.NEXT_PUBLIC_FACTORY_ADDRESS ??
-  "") as `0x${string}`;
-export const USDC_ADDRESS = (process.env.NEXT_PUBLIC_USDC_ADDRESS ??
-  "") as `0x${string}`;
+function walletConnectMetadata() {
+  const url = typeof window !== "undefined" ? window.location.origin : "https://localhost";
+  return { name: APP_NAME, description: "Tokenized real-world assets", url, icons: [] };
+}
+
+export function isSupportedChain(chainId: number | undefined): boolean {
+  return SUPPORTED_CHAINS.some((c) => c.id === chainId);
+}
+
+/**
+ * The chain the app is reading from and its deployment. Follows the wallet
+ * when it's on a supported chain, otherwise the last chain picked in the
+ * switcher. `deployment` is undefined when the registry is empty.
+ */
+export function useDeployment() {
+  const chainId = useChainId();
+  const chain = SUPPORTED_CHAINS.find((c) => c.id === chainId) ?? SUPPORTED_CHAINS[0];
+  return { chainId, chain, deployment: getDeployment(chainId) };
+}
+
+function explorerBase(chainId: number): string | undefined {
+  return SUPPORTED_CHAINS.find((c) => c.id === chainId)?.blockExplorers?.default.url;
+}
+
+/** Block explorer link for a transaction, or undefined if the chain has none */
+export function explorerTxUrl(chainId: number, hash: string): string | undefined {
+  const base = explorerBase(chainId);
+  return base ? `${base}/tx/${hash}` : undefined;
+}
+
+/** Block explorer link for an address, or undefined if the chain has none */
+export function explorerAddressUrl(chainId: number, address: string): string | undefined {
+  const base = explorerBase(chainId);
+  return base ? `${base}/address/${address}` : undefined;
+}
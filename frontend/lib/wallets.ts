@@ -0,0 +1,105 @@
+import { useQuery } from "@tanstack/react-query";
+import { useConnectors, type Connector } from "wagmi";
+
+// The connect menu groups the configured connectors (lib/wagmi.ts) and any
+// EIP-6963 extensions wagmi discovered into the wallets people recognise, and
+// says up front which of them can actually connect from this page.
+
+export interface WalletOption {
+  key: string;
+  name: string;
+  icon?: string;
+  /** Connector to use; undefined when the wallet can't connect here */
+  connector?: Connector;
+  /** One-line state shown under the name, e.g. "Detected" or why it's unavailable */
+  status: string;
+}
+
+const isLedger = (c: Connector) => /ledger/i.test(c.id) || /ledger/i.test(c.name);
+
+/** Whether a connector has a provider on this page (an extension, or the Safe{Wallet} iframe) */
+async function hasProvider(connector: Connector): Promise<boolean> {
+  try {
+    return !!(await connector.getProvider());
+  } catch {
+    return false;
+  }
+}
+
+export function useWalletOptions() {
+  const connectors = useConnectors();
+  const injected = connectors.find((c) => c.id === "injected");
+  const safe = connectors.find((c) => c.type === "safe");
+  const coinbase = connectors.find((c) => c.type === "coinbaseWallet");
+  const walletConnect = connectors.find((c) => c.type === "walletConnect");
+  // EIP-6963 announcements; they carry the extension's own name and icon
+  const discovered = connectors.filter((c) => c.type === "injected" && c.id !== "injected");
+  const ledgerExtension = discovered.find(isLedger);
+
+  const { data: available, isLoading } = useQuery({
+    queryKey: ["walletProviders", injected?.uid, safe?.uid],
+    queryFn: async () => ({
+      injected: injected ? await hasProvider(injected) : false,
+      safe: safe ? await hasProvider(safe) : false,
+    }),
+    staleTime: Infinity,
+  });
+
+  const options: WalletOption[] = [];
+
+  const browserWallets = discovered.filter((c) => c !== ledgerExtension);
+  if (browserWallets.length > 0) {
+    for (const c of browserWallets) {
+      options.push({ key: c.uid, name: c.name, icon: c.icon, connector: c, status: "Detected" });
+    }
+  } else if (injected) {
+    // Extensions that predate EIP-6963 only show up as window.ethereum
+    options.push({
+      key: injected.uid,
+      name: "Browser Wallet",
+      connector: available?.injected ? injected : undefined,
+      status: available?.injected ? "Detected" : "No browser extension found",
+    });
+  }
+
+  options.push({
+    key: "walletConnect",
+    name: "WalletConnect",
+    connector: walletConnect,
+    status: walletConnect ? "Scan a QR code with a mobile wallet" : "Not configured for this app",
+  });
+
+  if (coinbase) {
+    options.push({
+      key: coinbase.uid,
+      name: "Coinbase Wallet",
+      connector: coinbase,
+      status: "Extension, mobile app or smart wallet",
+    });
+  }
+
+  if (safe) {
+    options.push({
+      key: safe.uid,
+      name: "Safe",
+      connector: available?.safe ? safe : undefined,
+      status: available?.safe ? "Running inside Safe{Wallet}" : "Open this app from Safe{Wallet} to use a Safe",
+    });
+  }
+
+  // Ledger has no connector of its own: the Ledger extension announces itself
+  // like any other, and Ledger Live pairs over WalletConnect.
+  options.push({
+    key: "ledger",
+    name: "Ledger",
+    icon: ledgerExtension?.icon,
+    connector: ledgerExtension ?? walletConnect,
+    status: ledgerExtension
+      ? "Ledger extension detected"
+      : walletConnect
+        ? "Pair Ledger Live over WalletConnect"
+        : "Needs the Ledger extension or WalletConnect",
+  });
+
+  return { options, safeAvailable: !!available?.safe, isLoading };
+}
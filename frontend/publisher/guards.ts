@@ -0,0 +1,64 @@
+import { formatUnits } from "viem";
+import { navChangeBps } from "../lib/utils";
+import type { NavQuote } from "./sources";
+
+// Checks a quote has to pass before it's signed. NAVOracle.updateNAV only
+// enforces the monotonic rule (and reverts with NAVDecreased); the rest catch
+// a bad feed before it reaches every investor's price.
+
+export interface NavBounds {
+  /** Largest move from the on-chain NAV in a single update, in bps */
+  maxChangeBps: number;
+  /** Absolute floor and ceiling for NAV per token, 1e18 scale */
+  minNav?: bigint;
+  maxNav?: bigint;
+  /** Quotes priced longer ago than this are refused, in seconds */
+  maxQuoteAgeSec: number;
+}
+
+export type NavRejection =
+  | { kind: "zero" }
+  | { kind: "decrease"; currentNav: bigint }
+  | { kind: "change"; changeBps: number; maxChangeBps: number }
+  | { kind: "below-min"; minNav: bigint }
+  | { kind: "above-max"; maxNav: bigint }
+  | { kind: "stale-quote"; ageSec: number; maxQuoteAgeSec: number };
+
+/** Every rule `quote` breaks against the current on-chain NAV; empty if it can be published */
+export function checkNav(quote: NavQuote, currentNav: bigint, bounds: NavBounds, now: number): NavRejection[] {
+  const rejections: NavRejection[] = [];
+  if (quote.nav === 0n) rejections.push({ kind: "zero" });
+  if (quote.nav < currentNav) rejections.push({ kind: "decrease", currentNav });
+
+  const change = navChangeBps(currentNav, quote.nav);
+  if (Math.abs(change) > bounds.maxChangeBps) {
+    rejections.push({ kind: "change", changeBps: change, maxChangeBps: bounds.maxChangeBps });
+  }
+  if (bounds.minNav !== undefined && quote.nav < bounds.minNav) {
+    rejections.push({ kind: "below-min", minNav: bounds.minNav });
+  }
+  if (bounds.maxNav !== undefined && quote.nav > bounds.maxNav) {
+    rejections.push({ kind: "above-max", maxNav: bounds.maxNav });
+  }
+  if (quote.asOf !== undefined && now - quote.asOf > bounds.maxQuoteAgeSec) {
+    rejections.push({ kind: "stale-quote", ageSec: now - quote.asOf, maxQuoteAgeSec: bounds.maxQuoteAgeSec });
+  }
+  return rejections;
+}
+
+export function describeRejection(r: NavRejection): string {
+  switch (r.kind) {
+    case "zero":
+      return "NAV is zero";
+    case "decrease":
+      return `below the on-chain NAV ${formatUnits(r.currentNav, 18)} (would revert with NAVDecreased)`;
+    case "change":
+      return `moves ${(r.changeBps / 100).toFixed(2)}% in one update (limit ${(r.maxChangeBps / 100).toFixed(2)}%)`;
+    case "below-min":
+      return `below the ${formatUnits(r.minNav, 18)} floor`;
+    case "above-max":
+      return `above the ${formatUnits(r.maxNav, 18)} ceiling`;
+    case "stale-quote":
+      return `priced ${Math.round(r.ageSec / 3600)}h ago (limit ${Math.round(r.maxQuoteAgeSec / 3600)}h)`;
+  }
+}
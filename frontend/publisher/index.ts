@@ -0,0 +1,132 @@
+// NAV publisher service. Run with `npm run publisher` (or `-- --once` from
+// cron); configured by env vars.
+
+import {
+  createPublicClient,
+  createWalletClient,
+  defineChain,
+  getAddress,
+  http,
+  isAddress,
+  parseUnits,
+  type PublicClient,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { AssetFactoryClient, NAVOracleClient } from "../lib/sdk";
+import { getDeployment, knownChain } from "../lib/deployments";
+import { decryptKeystore } from "../cli/keystore";
+import { NavPublisher, SubmissionLog } from "./publisher";
+import { createSource } from "./sources";
+
+/** Whole number from the environment, at least `min`; a typo must not silently disable a bound */
+function envInt(name: string, fallback: number, min = 0): number {
+  const value = process.env[name];
+  if (value === undefined || value === "") return fallback;
+  const n = Number(value);
+  if (!/^\d+$/.test(value.trim()) || n < min) throw new Error(`${name} must be a whole number of at least ${min}`);
+  return n;
+}
+
+/** NAV per token from the environment as a positive decimal, e.g. 1.05 */
+function envNav(name: string): bigint | undefined {
+  const value = process.env[name];
+  if (!value) return undefined;
+  if (!/^\d+(\.\d{1,18})?$/.test(value.trim())) throw new Error(`${name} must be a positive decimal NAV, e.g. 1.05`);
+  return parseUnits(value.trim(), 18);
+}
+
+/** Fraction of maxStaleness after which an unchanged NAV is republished; must be strictly between 0 and 1 */
+function heartbeatRatio(): number {
+  const value = process.env.RWA_PUBLISHER_HEARTBEAT_RATIO;
+  if (value === undefined || value === "") return 0.5;
+  const ratio = Number(value);
+  if (!(ratio > 0 && ratio < 1)) throw new Error("RWA_PUBLISHER_HEARTBEAT_RATIO must be between 0 and 1, exclusive");
+  return ratio;
+}
+
+async function signerKey(): Promise<`0x${string}`> {
+  if (process.env.RWA_PRIVATE_KEY) return process.env.RWA_PRIVATE_KEY as `0x${string}`;
+  const keystore = process.env.RWA_KEYSTORE;
+  if (keystore) {
+    const password = process.env.RWA_KEYSTORE_PASSWORD;
+    if (password === undefined) throw new Error("RWA_KEYSTORE needs RWA_KEYSTORE_PASSWORD");
+    return decryptKeystore(keystore, password);
+  }
+  throw new Error("Set RWA_PRIVATE_KEY or RWA_KEYSTORE to the oracle updater's key");
+}
+
+/** RWA_PUBLISHER_ORACLE, or the oracle of factory asset RWA_PUBLISHER_ASSET */
+async function resolveOracle(publicClient: PublicClient, chainId: number) {
+  const oracle = process.env.RWA_PUBLISHER_ORACLE;
+  if (oracle) {
+    if (!isAddress(oracle, { strict: false })) throw new Error("RWA_PUBLISHER_ORACLE is not an address");
+    return getAddress(oracle);
+  }
+  const index = process.env.RWA_PUBLISHER_ASSET;
+  const factory = process.env.RWA_FACTORY_ADDRESS ?? getDeployment(chainId)?.factory;
+  if (index === undefined || !factory || !isAddress(factory, { strict: false })) {
+    throw new Error(
+      "Set RWA_PUBLISHER_ORACLE, or RWA_PUBLISHER_ASSET with RWA_FACTORY_ADDRESS (or an imported deployment)"
+    );
+  }
+  const asset = await new AssetFactoryClient(getAddress(factory), { publicClient }).getDeployedAsset(Number(index));
+  return asset.navOracle;
+}
+
+async function main() {
+  const sourceSpec = process.env.RWA_PUBLISHER_SOURCE;
+  if (!sourceSpec) throw new Error("Set RWA_PUBLISHER_SOURCE to file:<path>, csv:<dir> or an http(s) URL");
+  const source = createSource(sourceSpec, {
+    fund: process.env.RWA_PUBLISHER_FUND,
+    field: process.env.RWA_PUBLISHER_FIELD,
+    asOfField: process.env.RWA_PUBLISHER_AS_OF_FIELD,
+  });
+
+  const rpcUrl = process.env.RWA_RPC_URL ?? "http://127.0.0.1:8545";
+  const transport = http(rpcUrl);
+  const chainId = await createPublicClient({ transport }).getChainId();
+  const chain =
+    knownChain(chainId) ??
+    defineChain({
+      id: chainId,
+      name: `chain-${chainId}`,
+      nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+      rpcUrls: { default: { http: [rpcUrl] } },
+    });
+  const publicClient = createPublicClient({ chain, transport }) as PublicClient;
+  const account = privateKeyToAccount(await signerKey());
+  const walletClient = createWalletClient({ chain, transport, account });
+
+  const oracle = new NAVOracleClient(await resolveOracle(publicClient, chainId), { publicClient, walletClient });
+  const logPath = process.env.RWA_PUBLISHER_LOG ?? "nav-publisher.jsonl";
+  const publisher = new NavPublisher(oracle, source, new SubmissionLog(logPath), {
+    signer: account.address,
+    bounds: {
+      maxChangeBps: envInt("RWA_PUBLISHER_MAX_CHANGE_BPS", 500),
+      minNav: envNav("RWA_PUBLISHER_MIN_NAV"),
+      maxNav: envNav("RWA_PUBLISHER_MAX_NAV"),
+      maxQuoteAgeSec: envInt("RWA_PUBLISHER_MAX_QUOTE_AGE", 86400),
+    },
+    heartbeatRatio: heartbeatRatio(),
+    pollIntervalMs: envInt("RWA_PUBLISHER_POLL_MS", 60_000, 1000),
+    maxRetries: envInt("RWA_PUBLISHER_RETRIES", 3),
+    retryDelayMs: envInt("RWA_PUBLISHER_RETRY_DELAY_MS", 5000),
+  });
+
+  console.info(`[publisher] ${oracle.address} from ${source.name} as ${account.address}, logging to ${logPath}`);
+  if (process.argv.includes("--once")) {
+    await publisher.tick();
+    return;
+  }
+
+  const controller = new AbortController();
+  const shutdown = () => controller.abort();
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
+  await publisher.run(controller.signal);
+}
+
+main().catch((err: unknown) => {
+  console.error("[publisher]", err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,217 @@
+import { appendFileSync } from "node:fs";
+import { formatUnits, type Address, type Hash } from "viem";
+import { decodeContractError, formatContractError } from "../lib/errors";
+import type { NAVOracleClient } from "../lib/sdk";
+import { checkNav, describeRejection, type NavBounds } from "./guards";
+import type { NavQuote, NavSource } from "./sources";
+
+export interface PublisherConfig {
+  /** Address the wallet client signs with; must be the oracle's updater */
+  signer: Address;
+  bounds: NavBounds;
+  /** Republish an unchanged NAV once this fraction of maxStaleness has passed */
+  heartbeatRatio: number;
+  /** How often to read the source and the oracle */
+  pollIntervalMs: number;
+  /** Extra attempts after a failed fetch or submission */
+  maxRetries: number;
+  /** Delay before the first retry; doubles on each one after */
+  retryDelayMs: number;
+}
+
+type Logger = Pick<Console, "info" | "warn" | "error">;
+
+export type PublishReason = "new-nav" | "heartbeat";
+
+/** What the publisher was looking at when it acted */
+interface SubmissionContext {
+  oracle: Address;
+  nav: string;
+  previousNav: string;
+  origin: string;
+  /** ISO time the source priced the NAV at, if it said */
+  asOf?: string;
+  /** ISO time the current on-chain NAV goes stale */
+  staleAt: string;
+}
+
+/** One line of the submission log */
+export type SubmissionRecord = SubmissionContext & (
+  | { event: "rejected"; reasons: string[] }
+  | { event: "submitted"; reason: PublishReason; attempt: number; hash: Hash }
+  | { event: "confirmed"; reason: PublishReason; attempt: number; hash: Hash; blockNumber: string; gasUsed: string }
+  | { event: "failed"; reason: PublishReason; attempt: number; hash?: Hash; error: string; willRetry: boolean }
+);
+
+/** Appends every submission as a JSON line to `path`, and echoes it to the console */
+export class SubmissionLog {
+  constructor(
+    private readonly path: string,
+    private readonly log: Logger = console
+  ) {}
+
+  record(entry: SubmissionRecord) {
+    const line = JSON.stringify({ time: new Date().toISOString(), ...entry });
+    appendFileSync(this.path, line + "\n");
+    (entry.event === "failed" || entry.event === "rejected" ? this.log.warn : this.log.info)(`[publisher] ${line}`);
+  }
+}
+
+/** Time to republish an unchanged NAV, in unix seconds */
+export function heartbeatAt(lastUpdated: bigint, maxStaleness: bigint, heartbeatRatio: number): number {
+  return Number(lastUpdated) + Math.floor(Number(maxStaleness) * heartbeatRatio);
+}
+
+const isoTime = (seconds: number | bigint) => new Date(Number(seconds) * 1000).toISOString();
+
+/**
+ * Keeps one NAVOracle fed from a NAV source. Each tick reads the oracle and
+ * the source, refuses quotes that fail the guards, and publishes when the NAV
+ * has risen or the heartbeat is due, well before `lastUpdated + maxStaleness`
+ * would make invest and redeem revert with StaleNAV.
+ */
+export class NavPublisher {
+  /** Last rejected quote and why, so a source stuck on a bad value is logged once */
+  private lastRejected?: string;
+
+  constructor(
+    private readonly oracle: NAVOracleClient,
+    private readonly source: NavSource,
+    private readonly submissions: SubmissionLog,
+    private readonly config: PublisherConfig,
+    private readonly log: Logger = console
+  ) {}
+
+  async tick(now = Math.floor(Date.now() / 1000)) {
+    const [currentNav, lastUpdated, maxStaleness, updater] = await Promise.all([
+      this.oracle.navPerToken(),
+      this.oracle.lastUpdated(),
+      this.oracle.maxStaleness(),
+      this.oracle.updater(),
+    ]);
+    const staleAt = Number(lastUpdated + maxStaleness);
+    if (updater.toLowerCase() !== this.config.signer.toLowerCase()) {
+      this.log.error(
+        `[publisher] ${this.config.signer} is not the oracle's updater (${updater}); NAV goes stale at ${isoTime(staleAt)}`
+      );
+      return;
+    }
+
+    const quote = await this.withRetries(`fetch from ${this.source.name}`, () => this.source.fetch());
+    if (!quote) return;
+
+    const base: SubmissionContext = {
+      oracle: this.oracle.address,
+      nav: formatUnits(quote.nav, 18),
+      previousNav: formatUnits(currentNav, 18),
+      origin: quote.origin,
+      asOf: quote.asOf !== undefined ? isoTime(quote.asOf) : undefined,
+      staleAt: isoTime(staleAt),
+    };
+
+    const rejections = checkNav(quote, currentNav, this.config.bounds, now);
+    if (rejections.length > 0) {
+      const reasons = rejections.map(describeRejection);
+      const key = `${quote.nav}@${quote.asOf ?? ""}: ${reasons.join("; ")}`;
+      if (key !== this.lastRejected) {
+        this.submissions.record({ ...base, event: "rejected", reasons });
+        this.lastRejected = key;
+      }
+      return;
+    }
+    this.lastRejected = undefined;
+
+    const reason: PublishReason | undefined =
+      quote.nav > currentNav
+        ? "new-nav"
+        : now >= heartbeatAt(lastUpdated, maxStaleness, this.config.heartbeatRatio)
+          ? "heartbeat"
+          : undefined;
+    if (reason) await this.publish(quote, reason, base);
+  }
+
+  /** Tick every pollIntervalMs until `signal` aborts */
+  async run(signal: AbortSignal) {
+    while (!signal.aborted) {
+      try {
+        await this.tick();
+      } catch (err) {
+        this.log.error("[publisher] tick failed:", err instanceof Error ? err.message : err);
+      }
+      await sleep(this.config.pollIntervalMs, signal);
+    }
+  }
+
+  private async publish(quote: NavQuote, reason: PublishReason, base: SubmissionContext) {
+    for (let attempt = 1; attempt <= this.config.maxRetries + 1; attempt++) {
+      const willRetry = attempt <= this.config.maxRetries;
+      let hash: Hash | undefined;
+      try {
+        // updateNAV simulates first, so a revert surfaces here without spending gas
+        hash = await this.oracle.updateNAV(quote.nav);
+        this.submissions.record({ ...base, event: "submitted", reason, attempt, hash });
+        const receipt = await this.oracle.waitForReceipt(hash);
+        if (receipt.status === "success") {
+          this.submissions.record({
+            ...base,
+            event: "confirmed",
+            reason,
+            attempt,
+            hash,
+            blockNumber: receipt.blockNumber.toString(),
+            gasUsed: receipt.gasUsed.toString(),
+          });
+          return;
+        }
+        this.submissions.record({ ...base, event: "failed", reason, attempt, hash, error: "Transaction reverted", willRetry });
+      } catch (err) {
+        const decoded = decodeContractError(err);
+        // A custom error (NAVDecreased, NotUpdater) won't go away on retry
+        const retryable = willRetry && !decoded;
+        this.submissions.record({
+          ...base,
+          event: "failed",
+          reason,
+          attempt,
+          hash,
+          error: decoded?.errorName ?? formatContractError(err),
+          willRetry: retryable,
+        });
+        if (!retryable) return;
+      }
+      if (willRetry) await sleep(this.config.retryDelayMs * 2 ** (attempt - 1));
+    }
+  }
+
+  private async withRetries<T>(what: string, fn: () => Promise<T>): Promise<T | undefined> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await fn();
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        if (attempt > this.config.maxRetries) {
+          this.log.error(`[publisher] ${what} failed after ${attempt} attempts: ${message}`);
+          return undefined;
+        }
+        this.log.warn(`[publisher] ${what} failed (attempt ${attempt}): ${message}`);
+        await sleep(this.config.retryDelayMs * 2 ** (attempt - 1));
+      }
+    }
+  }
+}
+
+/** Resolves after `ms`, or early on abort; the abort listener is removed either way */
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    if (signal?.aborted) return resolve();
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,160 @@
+import { readFile, readdir, stat } from "node:fs/promises";
+import { join } from "node:path";
+import { parseUnits } from "viem";
+
+export interface NavQuote {
+  /** NAV per token, 1e18 scale */
+  nav: bigint;
+  /** When the source priced it, unix seconds; undefined if it doesn't say */
+  asOf?: number;
+  /** Where the value came from, for the submission log */
+  origin: string;
+}
+
+/** Somewhere a NAV per token can be read from */
+export interface NavSource {
+  readonly name: string;
+  fetch(): Promise<NavQuote>;
+}
+
+const NAV_RE = /^\d+(\.\d{1,18})?$/;
+
+function parseNav(value: unknown, origin: string): bigint {
+  const text = typeof value === "number" ? String(value) : typeof value === "string" ? value.trim() : "";
+  if (!NAV_RE.test(text)) throw new Error(`${origin}: "${String(value)}" is not a NAV (expected e.g. 1.0523)`);
+  return parseUnits(text, 18);
+}
+
+/** Unix seconds from a timestamp in seconds or an ISO date */
+function parseAsOf(value: unknown, origin: string): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  if (typeof value === "number" || /^\d+$/.test(String(value))) return Number(value);
+  const ms = Date.parse(String(value));
+  if (Number.isNaN(ms)) throw new Error(`${origin}: "${String(value)}" is not a date`);
+  return Math.floor(ms / 1000);
+}
+
+/** Read a dotted path ("data.nav") out of parsed JSON */
+function pick(json: unknown, path: string): unknown {
+  return path.split(".").reduce<unknown>(
+    (value, key) => (value && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined),
+    json
+  );
+}
+
+/**
+ * A local file holding either a bare NAV (`1.0523`) or JSON like
+ * `{ "nav": "1.0523", "asOf": "2026-10-19T16:00:00Z" }`.
+ */
+export class FileSource implements NavSource {
+  readonly name: string;
+
+  constructor(private readonly path: string) {
+    this.name = `file:${path}`;
+  }
+
+  async fetch(): Promise<NavQuote> {
+    const text = (await readFile(this.path, "utf8")).trim();
+    if (!text.startsWith("{")) return { nav: parseNav(text, this.name), origin: this.name };
+    const json = JSON.parse(text) as Record<string, unknown>;
+    return { nav: parseNav(json.nav, this.name), asOf: parseAsOf(json.asOf, this.name), origin: this.name };
+  }
+}
+
+/**
+ * A directory the fund administrator drops CSV files into. The newest file
+ * wins, and within it the last row (for `fund`, if set). Columns are matched
+ * by header: `nav`, optionally `as_of` / `date`, and `fund` to filter on.
+ */
+export class CsvDropSource implements NavSource {
+  readonly name: string;
+
+  constructor(
+    private readonly dir: string,
+    private readonly fund?: string
+  ) {
+    this.name = `csv:${dir}`;
+  }
+
+  async fetch(): Promise<NavQuote> {
+    const file = await this.newestFile();
+    const origin = `csv:${file}`;
+    const [header, ...rows] = (await readFile(file, "utf8"))
+      .split(/\r?\n/)
+      .filter((line) => line.trim() !== "")
+      .map(splitCsvLine);
+    if (!header) throw new Error(`${origin}: empty file`);
+
+    const columns = header.map((h) => h.toLowerCase());
+    const navCol = columns.findIndex((c) => c === "nav" || c === "nav_per_token");
+    const asOfCol = columns.findIndex((c) => c === "as_of" || c === "date");
+    const fundCol = columns.indexOf("fund");
+    if (navCol < 0) throw new Error(`${origin}: no "nav" column`);
+    if (this.fund && fundCol < 0) throw new Error(`${origin}: no "fund" column to find ${this.fund} in`);
+
+    const matching = this.fund ? rows.filter((r) => r[fundCol] === this.fund) : rows;
+    const row = matching[matching.length - 1];
+    if (!row) throw new Error(`${origin}: no rows${this.fund ? ` for ${this.fund}` : ""}`);
+    return {
+      nav: parseNav(row[navCol], origin),
+      asOf: asOfCol >= 0 ? parseAsOf(row[asOfCol], origin) : undefined,
+      origin,
+    };
+  }
+
+  private async newestFile(): Promise<string> {
+    const names = (await readdir(this.dir)).filter((n) => n.toLowerCase().endsWith(".csv"));
+    if (names.length === 0) throw new Error(`${this.name}: no .csv files`);
+    const files = await Promise.all(
+      names.map(async (n) => ({ path: join(this.dir, n), mtime: (await stat(join(this.dir, n))).mtimeMs }))
+    );
+    return files.sort((a, b) => b.mtime - a.mtime)[0].path;
+  }
+}
+
+function splitCsvLine(line: string): string[] {
+  return line.split(",").map((cell) => cell.trim().replace(/^"(.*)"$/, "$1"));
+}
+
+/**
+ * A JSON (or plain text) HTTP endpoint, e.g. the fund admin's pricing API or
+ * a mock of it. `field` and `asOfField` are dotted paths into the response.
+ */
+export class HttpSource implements NavSource {
+  readonly name: string;
+
+  constructor(
+    private readonly url: string,
+    private readonly options: { field?: string; asOfField?: string; timeoutMs?: number } = {}
+  ) {
+    this.name = url;
+  }
+
+  async fetch(): Promise<NavQuote> {
+    const res = await fetch(this.url, {
+      headers: { accept: "application/json, text/plain" },
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? 10_000),
+    });
+    if (!res.ok) throw new Error(`${this.url}: HTTP ${res.status}`);
+    const text = (await res.text()).trim();
+    if (!text.startsWith("{")) return { nav: parseNav(text, this.url), origin: this.url };
+
+    const json = JSON.parse(text) as unknown;
+    return {
+      nav: parseNav(pick(json, this.options.field ?? "nav"), this.url),
+      asOf: parseAsOf(pick(json, this.options.asOfField ?? "asOf"), this.url),
+      origin: this.url,
+    };
+  }
+}
+
+/** Build a source from `file:<path>`, `csv:<dir>` or an http(s) URL */
+export function createSource(
+  spec: string,
+  options: { fund?: string; field?: string; asOfField?: string } = {}
+): NavSource {
+  if (spec.startsWith("file:")) return new FileSource(spec.slice("file:".length));
+  if (spec.startsWith("csv:")) return new CsvDropSource(spec.slice("csv:".length), options.fund);
+  if (/^https?:\/\//.test(spec)) return new HttpSource(spec, options);
+  throw new Error(`Unknown NAV source "${spec}" (expected file:<path>, csv:<dir> or an http(s) URL)`);
+}